@@ -109,6 +109,12 @@ export const COMBAT_SFX: AudioAsset[] = [
     volume: 0.8,
     category: 'sfx'
   },
+  {
+    id: 'sfx_player_death',
+    src: createAudioPaths('/audio/sfx/player_death'),
+    volume: 0.9,
+    category: 'sfx'
+  },
   {
     id: 'sfx_boss_hit',
     src: createAudioPaths('/audio/sfx/boss_hit'),
@@ -167,6 +173,18 @@ export const INTERACTION_SFX: AudioAsset[] = [
     volume: 0.8,
     category: 'sfx'
   },
+  {
+    id: 'sfx_block_push',
+    src: createAudioPaths('/audio/sfx/block_push'),
+    volume: 0.6,
+    category: 'sfx'
+  },
+  {
+    id: 'sfx_switch',
+    src: createAudioPaths('/audio/sfx/switch'),
+    volume: 0.7,
+    category: 'sfx'
+  },
   {
     id: 'sfx_secret_reveal',
     src: createAudioPaths('/audio/sfx/secret_reveal'),
@@ -184,6 +202,12 @@ export const INTERACTION_SFX: AudioAsset[] = [
     src: createAudioPaths('/audio/sfx/puzzle_solve'),
     volume: 0.7,
     category: 'sfx'
+  },
+  {
+    id: 'sfx_heart_container',
+    src: createAudioPaths('/audio/sfx/heart_container'),
+    volume: 0.9,
+    category: 'sfx'
   }
 ];
 
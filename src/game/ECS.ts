@@ -1,7 +1,7 @@
 // Entity-Component-System implementation
 // Following Game Architect specifications for scalable architecture
 
-import type { Component, Entity } from '@shared/types.js';
+import type { Component, EnemyComponent, EnemyDefinition, Entity } from '@shared/types.js';
 
 // Component registry for type checking
 export class ComponentRegistry {
@@ -156,6 +156,11 @@ export class World {
     return [...this.systemExecutionOrder];
   }
 
+  // First registered system of the given class
+  getSystem<T extends System>(type: abstract new (...args: any[]) => T): T | undefined {
+    return this.systemExecutionOrder.find((system): system is T => system instanceof type);
+  }
+
   // Update all systems
   update(deltaTime: number): void {
     for (const system of this.systemExecutionOrder) {
@@ -336,6 +341,8 @@ export const ECSUtils = {
         entityId: '',
         stamina: 100,
         maxStamina: 100,
+        movementState: 'walking',
+        rollTimer: 0,
         gleam: 0,
         hearts: 3,
         inventory: {
@@ -352,8 +359,70 @@ export const ECSUtils = {
           keys: {},
           heart_pieces: 0,
           rumor_cards: 0
+        },
+        equipment: {
+          equipped: 'sunflame_lantern',
+          quickSwap: null
         }
       })
       .build();
+  },
+
+  // Create an enemy entity from its species definition
+  createEnemyEntity(world: World, definition: EnemyDefinition, position: { x: number; y: number }): Entity {
+    return EntityBuilder.create(world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: 'enemy',
+        frame: 0,
+        tint: definition.tint,
+        alpha: 1
+      })
+      .with({
+        type: 'movement',
+        entityId: '',
+        velocity: { x: 0, y: 0 },
+        speed: definition.speed,
+        direction: 'down' as const
+      })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: 12, height: 12 },
+        solid: true,
+        trigger: false
+      })
+      .with({
+        type: 'health',
+        entityId: '',
+        current: definition.health,
+        maximum: definition.health,
+        invulnerable: false,
+        invulnerabilityTimer: 0
+      })
+      .with<EnemyComponent>({
+        type: 'enemy',
+        entityId: '',
+        species: definition.id,
+        state: 'idle',
+        stateTimer: 0,
+        home: { ...position },
+        patrolTarget: null,
+        targetId: null,
+        attackCooldown: 0,
+        attackVector: { x: 0, y: 1 },
+        orbitAngle: Math.random() * Math.PI * 2,
+        burrowed: false,
+        struck: false
+      })
+      .build();
   }
 };
\ No newline at end of file
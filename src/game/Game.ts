@@ -2,7 +2,7 @@
 // Following Game Architect specifications for Phaser 3 + React integration
 
 import Phaser from 'phaser';
-import { CANVAS_WIDTH, CANVAS_HEIGHT, TARGET_FPS } from '@shared/constants.js';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, TARGET_FPS, AUTOSAVE_SLOT } from '@shared/constants.js';
 import { gameEvents } from '@shared/events.js';
 
 // Scene imports
@@ -74,6 +74,7 @@ export const gameConfig: Phaser.Types.Core.GameConfig = {
 export class EchoesGame {
   private game: Phaser.Game | null = null;
   private isInitialized = false;
+  private unsubscribers: Array<() => void> = [];
 
   constructor() {
     // Bind methods to preserve context
@@ -114,6 +115,18 @@ export class EchoesGame {
     // Handle page unload
     window.addEventListener('beforeunload', this.handleBeforeUnload);
 
+    // Save & Quit and the pause menu's Main Menu leave the world for the title screen
+    this.unsubscribers.push(
+      gameEvents.on('game.quit.request', () => {
+        this.quitToTitle();
+      }),
+
+      // The title screen's Continue / New Game
+      gameEvents.on('game.start.request', (event: any) => {
+        this.startWorld(event.payload?.loadSlot ?? null);
+      })
+    );
+
     // Game-specific events
     this.game.events.on('ready', () => {
       console.log('Echoes of Aeria - Game Ready');
@@ -210,47 +223,35 @@ export class EchoesGame {
     }
   }
 
+  private quitToTitle(): void {
+    const scenes = this.game?.scene;
+    if (!scenes || !(scenes.isActive('WorldScene') || scenes.isPaused('WorldScene'))) return;
+
+    // Stopping shuts the scene down, which tears down its ECS world
+    scenes.stop('WorldScene');
+    gameEvents.emit({
+      type: 'game.state.changed',
+      payload: { state: 'menu' },
+      timestamp: Date.now()
+    });
+  }
+
+  private startWorld(loadSlot: number | null): void {
+    if (!this.game || this.game.scene.isActive('WorldScene')) return;
+
+    this.game.scene.start('WorldScene', { loadSlot });
+    gameEvents.emit({
+      type: 'game.state.changed',
+      payload: { state: 'playing' },
+      timestamp: Date.now()
+    });
+  }
+
   private saveGameState(): void {
     // Trigger save system through events
     gameEvents.emit({
-      type: 'save.game.saved',
-      payload: { 
-        saveSlot: 0, 
-        saveData: {
-          version: '1.0.0',
-          timestamp: Date.now(),
-          player: {
-            position: { x: 0, y: 0 },
-            realm: 'dayrealm' as const,
-            health: 6,
-            inventory: {
-              sunflame_lantern: true,
-              gale_boots: false,
-              riverfin_vest: false,
-              aether_mirror: false,
-              storm_disk: false,
-              quake_maul: false,
-              tide_hook: false,
-              sunflame_prism: false,
-              kingsbane_sigil: false,
-              aether_shards: 0,
-              keys: {},
-              heart_pieces: 0,
-              rumor_cards: 0
-            }
-          },
-          world: {
-            currentMap: 'hearthmere',
-            flags: {},
-            discoveredAreas: []
-          },
-          progress: {
-            aetherShards: 0,
-            completedQuests: [],
-            unlockedAreas: []
-          }
-        }
-      },
+      type: 'save.game.request',
+      payload: { slot: AUTOSAVE_SLOT },
       timestamp: Date.now()
     });
   }
@@ -270,6 +271,8 @@ export class EchoesGame {
     // Clean up event listeners
     document.removeEventListener('visibilitychange', this.handleVisibilityChange);
     window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
 
     // Save state before destroying
     this.saveGameState();
@@ -3,23 +3,65 @@
 
 import Phaser from 'phaser';
 import { World, EntityBuilder } from '../ECS.js';
-import { gameEvents } from '@shared/events.js';
-import { TILE_SIZE, WORLD_WIDTH, WORLD_HEIGHT, TOWNS, TUTORIAL } from '@shared/constants.js';
+import {
+  gameEvents,
+  createEvent,
+  emitTypedEvent,
+  GAME_EVENTS,
+  type PlayerRespawnedEvent,
+  type PortalTriggeredEvent,
+  type RealmSwitchStartEvent
+} from '@shared/events.js';
+import {
+  TILE_SIZE,
+  WORLD_WIDTH,
+  WORLD_HEIGHT,
+  TOWNS,
+  TUTORIAL,
+  OVERWORLD_MAP_ID,
+  OVERWORLD_MUSIC_TRACK,
+  OVERWORLD_SPAWNS,
+  PORTAL_TRANSITION_DURATION,
+  BOSS_MUSIC_TRACK
+} from '@shared/constants.js';
 import { WorldGenerator, type WorldTile } from '../utils/WorldGenerator.js';
-import { TileType } from '@shared/types.js';
+import { mapLoader, type LoadedMap } from '../utils/MapLoader.js';
+import { TileType, type MovementComponent, type Rectangle, type TransformComponent } from '@shared/types.js';
 
 // Import systems
 import { MovementSystem } from '../systems/MovementSystem.js';
 import { RenderSystem } from '../systems/RenderSystem.js';
 import { CollisionSystem } from '../systems/CollisionSystem.js';
 import { InputSystem } from '../systems/InputSystem.js';
+import { PlayerControllerSystem } from '../systems/PlayerControllerSystem.js';
 import { InteractionSystem } from '../systems/InteractionSystem.js';
+import { DialogueSystem } from '../systems/DialogueSystem.js';
 import { InventorySystem } from '../systems/InventorySystem.js';
-import { VisualEffectsSystem } from '../systems/VisualEffectsSystem.js';
+import { VisualEffectsSystem, TransitionType } from '../systems/VisualEffectsSystem.js';
 import { CombatSystem } from '../systems/CombatSystem.js';
+import { ItemAbilitySystem } from '../systems/ItemAbilitySystem.js';
+import { ProjectileSystem } from '../systems/ProjectileSystem.js';
+import { StatusEffectSystem } from '../systems/StatusEffectSystem.js';
+import { LootSystem } from '../systems/LootSystem.js';
+import { ShopSystem } from '../systems/ShopSystem.js';
+import { EnemyAISystem } from '../systems/EnemyAISystem.js';
+import { EnemySpawnSystem } from '../systems/EnemySpawnSystem.js';
+import { BossSystem } from '../systems/BossSystem.js';
+import { HealthProgressionSystem } from '../systems/HealthProgressionSystem.js';
+import { RespawnSystem } from '../systems/RespawnSystem.js';
+import { LockSystem } from '../systems/LockSystem.js';
+import { PuzzleSystem } from '../systems/PuzzleSystem.js';
+import { TileChunkRenderer } from '../systems/TileChunkRenderer.js';
+import { QuestSystem } from '../systems/QuestSystem.js';
+import { SaveSystem } from '../systems/SaveSystem.js';
+import { EclipseOverlaySystem } from '../systems/EclipseOverlaySystem.js';
+import { RealmSystem } from '../systems/RealmSystem.js';
+import { PortalSystem } from '../systems/PortalSystem.js';
+import { LightingSystem } from '../systems/LightingSystem.js';
+import { LightingRenderer } from '../systems/LightingRenderer.js';
 import { WeatherSystem, WeatherType } from '../systems/WeatherSystem.js';
 import { audioManager } from '../systems/AudioManager.js';
-import { AudioUtils } from '../utils/audioUtils.js';
+import { AudioUtils, CombatAudio, UIAudio, WorldAudio } from '../utils/audioUtils.js';
 
 // Add missing types for Web Audio API
 declare global {
@@ -31,16 +73,13 @@ declare global {
 export class WorldScene extends Phaser.Scene {
   private ecsWorld!: World;
   private playerEntity!: string;
-  private currentMap = 'hearthmere';
+  private currentMap = OVERWORLD_MAP_ID;
   private worldGenerator!: WorldGenerator;
   private worldTiles: WorldTile[][] = [];
+  private overworldTiles: WorldTile[][] = [];
   private currentRealm: 'dayrealm' | 'eclipse' = 'dayrealm';
   
   // Performance tracking
-  private lastCameraX = 0;
-  private lastCameraY = 0;
-  private lastRenderTime = 0;
-  private readonly RENDER_INTERVAL = 16; // ~60fps limit for world rendering
   private frameCount = 0;
   private lastFPSTime = 0;
   
@@ -55,13 +94,30 @@ export class WorldScene extends Phaser.Scene {
   
   // Weather System
   private weatherSystem!: WeatherSystem;
+  
+  // Darkness layer for dark rooms and shaded regions
+  private lightingRenderer!: LightingRenderer;
+
+  // Save slot to restore once the scene is up (the title screen's Continue)
+  private pendingLoadSlot: number | null = null;
+  private unsubscribers: Array<() => void> = [];
 
   constructor() {
     super({ key: 'WorldScene' });
   }
 
+  // Runs on every start, so a scene restarted from the title begins on the overworld again
+  init(data: { loadSlot?: number | null }): void {
+    this.pendingLoadSlot = data?.loadSlot ?? null;
+    this.currentMap = OVERWORLD_MAP_ID;
+    this.currentRealm = 'dayrealm';
+  }
+
   create(): void {
     console.log('World Scene: Starting game world');
+
+    // Stopping the scene (quit to title) tears the world down
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, this.shutdown, this);
     
     // Initialize ECS
     this.initializeECS();
@@ -98,6 +154,16 @@ export class WorldScene extends Phaser.Scene {
     
     console.log('World Scene: Initialization complete');
     
+    // Continue from the title screen - SaveSystem answers with loadComplete
+    if (this.pendingLoadSlot !== null) {
+      gameEvents.emit({
+        type: 'load.game.request',
+        payload: { slot: this.pendingLoadSlot },
+        timestamp: Date.now()
+      });
+      this.pendingLoadSlot = null;
+    }
+    
     // Start tutorial experience
     this.startTutorialSequence();
     
@@ -125,8 +191,11 @@ export class WorldScene extends Phaser.Scene {
     // Update weather system
     this.weatherSystem.update(deltaTimeSeconds);
     
-    // Check if we need to re-render the world tiles (performance optimization)
-    this.checkWorldRenderUpdate(time);
+    // Show the world chunks under the camera - nearly free unless it crossed a chunk edge
+    this.tileChunks.update(this.cameras.main);
+    
+    // Darken unlit areas - redrawn only when a light moves or the camera reaches new cells
+    this.lightingRenderer.update(this.cameras.main);
     
     // Performance monitoring (development only)
     if (import.meta.env.DEV) {
@@ -146,34 +215,36 @@ export class WorldScene extends Phaser.Scene {
     }
   }
 
-  private checkWorldRenderUpdate(time: number): void {
-    // Only re-render if enough time has passed and camera moved significantly
-    if (time - this.lastRenderTime < this.RENDER_INTERVAL) {
-      return;
-    }
-
-    const camera = this.cameras.main;
-    const cameraMoved = Math.abs(camera.scrollX - this.lastCameraX) > TILE_SIZE * 2 ||
-                      Math.abs(camera.scrollY - this.lastCameraY) > TILE_SIZE * 2;
-
-    if (cameraMoved) {
-      this.renderWorldTiles();
-      this.lastCameraX = camera.scrollX;
-      this.lastCameraY = camera.scrollY;
-      this.lastRenderTime = time;
-    }
-  }
-
   private initializeECS(): void {
     this.ecsWorld = new World();
     
     // Add core systems in execution order
     this.ecsWorld.addSystem(new InputSystem(this));
+    this.ecsWorld.addSystem(new PlayerControllerSystem());
+    this.ecsWorld.addSystem(new StatusEffectSystem());
+    this.ecsWorld.addSystem(new PuzzleSystem());      // reads push intent before collisions stop the player
     this.ecsWorld.addSystem(new MovementSystem());
     this.ecsWorld.addSystem(new CollisionSystem());
     this.ecsWorld.addSystem(new CombatSystem());
+    this.ecsWorld.addSystem(new ItemAbilitySystem());
+    this.ecsWorld.addSystem(new ProjectileSystem());
+    this.ecsWorld.addSystem(new EnemyAISystem());
+    this.ecsWorld.addSystem(new LootSystem());
+    this.ecsWorld.addSystem(new EnemySpawnSystem(this));
+    this.ecsWorld.addSystem(new BossSystem());
     this.ecsWorld.addSystem(new InteractionSystem(this));
+    this.ecsWorld.addSystem(new DialogueSystem());
+    this.ecsWorld.addSystem(new ShopSystem());
+    this.ecsWorld.addSystem(new LockSystem());
     this.ecsWorld.addSystem(new InventorySystem());
+    this.ecsWorld.addSystem(new HealthProgressionSystem());
+    this.ecsWorld.addSystem(new RespawnSystem());
+    this.ecsWorld.addSystem(new QuestSystem());
+    this.ecsWorld.addSystem(new SaveSystem());
+    this.ecsWorld.addSystem(new EclipseOverlaySystem());
+    this.ecsWorld.addSystem(new RealmSystem());
+    this.ecsWorld.addSystem(new PortalSystem());
+    this.ecsWorld.addSystem(new LightingSystem());      // gathers lights after everything has moved
     this.ecsWorld.addSystem(new RenderSystem(this));
   }
 
@@ -190,249 +261,191 @@ export class WorldScene extends Phaser.Scene {
     
     // Generate the full world
     this.worldGenerator = new WorldGenerator();
-    this.worldTiles = this.worldGenerator.getWorld();
+    this.overworldTiles = this.worldGenerator.getWorld();
+    this.worldTiles = this.overworldTiles;
     
     // Set camera bounds to the full world
-    const worldPixelWidth = WORLD_WIDTH * TILE_SIZE;
-    const worldPixelHeight = WORLD_HEIGHT * TILE_SIZE;
-    this.cameras.main.setBounds(0, 0, worldPixelWidth, worldPixelHeight);
+    this.updateCameraBounds();
     
     // Create tile graphics for the world (we'll only render visible tiles for performance)
     this.createWorldGraphics();
     
-    console.log(`World created: ${WORLD_WIDTH}x${WORLD_HEIGHT} tiles (${worldPixelWidth}x${worldPixelHeight} pixels)`);
+    console.log(`World created: ${WORLD_WIDTH}x${WORLD_HEIGHT} tiles (${WORLD_WIDTH * TILE_SIZE}x${WORLD_HEIGHT * TILE_SIZE} pixels), seed ${this.worldGenerator.getSeed()}`);
   }
 
-  private worldGraphics!: Phaser.GameObjects.Graphics;
+  private updateCameraBounds(): void {
+    const worldPixelWidth = (this.worldTiles[0]?.length ?? 0) * TILE_SIZE;
+    const worldPixelHeight = this.worldTiles.length * TILE_SIZE;
+    this.cameras.main.setBounds(0, 0, worldPixelWidth, worldPixelHeight);
+  }
 
-  private createWorldGraphics(): void {
-    // Create a large graphics object for the world tiles
-    this.worldGraphics = this.add.graphics();
-    this.renderWorldTiles();
-    
-    this.backgroundLayer.add(this.worldGraphics);
-    
-    // Add region labels for towns
-    this.addTownLabels();
+  /**
+   * Swap the active map. Authored maps come from the world index via MapLoader;
+   * the procedural overworld is restored from the generator's tiles.
+   * When a spawn id is given the player is moved to that spawn point.
+   */
+  async loadMap(mapId: string, spawnId?: string): Promise<LoadedMap | null> {
+    if (!(await this.prepareMap(mapId))) return null;
+    return this.enterMap(mapId, spawnId);
   }
 
-  private renderWorldTiles(): void {
-    this.worldGraphics.clear();
-    
-    // Get camera bounds for viewport culling
-    const camera = this.cameras.main;
-    const camLeft = Math.floor(camera.scrollX / TILE_SIZE) - 1;
-    const camTop = Math.floor(camera.scrollY / TILE_SIZE) - 1;
-    const camRight = Math.ceil((camera.scrollX + camera.width) / TILE_SIZE) + 1;
-    const camBottom = Math.ceil((camera.scrollY + camera.height) / TILE_SIZE) + 1;
-    
-    // Clamp to world bounds
-    const startX = Math.max(0, camLeft);
-    const startY = Math.max(0, camTop);
-    const endX = Math.min(WORLD_WIDTH, camRight);
-    const endY = Math.min(WORLD_HEIGHT, camBottom);
-    
-    // Render tiles in layers for depth effect (like Zelda)
-    this.renderTileLayer(startX, startY, endX, endY, 'ground');
-    this.renderTileLayer(startX, startY, endX, endY, 'decorations');
-    this.renderTileLayer(startX, startY, endX, endY, 'details');
+  // Fetch authored maps ahead of time so enterMap() can swap synchronously
+  private async prepareMap(mapId: string): Promise<boolean> {
+    const entry = mapLoader.getMapEntry(mapId);
+    if (entry) {
+      // enterMap() announces MAP_LOADED, so the foreground load announces its start
+      emitTypedEvent(createEvent.mapLoadStart(entry.id, entry.file));
+      try {
+        await mapLoader.preloadMap(mapId);
+        return true;
+      } catch (error) {
+        console.warn(`WorldScene: Failed to load map "${mapId}":`, error);
+      }
+    } else if (mapId === OVERWORLD_MAP_ID) {
+      return true;
+    } else {
+      console.warn(`WorldScene: Unknown map "${mapId}"`);
+    }
+
+    gameEvents.emit({
+      type: 'world.map.loadFailed',
+      payload: { mapId },
+      timestamp: Date.now()
+    });
+    return false;
   }
 
-  private renderTileLayer(startX: number, startY: number, endX: number, endY: number, layer: 'ground' | 'decorations' | 'details'): void {
-    for (let y = startY; y < endY; y++) {
-      for (let x = startX; x < endX; x++) {
-        const tile = this.worldTiles[y][x];
-        const tileType = this.currentRealm === 'eclipse' ? 
-          this.worldGenerator.getEclipseTile(tile.tileType) : tile.tileType;
-        
-        if (this.shouldRenderTileInLayer(tileType, layer)) {
-          this.renderEnhancedTile(x, y, tileType, layer);
-        }
+  private enterMap(mapId: string, spawnId?: string): LoadedMap | null {
+    const loadedMap = mapLoader.getLoadedMap(mapId) ?? null;
+    this.worldTiles = loadedMap ? loadedMap.tiles : this.overworldTiles;
+
+    const previousMap = this.currentMap;
+    this.currentMap = mapId;
+    if (previousMap !== mapId) {
+      mapLoader.unloadMap(previousMap);
+    }
+
+    // Town labels only make sense on the overworld
+    this.foregroundLayer.setVisible(mapId === OVERWORLD_MAP_ID);
+
+    this.updateCameraBounds();
+    this.updateMovementSystemWorldData();
+
+    if (spawnId) {
+      const spawnPosition = loadedMap ? loadedMap.spawns[spawnId]?.position : OVERWORLD_SPAWNS[spawnId];
+      if (spawnPosition) {
+        this.movePlayerTo(spawnPosition.x, spawnPosition.y);
+      } else {
+        console.warn(`WorldScene: Spawn "${spawnId}" not found in ${mapId}`);
       }
     }
+
+    this.tileChunks.setTiles(this.worldTiles);
+    this.emitMapLoaded(loadedMap);
+
+    if (loadedMap) {
+      mapLoader.preloadAdjacent(mapId).catch(console.warn);
+    }
+
+    return loadedMap;
   }
 
-  private shouldRenderTileInLayer(tileType: TileType, layer: 'ground' | 'decorations' | 'details'): boolean {
-    const groundTiles = new Set([
-      TileType.GRASS, TileType.WATER, TileType.FOREST, TileType.MOUNTAIN,
-      TileType.DESERT, TileType.SNOW, TileType.MARSH, TileType.VOLCANIC,
-      TileType.WALL, TileType.BRIDGE, TileType.PATH, TileType.HOUSE,
-      TileType.GRASS_DARK, TileType.GRASS_LIGHT, TileType.DIRT, TileType.SAND,
-      TileType.STONE, TileType.WATER_DEEP, TileType.WATER_SHALLOW, TileType.COBBLESTONE
-    ]);
-
-    const decorationTiles = new Set([
-      TileType.BUSH, TileType.ROCK, TileType.TREE, TileType.TALL_GRASS,
-      TileType.MUSHROOM, TileType.POND, TileType.WOODEN_FENCE
-    ]);
-
-    const detailTiles = new Set([
-      TileType.FLOWER, TileType.CHEST, TileType.DOOR, TileType.SHRINE,
-      TileType.STATUE, TileType.FOUNTAIN, TileType.WELL, TileType.SIGN,
-      TileType.TORCH, TileType.LANTERN
-    ]);
-
-    switch (layer) {
-      case 'ground': return groundTiles.has(tileType);
-      case 'decorations': return decorationTiles.has(tileType);
-      case 'details': return detailTiles.has(tileType);
-      default: return false;
+  private movePlayerTo(x: number, y: number): void {
+    const transform = this.ecsWorld.getComponent<TransformComponent>(this.playerEntity, 'transform');
+    const movement = this.ecsWorld.getComponent<MovementComponent>(this.playerEntity, 'movement');
+
+    if (transform) {
+      transform.position.x = x;
+      transform.position.y = y;
+    }
+    if (movement) {
+      movement.velocity.x = 0;
+      movement.velocity.y = 0;
     }
+    this.cameras.main.centerOn(x, y);
   }
 
-  private renderEnhancedTile(x: number, y: number, tileType: TileType, layer: 'ground' | 'decorations' | 'details'): void {
-    const pixelX = x * TILE_SIZE;
-    const pixelY = y * TILE_SIZE;
-    const baseColor = this.getTileColor(tileType);
-    
-    // Add subtle shadows and highlights for depth
-    const shadowOffset = layer === 'details' ? 1 : 0;
-    if (shadowOffset > 0 && this.shouldHaveShadow(tileType)) {
-      this.worldGraphics.fillStyle(0x000000, 0.2);
-      this.worldGraphics.fillRect(pixelX + shadowOffset, pixelY + shadowOffset, TILE_SIZE, TILE_SIZE);
+  private emitMapLoaded(loadedMap: LoadedMap | null): void {
+    gameEvents.emit({
+      type: 'world.map.loaded',
+      payload: {
+        mapId: this.currentMap,
+        mapName: loadedMap ? String(loadedMap.properties.name ?? loadedMap.id) : 'Hearthmere'
+      },
+      timestamp: Date.now()
+    });
+
+    emitTypedEvent(loadedMap
+      ? createEvent.mapLoaded(loadedMap.id, loadedMap.entry.file, loadedMap.entry.realm, loadedMap.entry.bounds)
+      : createEvent.mapLoaded(this.currentMap, 'procedural', 'day', {
+          x: 0,
+          y: 0,
+          width: WORLD_WIDTH * TILE_SIZE,
+          height: WORLD_HEIGHT * TILE_SIZE
+        }));
+  }
+
+  /**
+   * Portal transition: fade out, swap map and spawn, fade back in.
+   * Map music switches as the fade starts so both land together.
+   */
+  private async transitionToMap(event: PortalTriggeredEvent): Promise<void> {
+    const { targetMap, targetSpawn, transition } = event;
+    if (!(await this.prepareMap(targetMap))) return;
+
+    this.playMapMusic(targetMap);
+
+    if (transition === 'instant') {
+      this.enterMap(targetMap, targetSpawn);
+      return;
     }
 
-    // Render main tile
-    this.worldGraphics.fillStyle(baseColor);
-    this.worldGraphics.fillRect(pixelX, pixelY, TILE_SIZE, TILE_SIZE);
-    
-    // Add tile-specific visual enhancements
-    this.addTileDetails(x, y, tileType, pixelX, pixelY);
+    const outType = transition === 'realm_switch' ? TransitionType.REALM_SWITCH
+      : transition === 'slide' ? TransitionType.DIAMOND_WIPE
+      : TransitionType.FADE_TO_BLACK;
+
+    this.visualEffects.startTransition(outType, PORTAL_TRANSITION_DURATION, () => {
+      this.enterMap(targetMap, targetSpawn);
+      this.visualEffects.startTransition(TransitionType.FADE_FROM_BLACK, PORTAL_TRANSITION_DURATION);
+    });
   }
 
-  private shouldHaveShadow(tileType: TileType): boolean {
-    const shadowTiles = new Set([
-      TileType.CHEST, TileType.STATUE, TileType.FOUNTAIN, TileType.WELL,
-      TileType.TORCH, TileType.LANTERN, TileType.TREE, TileType.ROCK
-    ]);
-    return shadowTiles.has(tileType);
+  /**
+   * Continue after a game over: reload the checkpoint map so bosses, rooms and
+   * portals rebuild from scratch, then fade back in over the respawned player.
+   */
+  private async respawnAtCheckpoint(event: PlayerRespawnedEvent): Promise<void> {
+    if (!(await this.prepareMap(event.mapId))) return;
+
+    this.playMapMusic(event.mapId);
+    this.enterMap(event.mapId);
+    this.movePlayerTo(event.position.x, event.position.y);
+    this.visualEffects.startTransition(TransitionType.FADE_FROM_BLACK, PORTAL_TRANSITION_DURATION);
   }
 
-  private addTileDetails(x: number, y: number, tileType: TileType, pixelX: number, pixelY: number): void {
-    const size = TILE_SIZE;
-    const halfSize = size / 2;
-    const quarterSize = size / 4;
-
-    switch (tileType) {
-      case TileType.WATER:
-      case TileType.WATER_DEEP:
-        // Add water shimmer effect
-        this.worldGraphics.fillStyle(0x4A7BCA, 0.3);
-        this.worldGraphics.fillRect(pixelX + 2, pixelY + 2, size - 4, 2);
-        this.worldGraphics.fillRect(pixelX + 4, pixelY + 8, size - 8, 2);
-        break;
-
-      case TileType.GRASS:
-        // Add grass texture variation
-        const grassVariant = (x + y) % 3;
-        if (grassVariant === 0) {
-          this.worldGraphics.fillStyle(0x5BA052, 0.4);
-          this.worldGraphics.fillRect(pixelX + 1, pixelY + 12, 3, 2);
-          this.worldGraphics.fillRect(pixelX + 8, pixelY + 10, 2, 3);
-        }
-        break;
-
-      case TileType.CHEST:
-        // Enhanced chest with highlight
-        this.worldGraphics.fillStyle(0xFFD700, 0.8);
-        this.worldGraphics.fillRect(pixelX + quarterSize, pixelY + quarterSize, halfSize, halfSize);
-        this.worldGraphics.fillStyle(0xFFFFAA);
-        this.worldGraphics.fillRect(pixelX + quarterSize + 2, pixelY + quarterSize + 2, 4, 2);
-        break;
-
-      case TileType.FLOWER:
-        // Multi-colored flower
-        const flowerHue = ((x * 7 + y * 13) % 6);
-        const flowerColors = [0xFF69B4, 0xFF6B6B, 0x4ECDC4, 0x45B7D1, 0xFFA07A, 0x98D8C8];
-        this.worldGraphics.fillStyle(flowerColors[flowerHue]);
-        this.worldGraphics.fillCircle(pixelX + halfSize, pixelY + halfSize, 3);
-        break;
-
-      case TileType.TORCH:
-        // Animated torch flame effect
-        this.worldGraphics.fillStyle(0xFF6B47);
-        this.worldGraphics.fillRect(pixelX + 6, pixelY + 2, 4, 8);
-        this.worldGraphics.fillStyle(0xFFD700, 0.7);
-        this.worldGraphics.fillRect(pixelX + 7, pixelY + 3, 2, 4);
-        break;
-
-      case TileType.BUSH:
-        // Layered bush with depth
-        this.worldGraphics.fillStyle(0x2D5B2D, 0.8);
-        this.worldGraphics.fillCircle(pixelX + halfSize, pixelY + halfSize + 2, 6);
-        this.worldGraphics.fillStyle(0x4A8B3B, 0.6);
-        this.worldGraphics.fillCircle(pixelX + halfSize - 2, pixelY + halfSize, 4);
-        break;
-
-      case TileType.ROCK:
-        // Multi-tone rock
-        this.worldGraphics.fillStyle(0x555555);
-        this.worldGraphics.fillRect(pixelX + 2, pixelY + 4, 12, 10);
-        this.worldGraphics.fillStyle(0x777777);
-        this.worldGraphics.fillRect(pixelX + 3, pixelY + 5, 6, 6);
-        break;
+  private playMapMusic(mapId: string): void {
+    const track = mapId === OVERWORLD_MAP_ID
+      ? OVERWORLD_MUSIC_TRACK
+      : mapLoader.getMapEntry(mapId)?.musicTrack;
+
+    if (track) {
+      audioManager.playMusic(track, PORTAL_TRANSITION_DURATION * 2);
     }
   }
 
-  private getTileColor(tileType: TileType): number {
-    // Use enhanced 16-bit color palette
-    switch (tileType) {
-      // Base terrain - rich, vibrant colors
-      case TileType.GRASS: return 0x4A8B3B;
-      case TileType.WATER: return 0x1E5BB8;
-      case TileType.FOREST: return 0x2D5B2D;
-      case TileType.MOUNTAIN: return 0x6B5B73;
-      case TileType.DESERT: return 0xE6C679;
-      case TileType.SNOW: return 0xE8F4F8;
-      case TileType.MARSH: return 0x5A7C47;
-      case TileType.VOLCANIC: return 0x8B2635;
-      
-      // Structures - earth tones
-      case TileType.WALL: return 0x4A4A52;
-      case TileType.DOOR: return 0x8B5A2B;
-      case TileType.BRIDGE: return 0xA67C52;
-      case TileType.PATH: return 0xB8A082;
-      case TileType.HOUSE: return 0x7C5A3A;
-      case TileType.SHRINE: return 0x6B4A8B;
-      
-      // Interactive objects
-      case TileType.CHEST: return 0xD49C3D;
-      case TileType.FLOWER: return 0xE84A5F;
-      
-      // Enhanced environmental details
-      case TileType.BUSH: return 0x3A6B2D;
-      case TileType.ROCK: return 0x7A7A82;
-      case TileType.TREE: return 0x2D3D2D;
-      case TileType.TALL_GRASS: return 0x5BA052;
-      case TileType.MUSHROOM: return 0xB85A3A;
-      case TileType.POND: return 0x4A8BCA;
-      case TileType.STONE_WALL: return 0x5A5A63;
-      case TileType.WOODEN_FENCE: return 0x9C6B39;
-      case TileType.DIRT_PATH: return 0xA68B6B;
-      case TileType.COBBLESTONE: return 0x6B6B73;
-      
-      // Decorative elements
-      case TileType.STATUE: return 0x7A7A8B;
-      case TileType.FOUNTAIN: return 0x5A8BCA;
-      case TileType.WELL: return 0x5A5A63;
-      case TileType.SIGN: return 0x8B6B3A;
-      case TileType.TORCH: return 0xD49C3D;
-      case TileType.LANTERN: return 0xE6B55C;
-      
-      // Ground variations
-      case TileType.GRASS_DARK: return 0x3A6B2D;
-      case TileType.GRASS_LIGHT: return 0x6BAD5A;
-      case TileType.DIRT: return 0x8B6B4A;
-      case TileType.SAND: return 0xE6C679;
-      case TileType.STONE: return 0x6B6B73;
-      
-      // Water variations
-      case TileType.WATER_DEEP: return 0x1A4A9C;
-      case TileType.WATER_SHALLOW: return 0x4A7BCA;
-      case TileType.WATERFALL: return 0x7ABFFF;
-      
-      default: return 0x4A8B3B;
-    }
+  private tileChunks!: TileChunkRenderer;
+
+  private createWorldGraphics(): void {
+    // The world is baked into render-texture chunks that are streamed in by camera position
+    this.tileChunks = new TileChunkRenderer(this, this.backgroundLayer);
+    this.tileChunks.setTiles(this.worldTiles);
+    this.tileChunks.update(this.cameras.main);
+    
+    const lightingSystem = this.ecsWorld.getSystem(LightingSystem)!;
+    this.lightingRenderer = new LightingRenderer(this, lightingSystem);
+    
+    // Add region labels for towns
+    this.addTownLabels();
   }
 
   private addTownLabels(): void {
@@ -509,6 +522,8 @@ export class WorldScene extends Phaser.Scene {
         entityId: '',
         stamina: 100,
         maxStamina: 100,
+        movementState: 'walking',
+        rollTimer: 0,
         gleam: 0,
         hearts: 3,
         inventory: {
@@ -525,6 +540,10 @@ export class WorldScene extends Phaser.Scene {
           keys: {},
           heart_pieces: 0,
           rumor_cards: 0
+        },
+        equipment: {
+          equipped: 'sunflame_lantern',
+          quickSwap: null
         }
       })
       .build();
@@ -576,6 +595,8 @@ export class WorldScene extends Phaser.Scene {
         type: 'npc',
         entityId: '',
         name: 'Keeper Elowen',
+        npcId: 'keeper_elowen',
+        dialogueTree: 'keeper_elowen',
         dialogue: [
           "Welcome to Hearthmere, brave traveler! I am Keeper Elowen.",
           "Use WASD or arrow keys to move around. Try walking to me!",
@@ -593,11 +614,51 @@ export class WorldScene extends Phaser.Scene {
       .build();
 
     console.log(`Created tutorial NPC Keeper Elowen at position (${elowenPosition.x}, ${elowenPosition.y})`);
+
+    // Hearthmere's vendors - their dialogue trees open the matching shop in world/shops.json
+    this.createShopkeeper('Smith Garrow', 'hearthmere_smith', -3, -1, 0x795548);
+    this.createShopkeeper('Apothecary Wren', 'hearthmere_apothecary', -3, 2, 0x4CAF50);
+    this.createShopkeeper('Lockmaster Bramm', 'lockmaster_bramm', 4, 2, 0xB8860B);
     
     // Add some test items near the player for visual effects demonstration
     this.createTestItems();
   }
 
+  private createShopkeeper(name: string, npcId: string, tileOffsetX: number, tileOffsetY: number, tint: number): void {
+    EntityBuilder.create(this.ecsWorld)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: {
+          x: (TOWNS.HEARTHMERE.x + tileOffsetX) * TILE_SIZE + 4,
+          y: (TOWNS.HEARTHMERE.y + tileOffsetY) * TILE_SIZE + 4
+        },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: 'npc', frame: 0, tint, alpha: 1 })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: 12, height: 12 },
+        solid: true,
+        trigger: false
+      })
+      .with({
+        type: 'npc',
+        entityId: '',
+        name,
+        npcId,
+        dialogueTree: npcId,
+        dialogue: [],
+        currentDialogue: 0,
+        questGiver: false,
+        shopkeeper: true,
+        interactable: true
+      })
+      .build();
+  }
+
   private createTestItems(): void {
     // Get inventory system to add test pickups
     const inventorySystem = this.ecsWorld.getSystems().find(s => s.constructor.name === 'InventorySystem') as any;
@@ -623,18 +684,14 @@ export class WorldScene extends Phaser.Scene {
         value: 1
       });
       
-      // Currency/rupee (shows green sparkles)
-      inventorySystem.addItemPickup('demo_currency', {
-        id: 'demo_currency',
-        itemType: 'aether_shards', // Using this as currency for now
-        position: { x: startX + TILE_SIZE, y: startY + TILE_SIZE * 3 },
-        value: 5
-      });
+      // Gleam (shows green sparkles) - a LootSystem pickup like enemy drops, but placed pickups never fade
+      const lootSystem = this.ecsWorld.getSystem(LootSystem);
+      lootSystem?.spawnPickup('gleam', 5, { x: startX + TILE_SIZE, y: startY + TILE_SIZE * 3 }, 'demo', Infinity);
       
       console.log('✨ Created test items around spawn area for visual effects demonstration');
       console.log('💖 Heart piece: East of spawn (pink sparkles when collected)');
       console.log('💎 Aether shard: West of spawn (golden sparkles when collected)');
-      console.log('💰 Currency pile: South of spawn (green sparkles when collected)');
+      console.log('💰 Gleam pile: South of spawn (green sparkles when collected)');
     }
   }
 
@@ -669,9 +726,9 @@ export class WorldScene extends Phaser.Scene {
       });
     });
 
-    // Eclipse/Dayrealm realm switching
+    // Eclipse/Dayrealm realm switching - RealmSystem decides whether the switch is allowed
     this.input.keyboard?.on('keydown-E', () => {
-      this.toggleRealm();
+      this.ecsWorld.getSystem(RealmSystem)?.requestSwitch();
     });
 
     // Test audio (T key)
@@ -722,6 +779,14 @@ export class WorldScene extends Phaser.Scene {
     // Set up inventory event handlers
     this.setupInventoryEvents();
     
+    // Set up save/load handlers
+    this.setupSaveEvents();
+    
+    // Set up portal transitions
+    this.setupPortalEvents();
+    this.setupBossEvents();
+    this.setupRespawnEvents();
+    
     // Set up combat controls
     this.setupCombatControls();
     
@@ -731,69 +796,110 @@ export class WorldScene extends Phaser.Scene {
 
   private setupInventoryEvents(): void {
     // Handle inventory item collection feedback
-    gameEvents.on('inventory.item.collected', (event: any) => {
+    this.listen('inventory.item.collected', (event: any) => {
       console.log(`Item collected: ${event.payload.itemType}`);
       // Could play collection sound effect here
       this.playTestAudio();
     });
 
+    this.listen(GAME_EVENTS.HEART_CONTAINER_GAINED, () => {
+      WorldAudio.playHeartContainerFanfare();
+    });
+
+    // Dungeon doors and chests from LockSystem
+    this.listen('lock.opened', () => {
+      WorldAudio.playDoorOpen();
+    });
+
+    this.listen('lock.denied', () => {
+      WorldAudio.playDoorLocked();
+    });
+
+    this.listen('chest.opened', () => {
+      WorldAudio.playChestOpen();
+    });
+
+    this.listen('player.item.holdUp', () => {
+      WorldAudio.playItemFanfare();
+    });
+
+    // Push blocks, switches and their gates from PuzzleSystem
+    this.listen('puzzle.block.pushed', () => {
+      WorldAudio.playBlockPush();
+    });
+
+    this.listen('puzzle.switch.changed', () => {
+      WorldAudio.playSwitch();
+    });
+
+    this.listen('puzzle.target.changed', (event: any) => {
+      if (event.payload.kind === 'gate' && event.payload.active) WorldAudio.playDoorOpen();
+    });
+
+    this.listen('puzzle.solved', () => {
+      WorldAudio.playSecretReveal();
+    });
+
     // Handle inventory item usage
-    gameEvents.on('inventory.item.used', (event: any) => {
+    this.listen('inventory.item.used', (event: any) => {
       console.log(`Item used: ${event.payload.itemType}`);
     });
 
-    // Handle realm switching from aether mirror
-    gameEvents.on('world.realm.switch', () => {
-      this.toggleRealm();
+    // Realm switches approved by RealmSystem (E key, Aether Mirror or a restored save)
+    this.listen(GAME_EVENTS.REALM_SWITCH_START, (event: any) => {
+      this.switchRealm(event.payload as RealmSwitchStartEvent);
+    });
+
+    this.listen('world.realm.switchDenied', () => {
+      UIAudio.playMenuCancel();
+      this.visualEffects.flashScreen(0x4A148C, 80, 0.15);
     });
 
     // Handle lighting effects from sunflame lantern
-    gameEvents.on('world.light.toggle', (_event: any) => {
-      console.log('Sunflame lantern activated!');
-      // Could implement lighting effects here
+    this.listen('world.light.toggle', (event: any) => {
+      console.log(`Sunflame lantern ${event.payload.active ? 'lit' : 'extinguished'}`);
     });
+  }
 
-    // Handle player speed boost from gale boots
-    gameEvents.on('player.speed.boost', (event: any) => {
-      const playerEntities = this.ecsWorld.getEntitiesWithComponents('player', 'movement');
-      if (playerEntities.length > 0) {
-        const movementComponent = playerEntities[0].components.get('movement') as any;
-        if (movementComponent && typeof movementComponent.speed === 'number') {
-          const originalSpeed = movementComponent.speed;
-          movementComponent.speed *= event.payload.multiplier;
-          
-          // Reset speed after duration
-          setTimeout(() => {
-            movementComponent.speed = originalSpeed;
-            console.log('Speed boost ended');
-          }, event.payload.duration);
-          
-          console.log(`Speed boost activated! ${event.payload.multiplier}x for ${event.payload.duration}ms`);
-        }
+  private setupSaveEvents(): void {
+    // Restored saves may be on another map - RealmSystem restores the realm itself
+    this.listen('system/loadComplete', (event: any) => {
+      const saveData = event.payload.saveData;
+      if (saveData && saveData.world.currentMap !== this.currentMap) {
+        this.loadMap(saveData.world.currentMap).catch(console.warn);
       }
     });
   }
 
-  private setupCombatControls(): void {
-    // Sword attack with X key
-    this.input.keyboard?.on('keydown-X', () => {
-      const playerEntities = this.ecsWorld.getEntitiesWithComponents('player', 'transform', 'movement');
-      if (playerEntities.length > 0) {
-        const playerId = playerEntities[0].id;
-        
-        // Emit combat attack event
-        gameEvents.emit({
-          type: 'combat.attack',
-          payload: {
-            attackerId: playerId,
-            weaponType: 'sword'
-          },
-          timestamp: Date.now()
-        });
-        
-        console.log('Player attacks with sword!');
-      }
+  private setupPortalEvents(): void {
+    this.listen(GAME_EVENTS.PORTAL_TRIGGERED, (event: any) => {
+      this.transitionToMap(event.payload as PortalTriggeredEvent).catch(console.warn);
+    });
+  }
+
+  private setupBossEvents(): void {
+    // Boss music takes over while the arena is sealed, then the map track returns
+    this.listen(GAME_EVENTS.BOSS_ENCOUNTER_START, () => {
+      audioManager.playMusic(BOSS_MUSIC_TRACK, PORTAL_TRANSITION_DURATION);
+    });
+
+    this.listen(GAME_EVENTS.BOSS_DEFEATED, () => {
+      this.playMapMusic(this.currentMap);
+    });
+  }
+
+  private setupRespawnEvents(): void {
+    this.listen(GAME_EVENTS.PLAYER_DIED, () => {
+      CombatAudio.playPlayerDeath();
+    });
+
+    this.listen(GAME_EVENTS.PLAYER_RESPAWNED, (event: any) => {
+      this.respawnAtCheckpoint(event.payload as PlayerRespawnedEvent).catch(console.warn);
     });
+  }
+
+  private setupCombatControls(): void {
+    // The sword (X / gamepad A) goes through InputSystem so it can combo and charge
     
     // Magic attack with Z key (if player has magic abilities)
     this.input.keyboard?.on('keydown-Z', () => {
@@ -838,7 +944,7 @@ export class WorldScene extends Phaser.Scene {
       }
     });
 
-    console.log('Combat controls: X = Sword Attack, Z = Magic Attack, H = Test Damage');
+    console.log('Combat controls: X = Sword (chain 3 swings, hold to charge a spin), B = Parry, V = Roll, F = Use Item, Q = Swap Item, Z = Magic Attack, H = Test Damage');
   }
 
   private setupWeatherControls(): void {
@@ -958,14 +1064,7 @@ export class WorldScene extends Phaser.Scene {
     this.updateMovementSystemWorldData();
     
     // Emit world ready event
-    gameEvents.emit({
-      type: 'world.map.loaded',
-      payload: {
-        mapId: this.currentMap,
-        mapName: 'Hearthmere'
-      },
-      timestamp: Date.now()
-    });
+    this.emitMapLoaded(null);
   }
   
   private updateMovementSystemWorldData(): void {
@@ -1050,8 +1149,8 @@ export class WorldScene extends Phaser.Scene {
 
   private setupEnvironmentalEffects(): void {
     // Add torch flame effects to existing torch tiles
-    for (let y = 0; y < WORLD_HEIGHT; y++) {
-      for (let x = 0; x < WORLD_WIDTH; x++) {
+    for (let y = 0; y < this.worldTiles.length; y++) {
+      for (let x = 0; x < this.worldTiles[y].length; x++) {
         const tile = this.worldTiles[y][x];
         
         if (tile.tileType === TileType.TORCH) {
@@ -1083,51 +1182,28 @@ export class WorldScene extends Phaser.Scene {
     }
   }
 
-  // Eclipse/Dayrealm realm switching
-  private toggleRealm(): void {
-    // TODO: Check if player has Aether Mirror (for now, just allow switching)
-    const previousRealm = this.currentRealm;
-    const targetRealm = this.currentRealm === 'dayrealm' ? 'eclipse' : 'dayrealm';
-    
-    // Emit realm switch start event
-    gameEvents.emit({
-      type: 'world/realmSwitchStart',
-      payload: {
-        fromRealm: previousRealm,
-        toRealm: targetRealm
-      },
-      timestamp: Date.now()
-    });
+  // Eclipse/Dayrealm realm switching - visuals and tile data follow RealmSystem's switch
+  private switchRealm(event: RealmSwitchStartEvent): void {
+    const previousRealm = event.fromRealm;
     
     // Use visual effects system for realm switching
-    this.visualEffects.playRealmSwitchEffect(previousRealm, targetRealm);
+    this.visualEffects.playRealmSwitchEffect(previousRealm, event.toRealm);
     
     // Add audio feedback
-    this.playRealmSwitchSound(targetRealm).catch(console.warn);
+    this.playRealmSwitchSound(event.toRealm).catch(console.warn);
     
-    this.currentRealm = targetRealm;
+    this.currentRealm = event.toRealm;
     
-    console.log(`Realm switched from ${previousRealm} to ${this.currentRealm}`);
+    console.log(`Realm switched from ${previousRealm} to ${this.currentRealm}${event.anchorId ? ` at ${event.anchorId}` : ''}`);
     
-    // Re-render the world with new realm tiles
-    this.renderWorldTiles();
+    // Show the other realm's chunks - each realm is baked once and kept
+    this.tileChunks.setRealm(this.currentRealm);
     
     // Update town labels for new realm
     this.updateTownLabelsForRealm();
     
     // Update movement system with new realm data for collision detection
     this.updateMovementSystemWorldData();
-    
-    // Emit realm switched completion event
-    gameEvents.emit({
-      type: 'world/realmSwitched',
-      payload: {
-        previousRealm,
-        currentRealm: this.currentRealm,
-        transitionType: 'flash'
-      },
-      timestamp: Date.now()
-    });
   }
 
   private updateTownLabelsForRealm(): void {
@@ -1148,6 +1224,11 @@ export class WorldScene extends Phaser.Scene {
     return this.currentRealm;
   }
 
+  getViewBounds(): Rectangle {
+    const { x, y, width, height } = this.cameras.main.worldView;
+    return { x, y, width, height };
+  }
+
   private async playRealmSwitchSound(targetRealm: 'dayrealm' | 'eclipse'): Promise<void> {
     try {
       // Try to play realm switch sound effect from files first
@@ -1352,7 +1433,7 @@ export class WorldScene extends Phaser.Scene {
     // Realm switching
     setTimeout(() => {
       console.log('🌓 REALM MECHANICS:');
-      console.log('• Press E to switch between Dayrealm and Eclipse');
+      console.log('• Press E at a realm anchor to switch between Dayrealm and Eclipse');
       console.log('• Each realm has different terrain and paths');
       console.log('• Explore both realms to discover all secrets!');
       console.log('');
@@ -1361,7 +1442,7 @@ export class WorldScene extends Phaser.Scene {
         type: 'ui/tutorial.message',
         payload: {
           title: 'Try Realm Switching',
-          message: 'Press E to see the Eclipse realm transformation',
+          message: 'Stand on the anchor in the town square and press E to see the Eclipse',
           duration: 4000
         },
         timestamp: Date.now()
@@ -1373,7 +1454,8 @@ export class WorldScene extends Phaser.Scene {
       console.log('⭐ READY TO EXPLORE:');
       console.log('• Chest: Check the chest south of town center');
       console.log('• Paths: Follow paths to explore beyond Hearthmere');
-      console.log('• Combat: Press X to attack with sword, Z for magic blast');
+      console.log('• Combat: Press X to attack with sword (hold to charge), B to parry, V to roll, Z for magic blast');
+      console.log('• Items: Press F to use the equipped item, Q to swap to the quick-swap item');
       console.log('• Effects: Watch for sparkles, screen shake, and particles!');
       console.log('• Weather: Press 1-5 to change weather, 6 for auto mode');
       console.log('• Debug: Press C for collision debug info');
@@ -1393,8 +1475,16 @@ export class WorldScene extends Phaser.Scene {
     }, TUTORIAL.REALM_SWITCH_HINT_DELAY + 5000);
   }
 
+  // Scene-level listeners are released on shutdown so a restarted scene does not hear events twice
+  private listen(eventType: string, handler: (event: any) => void): void {
+    this.unsubscribers.push(gameEvents.on(eventType, handler));
+  }
+
   // Cleanup when scene is shutdown
   shutdown(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+
     if (this.ecsWorld) {
       this.ecsWorld.clear();
     }
@@ -1407,6 +1497,14 @@ export class WorldScene extends Phaser.Scene {
       this.weatherSystem.destroy();
     }
     
+    if (this.lightingRenderer) {
+      this.lightingRenderer.destroy();
+    }
+    
+    if (this.tileChunks) {
+      this.tileChunks.destroy();
+    }
+    
     console.log('World Scene: Cleanup complete');
   }
 }
\ No newline at end of file
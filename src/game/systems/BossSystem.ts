@@ -0,0 +1,598 @@
+// Boss System - Arena encounters with phase-based attack scripts, sealed doors and rewards
+// Following Combat & Physics Engineer specifications; strikes are CombatSystem attack patterns
+
+import { System, EntityBuilder, ECSUtils } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import {
+  BOSSES,
+  BOSS_ARENAS,
+  BOSS_INTRO_DURATION,
+  BOSS_PHASE_TRANSITION_DURATION,
+  ENEMIES,
+  OVERWORLD_MAP_ID,
+  TILE_SIZE
+} from '@shared/constants.js';
+import type {
+  BossArena,
+  BossAttackStep,
+  BossComponent,
+  BossDefinition,
+  HealthComponent,
+  MovementComponent,
+  PlayerComponent,
+  Rectangle,
+  SpriteComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+import { HealthProgressionSystem } from './HealthProgressionSystem.js';
+
+interface BossContext {
+  id: string;
+  boss: BossComponent;
+  def: BossDefinition;
+  arena: BossArena;
+  transform: TransformComponent;
+  movement: MovementComponent;
+  health: HealthComponent;
+  sprite: SpriteComponent | undefined;
+  player: { id: string; position: Vector2; health: HealthComponent } | null;
+  deltaTime: number;          // seconds
+}
+
+export class BossSystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private doorEntities: Map<string, string[]> = new Map(); // arenaId -> door entity ids
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly STRIKE_TIME = 300;          // ms a strike (or dash) lasts
+  private readonly DASH_MULTIPLIER = 4;
+  private readonly CIRCLE_RADIUS = TILE_SIZE * 3;
+  private readonly CONTACT_RANGE = TILE_SIZE;
+  private readonly CONTACT_KNOCKBACK = 120;
+  private readonly BOSS_SIZE = 24;
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      // Bosses belong to their arena's map - rebuild encounters on every map change
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.clearEncounters();
+        this.spawnBosses(this.currentMap);
+      }),
+
+      gameEvents.on('combat.hit', (event: any) => {
+        this.handleBossHit(event.payload.target);
+      }),
+
+      gameEvents.on('combat.death', (event: any) => {
+        this.handleBossDeath(event.payload.targetId, event.payload.position);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    const player = this.findPlayer();
+
+    for (const entity of this.getEntitiesWithComponents('boss', 'transform', 'movement', 'health')) {
+      const boss = this.getComponent<BossComponent>(entity.id, 'boss')!;
+      const def = BOSSES[boss.bossId];
+      const arena = BOSS_ARENAS.find(candidate => candidate.id === boss.arenaId);
+      if (!def || !arena) continue;
+
+      const ctx: BossContext = {
+        id: entity.id,
+        boss,
+        def,
+        arena,
+        transform: this.getComponent<TransformComponent>(entity.id, 'transform')!,
+        movement: this.getComponent<MovementComponent>(entity.id, 'movement')!,
+        health: this.getComponent<HealthComponent>(entity.id, 'health')!,
+        sprite: this.getComponent<SpriteComponent>(entity.id, 'sprite'),
+        player,
+        deltaTime
+      };
+
+      boss.stateTimer += deltaTime * 1000;
+
+      switch (boss.state) {
+        case 'dormant':
+          if (player && this.contains(arena.bounds, player.position)) {
+            this.startEncounter(ctx);
+          }
+          break;
+
+        case 'intro':
+          this.stop(ctx);
+          ctx.health.invulnerable = true;
+          if (boss.stateTimer >= BOSS_INTRO_DURATION) this.beginFighting(ctx);
+          break;
+
+        case 'transition':
+          // Re-assert every frame - CombatSystem clears invulnerability when its i-frames run out
+          this.stop(ctx);
+          ctx.health.invulnerable = true;
+          this.setFlash(ctx, Math.floor(boss.stateTimer / 100) % 2 === 0);
+          if (boss.stateTimer >= BOSS_PHASE_TRANSITION_DURATION) this.beginFighting(ctx);
+          break;
+
+        case 'fighting':
+          this.updateScript(ctx);
+          this.applyContactDamage(ctx);
+          break;
+
+        case 'defeated':
+          this.stop(ctx);
+          break;
+      }
+    }
+  }
+
+  // === Encounter flow ===
+
+  private spawnBosses(mapId: string): void {
+    for (const arena of BOSS_ARENAS) {
+      if (arena.map !== mapId) continue;
+
+      const def = BOSSES[arena.bossId];
+      if (!def) {
+        console.warn(`BossSystem: Unknown boss "${arena.bossId}" in arena ${arena.id}`);
+        continue;
+      }
+      if (this.isDefeated(def.id)) continue;
+
+      this.createBossEntity(def, arena);
+    }
+  }
+
+  private createBossEntity(def: BossDefinition, arena: BossArena): string {
+    const entity = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...arena.bossSpawn },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: 'boss',
+        frame: 0,
+        tint: def.phases[0]?.tint ?? def.tint,
+        alpha: 1
+      })
+      .with({
+        type: 'movement',
+        entityId: '',
+        velocity: { x: 0, y: 0 },
+        speed: def.phases[0]?.speed ?? 0,
+        direction: 'down' as const
+      })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: this.BOSS_SIZE, height: this.BOSS_SIZE },
+        solid: true,
+        trigger: false
+      })
+      .with({
+        type: 'health',
+        entityId: '',
+        current: def.health,
+        maximum: def.health,
+        invulnerable: true,
+        invulnerabilityTimer: 0
+      })
+      .with<BossComponent>({
+        type: 'boss',
+        entityId: '',
+        bossId: def.id,
+        arenaId: arena.id,
+        state: 'dormant',
+        phase: 0,
+        step: 0,
+        stage: 'windup',
+        stateTimer: 0,
+        attackVector: { x: 0, y: 1 },
+        summoned: []
+      })
+      .build();
+
+    return entity.id;
+  }
+
+  private startEncounter(ctx: BossContext): void {
+    ctx.boss.state = 'intro';
+    ctx.boss.stateTimer = 0;
+
+    this.sealArena(ctx.arena);
+    this.shakeScreen(4, 500);
+
+    emitTypedEvent(createEvent.bossEncounterStart(
+      ctx.id,
+      ctx.def.id,
+      ctx.def.name,
+      ctx.def.title,
+      ctx.health.current,
+      ctx.health.maximum
+    ));
+  }
+
+  private beginFighting(ctx: BossContext): void {
+    ctx.boss.state = 'fighting';
+    ctx.boss.stage = 'windup';
+    ctx.boss.stateTimer = 0;
+    ctx.health.invulnerable = false;
+    this.setFlash(ctx, false);
+  }
+
+  private sealArena(arena: BossArena): void {
+    const doors = arena.doors.map(door => this.createDoor(door));
+    this.doorEntities.set(arena.id, doors);
+    emitTypedEvent(createEvent.arenaSealed(arena.id, arena.bossId, true));
+  }
+
+  private unsealArena(arena: BossArena): void {
+    this.doorEntities.get(arena.id)?.forEach(doorId => this.world.destroyEntity(doorId));
+    this.doorEntities.delete(arena.id);
+    emitTypedEvent(createEvent.arenaSealed(arena.id, arena.bossId, false));
+  }
+
+  private createDoor(bounds: Rectangle): string {
+    return EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { x: bounds.x, y: bounds.y },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: 'arena_door',
+        frame: 0,
+        tint: 0x5D4037,
+        alpha: 1
+      })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: bounds.width, height: bounds.height },
+        solid: true,
+        trigger: false
+      })
+      .build().id;
+  }
+
+  // Drop every boss, summon and door belonging to the map being left
+  private clearEncounters(): void {
+    for (const entity of this.getEntitiesWithComponents('boss')) {
+      const boss = this.getComponent<BossComponent>(entity.id, 'boss')!;
+      boss.summoned.forEach(summonId => this.world.destroyEntity(summonId));
+      this.world.destroyEntity(entity.id);
+    }
+
+    this.doorEntities.forEach(doors => doors.forEach(doorId => this.world.destroyEntity(doorId)));
+    this.doorEntities.clear();
+  }
+
+  // === Attack scripts ===
+
+  private updateScript(ctx: BossContext): void {
+    const { boss, player } = ctx;
+    const phase = ctx.def.phases[boss.phase];
+    const step = phase?.sequence[boss.step % phase.sequence.length];
+    if (!phase || !step) return;
+
+    switch (boss.stage) {
+      case 'windup':
+        this.moveDuringWindup(ctx, step, phase.speed);
+        if (player) boss.attackVector = this.directionTo(ctx.transform.position, player.position);
+        this.setFlash(ctx, boss.stateTimer > step.windup * 0.5 && Math.floor(boss.stateTimer / 80) % 2 === 0);
+
+        if (boss.stateTimer >= step.windup) {
+          this.setFlash(ctx, false);
+          this.setStage(ctx, 'strike');
+          if (step.movement !== 'dash') this.executeStrike(ctx, step);
+        }
+        break;
+
+      case 'strike':
+        if (step.movement === 'dash') {
+          ctx.movement.velocity.x = boss.attackVector.x * phase.speed * this.DASH_MULTIPLIER;
+          ctx.movement.velocity.y = boss.attackVector.y * phase.speed * this.DASH_MULTIPLIER;
+        } else {
+          this.stop(ctx);
+        }
+
+        if (boss.stateTimer >= this.STRIKE_TIME) {
+          // Dashes land their hit on arrival
+          if (step.movement === 'dash') this.executeStrike(ctx, step);
+          this.stop(ctx);
+          this.setStage(ctx, 'recovery');
+        }
+        break;
+
+      case 'recovery':
+        this.stop(ctx);
+        if (boss.stateTimer >= step.recovery) {
+          boss.step = (boss.step + 1) % phase.sequence.length;
+          this.setStage(ctx, 'windup');
+        }
+        break;
+    }
+  }
+
+  private moveDuringWindup(ctx: BossContext, step: BossAttackStep, speed: number): void {
+    const { player } = ctx;
+    if (!player) {
+      this.stop(ctx);
+      return;
+    }
+
+    switch (step.movement) {
+      case 'chase':
+        this.moveToward(ctx, player.position, speed);
+        break;
+
+      case 'circle': {
+        const angle = Math.atan2(ctx.transform.position.y - player.position.y, ctx.transform.position.x - player.position.x)
+          + (speed / this.CIRCLE_RADIUS) * ctx.deltaTime * 2;
+        this.moveToward(ctx, {
+          x: player.position.x + Math.cos(angle) * this.CIRCLE_RADIUS,
+          y: player.position.y + Math.sin(angle) * this.CIRCLE_RADIUS
+        }, speed);
+        break;
+      }
+
+      default:
+        this.stop(ctx);
+    }
+  }
+
+  private executeStrike(ctx: BossContext, step: BossAttackStep): void {
+    gameEvents.emit({
+      type: 'combat.attack',
+      payload: {
+        attackerId: ctx.id,
+        weaponType: step.pattern,
+        direction: { ...ctx.boss.attackVector }
+      },
+      timestamp: Date.now()
+    });
+
+    if (step.summon) this.summon(ctx, step.summon.species, step.summon.count);
+    if (step.shake) this.shakeScreen(step.shake, 300);
+  }
+
+  private summon(ctx: BossContext, species: string, count: number): void {
+    const definition = ENEMIES[species];
+    if (!definition) return;
+
+    // Only top the pack back up - summons don't pile up endlessly
+    ctx.boss.summoned = ctx.boss.summoned.filter(summonId => this.world.getEntity(summonId));
+    const missing = count - ctx.boss.summoned.length;
+
+    for (let i = 0; i < missing; i++) {
+      const angle = (i / Math.max(1, missing)) * Math.PI * 2;
+      const position = {
+        x: ctx.transform.position.x + Math.cos(angle) * TILE_SIZE * 2,
+        y: ctx.transform.position.y + Math.sin(angle) * TILE_SIZE * 2
+      };
+      const entity = ECSUtils.createEnemyEntity(this.world, definition, position);
+      ctx.boss.summoned.push(entity.id);
+
+      gameEvents.emit({
+        type: GAME_EVENTS.ENEMY_SPAWNED,
+        payload: { entityId: entity.id, species, summoner: ctx.def.id, position },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  // === Combat integration ===
+
+  private handleBossHit(entityId: string): void {
+    const boss = this.getComponent<BossComponent>(entityId, 'boss');
+    const def = boss && BOSSES[boss.bossId];
+    const health = this.getComponent<HealthComponent>(entityId, 'health');
+    if (!boss || !def || !health) return;
+
+    // Bosses plant their feet - no knockback
+    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
+    if (movement) {
+      movement.velocity.x = 0;
+      movement.velocity.y = 0;
+    }
+
+    emitTypedEvent(createEvent.bossHealthChanged(entityId, def.id, health.current, health.maximum));
+    if (health.current <= 0) return;
+
+    const ratio = health.current / health.maximum;
+    let targetPhase = boss.phase;
+    def.phases.forEach((phase, index) => {
+      if (index > targetPhase && ratio <= phase.healthThreshold) targetPhase = index;
+    });
+
+    if (targetPhase > boss.phase) {
+      const phase = def.phases[targetPhase];
+      boss.phase = targetPhase;
+      boss.step = 0;
+      boss.stage = 'windup';
+      boss.state = 'transition';
+      boss.stateTimer = 0;
+      health.invulnerable = true;
+
+      if (movement) movement.speed = phase.speed;
+      const sprite = this.getComponent<SpriteComponent>(entityId, 'sprite');
+      if (sprite) sprite.tint = phase.tint ?? def.tint;
+
+      this.shakeScreen(5, 600);
+      emitTypedEvent(createEvent.bossPhaseChanged(entityId, def.id, targetPhase, phase.name));
+    }
+  }
+
+  private handleBossDeath(entityId: string, position: Vector2): void {
+    const boss = this.getComponent<BossComponent>(entityId, 'boss');
+    const def = boss && BOSSES[boss.bossId];
+    const arena = boss && BOSS_ARENAS.find(candidate => candidate.id === boss.arenaId);
+    if (!boss || !def || !arena || boss.state === 'defeated') return;
+
+    boss.state = 'defeated';
+    boss.summoned.forEach(summonId => this.world.destroyEntity(summonId));
+    boss.summoned = [];
+
+    this.unsealArena(arena);
+    this.shakeScreen(6, 800);
+
+    gameEvents.emit({
+      type: 'world.flag.set',
+      payload: { flag: this.getDefeatFlag(def.id), value: true },
+      timestamp: Date.now()
+    });
+
+    emitTypedEvent(createEvent.bossDefeated(entityId, def.id, arena.id, { ...position }));
+    this.grantReward(def);
+
+    this.world.destroyEntity(entityId);
+  }
+
+  private grantReward(def: BossDefinition): void {
+    const playerEntity = this.getEntitiesWithComponents('player', 'health')[0];
+    if (!playerEntity) return;
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const aetherShards = def.reward.aetherShard ? 1 : 0;
+
+    if (aetherShards > 0) {
+      player.inventory.aether_shards += aetherShards;
+      gameEvents.emit({
+        type: 'player.inventory.changed',
+        payload: { inventory: player.inventory },
+        timestamp: Date.now()
+      });
+    }
+
+    // Containers past the heart cap are forfeited - the reward reports what was actually granted
+    const progression = this.world.getSystem(HealthProgressionSystem);
+    const heartContainers = def.reward.heartContainer ? progression?.grantHeartContainers(1, 'boss') ?? 0 : 0;
+
+    emitTypedEvent(createEvent.bossRewardGranted(def.id, aetherShards, heartContainers));
+  }
+
+  private applyContactDamage(ctx: BossContext): void {
+    const { player } = ctx;
+    if (!player || player.health.invulnerable) return;
+    if (this.distanceBetween(ctx.transform.position, player.position) > this.CONTACT_RANGE) return;
+
+    const direction = this.directionTo(ctx.transform.position, player.position);
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: {
+        targetId: player.id,
+        damage: ctx.def.contactDamage,
+        source: ctx.id,
+        position: { ...player.position },
+        knockback: { x: direction.x * this.CONTACT_KNOCKBACK, y: direction.y * this.CONTACT_KNOCKBACK }
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  // === Helpers ===
+
+  private setStage(ctx: BossContext, stage: BossComponent['stage']): void {
+    ctx.boss.stage = stage;
+    ctx.boss.stateTimer = 0;
+  }
+
+  private shakeScreen(intensity: number, duration: number): void {
+    gameEvents.emit({
+      type: 'effects.screen.shake',
+      payload: { intensity, duration, frequency: 30 },
+      timestamp: Date.now()
+    });
+  }
+
+  private setFlash(ctx: BossContext, flashing: boolean): void {
+    if (!ctx.sprite) return;
+    ctx.sprite.tint = flashing ? 0xffffff : ctx.def.phases[ctx.boss.phase]?.tint ?? ctx.def.tint;
+  }
+
+  private moveToward(ctx: BossContext, target: Vector2, speed: number): void {
+    if (this.distanceBetween(ctx.transform.position, target) < 2) {
+      this.stop(ctx);
+      return;
+    }
+    const direction = this.directionTo(ctx.transform.position, target);
+    ctx.movement.velocity.x = direction.x * speed;
+    ctx.movement.velocity.y = direction.y * speed;
+  }
+
+  private stop(ctx: BossContext): void {
+    ctx.movement.velocity.x = 0;
+    ctx.movement.velocity.y = 0;
+  }
+
+  private isDefeated(bossId: string): boolean {
+    return WorldConditions.hasFlag(this.world, this.getDefeatFlag(bossId));
+  }
+
+  private getDefeatFlag(bossId: string): string {
+    return `boss_defeated_${bossId}`;
+  }
+
+  private findPlayer(): BossContext['player'] {
+    const players = this.getEntitiesWithComponents('player', 'transform', 'health');
+    if (players.length === 0) return null;
+
+    const id = players[0].id;
+    return {
+      id,
+      position: this.getComponent<TransformComponent>(id, 'transform')!.position,
+      health: this.getComponent<HealthComponent>(id, 'health')!
+    };
+  }
+
+  private contains(rect: Rectangle, point: Vector2): boolean {
+    return point.x >= rect.x && point.x < rect.x + rect.width &&
+           point.y >= rect.y && point.y < rect.y + rect.height;
+  }
+
+  private distanceBetween(a: Vector2, b: Vector2): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  private directionTo(from: Vector2, to: Vector2): Vector2 {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy);
+    return length > 0 ? { x: dx / length, y: dy / length } : { x: 0, y: 1 };
+  }
+
+  // Public API
+  getActiveBoss(): { entityId: string; bossId: string; state: BossComponent['state']; phase: number } | null {
+    const entity = this.getEntitiesWithComponents('boss')[0];
+    if (!entity) return null;
+
+    const boss = this.getComponent<BossComponent>(entity.id, 'boss')!;
+    return { entityId: entity.id, bossId: boss.bossId, state: boss.state, phase: boss.phase };
+  }
+
+  isArenaSealed(arenaId: string): boolean {
+    return this.doorEntities.has(arenaId);
+  }
+}
@@ -122,9 +122,21 @@ export class CollisionSystem extends System {
     const isPlayerB = this.hasComponent(collision.entityB, 'player');
 
     if (isPlayerA || isPlayerB) {
-      // const playerId = isPlayerA ? collision.entityA : collision.entityB;
+      const playerId = isPlayerA ? collision.entityA : collision.entityB;
       const triggerId = isPlayerA ? collision.entityB : collision.entityA;
       
+      // Enter events fire once per overlap (portals, pressure zones, etc.)
+      if (!this.collisionPairs.has(this.getCollisionPairKey(playerId, triggerId))) {
+        gameEvents.emit({
+          type: 'collision.trigger.enter',
+          payload: {
+            triggerId,
+            entityId: playerId
+          },
+          timestamp: Date.now()
+        });
+      }
+      
       // Emit trigger event
       gameEvents.emit({
         type: 'item.collected', // Generic trigger event
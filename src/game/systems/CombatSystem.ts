@@ -2,15 +2,21 @@
 // Integrates with VisualEffectsSystem for impact effects and screen shake
 
 import { System } from '../ECS.js';
-import { gameEvents } from '@shared/events.js';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events.js';
+import type { PlayerAttackStartEvent } from '@shared/events.js';
 import type { 
   TransformComponent, 
   HealthComponent, 
   PlayerComponent,
   MovementComponent,
-  ColliderComponent 
+  ColliderComponent,
+  BossComponent,
+  DamageElement,
+  ElementalProfile,
+  EnemyComponent
 } from '@shared/types.js';
-import { TILE_SIZE } from '@shared/constants.js';
+import { BOSSES, ELEMENT_STATUS, ENEMIES, TILE_SIZE } from '@shared/constants.js';
+import { PlayerControllerSystem } from './PlayerControllerSystem.js';
 
 export interface CombatHit {
   attacker: string;
@@ -18,7 +24,9 @@ export interface CombatHit {
   damage: number;
   position: { x: number; y: number };
   knockback?: { x: number; y: number };
-  type: 'sword' | 'magic' | 'projectile' | 'environmental';
+  type: 'sword' | 'magic' | 'projectile' | 'environmental' | 'status';
+  element?: DamageElement;    // defaults to physical
+  projectileId?: string;      // the projectile entity, so a parry can send it back
 }
 
 export interface AttackPattern {
@@ -29,19 +37,42 @@ export interface AttackPattern {
   knockback: number;
   hitEffect: string;
   soundEffect?: string;
+  radial?: boolean; // hits all around the attacker instead of a forward cone
+}
+
+// Per-entity shortblade state: combo chain, charge and parry timing
+interface SwordState {
+  comboStep: number;          // index of the next swing in COMBO_PATTERNS
+  comboTimer: number;         // ms left to chain the next swing
+  holding: boolean;
+  chargeTimer: number;        // ms the sword button has been held
+  charged: boolean;
+  parryTimer: number;         // ms left in the open parry window
+  parryCooldown: number;
 }
 
 export class CombatSystem extends System {
   private attackCooldowns: Map<string, number> = new Map();
   private invulnerabilityTimers: Map<string, number> = new Map();
+  private swordStates: Map<string, SwordState> = new Map();
   private pendingHits: CombatHit[] = [];
+  private unsubscribers: Array<() => void> = [];
   
   // Combat constants (ALTTP-inspired)
   private readonly INVULNERABILITY_TIME = 1000; // 1 second i-frames
+  private readonly HOSTILE_INVULNERABILITY_TIME = 200; // shorter than SWORD_COOLDOWN so every combo swing lands
   private readonly SWORD_RANGE = TILE_SIZE * 1.5;
   private readonly SWORD_DAMAGE = 1;
-  private readonly SWORD_COOLDOWN = 500;
+  private readonly SWORD_COOLDOWN = 250;        // between chained swings
   private readonly KNOCKBACK_FORCE = 60;
+  private readonly DAMAGE_STEP = 0.5;           // health moves in half points, like half hearts
+
+  // Shortblade kit (GDD: 3-hit chain, charged strike, Sorrel's parry timing)
+  private readonly COMBO_PATTERNS = ['sword', 'sword_combo', 'sword_finisher'];
+  private readonly COMBO_WINDOW = 450;          // ms after a swing to chain the next one
+  private readonly CHARGE_TIME = 800;           // ms held before a release spins
+  private readonly PARRY_WINDOW = 200;
+  private readonly PARRY_COOLDOWN = 600;        // refunded on a successful parry
 
   // Attack patterns for different weapons
   private attackPatterns: Map<string, AttackPattern> = new Map([
@@ -54,6 +85,34 @@ export class CombatSystem extends System {
       hitEffect: 'sword_strike',
       soundEffect: 'sfx_sword_swing'
     }],
+    ['sword_combo', {
+      id: 'sword_combo',
+      range: this.SWORD_RANGE,
+      damage: this.SWORD_DAMAGE,
+      cooldown: this.SWORD_COOLDOWN,
+      knockback: this.KNOCKBACK_FORCE,
+      hitEffect: 'sword_strike',
+      soundEffect: 'sfx_sword_swing'
+    }],
+    ['sword_finisher', {
+      id: 'sword_finisher',
+      range: this.SWORD_RANGE * 1.2,
+      damage: this.SWORD_DAMAGE * 2,
+      cooldown: 600, // recovery before a new chain
+      knockback: this.KNOCKBACK_FORCE * 2,
+      hitEffect: 'sword_strike',
+      soundEffect: 'sfx_sword_swing'
+    }],
+    ['spin_attack', {
+      id: 'spin_attack',
+      range: TILE_SIZE * 2,
+      damage: this.SWORD_DAMAGE * 2,
+      cooldown: 500,
+      knockback: this.KNOCKBACK_FORCE * 1.5,
+      hitEffect: 'sword_strike',
+      soundEffect: 'sfx_sword_swing',
+      radial: true
+    }],
     ['magic_blast', {
       id: 'magic_blast',
       range: TILE_SIZE * 3,
@@ -62,6 +121,50 @@ export class CombatSystem extends System {
       knockback: this.KNOCKBACK_FORCE * 1.5,
       hitEffect: 'magic_impact',
       soundEffect: 'sfx_magic_cast'
+    }],
+    // Boss patterns - timing is scripted by BossSystem, so no cooldown of their own
+    ['boss_claw', {
+      id: 'boss_claw',
+      range: TILE_SIZE * 2,
+      damage: 2,
+      cooldown: 0,
+      knockback: this.KNOCKBACK_FORCE * 2,
+      hitEffect: 'sword_strike'
+    }],
+    ['boss_sweep', {
+      id: 'boss_sweep',
+      range: TILE_SIZE * 3.5,
+      damage: 2,
+      cooldown: 0,
+      knockback: this.KNOCKBACK_FORCE * 1.5,
+      hitEffect: 'sword_strike'
+    }],
+    ['boss_slam', {
+      id: 'boss_slam',
+      range: TILE_SIZE * 3,
+      damage: 2,
+      cooldown: 0,
+      knockback: this.KNOCKBACK_FORCE * 2.5,
+      hitEffect: 'magic_impact',
+      radial: true
+    }],
+    ['boss_spin', {
+      id: 'boss_spin',
+      range: TILE_SIZE * 2.5,
+      damage: 1,
+      cooldown: 0,
+      knockback: this.KNOCKBACK_FORCE * 2,
+      hitEffect: 'sword_strike',
+      radial: true
+    }],
+    ['boss_roar', {
+      id: 'boss_roar',
+      range: TILE_SIZE * 2,
+      damage: 1,
+      cooldown: 0,
+      knockback: this.KNOCKBACK_FORCE * 3,
+      hitEffect: 'magic_impact',
+      radial: true
     }]
   ]);
 
@@ -71,23 +174,70 @@ export class CombatSystem extends System {
   }
 
   private setupEventHandlers(): void {
-    // Handle attack input
-    gameEvents.on('combat.attack', (event: any) => {
-      this.handleAttack(event.payload);
-    });
+    this.unsubscribers.push(
+      // Handle attack input
+      gameEvents.on('combat.attack', (event: any) => {
+        this.handleAttack(event.payload);
+      }),
+
+      // Handle damage events
+      gameEvents.on('combat.damage', (event: any) => {
+        this.handleDamage(event.payload);
+      }),
+
+      // Shortblade input - press swings the combo, holding charges a spin
+      gameEvents.on('combat.sword.press', (event: any) => {
+        this.pressSword(event.payload.attackerId);
+      }),
+
+      gameEvents.on('combat.sword.release', (event: any) => {
+        this.releaseSword(event.payload.attackerId);
+      }),
+
+      gameEvents.on('combat.parry.attempt', (event: any) => {
+        this.attemptParry(event.payload.entityId);
+      })
+    );
+  }
 
-    // Handle damage events
-    gameEvents.on('combat.damage', (event: any) => {
-      this.handleDamage(event.payload);
-    });
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
   }
 
   update(deltaTime: number): void {
     this.updateCooldowns(deltaTime);
     this.updateInvulnerability(deltaTime);
+    this.updateSwordStates(deltaTime);
     this.processPendingHits(deltaTime);
   }
 
+  private updateSwordStates(deltaTime: number): void {
+    const elapsed = deltaTime * 1000;
+
+    for (const [entityId, state] of this.swordStates) {
+      if (state.comboTimer > 0) {
+        state.comboTimer -= elapsed;
+        if (state.comboTimer <= 0) state.comboStep = 0;
+      }
+
+      if (state.holding && !state.charged) {
+        state.chargeTimer += elapsed;
+        if (state.chargeTimer >= this.CHARGE_TIME) {
+          state.charged = true;
+          gameEvents.emit({
+            type: 'combat.charge.ready',
+            payload: { entityId },
+            timestamp: Date.now()
+          });
+        }
+      }
+
+      state.parryTimer = Math.max(0, state.parryTimer - elapsed);
+      state.parryCooldown = Math.max(0, state.parryCooldown - elapsed);
+    }
+  }
+
   private updateCooldowns(deltaTime: number): void {
     for (const [entityId, cooldown] of this.attackCooldowns) {
       const newCooldown = cooldown - deltaTime * 1000;
@@ -132,21 +282,30 @@ export class CombatSystem extends System {
     position?: { x: number; y: number };
   }): void {
     const { attackerId, weaponType = 'sword', direction, position } = payload;
-    
+    this.performAttack(attackerId, weaponType, direction, position);
+  }
+
+  private performAttack(
+    attackerId: string,
+    weaponType: string,
+    direction?: { x: number; y: number },
+    position?: { x: number; y: number },
+    comboStep = 1
+  ): boolean {
     // Check if attacker can attack (not on cooldown)
     if (this.attackCooldowns.has(attackerId)) {
-      return; // Still on cooldown
+      return false; // Still on cooldown
     }
 
     const attackerEntity = this.world.getEntity(attackerId);
-    if (!attackerEntity) return;
+    if (!attackerEntity) return false;
 
     const attackerTransform = attackerEntity.components.get('transform') as TransformComponent;
     const attackerMovement = attackerEntity.components.get('movement') as MovementComponent;
-    if (!attackerTransform || !attackerMovement) return;
+    if (!attackerTransform || !attackerMovement) return false;
 
     const pattern = this.attackPatterns.get(weaponType);
-    if (!pattern) return;
+    if (!pattern) return false;
 
     // Set attack cooldown
     this.attackCooldowns.set(attackerId, pattern.cooldown);
@@ -155,19 +314,34 @@ export class CombatSystem extends System {
     const attackDirection = direction || this.getDirectionFromMovement(attackerMovement);
     const attackPosition = position || attackerTransform.position;
 
+    if (this.hasComponent(attackerId, 'player')) {
+      emitTypedEvent(createEvent.playerAttackStart(
+        attackerId,
+        { ...attackPosition },
+        attackerMovement.direction,
+        this.getAttackType(weaponType),
+        comboStep
+      ));
+    }
+
     // Find potential targets in range
-    const targets = this.findTargetsInRange(attackPosition, attackDirection, pattern);
+    const targets = this.findTargetsInRange(attackPosition, attackDirection, pattern, attackerId);
 
     // Create hits for all valid targets
     for (const target of targets) {
+      // Radial attacks push targets away from the attacker rather than along the swing
+      const pushDirection = pattern.radial
+        ? this.getAwayDirection(attackPosition, target.position, attackDirection)
+        : attackDirection;
+
       this.queueHit({
         attacker: attackerId,
         target: target.id,
         damage: pattern.damage,
         position: target.position,
         knockback: {
-          x: attackDirection.x * pattern.knockback,
-          y: attackDirection.y * pattern.knockback
+          x: pushDirection.x * pattern.knockback,
+          y: pushDirection.y * pattern.knockback
         },
         type: weaponType as CombatHit['type']
       });
@@ -184,6 +358,135 @@ export class CombatSystem extends System {
     });
 
     console.log(`Combat: ${attackerId} attacks with ${weaponType}`);
+    return true;
+  }
+
+  private pressSword(attackerId: string): void {
+    const state = this.getSwordState(attackerId);
+    state.holding = true;
+    state.chargeTimer = 0;
+    state.charged = false;
+
+    // Chain into the next swing while the combo window is open, otherwise restart the chain
+    const step = state.comboTimer > 0 ? state.comboStep : 0;
+    if (!this.performAttack(attackerId, this.COMBO_PATTERNS[step], undefined, undefined, step + 1)) return;
+
+    const finished = step + 1 >= this.COMBO_PATTERNS.length;
+    state.comboStep = finished ? 0 : step + 1;
+    state.comboTimer = finished ? 0 : this.COMBO_WINDOW;
+  }
+
+  private releaseSword(attackerId: string): void {
+    const state = this.swordStates.get(attackerId);
+    if (!state?.holding) return;
+
+    const charged = state.charged;
+    state.holding = false;
+    state.chargeTimer = 0;
+    state.charged = false;
+
+    if (charged) {
+      // A full charge always spins, even mid-recovery
+      this.attackCooldowns.delete(attackerId);
+      state.comboStep = 0;
+      state.comboTimer = 0;
+      this.performAttack(attackerId, 'spin_attack', undefined, undefined, 0);
+    }
+  }
+
+  /**
+   * Open a short parry window - hostile hits landing inside it are turned back
+   */
+  attemptParry(entityId: string): boolean {
+    const state = this.getSwordState(entityId);
+    if (state.parryCooldown > 0) return false;
+
+    const transform = this.getComponent<TransformComponent>(entityId, 'transform');
+    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
+    if (!transform || !movement) return false;
+
+    state.parryTimer = this.PARRY_WINDOW;
+    state.parryCooldown = this.PARRY_COOLDOWN;
+
+    emitTypedEvent(createEvent.playerAttackStart(entityId, { ...transform.position }, movement.direction, 'parry', 0));
+    return true;
+  }
+
+  private tryParry(hit: CombatHit): boolean {
+    const state = this.swordStates.get(hit.target);
+    if (!state || state.parryTimer <= 0) return false;
+
+    // Only attacks can be parried - hazards, status ticks and forced damage still land
+    if (hit.type === 'status') return false;
+    const reflected = hit.type === 'projectile';
+    if (!reflected && !this.isHostile(hit.attacker)) return false;
+
+    state.parryTimer = 0;
+    state.parryCooldown = 0;
+
+    // Melee attackers are thrown back and staggered by EnemyAISystem
+    const defender = this.getComponent<TransformComponent>(hit.target, 'transform');
+    const attacker = this.getComponent<TransformComponent>(hit.attacker, 'transform');
+    const attackerMovement = this.getComponent<MovementComponent>(hit.attacker, 'movement');
+    let knockback: { x: number; y: number } | undefined;
+    if (!reflected && defender && attacker) {
+      const away = this.getAwayDirection(defender.position, attacker.position, { x: 0, y: 0 });
+      knockback = { x: away.x * this.KNOCKBACK_FORCE * 2, y: away.y * this.KNOCKBACK_FORCE * 2 };
+      if (attackerMovement) {
+        attackerMovement.velocity.x += knockback.x;
+        attackerMovement.velocity.y += knockback.y;
+      }
+    }
+
+    emitTypedEvent(createEvent.combatHit(hit.target, hit.attacker, { ...hit.position }, 0, 'parry', knockback));
+
+    gameEvents.emit({
+      type: 'combat.parried',
+      payload: {
+        defenderId: hit.target,
+        attackerId: hit.attacker,
+        position: { ...hit.position },
+        reflected,
+        projectileId: hit.projectileId ?? null
+      },
+      timestamp: Date.now()
+    });
+
+    return true;
+  }
+
+  private getSwordState(entityId: string): SwordState {
+    let state = this.swordStates.get(entityId);
+    if (!state) {
+      state = {
+        comboStep: 0,
+        comboTimer: 0,
+        holding: false,
+        chargeTimer: 0,
+        charged: false,
+        parryTimer: 0,
+        parryCooldown: 0
+      };
+      this.swordStates.set(entityId, state);
+    }
+    return state;
+  }
+
+  private getAttackType(weaponType: string): PlayerAttackStartEvent['attackType'] {
+    if (weaponType === 'spin_attack') return 'spin';
+    if (weaponType.startsWith('magic')) return 'magic';
+    return 'sword';
+  }
+
+  private getAwayDirection(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    fallback: { x: number; y: number }
+  ): { x: number; y: number } {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy);
+    return length > 0 ? { x: dx / length, y: dy / length } : fallback;
   }
 
   private getDirectionFromMovement(movement: MovementComponent): { x: number; y: number } {
@@ -199,14 +502,22 @@ export class CombatSystem extends System {
   private findTargetsInRange(
     attackPosition: { x: number; y: number },
     direction: { x: number; y: number },
-    pattern: AttackPattern
+    pattern: AttackPattern,
+    attackerId: string
   ): Array<{ id: string; position: { x: number; y: number } }> {
     const targets: Array<{ id: string; position: { x: number; y: number } }> = [];
     
     // Get all entities that can take damage
     const damageable = this.getEntitiesWithComponents('health', 'transform', 'collider');
     
+    // Enemies and bosses don't hurt each other
+    const hostileAttacker = this.isHostile(attackerId);
+
     for (const entity of damageable) {
+      // Attackers never hit themselves
+      if (entity.id === attackerId) continue;
+      if (hostileAttacker && this.isHostile(entity.id)) continue;
+
       const transform = entity.components.get('transform') as TransformComponent;
       const collider = entity.components.get('collider') as ColliderComponent;
       
@@ -235,7 +546,7 @@ export class CombatSystem extends System {
         const dotProduct = direction.x * targetDirection.x + direction.y * targetDirection.y;
         
         // Attack hits if target is roughly in the forward direction (135 degree cone)
-        if (dotProduct > -0.5) {
+        if (pattern.radial || dotProduct > -0.5) {
           targets.push({
             id: entity.id,
             position: transform.position
@@ -247,6 +558,10 @@ export class CombatSystem extends System {
     return targets;
   }
 
+  private isHostile(entityId: string): boolean {
+    return this.hasComponent(entityId, 'enemy') || this.hasComponent(entityId, 'boss');
+  }
+
   private queueHit(hit: CombatHit): void {
     this.pendingHits.push(hit);
   }
@@ -261,14 +576,33 @@ export class CombatSystem extends System {
 
     if (!healthComponent || !transformComponent) return;
 
+    if (this.tryParry(hit)) return;
+
+    // Status ticks (burn) land through i-frames and do not grant new ones
+    const periodic = hit.type === 'status';
+
     // Skip if target is invulnerable
-    if (healthComponent.invulnerable || this.invulnerabilityTimers.has(hit.target)) {
+    if (!periodic && (healthComponent.invulnerable || this.invulnerabilityTimers.has(hit.target))) {
       return;
     }
 
-    // Apply damage
-    const actualDamage = this.calculateDamage(hit);
+    // Burrowed enemies are out of reach even once an earlier hit's i-frames have cleared invulnerable
+    const enemyComponent = targetEntity.components.get('enemy') as EnemyComponent | undefined;
+    if (enemyComponent?.burrowed) return;
+
+    // Dodge rolls are untouchable at their peak
+    const playerComponent = targetEntity.components.get('player') as PlayerComponent | undefined;
+    if (playerComponent && PlayerControllerSystem.isRollInvulnerable(playerComponent)) {
+      return;
+    }
+
+    // Apply damage - immune targets shrug the hit off entirely
+    const multiplier = this.getElementalMultiplier(hit.target, hit.element ?? 'physical');
+    if (multiplier <= 0) return;
+
+    const actualDamage = this.calculateDamage(hit, multiplier);
     healthComponent.current = Math.max(0, healthComponent.current - actualDamage);
+    this.reportPlayerHealth(hit.target, healthComponent);
 
     // Apply knockback
     if (hit.knockback && movementComponent) {
@@ -276,10 +610,25 @@ export class CombatSystem extends System {
       movementComponent.velocity.y += hit.knockback.y;
     }
 
-    // Set invulnerability
-    healthComponent.invulnerable = true;
-    healthComponent.invulnerabilityTimer = this.INVULNERABILITY_TIME;
-    this.invulnerabilityTimers.set(hit.target, this.INVULNERABILITY_TIME);
+    emitTypedEvent(createEvent.combatHit(hit.attacker, hit.target, { ...hit.position }, actualDamage, hit.type, hit.knockback, hit.element));
+
+    // Elemental hits inflict their status; StatusEffectSystem runs the timers
+    const status = hit.element && !periodic ? ELEMENT_STATUS[hit.element] : undefined;
+    if (status) {
+      gameEvents.emit({
+        type: 'status.apply',
+        payload: { targetId: hit.target, effect: status, sourceId: hit.attacker },
+        timestamp: Date.now()
+      });
+    }
+
+    // Set invulnerability - enemies only flinch for the rest of the swing that hit them
+    if (!periodic) {
+      const invulnerabilityTime = this.isHostile(hit.target) ? this.HOSTILE_INVULNERABILITY_TIME : this.INVULNERABILITY_TIME;
+      healthComponent.invulnerable = true;
+      healthComponent.invulnerabilityTimer = invulnerabilityTime;
+      this.invulnerabilityTimers.set(hit.target, invulnerabilityTime);
+    }
 
     // Emit hit effect
     gameEvents.emit({
@@ -288,7 +637,8 @@ export class CombatSystem extends System {
         target: hit.target,
         damage: actualDamage,
         position: hit.position,
-        type: hit.type
+        type: hit.type,
+        element: hit.element ?? 'physical'
       },
       timestamp: Date.now()
     });
@@ -301,17 +651,27 @@ export class CombatSystem extends System {
     console.log(`Combat: ${hit.target} takes ${actualDamage} damage (${healthComponent.current}/${healthComponent.maximum} HP)`);
   }
 
-  private calculateDamage(hit: CombatHit): number {
-    // Base damage from hit
-    let damage = hit.damage;
+  private calculateDamage(hit: CombatHit, elementalMultiplier: number): number {
+    // Base damage from hit, scaled by the target's weakness or resistance - resisted
+    // hits keep their half point, so a 1-damage swing takes 0.5 off a resistant target
+    return this.roundDamage(hit.damage * elementalMultiplier);
+  }
 
-    // TODO: Apply damage modifiers based on:
-    // - Attacker stats/equipment
-    // - Target defense/armor
-    // - Environmental factors
-    // - Critical hit chances
+  // Snap to the nearest half point - anything that lands takes at least half a point
+  private roundDamage(damage: number): number {
+    return Math.max(this.DAMAGE_STEP, Math.round(damage / this.DAMAGE_STEP) * this.DAMAGE_STEP);
+  }
 
-    return Math.max(1, Math.floor(damage));
+  private getElementalMultiplier(targetId: string, element: DamageElement): number {
+    return this.getElementalProfile(targetId)?.[element] ?? 1;
+  }
+
+  private getElementalProfile(targetId: string): ElementalProfile | undefined {
+    const enemy = this.getComponent<EnemyComponent>(targetId, 'enemy');
+    if (enemy) return ENEMIES[enemy.species]?.elements;
+
+    const boss = this.getComponent<BossComponent>(targetId, 'boss');
+    return boss ? BOSSES[boss.bossId]?.elements : undefined;
   }
 
   private handleDamage(payload: { 
@@ -319,8 +679,12 @@ export class CombatSystem extends System {
     damage: number; 
     source?: string;
     position?: { x: number; y: number };
+    knockback?: { x: number; y: number };
+    type?: CombatHit['type'];
+    element?: DamageElement;
+    projectileId?: string;
   }): void {
-    const { targetId, damage, source = 'environmental', position } = payload;
+    const { targetId, damage, source = 'environmental', position, knockback, type = 'environmental', element, projectileId } = payload;
     
     const targetEntity = this.world.getEntity(targetId);
     if (!targetEntity) return;
@@ -334,7 +698,10 @@ export class CombatSystem extends System {
       target: targetId,
       damage,
       position: hitPosition,
-      type: 'environmental'
+      ...(knockback ? { knockback } : {}),
+      type,
+      ...(element ? { element } : {}),
+      ...(projectileId ? { projectileId } : {})
     });
   }
 
@@ -355,12 +722,19 @@ export class CombatSystem extends System {
       timestamp: Date.now()
     });
 
-    // TODO: Handle drops, experience, etc.
-    
+    // Drops are rolled by LootSystem once EnemyAISystem reports the enemy died
     console.log(`Combat: ${targetId} was defeated by ${killerId}`);
   }
 
   // Public API methods
+  registerAttackPattern(pattern: AttackPattern): void {
+    this.attackPatterns.set(pattern.id, pattern);
+  }
+
+  getAttackPattern(id: string): AttackPattern | undefined {
+    return this.attackPatterns.get(id);
+  }
+
   canAttack(entityId: string): boolean {
     return !this.attackCooldowns.has(entityId);
   }
@@ -388,8 +762,9 @@ export class CombatSystem extends System {
     if (!healthComponent || !transformComponent) return;
 
     // Apply damage directly
-    const actualDamage = Math.max(1, damage);
+    const actualDamage = this.roundDamage(damage);
     healthComponent.current = Math.max(0, healthComponent.current - actualDamage);
+    this.reportPlayerHealth(targetId, healthComponent);
 
     // Emit hit effect
     gameEvents.emit({
@@ -423,6 +798,7 @@ export class CombatSystem extends System {
 
     const actualHeal = Math.min(amount, healthComponent.maximum - healthComponent.current);
     healthComponent.current += actualHeal;
+    this.reportPlayerHealth(targetId, healthComponent);
 
     // Emit heal effect
     gameEvents.emit({
@@ -437,6 +813,12 @@ export class CombatSystem extends System {
     console.log(`Combat: Healed ${targetId} for ${actualHeal} HP (${healthComponent.current}/${healthComponent.maximum})`);
   }
 
+  // The HUD hearts follow the player's health
+  private reportPlayerHealth(entityId: string, health: HealthComponent): void {
+    if (!this.hasComponent(entityId, 'player')) return;
+    emitTypedEvent(createEvent.playerHealthChanged(entityId, health.current, health.maximum));
+  }
+
   // Get combat status for UI
   getCombatStatus(entityId: string): {
     canAttack: boolean;
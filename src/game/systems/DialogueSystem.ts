@@ -0,0 +1,266 @@
+// Dialogue System - Runs NPC conversation graphs with conditional choices and side effects
+// Following Spec Librarian standards; conversation graphs live in world/dialogue.json
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import type {
+  DialogueAction,
+  DialogueBranch,
+  DialogueChoice,
+  DialogueData,
+  DialogueNode,
+  DialogueTree,
+  NPCComponent,
+  PlayerComponent,
+  TransformComponent
+} from '@shared/types.js';
+import dialogueSchema from '@schemas/dialogue.schema.json';
+import defaultDialogueData from '@world/dialogue.json';
+import { SchemaValidator } from '../utils/SchemaValidator.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+import { QuestSystem } from './QuestSystem.js';
+
+interface Conversation {
+  entityId: string;
+  npc: NPCComponent;
+  tree: DialogueTree | null;  // null plays the NPC's plain dialogue lines
+  nodeId: string;
+  choices: DialogueChoice[];  // visible choices of the current node
+}
+
+export class DialogueSystem extends System {
+  private trees: Record<string, DialogueTree>;
+  private conversation: Conversation | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(data: unknown = defaultDialogueData) {
+    super();
+
+    const validation = SchemaValidator.validate(dialogueSchema, data);
+    if (!validation.valid) {
+      throw new Error(`Invalid dialogue data:\n${validation.errors.join('\n')}`);
+    }
+
+    this.trees = (data as DialogueData).trees;
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on(GAME_EVENTS.INTERACTION_START, (event: any) => {
+        this.startConversation(event.payload.entityId);
+      }),
+
+      // The dialogue box confirms every node; nodes without choices send index 0
+      gameEvents.on(GAME_EVENTS.DIALOGUE_CHOICE, (event: any) => {
+        this.choose(event.payload.choiceIndex);
+      }),
+
+      // Escape closes the dialogue box mid-conversation
+      gameEvents.on('ui.dialogue.cancel', () => {
+        this.endConversation();
+      }),
+
+      // Conversations never survive a map change
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, () => {
+        this.conversation = null;
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Event driven - conversations advance on DIALOGUE_CHOICE
+  }
+
+  isInConversation(): boolean {
+    return this.conversation !== null;
+  }
+
+  startConversation(entityId: string): boolean {
+    if (this.conversation) return false;
+
+    const npc = this.getComponent<NPCComponent>(entityId, 'npc');
+    if (!npc) return false;
+
+    let tree: DialogueTree | null = null;
+    if (npc.dialogueTree) {
+      tree = this.trees[npc.dialogueTree] ?? null;
+      if (!tree) {
+        console.warn(`DialogueSystem: Unknown dialogue tree "${npc.dialogueTree}" for ${npc.name}`);
+      }
+    }
+
+    if (!tree && npc.dialogue.length === 0) return false;
+
+    this.conversation = { entityId, npc, tree, nodeId: '', choices: [] };
+
+    if (tree) {
+      this.showNode(this.resolveBranch(tree.entries) ?? tree.start);
+    } else {
+      npc.currentDialogue = 0;
+      this.showLine();
+    }
+    return true;
+  }
+
+  choose(choiceIndex: number): void {
+    const conversation = this.conversation;
+    if (!conversation) return;
+
+    if (!conversation.tree) {
+      conversation.npc.currentDialogue++;
+      if (conversation.npc.currentDialogue < conversation.npc.dialogue.length) {
+        this.showLine();
+      } else {
+        this.endConversation();
+      }
+      return;
+    }
+
+    const node = conversation.tree.nodes[conversation.nodeId];
+    let next: string | null;
+
+    if (conversation.choices.length > 0) {
+      const choice = conversation.choices[choiceIndex];
+      if (!choice) return;
+
+      this.runActions(choice.actions);
+      next = choice.next ?? null;
+    } else {
+      next = node ? this.resolveNext(node) : null;
+    }
+
+    // An action (e.g. opening a shop) may already have closed the conversation
+    if (this.conversation !== conversation) return;
+
+    if (next) {
+      this.showNode(next);
+    } else {
+      this.endConversation();
+    }
+  }
+
+  private showNode(nodeId: string): void {
+    const conversation = this.conversation!;
+    const node = conversation.tree!.nodes[nodeId];
+    if (!node) {
+      console.warn(`DialogueSystem: Missing dialogue node "${nodeId}"`);
+      this.endConversation();
+      return;
+    }
+
+    conversation.nodeId = nodeId;
+    this.runActions(node.actions);
+    conversation.choices = (node.choices ?? []).filter(choice => WorldConditions.checkAll(this.world, choice.conditions));
+
+    const isComplete = conversation.choices.length === 0 && this.resolveNext(node) === null;
+    emitTypedEvent(createEvent.dialogueStart(
+      conversation.entityId,
+      nodeId,
+      node.speaker ?? conversation.npc.name,
+      node.text,
+      conversation.choices.map(choice => choice.text),
+      isComplete
+    ));
+  }
+
+  private showLine(): void {
+    const { entityId, npc } = this.conversation!;
+    const index = npc.currentDialogue;
+
+    emitTypedEvent(createEvent.dialogueStart(
+      entityId,
+      `line_${index}`,
+      npc.name,
+      npc.dialogue[index],
+      [],
+      index >= npc.dialogue.length - 1
+    ));
+  }
+
+  private endConversation(): void {
+    const conversation = this.conversation;
+    if (!conversation) return;
+
+    this.conversation = null;
+    const npcId = conversation.npc.npcId ?? conversation.entityId;
+
+    emitTypedEvent(createEvent.dialogueEnd(conversation.entityId, npcId));
+    emitTypedEvent(createEvent.interactionEnd(conversation.entityId, npcId, conversation.npc.name));
+  }
+
+  private resolveNext(node: DialogueNode): string | null {
+    return this.resolveBranch(node.branches) ?? node.next ?? null;
+  }
+
+  private resolveBranch(branches: DialogueBranch[] | undefined): string | null {
+    const branch = (branches ?? []).find(candidate => WorldConditions.checkAll(this.world, candidate.conditions));
+    return branch?.next ?? null;
+  }
+
+  private runActions(actions: DialogueAction[] | undefined): void {
+    for (const action of actions ?? []) {
+      switch (action.type) {
+        case 'setFlag':
+          gameEvents.emit({
+            type: 'world.flag.set',
+            payload: { flag: action.key, value: action.value ?? true },
+            timestamp: Date.now()
+          });
+          break;
+
+        case 'giveItem':
+          this.giveItem(action.key, typeof action.value === 'number' ? action.value : 1);
+          break;
+
+        case 'startQuest': {
+          const questSystem = this.world.getSystem(QuestSystem);
+          questSystem?.startQuest(action.key);
+          break;
+        }
+
+        case 'openShop': {
+          const npcId = this.conversation?.npc.npcId ?? this.conversation?.entityId;
+          this.endConversation();
+          gameEvents.emit({
+            type: 'ui.shop.open',
+            payload: { shopId: action.key, npcId },
+            timestamp: Date.now()
+          });
+          break;
+        }
+      }
+    }
+  }
+
+  private giveItem(itemType: string, amount: number): void {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    if (!playerEntity) return;
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    const inventory = player.inventory as unknown as Record<string, unknown>;
+
+    if (typeof inventory[itemType] === 'boolean') {
+      inventory[itemType] = true;
+    } else if (typeof inventory[itemType] === 'number') {
+      inventory[itemType] = (inventory[itemType] as number) + amount;
+    } else {
+      console.warn(`DialogueSystem: Cannot give unknown item "${itemType}"`);
+      return;
+    }
+
+    gameEvents.emit({
+      type: 'player.inventory.changed',
+      payload: { inventory: player.inventory },
+      timestamp: Date.now()
+    });
+
+    emitTypedEvent(createEvent.itemCollected(`dialogue_${itemType}`, itemType, { ...transform.position }, amount));
+  }
+}
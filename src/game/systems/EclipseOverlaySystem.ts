@@ -0,0 +1,155 @@
+// Eclipse Overlay System - Merges a map's authored Eclipse tile edits and Eclipse-only enemies on realm switch
+// Following World Builder agent specifications; overlays come from each map's "eclipse" layers, the day map is restored on return
+
+import { System, ECSUtils } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import { ENEMIES, OVERWORLD_MAP_ID } from '@shared/constants.js';
+import type { EclipseOverlay, Realm, TileType } from '@shared/types.js';
+import { mapLoader } from '../utils/MapLoader.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+interface OverlayEnemy {
+  enemyId: string;            // id authored in the overlay
+  entityId: string;
+}
+
+interface EditedTile {
+  tile: WorldTile;
+  tileX: number;
+  tileY: number;
+  previous: TileType;
+}
+
+export class EclipseOverlaySystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private currentRealm: Realm = 'dayrealm';
+  private worldTiles: WorldTile[][] | null = null;
+  private editedTiles: EditedTile[] = [];
+  private overlayEnemies: OverlayEnemy[] = [];
+  private defeatedEnemies: Set<string> = new Set(); // stay gone until the map is left, like cleared spawn zones
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+      }),
+
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+        this.refresh();
+      }),
+
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        if (event.payload.mapId !== this.currentMap) this.defeatedEnemies.clear();
+        this.currentMap = event.payload.mapId;
+        this.refresh();
+      }),
+
+      gameEvents.on(GAME_EVENTS.ENEMY_DIED, (event: any) => {
+        const defeated = this.overlayEnemies.find(enemy => enemy.entityId === event.payload.entityId);
+        if (!defeated) return;
+        this.defeatedEnemies.add(defeated.enemyId);
+        this.overlayEnemies = this.overlayEnemies.filter(enemy => enemy !== defeated);
+      }),
+
+      // Continuing after a death brings the Eclipse enemies back too
+      gameEvents.on(GAME_EVENTS.PLAYER_RESPAWNED, () => {
+        this.defeatedEnemies.clear();
+        this.refresh();
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Overlays are event-driven - they change only with the map or the realm
+  }
+
+  getOverlay(mapId: string): EclipseOverlay | null {
+    return mapLoader.getLoadedMap(mapId)?.eclipse ?? null;
+  }
+
+  isOverlayActive(): boolean {
+    return this.editedTiles.length > 0 || this.overlayEnemies.length > 0;
+  }
+
+  /**
+   * What a tile of the current map will be in the given realm, whichever realm is showing now
+   */
+  getRealmTileType(tileX: number, tileY: number, realm: Realm): TileType | null {
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    if (!tile) return null;
+    if (!tile.eclipseAuthored) return TileCollision.getEffectiveTileType(tile, realm);
+
+    const edited = this.editedTiles.find(entry => entry.tileX === tileX && entry.tileY === tileY);
+    if (edited) return realm === 'eclipse' ? tile.tileType : edited.previous;
+
+    // Not merged yet - look the edit up in the overlay itself
+    if (realm === 'eclipse' && this.currentRealm !== 'eclipse') {
+      const edit = this.getOverlay(this.currentMap)?.tiles.find(entry => entry.x === tileX && entry.y === tileY);
+      if (edit) return edit.tileType;
+    }
+    return tile.tileType;
+  }
+
+  // Always start from the day map so switching back and forth never stacks edits
+  private refresh(): void {
+    this.clear();
+
+    const overlay = this.getOverlay(this.currentMap);
+    if (!overlay || this.currentRealm !== 'eclipse') return;
+
+    for (const edit of overlay.tiles) {
+      const tile = this.worldTiles?.[edit.y]?.[edit.x];
+      if (!tile) continue;
+
+      const edited = { tile, tileX: edit.x, tileY: edit.y, previous: tile.tileType };
+      this.editedTiles.push(edited);
+      this.changeTile(edited, edit.tileType);
+    }
+
+    for (const enemy of overlay.enemies) {
+      if (this.defeatedEnemies.has(enemy.id)) continue;
+
+      const definition = ENEMIES[enemy.species];
+      if (!definition) {
+        console.warn(`EclipseOverlaySystem: Unknown species "${enemy.species}" for ${enemy.id}`);
+        continue;
+      }
+      const entityId = ECSUtils.createEnemyEntity(this.world, definition, enemy.position).id;
+      this.overlayEnemies.push({ enemyId: enemy.id, entityId });
+    }
+  }
+
+  private clear(): void {
+    this.editedTiles.forEach(edited => this.changeTile(edited, edited.previous));
+    this.editedTiles = [];
+
+    // Enemies defeated during the Eclipse are already gone
+    this.overlayEnemies.forEach(enemy => this.world.destroyEntity(enemy.entityId));
+    this.overlayEnemies = [];
+  }
+
+  private changeTile(edited: EditedTile, tileType: TileType): void {
+    const previousTileType = edited.tile.tileType;
+    edited.tile.tileType = tileType;
+    edited.tile.walkable = TileCollision.isTileWalkable(tileType);
+
+    gameEvents.emit({
+      type: 'world.tile.changed',
+      payload: { tileX: edited.tileX, tileY: edited.tileY, tileType, previousTileType },
+      timestamp: Date.now()
+    });
+  }
+}
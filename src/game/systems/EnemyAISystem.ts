@@ -0,0 +1,564 @@
+// Enemy AI System - Data-driven behaviour state machines for regional enemies
+// Following Combat & Physics Engineer specifications; hits and knockback go through CombatSystem
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import { ENEMIES, TILE_SIZE } from '@shared/constants.js';
+import type {
+  EnemyComponent,
+  EnemyDefinition,
+  EnemyState,
+  HealthComponent,
+  MovementComponent,
+  SpriteComponent,
+  StatusComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { ProjectileSystem } from './ProjectileSystem.js';
+import { StatusEffectSystem } from './StatusEffectSystem.js';
+
+interface EnemyContext {
+  id: string;
+  enemy: EnemyComponent;
+  def: EnemyDefinition;
+  transform: TransformComponent;
+  movement: MovementComponent;
+  health: HealthComponent;
+  sprite: SpriteComponent | undefined;
+  player: { id: string; position: Vector2; health: HealthComponent } | null;
+  distance: number;       // px to the player (Infinity when there is none)
+  deltaTime: number;      // seconds
+}
+
+type StateHandler = (ctx: EnemyContext) => void;
+
+export class EnemyAISystem extends System {
+  private unsubscribers: Array<() => void> = [];
+
+  // Behaviour tuning shared by all species
+  private readonly IDLE_TIME = 1500;            // ms before an idle enemy starts patrolling
+  private readonly PATROL_TIMEOUT = 4000;       // ms before giving up on a patrol point
+  private readonly FLEE_TIME = 2500;            // ms spent running before regrouping
+  private readonly CIRCLE_TIME = 1200;          // ms a pouncer circles before it may strike
+  private readonly ORBIT_RADIUS = TILE_SIZE * 2.5;
+  private readonly CONTACT_RANGE = TILE_SIZE * 0.75;
+  private readonly AREA_RANGE = TILE_SIZE * 2;  // slam / wisp detonation radius
+  private readonly CONTACT_KNOCKBACK = 80;
+  private readonly STAGGER_FRICTION = 8;
+  private readonly BURROWED_ALPHA = 0.25;
+
+  private readonly stateHandlers: Record<EnemyState, StateHandler> = {
+    idle: ctx => this.updateIdle(ctx),
+    patrol: ctx => this.updatePatrol(ctx),
+    aggro: ctx => this.updateAggro(ctx),
+    attack: ctx => this.updateAttack(ctx),
+    stagger: ctx => this.updateStagger(ctx),
+    flee: ctx => this.updateFlee(ctx)
+  };
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('combat.hit', (event: any) => {
+        this.handleEnemyHit(event.payload.target, event.payload.damage);
+      }),
+
+      gameEvents.on('combat.death', (event: any) => {
+        this.handleEnemyDeath(event.payload.targetId, event.payload.killerId, event.payload.position);
+      }),
+
+      // A parried melee attack leaves the attacker open
+      gameEvents.on('combat.parried', (event: any) => {
+        if (!event.payload.reflected) this.handleParried(event.payload.attackerId);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    const player = this.findPlayer();
+    const enemies = this.getEntitiesWithComponents('enemy', 'transform', 'movement', 'health');
+
+    for (const entity of enemies) {
+      const enemy = this.getComponent<EnemyComponent>(entity.id, 'enemy')!;
+      const def = ENEMIES[enemy.species];
+      if (!def) continue;
+
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const ctx: EnemyContext = {
+        id: entity.id,
+        enemy,
+        def,
+        transform,
+        movement: this.getComponent<MovementComponent>(entity.id, 'movement')!,
+        health: this.getComponent<HealthComponent>(entity.id, 'health')!,
+        sprite: this.getComponent<SpriteComponent>(entity.id, 'sprite'),
+        player,
+        distance: player ? this.distanceBetween(transform.position, player.position) : Infinity,
+        deltaTime
+      };
+
+      enemy.attackCooldown = Math.max(0, enemy.attackCooldown - deltaTime * 1000);
+
+      // Stunned and frozen enemies neither think nor hurt on contact until it wears off
+      if (StatusEffectSystem.isImmobilized(this.getComponent<StatusComponent>(entity.id, 'status'))) {
+        this.stop(ctx);
+        continue;
+      }
+
+      enemy.stateTimer += deltaTime * 1000;
+      this.stateHandlers[enemy.state](ctx);
+      this.applyContactDamage(ctx);
+    }
+  }
+
+  // === States ===
+
+  private updateIdle(ctx: EnemyContext): void {
+    this.stop(ctx);
+    if (ctx.def.attackStyle === 'burrow') this.setBurrowed(ctx, true);
+
+    if (ctx.distance <= ctx.def.aggroRadius) {
+      this.setState(ctx, 'aggro');
+    } else if (ctx.def.patrolRadius > 0 && ctx.enemy.stateTimer >= this.IDLE_TIME) {
+      const angle = Math.random() * Math.PI * 2;
+      const radius = Math.random() * ctx.def.patrolRadius;
+      ctx.enemy.patrolTarget = {
+        x: ctx.enemy.home.x + Math.cos(angle) * radius,
+        y: ctx.enemy.home.y + Math.sin(angle) * radius
+      };
+      this.setState(ctx, 'patrol');
+    }
+  }
+
+  private updatePatrol(ctx: EnemyContext): void {
+    if (ctx.distance <= ctx.def.aggroRadius && !this.shouldFlee(ctx)) {
+      this.setState(ctx, 'aggro');
+      return;
+    }
+
+    const target = ctx.enemy.patrolTarget ?? ctx.enemy.home;
+    const arrived = this.moveToward(ctx, target, ctx.def.speed * 0.5) < 4;
+    if (arrived || ctx.enemy.stateTimer >= this.PATROL_TIMEOUT) {
+      ctx.enemy.patrolTarget = null;
+      this.setState(ctx, 'idle');
+    }
+  }
+
+  private updateAggro(ctx: EnemyContext): void {
+    const { enemy, def, player } = ctx;
+
+    if (!player || ctx.distance > def.aggroRadius * 2 ||
+        this.distanceBetween(ctx.transform.position, enemy.home) > def.leashRadius) {
+      // Lost the player or strayed too far from home - walk back
+      enemy.patrolTarget = { ...enemy.home };
+      this.setState(ctx, 'patrol');
+      return;
+    }
+
+    if (this.shouldFlee(ctx)) {
+      this.setState(ctx, 'flee');
+      return;
+    }
+
+    switch (def.attackStyle) {
+      case 'pounce':
+        this.circlePlayer(ctx, player.position);
+        if (enemy.stateTimer >= this.CIRCLE_TIME && this.canStartAttack(ctx)) {
+          this.setState(ctx, 'attack');
+        }
+        return;
+
+      case 'orbit':
+        // Wisps circle until their fuse (windup) burns down, then dive in
+        this.circlePlayer(ctx, player.position);
+        if (enemy.stateTimer >= def.windup) {
+          this.setState(ctx, 'attack');
+        }
+        return;
+
+      case 'flank': {
+        const flankPoint = this.getFlankPoint(ctx, player.position);
+        const flanked = this.moveToward(ctx, flankPoint, def.speed) < TILE_SIZE;
+        if ((flanked || ctx.distance <= def.attackRange) && this.canStartAttack(ctx)) {
+          this.setState(ctx, 'attack');
+        }
+        return;
+      }
+
+      case 'shoot':
+        // Archers close to firing range and then hold their ground
+        if (ctx.distance > def.attackRange * 0.8) {
+          this.moveToward(ctx, player.position, def.speed);
+        } else {
+          this.stop(ctx);
+        }
+        if (this.canStartAttack(ctx)) {
+          this.setState(ctx, 'attack');
+        }
+        return;
+
+      default:
+        this.moveToward(ctx, player.position, def.speed);
+        if (this.canStartAttack(ctx)) {
+          this.setState(ctx, 'attack');
+        }
+    }
+  }
+
+  private updateAttack(ctx: EnemyContext): void {
+    const { enemy, def, player } = ctx;
+
+    if (def.attackStyle === 'orbit') {
+      this.updateDetonation(ctx);
+      return;
+    }
+
+    if (enemy.stateTimer < def.windup) {
+      // Telegraph: stand still, face the player and flash
+      this.stop(ctx);
+      if (def.attackStyle === 'burrow') this.setBurrowed(ctx, false);
+      if (player) enemy.attackVector = this.directionTo(ctx.transform.position, player.position);
+      this.setFlash(ctx, Math.floor(enemy.stateTimer / 100) % 2 === 0);
+      return;
+    }
+
+    this.setFlash(ctx, false);
+
+    if (enemy.stateTimer < def.windup + def.attackDuration) {
+      if (def.attackStyle === 'shoot') {
+        this.stop(ctx);
+        if (!enemy.struck) {
+          enemy.struck = true;
+          this.fireProjectile(ctx);
+        }
+      } else if (def.attackStyle === 'slam' && def.projectile && ctx.distance > this.AREA_RANGE) {
+        // Out of slam reach - lob the projectile over whatever stands between
+        this.stop(ctx);
+        if (!enemy.struck) {
+          enemy.struck = true;
+          this.fireProjectile(ctx);
+        }
+      } else if (def.attackStyle === 'slam') {
+        this.stop(ctx);
+        if (!enemy.struck) {
+          enemy.struck = true;
+          this.damageInRadius(ctx, this.AREA_RANGE);
+          gameEvents.emit({
+            type: 'effects.screen.shake',
+            payload: { intensity: 3, duration: 200, frequency: 30 },
+            timestamp: Date.now()
+          });
+        }
+      } else {
+        ctx.movement.velocity.x = enemy.attackVector.x * def.attackSpeed;
+        ctx.movement.velocity.y = enemy.attackVector.y * def.attackSpeed;
+        this.updateFacing(ctx.movement);
+      }
+      return;
+    }
+
+    enemy.attackCooldown = def.attackCooldown;
+    // Charging serpents are left exposed after the rush
+    this.setState(ctx, def.attackStyle === 'charge' ? 'stagger' : 'aggro');
+  }
+
+  private updateDetonation(ctx: EnemyContext): void {
+    const { player } = ctx;
+    if (player) this.moveToward(ctx, player.position, ctx.def.speed * 2.5);
+    this.setFlash(ctx, Math.floor(ctx.enemy.stateTimer / 60) % 2 === 0);
+
+    if (ctx.distance <= ctx.def.attackRange || ctx.enemy.stateTimer >= 1500) {
+      this.damageInRadius(ctx, this.AREA_RANGE);
+      gameEvents.emit({
+        type: 'combat.damage',
+        payload: { targetId: ctx.id, damage: ctx.health.current, source: ctx.id },
+        timestamp: Date.now()
+      });
+      // Make sure the detonation cannot repeat while the self-damage is pending
+      ctx.enemy.stateTimer = 0;
+      this.setState(ctx, 'stagger');
+    }
+  }
+
+  private updateStagger(ctx: EnemyContext): void {
+    // Let CombatSystem's knockback carry the enemy, bleeding off speed
+    const friction = Math.max(0, 1 - this.STAGGER_FRICTION * ctx.deltaTime);
+    ctx.movement.velocity.x *= friction;
+    ctx.movement.velocity.y *= friction;
+
+    if (ctx.enemy.stateTimer >= ctx.def.staggerDuration) {
+      this.setState(ctx, ctx.player && ctx.distance <= ctx.def.aggroRadius ? 'aggro' : 'idle');
+    }
+  }
+
+  private updateFlee(ctx: EnemyContext): void {
+    const { player } = ctx;
+
+    if (!player || ctx.enemy.stateTimer >= this.FLEE_TIME || ctx.distance > ctx.def.aggroRadius * 1.5) {
+      ctx.enemy.patrolTarget = { ...ctx.enemy.home };
+      this.setState(ctx, 'patrol');
+      return;
+    }
+
+    const away = this.directionTo(player.position, ctx.transform.position);
+    ctx.movement.velocity.x = away.x * ctx.def.speed * 1.2;
+    ctx.movement.velocity.y = away.y * ctx.def.speed * 1.2;
+    this.updateFacing(ctx.movement);
+  }
+
+  // === Combat integration ===
+
+  private handleEnemyHit(entityId: string, damage: number): void {
+    const enemy = this.getComponent<EnemyComponent>(entityId, 'enemy');
+    const def = enemy && ENEMIES[enemy.species];
+    if (!enemy || !def) return;
+
+    const health = this.getComponent<HealthComponent>(entityId, 'health');
+    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
+
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_DAMAGED,
+      payload: {
+        entityId,
+        species: enemy.species,
+        damage,
+        health: health?.current ?? 0
+      },
+      timestamp: Date.now()
+    });
+
+    // Heavy enemies shrug off part (or all) of CombatSystem's knockback
+    if (movement) {
+      movement.velocity.x *= 1 - def.knockbackResistance;
+      movement.velocity.y *= 1 - def.knockbackResistance;
+    }
+
+    if (def.knockbackResistance < 1 && def.staggerDuration > 0 && (health?.current ?? 0) > 0) {
+      enemy.state = 'stagger';
+      enemy.stateTimer = 0;
+      this.emitStateChange(entityId, enemy, 'stagger');
+    }
+  }
+
+  private handleParried(entityId: string): void {
+    const enemy = this.getComponent<EnemyComponent>(entityId, 'enemy');
+    const def = enemy && ENEMIES[enemy.species];
+    if (!enemy || !def || def.staggerDuration <= 0) return;
+
+    const previousState = enemy.state;
+    enemy.state = 'stagger';
+    enemy.stateTimer = 0;
+    this.emitStateChange(entityId, enemy, previousState);
+  }
+
+  private handleEnemyDeath(entityId: string, killerId: string, position: Vector2): void {
+    const enemy = this.getComponent<EnemyComponent>(entityId, 'enemy');
+    if (!enemy) return;
+
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_DIED,
+      payload: {
+        entityId,
+        species: enemy.species,
+        killerId,
+        position: { ...position }
+      },
+      timestamp: Date.now()
+    });
+
+    this.world.destroyEntity(entityId);
+  }
+
+  private applyContactDamage(ctx: EnemyContext): void {
+    const { player } = ctx;
+    if (!player || ctx.enemy.burrowed || ctx.enemy.state === 'stagger') return;
+    if (ctx.distance > this.CONTACT_RANGE) return;
+
+    this.damagePlayer(ctx);
+  }
+
+  private damageInRadius(ctx: EnemyContext, radius: number): void {
+    if (ctx.player && ctx.distance <= radius) {
+      this.damagePlayer(ctx);
+    }
+  }
+
+  private damagePlayer(ctx: EnemyContext): void {
+    const { player } = ctx;
+    if (!player || player.health.invulnerable) return;
+
+    const direction = this.directionTo(ctx.transform.position, player.position);
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: {
+        targetId: player.id,
+        damage: ctx.def.damage,
+        source: ctx.id,
+        position: { ...player.position },
+        knockback: {
+          x: direction.x * this.CONTACT_KNOCKBACK,
+          y: direction.y * this.CONTACT_KNOCKBACK
+        }
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private fireProjectile(ctx: EnemyContext): void {
+    const projectiles = this.world.getSystem(ProjectileSystem);
+    if (!projectiles || !ctx.def.projectile) return;
+
+    projectiles.spawn(ctx.def.projectile, ctx.id, ctx.transform.position, ctx.enemy.attackVector, {
+      ...(ctx.player ? { targetId: ctx.player.id, target: { ...ctx.player.position } } : {})
+    });
+  }
+
+  // === Helpers ===
+
+  private setState(ctx: EnemyContext, state: EnemyState): void {
+    const previousState = ctx.enemy.state;
+    if (previousState === state) return;
+
+    ctx.enemy.state = state;
+    ctx.enemy.stateTimer = 0;
+    ctx.enemy.struck = false;
+    ctx.enemy.targetId = state === 'idle' || state === 'patrol' ? null : ctx.player?.id ?? null;
+    this.setFlash(ctx, false);
+
+    const wasEngaged = previousState !== 'idle' && previousState !== 'patrol';
+    const isEngaged = state !== 'idle' && state !== 'patrol';
+    if (!wasEngaged && isEngaged) {
+      gameEvents.emit({
+        type: GAME_EVENTS.ENEMY_AGGRO_START,
+        payload: { entityId: ctx.id, species: ctx.enemy.species, targetId: ctx.enemy.targetId },
+        timestamp: Date.now()
+      });
+    } else if (wasEngaged && !isEngaged) {
+      gameEvents.emit({
+        type: GAME_EVENTS.ENEMY_AGGRO_END,
+        payload: { entityId: ctx.id, species: ctx.enemy.species },
+        timestamp: Date.now()
+      });
+    }
+
+    this.emitStateChange(ctx.id, ctx.enemy, previousState);
+  }
+
+  private emitStateChange(entityId: string, enemy: EnemyComponent, previousState: EnemyState): void {
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_STATE_CHANGED,
+      payload: {
+        entityId,
+        species: enemy.species,
+        previousState,
+        state: enemy.state
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private shouldFlee(ctx: EnemyContext): boolean {
+    return ctx.def.fleeBelow > 0 && ctx.health.current / ctx.health.maximum <= ctx.def.fleeBelow;
+  }
+
+  private canStartAttack(ctx: EnemyContext): boolean {
+    return ctx.enemy.attackCooldown <= 0 && ctx.distance <= ctx.def.attackRange;
+  }
+
+  private circlePlayer(ctx: EnemyContext, center: Vector2): void {
+    ctx.enemy.orbitAngle += (ctx.def.speed / this.ORBIT_RADIUS) * ctx.deltaTime;
+    this.moveToward(ctx, {
+      x: center.x + Math.cos(ctx.enemy.orbitAngle) * this.ORBIT_RADIUS,
+      y: center.y + Math.sin(ctx.enemy.orbitAngle) * this.ORBIT_RADIUS
+    }, ctx.def.speed);
+  }
+
+  // Flankers aim for a point beside the player rather than straight at them
+  private getFlankPoint(ctx: EnemyContext, playerPosition: Vector2): Vector2 {
+    const toEnemy = this.directionTo(playerPosition, ctx.transform.position);
+    const side = ctx.id.charCodeAt(ctx.id.length - 1) % 2 === 0 ? 1 : -1;
+    return {
+      x: playerPosition.x + (toEnemy.x - toEnemy.y * side) * TILE_SIZE * 1.5,
+      y: playerPosition.y + (toEnemy.y + toEnemy.x * side) * TILE_SIZE * 1.5
+    };
+  }
+
+  // Returns the remaining distance to the target
+  private moveToward(ctx: EnemyContext, target: Vector2, speed: number): number {
+    const distance = this.distanceBetween(ctx.transform.position, target);
+    if (distance < 1) {
+      this.stop(ctx);
+      return distance;
+    }
+
+    const direction = this.directionTo(ctx.transform.position, target);
+    ctx.movement.velocity.x = direction.x * speed;
+    ctx.movement.velocity.y = direction.y * speed;
+    this.updateFacing(ctx.movement);
+    return distance;
+  }
+
+  private stop(ctx: EnemyContext): void {
+    ctx.movement.velocity.x = 0;
+    ctx.movement.velocity.y = 0;
+  }
+
+  private updateFacing(movement: MovementComponent): void {
+    const { x, y } = movement.velocity;
+    if (Math.abs(x) > Math.abs(y)) {
+      movement.direction = x > 0 ? 'right' : 'left';
+    } else if (y !== 0) {
+      movement.direction = y > 0 ? 'down' : 'up';
+    }
+  }
+
+  private setBurrowed(ctx: EnemyContext, burrowed: boolean): void {
+    if (ctx.enemy.burrowed === burrowed) return;
+
+    ctx.enemy.burrowed = burrowed;
+    ctx.health.invulnerable = burrowed;
+    if (ctx.sprite) ctx.sprite.alpha = burrowed ? this.BURROWED_ALPHA : 1;
+  }
+
+  private setFlash(ctx: EnemyContext, flashing: boolean): void {
+    if (ctx.sprite) ctx.sprite.tint = flashing ? 0xffffff : ctx.def.tint;
+  }
+
+  private findPlayer(): EnemyContext['player'] {
+    const players = this.getEntitiesWithComponents('player', 'transform', 'health');
+    if (players.length === 0) return null;
+
+    const id = players[0].id;
+    return {
+      id,
+      position: this.getComponent<TransformComponent>(id, 'transform')!.position,
+      health: this.getComponent<HealthComponent>(id, 'health')!
+    };
+  }
+
+  private distanceBetween(a: Vector2, b: Vector2): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  private directionTo(from: Vector2, to: Vector2): Vector2 {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy);
+    return length > 0 ? { x: dx / length, y: dy / length } : { x: 0, y: 1 };
+  }
+
+  // Public API
+  getEnemyState(entityId: string): EnemyState | undefined {
+    return this.getComponent<EnemyComponent>(entityId, 'enemy')?.state;
+  }
+}
@@ -0,0 +1,306 @@
+// Enemy Spawn System - Activates regional spawn zones near the camera within density budgets
+// Following World Builder agent specifications; cleared zones repopulate on re-entry like ALTTP screens
+
+import { System, ECSUtils } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import { ENEMIES, ENEMY_SPAWN, OVERWORLD_MAP_ID, REGIONS, TILE_SIZE, TOWNS } from '@shared/constants.js';
+import type { Realm, Rectangle, Region, TransformComponent, Vector2 } from '@shared/types.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+// What the spawner needs from the scene that owns it
+export interface EnemySpawnHost {
+  getViewBounds(): Rectangle;
+  getCurrentRealm(): Realm;
+}
+
+interface SpawnPoint {
+  species: string;
+  position: Vector2;
+  entityId: string | null;
+  defeated: boolean;          // stays cleared until the zone is left
+}
+
+interface SpawnZone {
+  key: string;
+  region: Region;
+  bounds: Rectangle;          // px
+  points: SpawnPoint[] | null; // generated on first activation
+  active: boolean;
+}
+
+export class EnemySpawnSystem extends System {
+  private host: EnemySpawnHost;
+  private zones: SpawnZone[] = [];
+  private worldTiles: WorldTile[][] | null = null;
+  private onOverworld = true;
+  private checkTimer = 0;
+  private unsubscribers: Array<() => void> = [];
+
+  // Towns stay enemy-free
+  private readonly SAFE_RADIUS = 10 * TILE_SIZE;
+  // Never pop an enemy in right next to the player
+  private readonly MIN_PLAYER_DISTANCE = 4 * TILE_SIZE;
+  private readonly PLACEMENT_ATTEMPTS = 12;
+
+  constructor(host: EnemySpawnHost) {
+    super();
+    this.host = host;
+    this.zones = this.buildZones();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+      }),
+
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.onOverworld = event.payload.mapId === OVERWORLD_MAP_ID;
+        if (!this.onOverworld) {
+          this.zones.forEach(zone => this.deactivateZone(zone));
+        }
+      }),
+
+      gameEvents.on(GAME_EVENTS.ENEMY_DIED, (event: any) => {
+        this.handleEnemyDied(event.payload.entityId);
+      }),
+
+      // Continuing after a death restores every cleared zone
+      gameEvents.on(GAME_EVENTS.PLAYER_RESPAWNED, () => {
+        this.zones.forEach(zone => this.deactivateZone(zone));
+        this.checkTimer = ENEMY_SPAWN.CHECK_INTERVAL;
+      }),
+
+      // Re-check straight away so eclipse-only spawns appear/vanish with the realm flash
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, () => {
+        this.checkTimer = ENEMY_SPAWN.CHECK_INTERVAL;
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    this.checkTimer += deltaTime * 1000;
+    if (this.checkTimer < ENEMY_SPAWN.CHECK_INTERVAL) return;
+    this.checkTimer = 0;
+
+    if (!this.onOverworld || !this.worldTiles) return;
+
+    const view = this.host.getViewBounds();
+    const realm = this.host.getCurrentRealm();
+    const activationArea = this.expand(view, ENEMY_SPAWN.ACTIVATION_MARGIN);
+    const keepAliveArea = this.expand(view, ENEMY_SPAWN.DEACTIVATION_MARGIN);
+
+    for (const zone of this.zones) {
+      if (this.intersects(zone.bounds, activationArea)) {
+        zone.active = true;
+      } else if (zone.active && !this.intersects(zone.bounds, keepAliveArea)) {
+        this.deactivateZone(zone);
+      }
+    }
+
+    this.populateActiveZones(realm);
+  }
+
+  private populateActiveZones(realm: Realm): void {
+    const player = this.getPlayerPosition();
+    let totalActive = this.getActiveEnemyCount();
+
+    for (const zone of this.zones) {
+      if (!zone.active) continue;
+      zone.points ??= this.generatePoints(zone);
+
+      for (const point of zone.points) {
+        if (point.entityId && !this.world.getEntity(point.entityId)) {
+          point.entityId = null;
+        }
+
+        const allowed = this.isAllowedInRealm(point.species, realm);
+        if (point.entityId) {
+          if (!allowed) {
+            this.despawn(point);
+            totalActive--;
+          }
+          continue;
+        }
+
+        if (point.defeated || !allowed) continue;
+        if (totalActive >= ENEMY_SPAWN.MAX_ACTIVE) return;
+        if (this.getRegionEnemyCount(zone.region.name) >= this.getRegionCap(zone.region)) continue;
+        if (player && Math.hypot(point.position.x - player.x, point.position.y - player.y) < this.MIN_PLAYER_DISTANCE) {
+          continue;
+        }
+
+        this.spawn(zone, point);
+        totalActive++;
+      }
+    }
+  }
+
+  private spawn(zone: SpawnZone, point: SpawnPoint): void {
+    const definition = ENEMIES[point.species];
+    const entity = ECSUtils.createEnemyEntity(this.world, definition, point.position);
+    point.entityId = entity.id;
+
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_SPAWNED,
+      payload: {
+        entityId: entity.id,
+        species: point.species,
+        region: zone.region.name,
+        position: { ...point.position }
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private despawn(point: SpawnPoint): void {
+    if (point.entityId) {
+      this.world.destroyEntity(point.entityId);
+      point.entityId = null;
+    }
+  }
+
+  // Leaving a zone clears its live enemies and forgets which ones were defeated
+  private deactivateZone(zone: SpawnZone): void {
+    zone.active = false;
+    zone.points?.forEach(point => {
+      this.despawn(point);
+      point.defeated = false;
+    });
+  }
+
+  private handleEnemyDied(entityId: string): void {
+    for (const zone of this.zones) {
+      const point = zone.points?.find(candidate => candidate.entityId === entityId);
+      if (point) {
+        point.entityId = null;
+        point.defeated = true;
+        return;
+      }
+    }
+  }
+
+  private buildZones(): SpawnZone[] {
+    const zones: SpawnZone[] = [];
+    const size = ENEMY_SPAWN.ZONE_SIZE;
+
+    for (const region of REGIONS) {
+      if (region.enemies.every(species => !ENEMIES[species])) continue;
+
+      const { x, y, width, height } = region.bounds;
+      for (let zoneY = y; zoneY < y + height; zoneY += size) {
+        for (let zoneX = x; zoneX < x + width; zoneX += size) {
+          zones.push({
+            key: `${region.name}:${zoneX},${zoneY}`,
+            region,
+            bounds: {
+              x: zoneX * TILE_SIZE,
+              y: zoneY * TILE_SIZE,
+              width: Math.min(size, x + width - zoneX) * TILE_SIZE,
+              height: Math.min(size, y + height - zoneY) * TILE_SIZE
+            },
+            points: null,
+            active: false
+          });
+        }
+      }
+    }
+
+    return zones;
+  }
+
+  // Spawn points are derived from the zone key so a zone always repopulates the same way
+  private generatePoints(zone: SpawnZone): SpawnPoint[] {
+    const species = zone.region.enemies.filter(id => ENEMIES[id]);
+    const points: SpawnPoint[] = [];
+    const tilesWide = zone.bounds.width / TILE_SIZE;
+    const tilesHigh = zone.bounds.height / TILE_SIZE;
+
+    for (let index = 0; index < ENEMY_SPAWN.POINTS_PER_ZONE; index++) {
+      for (let attempt = 0; attempt < this.PLACEMENT_ATTEMPTS; attempt++) {
+        const tileX = zone.bounds.x / TILE_SIZE + Math.floor(this.hash(zone.key, index, attempt, 0) * tilesWide);
+        const tileY = zone.bounds.y / TILE_SIZE + Math.floor(this.hash(zone.key, index, attempt, 1) * tilesHigh);
+        if (!this.isSpawnableTile(tileX, tileY)) continue;
+
+        points.push({
+          species: species[index % species.length],
+          position: { x: tileX * TILE_SIZE + TILE_SIZE / 2, y: tileY * TILE_SIZE + TILE_SIZE / 2 },
+          entityId: null,
+          defeated: false
+        });
+        break;
+      }
+    }
+
+    return points;
+  }
+
+  private isSpawnableTile(tileX: number, tileY: number): boolean {
+    if (!this.worldTiles?.[tileY]?.[tileX]?.walkable) return false;
+
+    return Object.values(TOWNS).every(town =>
+      Math.hypot((town.x - tileX) * TILE_SIZE, (town.y - tileY) * TILE_SIZE) > this.SAFE_RADIUS
+    );
+  }
+
+  // Small deterministic hash in [0, 1)
+  private hash(key: string, index: number, attempt: number, axis: number): number {
+    let h = 2166136261;
+    const input = `${key}|${index}|${attempt}|${axis}`;
+    for (let i = 0; i < input.length; i++) {
+      h ^= input.charCodeAt(i);
+      h = Math.imul(h, 16777619);
+    }
+    return (h >>> 0) / 4294967296;
+  }
+
+  private isAllowedInRealm(species: string, realm: Realm): boolean {
+    const required = ENEMIES[species]?.realm;
+    return !required || required === realm;
+  }
+
+  private getRegionCap(region: Region): number {
+    return region.maxEnemies ?? ENEMY_SPAWN.DEFAULT_REGION_CAP;
+  }
+
+  private getPlayerPosition(): Vector2 | null {
+    const player = this.getEntitiesWithComponents('player', 'transform')[0];
+    return player ? this.getComponent<TransformComponent>(player.id, 'transform')!.position : null;
+  }
+
+  private expand(rect: Rectangle, margin: number): Rectangle {
+    return {
+      x: rect.x - margin,
+      y: rect.y - margin,
+      width: rect.width + margin * 2,
+      height: rect.height + margin * 2
+    };
+  }
+
+  private intersects(a: Rectangle, b: Rectangle): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x &&
+           a.y < b.y + b.height && a.y + a.height > b.y;
+  }
+
+  // Public API
+  getActiveEnemyCount(): number {
+    return this.zones.reduce((count, zone) =>
+      count + (zone.points?.filter(point => point.entityId).length ?? 0), 0);
+  }
+
+  getRegionEnemyCount(regionName: string): number {
+    return this.zones
+      .filter(zone => zone.region.name === regionName)
+      .reduce((count, zone) => count + (zone.points?.filter(point => point.entityId).length ?? 0), 0);
+  }
+
+  getActiveZoneCount(): number {
+    return this.zones.filter(zone => zone.active).length;
+  }
+}
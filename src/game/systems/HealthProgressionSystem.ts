@@ -0,0 +1,82 @@
+// Health Progression System - Heart pieces into heart containers, capped maximum health
+// Following Spec Librarian standards; every four pieces (or a boss clear) adds a full heart
+
+import { System } from '../ECS.js';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events.js';
+import type { HeartContainerGainedEvent } from '@shared/events.js';
+import { HEALTH_PER_HEART, HEART_PIECES_PER_CONTAINER, MAX_HEARTS } from '@shared/constants.js';
+import type { HealthComponent, PlayerComponent } from '@shared/types.js';
+
+export class HealthProgressionSystem extends System {
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      // Pieces arrive from pickups, shops and dialogue gifts - all of them report the inventory
+      gameEvents.on('player.inventory.changed', () => {
+        this.convertHeartPieces();
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Progression is driven entirely by events
+  }
+
+  /**
+   * Add heart containers - each raises maximum health by a full heart and refills health, as in ALTTP.
+   * Returns how many were granted once the MAX_HEARTS cap is applied.
+   */
+  grantHeartContainers(count: number, source: HeartContainerGainedEvent['source']): number {
+    const playerEntity = this.getEntitiesWithComponents('player', 'health')[0];
+    if (!playerEntity) return 0;
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const health = this.getComponent<HealthComponent>(playerEntity.id, 'health')!;
+    const granted = Math.max(0, Math.min(count, MAX_HEARTS - player.hearts));
+    if (granted === 0) return 0;
+
+    player.hearts += granted;
+    health.maximum += granted * HEALTH_PER_HEART;
+    health.current = health.maximum;
+
+    emitTypedEvent(createEvent.heartContainerGained(playerEntity.id, player.hearts, health.maximum, source));
+    emitTypedEvent(createEvent.playerHealthChanged(playerEntity.id, health.current, health.maximum));
+    return granted;
+  }
+
+  /**
+   * Trade every full set of heart pieces for a container - pieces past the cap are kept
+   */
+  convertHeartPieces(): number {
+    const playerEntity = this.getEntitiesWithComponents('player', 'health')[0];
+    if (!playerEntity) return 0;
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const available = Math.min(
+      Math.floor(player.inventory.heart_pieces / HEART_PIECES_PER_CONTAINER),
+      MAX_HEARTS - player.hearts
+    );
+    if (available <= 0) return 0;
+
+    player.inventory.heart_pieces -= available * HEART_PIECES_PER_CONTAINER;
+    const granted = this.grantHeartContainers(available, 'heart_pieces');
+
+    gameEvents.emit({
+      type: 'player.inventory.changed',
+      payload: { inventory: player.inventory },
+      timestamp: Date.now()
+    });
+    return granted;
+  }
+}
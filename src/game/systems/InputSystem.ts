@@ -4,8 +4,9 @@
 import Phaser from 'phaser';
 import { System } from '../ECS.js';
 import { gameEvents } from '@shared/events.js';
-import type { InputState, MovementComponent, TransformComponent } from '@shared/types.js';
+import type { HealthComponent, InputState, MovementComponent, PlayerComponent, TransformComponent } from '@shared/types.js';
 import type { WorldScene } from '../scenes/WorldScene.js';
+import { PlayerControllerSystem } from './PlayerControllerSystem.js';
 
 export class InputSystem extends System {
   private scene: WorldScene;
@@ -20,7 +21,12 @@ export class InputSystem extends System {
       attack: false,
       interact: false,
       inventory: false,
-      pause: false
+      pause: false,
+      useItem: false,
+      swapItem: false,
+      sprint: false,
+      roll: false,
+      parry: false
     }
   };
 
@@ -38,8 +44,20 @@ export class InputSystem extends System {
     interact: Phaser.Input.Keyboard.Key[];
     inventory: Phaser.Input.Keyboard.Key[];
     pause: Phaser.Input.Keyboard.Key[];
+    useItem: Phaser.Input.Keyboard.Key[];
+    swapItem: Phaser.Input.Keyboard.Key[];
+    sprint: Phaser.Input.Keyboard.Key[];
+    roll: Phaser.Input.Keyboard.Key[];
+    parry: Phaser.Input.Keyboard.Key[];
   } | null = null;
 
+  // Held gamepad buttons survive the per-frame keyboard poll
+  private gamepadSprint = false;
+  private gamepadSword = false;
+
+  // Releasing the sword button after a full charge triggers the spin attack
+  private swordHeld = false;
+
   constructor(scene: WorldScene) {
     super();
     this.scene = scene;
@@ -95,6 +113,13 @@ export class InputSystem extends System {
     const interactPressed = this.keyObjects.interact.some(key => Phaser.Input.Keyboard.JustDown(key));
     const inventoryPressed = this.keyObjects.inventory.some(key => Phaser.Input.Keyboard.JustDown(key));
     const pausePressed = this.keyObjects.pause.some(key => Phaser.Input.Keyboard.JustDown(key));
+    const useItemPressed = this.keyObjects.useItem.some(key => Phaser.Input.Keyboard.JustDown(key));
+    const swapItemPressed = this.keyObjects.swapItem.some(key => Phaser.Input.Keyboard.JustDown(key));
+    const rollPressed = this.keyObjects.roll.some(key => Phaser.Input.Keyboard.JustDown(key));
+    const parryPressed = this.keyObjects.parry.some(key => Phaser.Input.Keyboard.JustDown(key));
+
+    // Sprint is held rather than buffered
+    this.inputState.actions.sprint = this.gamepadSprint || this.keyObjects.sprint.some(key => key.isDown);
 
     // Buffer action inputs when they're first pressed
     if (attackPressed) {
@@ -125,6 +150,34 @@ export class InputSystem extends System {
       this.inputState.actions.pause = false;
     }
 
+    if (useItemPressed) {
+      this.bufferInput('useItem');
+      this.inputState.actions.useItem = true;
+    } else {
+      this.inputState.actions.useItem = false;
+    }
+
+    if (swapItemPressed) {
+      this.bufferInput('swapItem');
+      this.inputState.actions.swapItem = true;
+    } else {
+      this.inputState.actions.swapItem = false;
+    }
+
+    if (rollPressed) {
+      this.bufferInput('roll');
+      this.inputState.actions.roll = true;
+    } else {
+      this.inputState.actions.roll = false;
+    }
+
+    if (parryPressed) {
+      this.bufferInput('parry');
+      this.inputState.actions.parry = true;
+    } else {
+      this.inputState.actions.parry = false;
+    }
+
     // Debug logging for movement state
     const hasMovement = this.inputState.movement.up || this.inputState.movement.down || 
                        this.inputState.movement.left || this.inputState.movement.right;
@@ -159,6 +212,7 @@ export class InputSystem extends System {
     console.log('✅ InputSystem: Keyboard manager found');
 
     // Create key objects for all movement keys
+    // X swings the sword as the tutorial hints say; items sit on F and the roll on V because C toggles collision debug
     const keys = {
       up: [
         keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.UP),
@@ -177,8 +231,7 @@ export class InputSystem extends System {
         keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.D)
       ],
       attack: [
-        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE),
-        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER)
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.X)
       ],
       interact: [
         keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE),
@@ -189,6 +242,21 @@ export class InputSystem extends System {
       ],
       pause: [
         keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.ESC)
+      ],
+      useItem: [
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F)
+      ],
+      swapItem: [
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.Q)
+      ],
+      sprint: [
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.SHIFT)
+      ],
+      roll: [
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.V)
+      ],
+      parry: [
+        keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.B)
       ]
     };
 
@@ -220,11 +288,12 @@ export class InputSystem extends System {
   private handleGamepadButton(buttonIndex: number, isPressed: boolean): void {
     // Gamepad button mapping (following standard gamepad layout)
     switch (buttonIndex) {
-      case 0: // A button - Attack/Interact
+      case 0: // A button - Sword (hold to charge)
         if (isPressed) {
           this.bufferInput('attack');
         }
         this.inputState.actions.attack = isPressed;
+        this.gamepadSword = isPressed;
         break;
       case 1: // B button - Cancel/Back
         if (isPressed) {
@@ -237,6 +306,33 @@ export class InputSystem extends System {
         }
         this.inputState.actions.inventory = isPressed;
         break;
+      case 3: // Y button - Use equipped item
+        if (isPressed) {
+          this.bufferInput('useItem');
+        }
+        this.inputState.actions.useItem = isPressed;
+        break;
+      case 4: // L shoulder - Quick-swap equipped item
+        if (isPressed) {
+          this.bufferInput('swapItem');
+        }
+        this.inputState.actions.swapItem = isPressed;
+        break;
+      case 5: // R shoulder - Dodge roll
+        if (isPressed) {
+          this.bufferInput('roll');
+        }
+        this.inputState.actions.roll = isPressed;
+        break;
+      case 6: // L trigger - Parry
+        if (isPressed) {
+          this.bufferInput('parry');
+        }
+        this.inputState.actions.parry = isPressed;
+        break;
+      case 7: // R trigger - Sprint (held)
+        this.gamepadSprint = isPressed;
+        break;
       case 12: // D-pad up
         this.inputState.movement.up = isPressed;
         break;
@@ -293,6 +389,18 @@ export class InputSystem extends System {
       return;
     }
 
+    // A downed player takes no input until RespawnSystem brings them back,
+    // and LockSystem holds it while a found item is raised overhead
+    const health = this.getComponent<HealthComponent>(playerEntity.id, 'health');
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player');
+    if ((health && health.current <= 0) || (player?.itemHoldTimer ?? 0) > 0) {
+      movement.velocity.x = 0;
+      movement.velocity.y = 0;
+      this.inputBuffer.length = 0;
+      this.swordHeld = false;
+      return;
+    }
+
     // Debug: Check if movement input is being processed (only log when there's input)
     const hasAnyMovement = this.inputState.movement.up || this.inputState.movement.down || 
                            this.inputState.movement.left || this.inputState.movement.right;
@@ -302,9 +410,11 @@ export class InputSystem extends System {
 
     // Process movement input
     this.processMovementInput(movement);
+    this.getPlayerController()?.setSprinting(playerEntity.id, this.inputState.actions.sprint);
 
     // Process buffered actions
     this.processBufferedActions(playerEntity.id, transform);
+    this.processSwordRelease(playerEntity.id);
   }
 
   private processMovementInput(movement: MovementComponent): void {
@@ -362,7 +472,7 @@ export class InputSystem extends System {
     for (const bufferedInput of this.inputBuffer) {
       switch (bufferedInput.action) {
         case 'attack':
-          this.handleAttackAction(entityId, transform);
+          this.handleAttackAction(entityId);
           break;
         case 'interact':
           this.handleInteractAction(entityId, transform);
@@ -373,6 +483,18 @@ export class InputSystem extends System {
         case 'pause':
           this.handlePauseAction();
           break;
+        case 'useItem':
+          this.handleUseItemAction(entityId);
+          break;
+        case 'swapItem':
+          this.handleSwapItemAction(entityId);
+          break;
+        case 'roll':
+          this.getPlayerController()?.startRoll(entityId);
+          break;
+        case 'parry':
+          this.handleParryAction(entityId);
+          break;
       }
     }
 
@@ -380,16 +502,32 @@ export class InputSystem extends System {
     this.inputBuffer.length = 0;
   }
 
-  private handleAttackAction(entityId: string, transform: TransformComponent): void {
-    // Emit attack event for combat system to handle
-    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
-    
+  private handleAttackAction(entityId: string): void {
+    // CombatSystem picks the combo step and starts charging
     gameEvents.emit({
-      type: 'player.attack',
-      payload: {
-        direction: movement?.direction || 'down',
-        position: transform.position
-      },
+      type: 'combat.sword.press',
+      payload: { attackerId: entityId },
+      timestamp: Date.now()
+    });
+  }
+
+  private processSwordRelease(entityId: string): void {
+    const held = this.gamepadSword || (this.keyObjects?.attack.some(key => key.isDown) ?? false);
+
+    if (this.swordHeld && !held) {
+      gameEvents.emit({
+        type: 'combat.sword.release',
+        payload: { attackerId: entityId },
+        timestamp: Date.now()
+      });
+    }
+    this.swordHeld = held;
+  }
+
+  private handleParryAction(entityId: string): void {
+    gameEvents.emit({
+      type: 'combat.parry.attempt',
+      payload: { entityId },
       timestamp: Date.now()
     });
   }
@@ -415,6 +553,31 @@ export class InputSystem extends System {
     });
   }
 
+  private handleUseItemAction(entityId: string): void {
+    const player = this.getComponent<PlayerComponent>(entityId, 'player');
+    const itemType = player?.equipment.equipped;
+    if (!itemType) return;
+
+    // InventorySystem checks ownership and cooldowns before the ability fires
+    gameEvents.emit({
+      type: 'inventory.use.item',
+      payload: { itemType, playerId: entityId },
+      timestamp: Date.now()
+    });
+  }
+
+  private handleSwapItemAction(entityId: string): void {
+    gameEvents.emit({
+      type: 'inventory.equip.swap',
+      payload: { playerId: entityId },
+      timestamp: Date.now()
+    });
+  }
+
+  private getPlayerController(): PlayerControllerSystem | undefined {
+    return this.world.getSystem(PlayerControllerSystem);
+  }
+
   private handlePauseAction(): void {
     gameEvents.emit({
       type: 'game.paused',
@@ -2,8 +2,8 @@
 // Following Game Architect specifications for system design
 
 import { System } from '../ECS.js';
-import { gameEvents } from '@shared/events.js';
-import type { TransformComponent, NPCComponent } from '@shared/types.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import type { ChestComponent, ColliderComponent, TransformComponent, NPCComponent } from '@shared/types.js';
 import { INTERACTION_DISTANCE } from '@shared/constants.js';
 
 export class InteractionSystem extends System {
@@ -15,10 +15,40 @@ export class InteractionSystem extends System {
   private enterKey!: Phaser.Input.Keyboard.Key;
   private lastNPCCheckTime = 0;
   private readonly NPC_CHECK_INTERVAL = 100; // Check NPCs every 100ms instead of every frame
+  private inConversation = false;
+  private conversationEndedAt = 0;
+  private unsubscribers: Array<() => void> = [];
+
+  // The key press that closes a conversation must not immediately reopen it
+  private readonly REOPEN_DELAY = 250; // ms
+  // Doors and chests are solid, so reach is measured from the player's centre to their edge
+  private readonly LOCKABLE_REACH = INTERACTION_DISTANCE / 2;
 
   constructor(scene: Phaser.Scene) {
     super();
     this.scene = scene;
+
+    this.unsubscribers.push(
+      gameEvents.on(GAME_EVENTS.DIALOGUE_START, () => {
+        this.inConversation = true;
+      }),
+
+      gameEvents.on(GAME_EVENTS.DIALOGUE_END, () => {
+        this.inConversation = false;
+        this.currentInteractionTarget = null;
+        this.conversationEndedAt = Date.now();
+      }),
+
+      // A trade window opened from dialogue holds the conversation lock until it closes
+      gameEvents.on('shop.opened', () => {
+        this.inConversation = true;
+      }),
+
+      gameEvents.on('shop.closed', () => {
+        this.inConversation = false;
+        this.conversationEndedAt = Date.now();
+      })
+    );
   }
 
   onAddedToWorld(): void {
@@ -29,6 +59,11 @@ export class InteractionSystem extends System {
     }
   }
 
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
   update(_deltaTime: number): void {
     // Throttle NPC checking for performance
     const now = Date.now();
@@ -90,18 +125,74 @@ export class InteractionSystem extends System {
   }
 
   private handleInteractionInput(): void {
+    // The dialogue box owns SPACE / ENTER while a conversation is open
+    if (this.inConversation || Date.now() - this.conversationEndedAt < this.REOPEN_DELAY) return;
+
     // Use cached keys and check for key press (not hold)
     if ((this.spaceKey && Phaser.Input.Keyboard.JustDown(this.spaceKey)) ||
         (this.enterKey && Phaser.Input.Keyboard.JustDown(this.enterKey))) {
       
-      // Find the closest NPC to interact with
+      // Find the closest NPC to interact with; otherwise try a door or chest within reach
       const closestNPC = this.getClosestNPC();
       if (closestNPC) {
         this.startDialogue(closestNPC.entityId, closestNPC.npc);
+        return;
+      }
+
+      const lockable = this.getReachableLockable();
+      if (lockable) {
+        // LockSystem decides whether it opens
+        gameEvents.emit({
+          type: 'interaction.object',
+          payload: lockable,
+          timestamp: Date.now()
+        });
       }
     }
   }
 
+  /**
+   * Closest locked door or unopened chest whose edge is within reach of the player's centre
+   */
+  private getReachableLockable(): { entityId: string; kind: 'door' | 'chest' } | null {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform', 'collider')[0];
+    if (!playerEntity) return null;
+
+    const playerTransform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    const playerCollider = this.getComponent<ColliderComponent>(playerEntity.id, 'collider')!;
+    const centre = {
+      x: playerTransform.position.x + playerCollider.bounds.x + playerCollider.bounds.width / 2,
+      y: playerTransform.position.y + playerCollider.bounds.y + playerCollider.bounds.height / 2
+    };
+
+    const candidates = [
+      ...this.getEntitiesWithComponents('door', 'transform', 'collider').map(entity => ({ entity, kind: 'door' as const })),
+      ...this.getEntitiesWithComponents('chest', 'transform', 'collider')
+        .filter(entity => !this.getComponent<ChestComponent>(entity.id, 'chest')!.opened)
+        .map(entity => ({ entity, kind: 'chest' as const }))
+    ];
+
+    let closest: { entityId: string; kind: 'door' | 'chest' } | null = null;
+    let closestDistance = this.LOCKABLE_REACH;
+
+    for (const { entity, kind } of candidates) {
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const collider = this.getComponent<ColliderComponent>(entity.id, 'collider')!;
+      const left = transform.position.x + collider.bounds.x;
+      const top = transform.position.y + collider.bounds.y;
+      const nearestX = Math.max(left, Math.min(centre.x, left + collider.bounds.width));
+      const nearestY = Math.max(top, Math.min(centre.y, top + collider.bounds.height));
+      const distance = Math.hypot(centre.x - nearestX, centre.y - nearestY);
+
+      if (distance <= closestDistance) {
+        closestDistance = distance;
+        closest = { entityId: entity.id, kind };
+      }
+    }
+
+    return closest;
+  }
+
   private getClosestNPC(): { entityId: string; npc: NPCComponent } | null {
     if (this.nearbyNPCs.size === 0) return null;
 
@@ -132,11 +223,6 @@ export class InteractionSystem extends System {
   }
 
   private startDialogue(entityId: string, npc: NPCComponent): void {
-    if (npc.currentDialogue >= npc.dialogue.length) {
-      // No more dialogue
-      return;
-    }
-
     this.currentInteractionTarget = entityId;
 
     // Get NPC position for visual effects
@@ -155,22 +241,8 @@ export class InteractionSystem extends System {
       });
     }
 
-    // Emit dialogue start event
-    gameEvents.emit({
-      type: 'ui/dialogueStart',
-      payload: {
-        npcId: entityId,
-        npcName: npc.name,
-        dialogue: npc.dialogue[npc.currentDialogue],
-        isComplete: npc.currentDialogue >= npc.dialogue.length - 1
-      },
-      timestamp: Date.now()
-    });
-
-    // Advance dialogue
-    npc.currentDialogue++;
-
-    console.log(`Started dialogue with ${npc.name}: "${npc.dialogue[npc.currentDialogue - 1]}"`);
+    // DialogueSystem takes over from here and plays the NPC's conversation
+    emitTypedEvent(createEvent.interactionStart(entityId, npc.npcId ?? entityId, npc.name));
   }
 
   // Public API for external systems
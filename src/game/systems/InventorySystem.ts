@@ -1,6 +1,8 @@
-import type { PlayerComponent, TransformComponent, ColliderComponent } from '@shared/types.js';
+import type { PlayerComponent, TransformComponent, ColliderComponent, EquippableItem, PlayerEquipment } from '@shared/types.js';
 import { System } from '@game/ECS.js';
-import { gameEvents } from '@shared/events.js';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events.js';
+import { EQUIPPABLE_ITEMS } from '@shared/constants.js';
+import { ItemAbilitySystem } from './ItemAbilitySystem.js';
 
 interface ItemPickup {
   id: string;
@@ -11,6 +13,7 @@ interface ItemPickup {
 
 export class InventorySystem extends System {
   private itemPickups: Map<string, ItemPickup> = new Map();
+  private unsubscribers: Array<() => void> = [];
 
   constructor() {
     super();
@@ -19,13 +22,29 @@ export class InventorySystem extends System {
   }
 
   private setupEventHandlers(): void {
-    gameEvents.on('player.collect.item', (event: any) => {
-      this.handleItemCollection(event.payload);
-    });
+    this.unsubscribers.push(
+      gameEvents.on('player.collect.item', (event: any) => {
+        this.handleItemCollection(event.payload);
+      }),
+
+      gameEvents.on('inventory.use.item', (event: any) => {
+        this.handleItemUse(event.payload);
+      }),
+
+      // Sent by the inventory modal; playerId may be omitted for the local player
+      gameEvents.on('inventory.equip.item', (event: any) => {
+        this.equipItem(event.payload.playerId, event.payload.itemType, event.payload.slot);
+      }),
+
+      gameEvents.on('inventory.equip.swap', (event: any) => {
+        this.swapEquipment(event.payload.playerId);
+      })
+    );
+  }
 
-    gameEvents.on('inventory.use.item', (event: any) => {
-      this.handleItemUse(event.payload);
-    });
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
   }
 
   private spawnInitialItems(): void {
@@ -67,6 +86,11 @@ export class InventorySystem extends System {
     // Add item to inventory
     this.addItemToInventory(playerComponent, pickup);
 
+    // Like ALTTP, the first item found goes straight into an empty equip slot
+    if (!playerComponent.equipment.equipped && this.isEquippable(pickup.itemType)) {
+      this.equipItem(playerId, pickup.itemType);
+    }
+
     // Remove pickup from world
     this.removeItemPickup(itemId);
 
@@ -81,6 +105,8 @@ export class InventorySystem extends System {
       },
       timestamp: Date.now()
     });
+
+    emitTypedEvent(createEvent.itemCollected(pickup.id, pickup.itemType, pickup.position, pickup.value || 1));
   }
 
   private addItemToInventory(playerComponent: PlayerComponent, pickup: ItemPickup): void {
@@ -119,8 +145,8 @@ export class InventorySystem extends System {
     // Check if player has the item
     if (!this.hasItem(playerComponent, itemType)) return;
 
-    // Handle item usage based on type
-    this.useItem(playerComponent, itemType);
+    // Cooldowns and abilities with nothing to act on don't count as a use
+    if (!this.useItem(playerId, itemType)) return;
 
     // Emit usage event
     gameEvents.emit({
@@ -133,6 +159,54 @@ export class InventorySystem extends System {
     });
   }
 
+  /**
+   * Assign an owned item to the equip slot or the quick-swap slot
+   */
+  public equipItem(playerId: string | undefined, itemType: string, slot: keyof PlayerEquipment = 'equipped'): boolean {
+    const resolved = this.getPlayer(playerId);
+    if (!resolved || !this.isEquippable(itemType)) return false;
+
+    const { id, player } = resolved;
+    if (!this.hasItem(player, itemType)) return false;
+
+    // An item lives in one slot at a time - trade places with the other slot
+    const otherSlot: keyof PlayerEquipment = slot === 'equipped' ? 'quickSwap' : 'equipped';
+    if (player.equipment[otherSlot] === itemType) {
+      player.equipment[otherSlot] = player.equipment[slot];
+    }
+    player.equipment[slot] = itemType;
+
+    emitTypedEvent(createEvent.equipmentChanged(id, player.equipment.equipped, player.equipment.quickSwap));
+    return true;
+  }
+
+  /**
+   * Exchange the equipped item with the quick-swap item
+   */
+  public swapEquipment(playerId?: string): boolean {
+    const resolved = this.getPlayer(playerId);
+    if (!resolved || !resolved.player.equipment.quickSwap) return false;
+
+    const { id, player } = resolved;
+    player.equipment = {
+      equipped: player.equipment.quickSwap,
+      quickSwap: player.equipment.equipped
+    };
+
+    emitTypedEvent(createEvent.equipmentChanged(id, player.equipment.equipped, player.equipment.quickSwap));
+    return true;
+  }
+
+  private getPlayer(playerId?: string): { id: string; player: PlayerComponent } | null {
+    const id = playerId ?? this.getEntitiesWithComponents('player')[0]?.id;
+    const player = id ? this.getComponent<PlayerComponent>(id, 'player') : undefined;
+    return id && player ? { id, player } : null;
+  }
+
+  private isEquippable(itemType: string): itemType is EquippableItem {
+    return (EQUIPPABLE_ITEMS as readonly string[]).includes(itemType);
+  }
+
   private hasItem(playerComponent: PlayerComponent, itemType: keyof PlayerComponent['inventory']): boolean {
     const item = playerComponent.inventory[itemType];
     
@@ -147,38 +221,24 @@ export class InventorySystem extends System {
     return false;
   }
 
-  private useItem(_playerComponent: PlayerComponent, itemType: keyof PlayerComponent['inventory']): void {
-    switch (itemType) {
-      case 'aether_mirror':
-        // This should trigger realm switching
-        gameEvents.emit({
-          type: 'world.realm.switch',
-          payload: {},
-          timestamp: Date.now()
-        });
-        break;
-        
-      case 'sunflame_lantern':
-        // Could light up dark areas or reveal hidden paths
-        gameEvents.emit({
-          type: 'world.light.toggle',
-          payload: { active: true },
-          timestamp: Date.now()
-        });
-        break;
-        
-      case 'gale_boots':
-        // Could provide temporary speed boost
-        gameEvents.emit({
-          type: 'player.speed.boost',
-          payload: { duration: 5000, multiplier: 1.5 },
-          timestamp: Date.now()
-        });
-        break;
-        
-      default:
-        console.log(`No specific use action for item: ${itemType}`);
+  private useItem(playerId: string, itemType: keyof PlayerComponent['inventory']): boolean {
+    if (itemType === 'aether_mirror') {
+      // This should trigger realm switching
+      gameEvents.emit({
+        type: 'world.realm.switch',
+        payload: {},
+        timestamp: Date.now()
+      });
+      return true;
     }
+
+    const abilitySystem = this.world.getSystem(ItemAbilitySystem);
+    if (abilitySystem?.hasAbility(itemType)) {
+      return abilitySystem.use(playerId, itemType);
+    }
+
+    console.log(`No specific use action for item: ${itemType}`);
+    return false;
   }
 
   // Check for item pickups near player
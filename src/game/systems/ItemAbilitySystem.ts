@@ -0,0 +1,656 @@
+// Item Ability System - Gameplay abilities for the GDD progression items
+// Following Combat & Physics Engineer specifications; tuning lives in ITEM_ABILITIES
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import {
+  BREAKABLE_TILES,
+  BURNABLE_TILES,
+  GAP_TILES,
+  GRAPPLE_TILES,
+  ITEM_ABILITIES,
+  OVERWORLD_MAP_ID,
+  SWIM_TILES,
+  TILE_SIZE
+} from '@shared/constants.js';
+import { TileType } from '@shared/types.js';
+import type {
+  ColliderComponent,
+  DamageElement,
+  Direction,
+  HealthComponent,
+  ItemEffectComponent,
+  ItemEffectKind,
+  MovementComponent,
+  PlayerComponent,
+  Realm,
+  Rectangle,
+  SpriteComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import { ProjectileSystem } from './ProjectileSystem.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+export type AbilityItem = keyof typeof ITEM_ABILITIES;
+
+interface PlayerContext {
+  id: string;
+  player: PlayerComponent;
+  transform: TransformComponent;
+  movement: MovementComponent;
+  bounds: Rectangle;
+}
+
+interface DashState {
+  entityId: string;
+  from: Vector2;
+  to: Vector2;
+  elapsed: number;            // ms
+}
+
+interface PullState {
+  entityId: string;
+  hookId: string;
+  target: Vector2;
+}
+
+export class ItemAbilitySystem extends System {
+  private worldTiles: WorldTile[][] | null = null;
+  private currentRealm: Realm = 'dayrealm';
+  private currentMap = OVERWORLD_MAP_ID;
+  private cooldowns: Map<AbilityItem, number> = new Map(); // ms remaining
+  private dash: DashState | null = null;
+  private pull: PullState | null = null;
+  private diver: { entityId: string; timer: number } | null = null;
+  private lanternLit = false;
+  private litTorches: Set<string> = new Set();
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly SAMPLE_STEP = 4;           // px between collision samples along a path
+  private readonly HIT_RADIUS = 10;           // px - thrown items / beams strike entities this close
+  private readonly CATCH_RADIUS = 10;         // px - returning items are caught this close
+  private readonly KNOCKBACK = 100;
+
+  private readonly abilities: Record<AbilityItem, (ctx: PlayerContext) => boolean> = {
+    gale_boots: ctx => this.startDash(ctx),
+    riverfin_vest: ctx => this.startDive(ctx),
+    storm_disk: ctx => this.throwDisk(ctx),
+    quake_maul: ctx => this.slam(ctx),
+    tide_hook: ctx => this.throwHook(ctx),
+    sunflame_lantern: ctx => this.toggleLantern(ctx),
+    sunflame_prism: ctx => this.fireBeam(ctx)
+  };
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+        this.currentRealm = event.payload.realm;
+      }),
+
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+      }),
+
+      // Thrown hooks and grapples never carry over into another map
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.getEntitiesWithComponents('itemEffect').forEach(entity => this.world.destroyEntity(entity.id));
+        this.dash = null;
+        this.pull = null;
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    for (const [item, remaining] of this.cooldowns) {
+      const next = remaining - deltaTime * 1000;
+      if (next <= 0) {
+        this.cooldowns.delete(item);
+      } else {
+        this.cooldowns.set(item, next);
+      }
+    }
+
+    this.updateDash(deltaTime);
+    this.updateDive(deltaTime);
+    this.updateEffects(deltaTime);
+    this.updatePull(deltaTime);
+
+    if (this.lanternLit) {
+      const ctx = this.getPlayerContext();
+      if (ctx) this.kindleTorches(ctx.transform.position, ITEM_ABILITIES.sunflame_lantern.radius);
+    }
+  }
+
+  hasAbility(itemType: string): itemType is AbilityItem {
+    return itemType in ITEM_ABILITIES;
+  }
+
+  /**
+   * Trigger an item's ability - false while on cooldown or when the ability has nothing to act on
+   */
+  use(playerId: string, item: AbilityItem): boolean {
+    if (this.cooldowns.has(item) || this.dash || this.pull) return false;
+
+    const ctx = this.getPlayerContext(playerId);
+    if (!ctx || !ctx.player.inventory[item]) return false;
+
+    const used = this.abilities[item](ctx);
+    if (used) {
+      this.cooldowns.set(item, ITEM_ABILITIES[item].cooldown);
+    }
+    return used;
+  }
+
+  getCooldown(item: AbilityItem): number {
+    return this.cooldowns.get(item) ?? 0;
+  }
+
+  isLanternLit(): boolean {
+    return this.lanternLit;
+  }
+
+  isDashing(): boolean {
+    return this.dash !== null;
+  }
+
+  // === Gale Boots: dash that clears gaps but stops at solid tiles ===
+
+  private startDash(ctx: PlayerContext): boolean {
+    const direction = this.facing(ctx.movement.direction);
+    const start = { ...ctx.transform.position };
+    const swim = ctx.player.inventory.riverfin_vest;
+    let landing: Vector2 | null = null;
+
+    for (let travelled = this.SAMPLE_STEP; travelled <= ITEM_ABILITIES.gale_boots.distance; travelled += this.SAMPLE_STEP) {
+      const sample = { x: start.x + direction.x * travelled, y: start.y + direction.y * travelled };
+      const tiles = this.getBoxTiles(sample, ctx.bounds);
+      if (!tiles || tiles.some(tile => this.isSolid(tile, swim))) break;
+
+      // Only land where the player could stand - gaps are crossed mid-air
+      if (tiles.every(tile => this.isPassable(tile, swim))) {
+        landing = sample;
+      }
+    }
+
+    if (!landing) return false;
+
+    this.dash = { entityId: ctx.id, from: start, to: landing, elapsed: 0 };
+    ctx.movement.velocity = { x: 0, y: 0 };
+    return true;
+  }
+
+  private updateDash(deltaTime: number): void {
+    if (!this.dash) return;
+
+    const transform = this.getComponent<TransformComponent>(this.dash.entityId, 'transform');
+    const movement = this.getComponent<MovementComponent>(this.dash.entityId, 'movement');
+    if (!transform || !movement) {
+      this.dash = null;
+      return;
+    }
+
+    this.dash.elapsed += deltaTime * 1000;
+    const t = Math.min(1, this.dash.elapsed / ITEM_ABILITIES.gale_boots.duration);
+    transform.position.x = this.dash.from.x + (this.dash.to.x - this.dash.from.x) * t;
+    transform.position.y = this.dash.from.y + (this.dash.to.y - this.dash.from.y) * t;
+    movement.velocity = { x: 0, y: 0 };
+
+    if (t >= 1) {
+      this.dash = null;
+    }
+  }
+
+  // === Riverfin Vest: swimming is passive (MovementSystem); using it dives for i-frames ===
+
+  private startDive(ctx: PlayerContext): boolean {
+    const tiles = this.getBoxTiles(ctx.transform.position, ctx.bounds);
+    if (!tiles || !tiles.some(tile => SWIM_TILES.has(tile))) return false;
+
+    const health = this.getComponent<HealthComponent>(ctx.id, 'health');
+    if (health) health.invulnerable = true;
+    this.setAlpha(ctx.id, 0.4);
+
+    this.diver = { entityId: ctx.id, timer: ITEM_ABILITIES.riverfin_vest.duration };
+    return true;
+  }
+
+  private updateDive(deltaTime: number): void {
+    if (!this.diver) return;
+
+    this.diver.timer -= deltaTime * 1000;
+    const health = this.getComponent<HealthComponent>(this.diver.entityId, 'health');
+
+    // Re-assert every frame - CombatSystem clears invulnerability when an earlier hit's i-frames run out
+    if (this.diver.timer > 0) {
+      if (health) health.invulnerable = true;
+      return;
+    }
+
+    if (health) health.invulnerable = false;
+    this.setAlpha(this.diver.entityId, 1);
+    this.diver = null;
+  }
+
+  // === Storm Disk: returning throw flown by ProjectileSystem ===
+
+  private throwDisk(ctx: PlayerContext): boolean {
+    const projectiles = this.world.getSystem(ProjectileSystem);
+    if (!projectiles || projectiles.countOwned(ctx.id, 'storm_disk') > 0) return false;
+
+    return projectiles.spawn('storm_disk', ctx.id, ctx.transform.position, this.facing(ctx.movement.direction)) !== null;
+  }
+
+  // === Tide Hook: flies out, latches onto anchors and comes back ===
+
+  private throwHook(ctx: PlayerContext): boolean {
+    const kind: ItemEffectKind = 'tide_hook';
+    const alreadyOut = this.getEntitiesWithComponents('itemEffect').some(entity =>
+      this.getComponent<ItemEffectComponent>(entity.id, 'itemEffect')!.kind === kind
+    );
+    if (alreadyOut) return false;
+
+    EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...ctx.transform.position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: kind })
+      .with({
+        type: 'itemEffect',
+        entityId: '',
+        kind,
+        ownerId: ctx.id,
+        direction: this.facing(ctx.movement.direction),
+        distance: 0,
+        returning: false,
+        anchor: null,
+        hitIds: []
+      })
+      .build();
+
+    return true;
+  }
+
+  private updateEffects(deltaTime: number): void {
+    for (const entity of this.getEntitiesWithComponents('itemEffect', 'transform')) {
+      const effect = this.getComponent<ItemEffectComponent>(entity.id, 'itemEffect')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const owner = this.getComponent<TransformComponent>(effect.ownerId, 'transform');
+
+      if (!owner) {
+        this.world.destroyEntity(entity.id);
+        continue;
+      }
+
+      // A latched hook stays put while the owner is reeled in
+      if (effect.anchor) continue;
+
+      const config = ITEM_ABILITIES[effect.kind];
+      const step = config.speed * deltaTime;
+
+      if (effect.returning) {
+        const dx = owner.position.x - transform.position.x;
+        const dy = owner.position.y - transform.position.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance <= Math.max(this.CATCH_RADIUS, step)) {
+          this.world.destroyEntity(entity.id);
+          continue;
+        }
+        transform.position.x += (dx / distance) * step;
+        transform.position.y += (dy / distance) * step;
+      } else {
+        transform.position.x += effect.direction.x * step;
+        transform.position.y += effect.direction.y * step;
+        effect.distance += step;
+
+        if (effect.distance >= config.range) {
+          effect.returning = true;
+        }
+
+        const tile = this.getTileAt(transform.position);
+        if (tile !== null && GRAPPLE_TILES.has(tile)) {
+          this.latchHook(entity.id, effect, transform.position);
+          continue;
+        }
+        if (tile === null || this.isSolid(tile, false)) {
+          effect.returning = true;
+        }
+      }
+
+      // The hook stops at the first enemy it strikes
+      for (const targetId of this.findHostilesNear(transform.position, this.HIT_RADIUS)) {
+        if (effect.hitIds.includes(targetId)) continue;
+        effect.hitIds.push(targetId);
+        this.damage(targetId, config.damage, effect.ownerId, transform.position, effect.direction);
+        effect.returning = true;
+        break;
+      }
+    }
+  }
+
+  private latchHook(hookId: string, hook: ItemEffectComponent, tip: Vector2): void {
+    const ctx = this.getPlayerContext(hook.ownerId);
+    if (!ctx) return;
+
+    // Reel in to the last spot in front of the anchor where the owner can stand
+    const swim = ctx.player.inventory.riverfin_vest;
+    for (let back = TILE_SIZE; back <= hook.distance; back += this.SAMPLE_STEP) {
+      const sample = { x: tip.x - hook.direction.x * back, y: tip.y - hook.direction.y * back };
+      const tiles = this.getBoxTiles(sample, ctx.bounds);
+      if (tiles && tiles.every(tile => this.isPassable(tile, swim))) {
+        hook.anchor = { ...tip };
+        this.pull = { entityId: ctx.id, hookId, target: sample };
+        return;
+      }
+    }
+
+    hook.returning = true;
+  }
+
+  private updatePull(deltaTime: number): void {
+    if (!this.pull) return;
+
+    const transform = this.getComponent<TransformComponent>(this.pull.entityId, 'transform');
+    const movement = this.getComponent<MovementComponent>(this.pull.entityId, 'movement');
+    if (!transform || !movement) {
+      this.pull = null;
+      return;
+    }
+
+    const step = ITEM_ABILITIES.tide_hook.pullSpeed * deltaTime;
+    const dx = this.pull.target.x - transform.position.x;
+    const dy = this.pull.target.y - transform.position.y;
+    const distance = Math.hypot(dx, dy);
+    movement.velocity = { x: 0, y: 0 };
+
+    if (distance <= step) {
+      transform.position.x = this.pull.target.x;
+      transform.position.y = this.pull.target.y;
+      this.world.destroyEntity(this.pull.hookId);
+      this.pull = null;
+      return;
+    }
+
+    transform.position.x += (dx / distance) * step;
+    transform.position.y += (dy / distance) * step;
+  }
+
+  // === Quake Maul: radial slam that breaks rocks ===
+
+  private slam(ctx: PlayerContext): boolean {
+    const { radius, damage, shake } = ITEM_ABILITIES.quake_maul;
+    const center = ctx.transform.position;
+
+    for (const targetId of this.findHostilesNear(center, radius)) {
+      const target = this.getComponent<TransformComponent>(targetId, 'transform')!;
+      const away = this.normalize({ x: target.position.x - center.x, y: target.position.y - center.y });
+      this.damage(targetId, damage, ctx.id, target.position, away);
+    }
+
+    if (this.worldTiles) {
+      const minX = Math.floor((center.x - radius) / TILE_SIZE);
+      const maxX = Math.floor((center.x + radius) / TILE_SIZE);
+      const minY = Math.floor((center.y - radius) / TILE_SIZE);
+      const maxY = Math.floor((center.y + radius) / TILE_SIZE);
+
+      for (let tileY = minY; tileY <= maxY; tileY++) {
+        for (let tileX = minX; tileX <= maxX; tileX++) {
+          const tileCenter = TileCollision.tileToPixel(tileX, tileY);
+          if (Math.hypot(tileCenter.x - center.x, tileCenter.y - center.y) > radius + TILE_SIZE / 2) continue;
+          this.breakTile(tileX, tileY);
+        }
+      }
+    }
+
+    gameEvents.emit({
+      type: 'effects.screen.shake',
+      payload: { intensity: shake, duration: 250, frequency: 30 },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  private breakTile(tileX: number, tileY: number): void {
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    if (!tile) return;
+
+    const replacement = BREAKABLE_TILES[tile.tileType];
+    if (replacement === undefined) return;
+
+    const previousTileType = tile.tileType;
+    tile.tileType = replacement;
+    tile.walkable = TileCollision.isTileWalkable(replacement);
+
+    gameEvents.emit({
+      type: 'world.tile.changed',
+      payload: { tileX, tileY, tileType: replacement, previousTileType },
+      timestamp: Date.now()
+    });
+  }
+
+  // === Sunflame Lantern / Prism: light and beams ===
+
+  private toggleLantern(ctx: PlayerContext): boolean {
+    this.lanternLit = !this.lanternLit;
+
+    gameEvents.emit({
+      type: 'world.light.toggle',
+      payload: { active: this.lanternLit, radius: ITEM_ABILITIES.sunflame_lantern.radius },
+      timestamp: Date.now()
+    });
+
+    if (this.lanternLit) {
+      this.kindleTorches(ctx.transform.position, ITEM_ABILITIES.sunflame_lantern.radius);
+
+      // Lighting up right next to brush sets it burning
+      const facing = this.facing(ctx.movement.direction);
+      this.ignite({
+        x: ctx.transform.position.x + facing.x * TILE_SIZE,
+        y: ctx.transform.position.y + facing.y * TILE_SIZE
+      }, ctx.id);
+    }
+    return true;
+  }
+
+  private fireBeam(ctx: PlayerContext): boolean {
+    const { range, damage } = ITEM_ABILITIES.sunflame_prism;
+    const direction = this.facing(ctx.movement.direction);
+    const from = { ...ctx.transform.position };
+    const hitIds: string[] = [];
+    let to = from;
+
+    for (let travelled = this.SAMPLE_STEP; travelled <= range; travelled += this.SAMPLE_STEP) {
+      const sample = { x: from.x + direction.x * travelled, y: from.y + direction.y * travelled };
+      const tile = this.getTileAt(sample);
+      if (tile === null) break;
+      to = sample;
+
+      if (tile === TileType.TORCH) {
+        this.kindleTorches(sample, 0);
+        break;
+      }
+      if (this.isSolid(tile, false)) break;
+
+      // Sunlight sets brush alight along its path
+      if (BURNABLE_TILES[tile] !== undefined) {
+        this.ignite(sample, ctx.id);
+      }
+
+      // The beam pierces - every enemy along it is struck once
+      for (const targetId of this.findHostilesNear(sample, this.HIT_RADIUS)) {
+        if (hitIds.includes(targetId)) continue;
+        hitIds.push(targetId);
+        this.damage(targetId, damage, ctx.id, sample, direction, 'fire');
+      }
+    }
+
+    gameEvents.emit({
+      type: 'effects.beam',
+      payload: { from, to, color: 0xfff0a0 },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  private kindleTorches(center: Vector2, radius: number): void {
+    if (!this.worldTiles) return;
+
+    const minX = Math.floor((center.x - radius) / TILE_SIZE);
+    const maxX = Math.floor((center.x + radius) / TILE_SIZE);
+    const minY = Math.floor((center.y - radius) / TILE_SIZE);
+    const maxY = Math.floor((center.y + radius) / TILE_SIZE);
+
+    for (let tileY = minY; tileY <= maxY; tileY++) {
+      for (let tileX = minX; tileX <= maxX; tileX++) {
+        if (this.getTileAt(TileCollision.tileToPixel(tileX, tileY)) !== TileType.TORCH) continue;
+
+        const flag = `torch_lit_${this.currentMap}_${tileX}_${tileY}`;
+        if (this.litTorches.has(flag)) continue;
+        this.litTorches.add(flag);
+
+        // Torches stay lit across sessions so they can gate puzzles
+        gameEvents.emit({
+          type: 'world.flag.set',
+          payload: { flag, value: true },
+          timestamp: Date.now()
+        });
+        gameEvents.emit({
+          type: 'world.torch.lit',
+          payload: { tileX, tileY, mapId: this.currentMap },
+          timestamp: Date.now()
+        });
+      }
+    }
+  }
+
+  // === Helpers ===
+
+  private getPlayerContext(playerId?: string): PlayerContext | null {
+    const id = playerId ?? this.getEntitiesWithComponents('player')[0]?.id;
+    if (!id) return null;
+
+    const player = this.getComponent<PlayerComponent>(id, 'player');
+    const transform = this.getComponent<TransformComponent>(id, 'transform');
+    const movement = this.getComponent<MovementComponent>(id, 'movement');
+    const collider = this.getComponent<ColliderComponent>(id, 'collider');
+    if (!player || !transform || !movement) return null;
+
+    return {
+      id,
+      player,
+      transform,
+      movement,
+      bounds: collider?.bounds ?? { x: -6, y: -6, width: 12, height: 12 }
+    };
+  }
+
+  private getTileAt(position: Vector2): TileType | null {
+    const { tileX, tileY } = TileCollision.pixelToTile(position.x, position.y);
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    return tile ? TileCollision.getEffectiveTileType(tile, this.currentRealm) : null;
+  }
+
+  private getBoxTiles(position: Vector2, bounds: Rectangle): TileType[] | null {
+    const left = position.x + bounds.x;
+    const top = position.y + bounds.y;
+    const corners = [
+      { x: left, y: top },
+      { x: left + bounds.width - 1, y: top },
+      { x: left, y: top + bounds.height - 1 },
+      { x: left + bounds.width - 1, y: top + bounds.height - 1 }
+    ];
+
+    const tiles: TileType[] = [];
+    for (const corner of corners) {
+      const tile = this.getTileAt(corner);
+      if (tile === null) return null;
+      tiles.push(tile);
+    }
+    return tiles;
+  }
+
+  private isPassable(tile: TileType, swim: boolean): boolean {
+    return TileCollision.isTileWalkable(tile) || (swim && SWIM_TILES.has(tile));
+  }
+
+  // Solid tiles stop dashes and thrown items; gaps can be crossed
+  private isSolid(tile: TileType, swim: boolean): boolean {
+    return !this.isPassable(tile, swim) && !GAP_TILES.has(tile);
+  }
+
+  private findHostilesNear(position: Vector2, radius: number): string[] {
+    return this.getEntitiesWithComponents('health', 'transform')
+      .filter(entity => this.hasComponent(entity.id, 'enemy') || this.hasComponent(entity.id, 'boss'))
+      .filter(entity => {
+        const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+        return Math.hypot(transform.position.x - position.x, transform.position.y - position.y) <= radius;
+      })
+      .map(entity => entity.id);
+  }
+
+  private damage(
+    targetId: string,
+    amount: number,
+    sourceId: string,
+    position: Vector2,
+    direction: Vector2,
+    element: DamageElement = 'physical'
+  ): void {
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: {
+        targetId,
+        damage: amount,
+        source: sourceId,
+        position: { ...position },
+        knockback: { x: direction.x * this.KNOCKBACK, y: direction.y * this.KNOCKBACK },
+        element
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private ignite(position: Vector2, sourceId: string): void {
+    gameEvents.emit({
+      type: 'world.fire.ignite',
+      payload: { position: { ...position }, sourceId },
+      timestamp: Date.now()
+    });
+  }
+
+  private setAlpha(entityId: string, alpha: number): void {
+    const sprite = this.getComponent<SpriteComponent>(entityId, 'sprite');
+    if (sprite) sprite.alpha = alpha;
+  }
+
+  private facing(direction: Direction): Vector2 {
+    switch (direction) {
+      case 'up': return { x: 0, y: -1 };
+      case 'down': return { x: 0, y: 1 };
+      case 'left': return { x: -1, y: 0 };
+      default: return { x: 1, y: 0 };
+    }
+  }
+
+  private normalize(vector: Vector2): Vector2 {
+    const length = Math.hypot(vector.x, vector.y);
+    return length > 0 ? { x: vector.x / length, y: vector.y / length } : { x: 0, y: 0 };
+  }
+}
@@ -0,0 +1,78 @@
+// Lighting Renderer - Draws the darkness layer over the world from LightingSystem's light levels
+// Following World Builder agent specifications; darkness is drawn in coarse cells so shadows match what gameplay sees
+
+import { LIGHTING } from '@shared/constants.js';
+import type { LightingSystem } from './LightingSystem.js';
+
+export class LightingRenderer {
+  private overlay: Phaser.GameObjects.Graphics;
+  private lighting: LightingSystem;
+  private drawnRevision = -1;
+  private drawnView = '';
+
+  private readonly DEPTH = 900;                 // over sprites and ground effects, under flames and UI
+  private readonly ALPHA_STEPS = 16;            // cells of similar darkness share one fill
+
+  constructor(scene: Phaser.Scene, lighting: LightingSystem) {
+    this.lighting = lighting;
+    this.overlay = scene.add.graphics();
+    this.overlay.setDepth(this.DEPTH);
+  }
+
+  /**
+   * Redraw the darkness over the camera view - only when the lighting or the cells in view changed
+   */
+  update(camera: Phaser.Cameras.Scene2D.Camera): void {
+    const cell = LIGHTING.CELL_SIZE;
+    const view = camera.worldView;
+    const left = Math.floor(view.x / cell) * cell;
+    const top = Math.floor(view.y / cell) * cell;
+    const right = Math.ceil(view.right / cell) * cell;
+    const bottom = Math.ceil(view.bottom / cell) * cell;
+
+    // The overlay lives in world space, so scrolling within the same cells needs no redraw
+    const viewKey = `${left},${top},${right},${bottom}`;
+    const revision = this.lighting.getRevision();
+    if (revision === this.drawnRevision && viewKey === this.drawnView) return;
+    this.drawnRevision = revision;
+    this.drawnView = viewKey;
+
+    this.overlay.clear();
+
+    // Bucket runs of equally dark cells by darkness so each alpha is set once and each run is one fill
+    const buckets: Map<number, Array<{ x: number; y: number; width: number }>> = new Map();
+    const addRun = (step: number, x: number, y: number, width: number) => {
+      if (step <= 0) return;
+      let bucket = buckets.get(step);
+      if (!bucket) {
+        bucket = [];
+        buckets.set(step, bucket);
+      }
+      bucket.push({ x, y, width });
+    };
+
+    for (let y = top; y < bottom; y += cell) {
+      let runStart = left;
+      let runStep = 0;
+      for (let x = left; x < right; x += cell) {
+        const darkness = 1 - this.lighting.getLightLevel({ x: x + cell / 2, y: y + cell / 2 });
+        const step = Math.round(darkness * this.ALPHA_STEPS);
+        if (step === runStep) continue;
+
+        addRun(runStep, runStart, y, x - runStart);
+        runStart = x;
+        runStep = step;
+      }
+      addRun(runStep, runStart, y, right - runStart);
+    }
+
+    buckets.forEach((runs, step) => {
+      this.overlay.fillStyle(LIGHTING.DARKNESS_COLOR, step / this.ALPHA_STEPS);
+      runs.forEach(({ x, y, width }) => this.overlay.fillRect(x, y, width, cell));
+    });
+  }
+
+  destroy(): void {
+    this.overlay.destroy();
+  }
+}
@@ -0,0 +1,281 @@
+// Lighting System - Ambient darkness, point lights and wall shadows for dark rooms
+// Following World Builder agent specifications; the renderer and gameplay share one "is this position lit?" answer
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import {
+  LIGHT_OCCLUDING_TILES,
+  LIGHTING,
+  OVERWORLD_MAP_ID,
+  REGIONS,
+  TILE_SIZE,
+  WORLD_HEIGHT,
+  WORLD_WIDTH
+} from '@shared/constants.js';
+import { TileType } from '@shared/types.js';
+import type { ColliderComponent, LightSource, ProjectileComponent, Realm, TransformComponent, Vector2 } from '@shared/types.js';
+import { mapLoader } from '../utils/MapLoader.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+
+export class LightingSystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private currentRealm: Realm = 'dayrealm';
+  private worldTiles: WorldTile[][] | null = null;
+  private tileLights: Map<string, LightSource> = new Map(); // "tileX,tileY"
+  private litTorches: Set<string> = new Set();
+  private lanternRadius = 0;                                  // 0 while the Sunflame Lantern is out
+  private lights: LightSource[] = [];
+  private lightGrid: Map<string, LightSource[]> = new Map(); // "cellX,cellY" -> lights reaching that cell
+  private mapDarkness: number | null = null;                 // null on the overworld, where regions decide
+  private regionDarkness: Float64Array | null = null;         // per overworld tile, built on first use
+  private revision = 0;
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly LIGHT_GRID_SIZE = 64;  // px per cell of the light index
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+        this.currentRealm = event.payload.realm;
+        this.revision++;
+      }),
+
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+        this.revision++;
+      }),
+
+      // Tiles arrive before the map is announced, so torches are collected here
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.mapDarkness = this.currentMap === OVERWORLD_MAP_ID ? null : mapLoader.getMapEntry(this.currentMap)?.darkness ?? 0;
+        this.collectTileLights();
+        this.revision++;
+      }),
+
+      gameEvents.on('world.torch.lit', (event: any) => {
+        if (event.payload.mapId !== this.currentMap) return;
+        this.litTorches.add(this.torchFlag(event.payload.tileX, event.payload.tileY));
+        this.updateTileLight(event.payload.tileX, event.payload.tileY);
+      }),
+
+      // Walls may have appeared or gone, so shadows change too
+      gameEvents.on('world.tile.changed', (event: any) => {
+        this.updateTileLight(event.payload.tileX, event.payload.tileY);
+        this.revision++;
+      }),
+
+      gameEvents.on('world.light.toggle', (event: any) => {
+        this.lanternRadius = event.payload.active ? event.payload.radius : 0;
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  // Moving lights (the player's lantern, fire projectiles) are gathered once a frame
+  update(_deltaTime: number): void {
+    const lights = [...this.tileLights.values()];
+
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform', 'collider')[0];
+    if (playerEntity && this.lanternRadius > 0) {
+      const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+      const collider = this.getComponent<ColliderComponent>(playerEntity.id, 'collider')!;
+      const position = {
+        x: transform.position.x + collider.bounds.x + collider.bounds.width / 2,
+        y: transform.position.y + collider.bounds.y + collider.bounds.height / 2
+      };
+      lights.push({ kind: 'player', position, radius: this.lanternRadius, ...LIGHTING.PLAYER_LANTERN });
+    }
+
+    for (const entity of this.getEntitiesWithComponents('projectile', 'transform')) {
+      const projectile = this.getComponent<ProjectileComponent>(entity.id, 'projectile')!;
+      if (projectile.element !== 'fire' || projectile.spent) continue;
+
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      lights.push({ kind: 'projectile', position: { ...transform.position }, ...LIGHTING.PROJECTILE });
+    }
+
+    if (this.isSameLighting(lights)) return;
+    this.lights = lights;
+    this.indexLights();
+    this.revision++;
+  }
+
+  getLights(): readonly LightSource[] {
+    return this.lights;
+  }
+
+  /**
+   * Changes whenever any light level may have changed - the renderer redraws only then
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Ambient darkness 0..1 - set per map, or per region on the overworld
+   */
+  getAmbientDarkness(position: Vector2): number {
+    if (this.mapDarkness !== null) return this.mapDarkness;
+
+    const tileX = Math.floor(position.x / TILE_SIZE);
+    const tileY = Math.floor(position.y / TILE_SIZE);
+    if (tileX < 0 || tileY < 0 || tileX >= WORLD_WIDTH || tileY >= WORLD_HEIGHT) return 0;
+    return this.getRegionDarkness()[tileY * WORLD_WIDTH + tileX];
+  }
+
+  /**
+   * How bright a position is, 0 (pitch black) to 1 (full light)
+   */
+  getLightLevel(position: Vector2): number {
+    const darkness = this.getAmbientDarkness(position);
+    if (darkness <= 0) return 1;
+
+    let brightness = 0;
+    for (const light of this.getLightsReaching(position)) {
+      const strength = this.getLightStrength(light, position);
+      if (strength > brightness) brightness = strength;
+      if (brightness >= 1) break;
+    }
+    return 1 - darkness * (1 - brightness);
+  }
+
+  isLit(position: Vector2): boolean {
+    return this.getLightLevel(position) >= LIGHTING.LIT_THRESHOLD;
+  }
+
+  private isSameLighting(lights: LightSource[]): boolean {
+    return lights.length === this.lights.length && lights.every((light, index) => {
+      const previous = this.lights[index];
+      return light.kind === previous.kind && light.radius === previous.radius &&
+        light.position.x === previous.position.x && light.position.y === previous.position.y;
+    });
+  }
+
+  // Each light is filed under every grid cell its radius touches, so a lookup is one cell
+  private indexLights(): void {
+    this.lightGrid.clear();
+    const size = this.LIGHT_GRID_SIZE;
+
+    for (const light of this.lights) {
+      const minX = Math.floor((light.position.x - light.radius) / size);
+      const maxX = Math.floor((light.position.x + light.radius) / size);
+      const minY = Math.floor((light.position.y - light.radius) / size);
+      const maxY = Math.floor((light.position.y + light.radius) / size);
+
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        for (let cellX = minX; cellX <= maxX; cellX++) {
+          const key = `${cellX},${cellY}`;
+          const cell = this.lightGrid.get(key);
+          if (cell) cell.push(light);
+          else this.lightGrid.set(key, [light]);
+        }
+      }
+    }
+  }
+
+  private getLightsReaching(position: Vector2): readonly LightSource[] {
+    const size = this.LIGHT_GRID_SIZE;
+    return this.lightGrid.get(`${Math.floor(position.x / size)},${Math.floor(position.y / size)}`) ?? [];
+  }
+
+  // Regions never move, so the overworld's darkness is looked up once per tile - the first region listed wins
+  private getRegionDarkness(): Float64Array {
+    if (this.regionDarkness) return this.regionDarkness;
+
+    const darkness = new Float64Array(WORLD_WIDTH * WORLD_HEIGHT);
+    for (const region of [...REGIONS].reverse()) {
+      const { x, y, width, height } = region.bounds;
+      for (let tileY = Math.max(0, y); tileY < Math.min(WORLD_HEIGHT, y + height); tileY++) {
+        darkness.fill(region.darkness ?? 0, tileY * WORLD_WIDTH + Math.max(0, x), tileY * WORLD_WIDTH + Math.min(WORLD_WIDTH, x + width));
+      }
+    }
+    this.regionDarkness = darkness;
+    return darkness;
+  }
+
+  private getLightStrength(light: LightSource, position: Vector2): number {
+    const distance = Math.hypot(position.x - light.position.x, position.y - light.position.y);
+    if (distance >= light.radius) return 0;
+    if (!this.hasLineOfSight(light.position, position)) return 0;
+
+    // Full strength near the centre, fading out to the edge
+    const inner = light.radius * LIGHTING.FULL_BRIGHT_RATIO;
+    const falloff = distance <= inner ? 1 : 1 - (distance - inner) / (light.radius - inner);
+    return light.intensity * falloff;
+  }
+
+  // Walls between a light and a position shade it; the wall faces themselves still catch the light
+  private hasLineOfSight(from: Vector2, to: Vector2): boolean {
+    if (!this.worldTiles) return true;
+
+    const start = TileCollision.pixelToTile(from.x, from.y);
+    const end = TileCollision.pixelToTile(to.x, to.y);
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.floor(distance / LIGHTING.OCCLUSION_STEP);
+
+    for (let step = 1; step < steps; step++) {
+      const t = step / steps;
+      const { tileX, tileY } = TileCollision.pixelToTile(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+      if ((tileX === start.tileX && tileY === start.tileY) || (tileX === end.tileX && tileY === end.tileY)) continue;
+
+      const tile = this.worldTiles[tileY]?.[tileX];
+      if (tile && LIGHT_OCCLUDING_TILES.has(TileCollision.getEffectiveTileType(tile, this.currentRealm))) return false;
+    }
+    return true;
+  }
+
+  private collectTileLights(): void {
+    this.tileLights.clear();
+    if (!this.worldTiles) return;
+
+    for (let tileY = 0; tileY < this.worldTiles.length; tileY++) {
+      for (let tileX = 0; tileX < this.worldTiles[tileY].length; tileX++) {
+        const tileType = this.worldTiles[tileY][tileX].tileType;
+        if (tileType === TileType.TORCH || tileType === TileType.LANTERN) this.updateTileLight(tileX, tileY);
+      }
+    }
+  }
+
+  // Lanterns always burn; torches only once kindled by the Sunflame Lantern or Prism
+  private updateTileLight(tileX: number, tileY: number): void {
+    const key = `${tileX},${tileY}`;
+    this.tileLights.delete(key);
+
+    const tileType = this.worldTiles?.[tileY]?.[tileX]?.tileType;
+    const settings = tileType === TileType.LANTERN ? LIGHTING.LANTERN
+      : tileType === TileType.TORCH && this.isTorchLit(tileX, tileY) ? LIGHTING.TORCH
+      : null;
+    if (!settings) return;
+
+    this.tileLights.set(key, {
+      kind: tileType === TileType.LANTERN ? 'lantern' : 'torch',
+      position: TileCollision.tileToPixel(tileX, tileY),
+      ...settings
+    });
+  }
+
+  private isTorchLit(tileX: number, tileY: number): boolean {
+    const flag = this.torchFlag(tileX, tileY);
+    if (this.litTorches.has(flag)) return true;
+
+    return WorldConditions.hasFlag(this.world, flag);
+  }
+
+  // Same world flag ItemAbilitySystem sets when it kindles a torch
+  private torchFlag(tileX: number, tileY: number): string {
+    return `torch_lit_${this.currentMap}_${tileX}_${tileY}`;
+  }
+}
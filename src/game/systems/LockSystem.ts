@@ -0,0 +1,401 @@
+// Lock System - Dungeon keys, locked doors and chests
+// Following World Builder agent specifications; small keys are counted per dungeon, open state lives in world flags
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import { DUNGEONS, ITEM_HOLD_UP_DURATION, OVERWORLD_MAP_ID, TILE_SIZE } from '@shared/constants.js';
+import type {
+  Chest,
+  ChestComponent,
+  ChestContents,
+  DoorComponent,
+  Dungeon,
+  LockedDoor,
+  MovementComponent,
+  PlayerComponent,
+  SpriteComponent,
+  TransformComponent
+} from '@shared/types.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+import { LootSystem } from './LootSystem.js';
+
+export type LockFailure = 'not_lockable' | 'missing_key' | 'already_open';
+
+export class LockSystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private lockEntities: string[] = [];
+  private heldItemEntity: string | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly CHEST_SIZE = 16;
+  private readonly BIG_CHEST_SIZE = { width: 32, height: 24 };
+  private readonly HELD_ITEM_OFFSET = 14;     // px above the player's head
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      // Doors and chests belong to their map - rebuild them on every map change
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.spawnLocks(this.currentMap);
+      }),
+
+      // InteractionSystem hands over doors and chests the player faces
+      gameEvents.on('interaction.object', (event: any) => {
+        this.interact(event.payload.entityId);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    const player = playerEntity && this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    if (!player || !player.itemHoldTimer) return;
+
+    player.itemHoldTimer = Math.max(0, player.itemHoldTimer - deltaTime * 1000);
+
+    // The held item follows the player; the pose faces the camera and stands still
+    const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    const movement = this.getComponent<MovementComponent>(playerEntity.id, 'movement');
+    if (movement) {
+      movement.velocity.x = 0;
+      movement.velocity.y = 0;
+      movement.direction = 'down';
+    }
+
+    const held = this.heldItemEntity && this.getComponent<TransformComponent>(this.heldItemEntity, 'transform');
+    if (held) {
+      held.position.x = transform.position.x;
+      held.position.y = transform.position.y - this.HELD_ITEM_OFFSET;
+    }
+
+    if (player.itemHoldTimer === 0) this.clearHeldItem();
+  }
+
+  /**
+   * Open a door or chest - the reason is returned (and emitted for doors) when it stays shut
+   */
+  interact(entityId: string): LockFailure | null {
+    const door = this.getComponent<DoorComponent>(entityId, 'door');
+    if (door) return this.unlockDoor(entityId, door);
+
+    const chest = this.getComponent<ChestComponent>(entityId, 'chest');
+    if (chest) return this.openChest(entityId, chest);
+
+    return 'not_lockable';
+  }
+
+  getSmallKeys(dungeonId: string): number {
+    return this.getPlayer()?.inventory.keys[dungeonId] ?? 0;
+  }
+
+  hasBigKey(dungeonId: string): boolean {
+    return (this.getPlayer()?.inventory.keys[this.bigKeyId(dungeonId)] ?? 0) > 0;
+  }
+
+  isDoorOpen(doorId: string): boolean {
+    return this.getFlag(this.doorFlag(doorId));
+  }
+
+  isChestOpened(chestId: string): boolean {
+    return this.getFlag(this.chestFlag(chestId));
+  }
+
+  getDungeonForMap(mapId: string): Dungeon | undefined {
+    return DUNGEONS.find(dungeon => dungeon.maps.includes(mapId));
+  }
+
+  private unlockDoor(entityId: string, door: DoorComponent): LockFailure | null {
+    const player = this.getPlayer();
+    if (!player) return 'missing_key';
+
+    const keyId = door.lock === 'big' ? this.bigKeyId(door.dungeonId) : door.dungeonId;
+    const owned = player.inventory.keys[keyId] ?? 0;
+    if (owned <= 0) {
+      gameEvents.emit({
+        type: 'lock.denied',
+        payload: { doorId: door.doorId, lock: door.lock, dungeonId: door.dungeonId },
+        timestamp: Date.now()
+      });
+      return 'missing_key';
+    }
+
+    // Small keys are spent on the door; the big key opens every big lock in its dungeon
+    if (door.lock === 'small') {
+      player.inventory.keys[keyId] = owned - 1;
+      this.emitInventoryChanged(player);
+    }
+
+    const transform = this.getComponent<TransformComponent>(entityId, 'transform');
+    this.setFlag(this.doorFlag(door.doorId));
+    this.world.destroyEntity(entityId);
+    this.lockEntities = this.lockEntities.filter(id => id !== entityId);
+
+    gameEvents.emit({
+      type: 'lock.opened',
+      payload: {
+        doorId: door.doorId,
+        lock: door.lock,
+        dungeonId: door.dungeonId,
+        position: transform ? { ...transform.position } : { x: 0, y: 0 }
+      },
+      timestamp: Date.now()
+    });
+    return null;
+  }
+
+  private openChest(entityId: string, chest: ChestComponent): LockFailure | null {
+    if (chest.opened) return 'already_open';
+    if (chest.big && !this.hasBigKey(chest.dungeonId)) {
+      gameEvents.emit({
+        type: 'lock.denied',
+        payload: { chestId: chest.chestId, lock: 'big', dungeonId: chest.dungeonId },
+        timestamp: Date.now()
+      });
+      return 'missing_key';
+    }
+
+    const definition = this.findChest(chest.chestId);
+    const transform = this.getComponent<TransformComponent>(entityId, 'transform');
+    if (!definition || !transform) return 'not_lockable';
+
+    chest.opened = true;
+    this.setOpenedLook(entityId);
+    this.setFlag(this.chestFlag(chest.chestId));
+
+    gameEvents.emit({
+      type: 'chest.opened',
+      payload: { chestId: chest.chestId, big: chest.big, contents: definition.contents, position: { ...transform.position } },
+      timestamp: Date.now()
+    });
+
+    this.grantContents(chest, definition, transform);
+    return null;
+  }
+
+  private grantContents(chest: ChestComponent, definition: Chest, transform: TransformComponent): void {
+    const { contents } = definition;
+
+    // Loot chests spill pickups in front of them instead of a hold-up
+    if (contents.type === 'loot') {
+      const lootSystem = this.world.getSystem(LootSystem);
+      lootSystem?.dropFrom(contents.table, {
+        x: transform.position.x + this.CHEST_SIZE / 2,
+        y: transform.position.y + this.CHEST_SIZE + TILE_SIZE / 2
+      });
+      return;
+    }
+
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    const player = playerEntity && this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    if (!player) return;
+
+    const itemType = this.grantItem(player, chest.dungeonId, contents);
+    if (!itemType) return;
+
+    this.emitInventoryChanged(player);
+    emitTypedEvent(createEvent.itemCollected(`chest_${chest.chestId}`, itemType, { ...transform.position },
+      contents.type === 'item' ? contents.amount ?? 1 : 1));
+    this.holdUp(playerEntity.id, player, itemType);
+  }
+
+  private grantItem(player: PlayerComponent, dungeonId: string, contents: Exclude<ChestContents, { type: 'loot' }>): string | null {
+    switch (contents.type) {
+      case 'small_key':
+        player.inventory.keys[dungeonId] = (player.inventory.keys[dungeonId] ?? 0) + 1;
+        return 'small_key';
+
+      case 'big_key':
+        player.inventory.keys[this.bigKeyId(dungeonId)] = 1;
+        return 'big_key';
+
+      case 'item': {
+        const inventory = player.inventory as unknown as Record<string, unknown>;
+        if (typeof inventory[contents.item] === 'boolean') {
+          inventory[contents.item] = true;
+        } else if (typeof inventory[contents.item] === 'number') {
+          inventory[contents.item] = (inventory[contents.item] as number) + (contents.amount ?? 1);
+        } else {
+          console.warn(`LockSystem: Cannot grant unknown item "${contents.item}"`);
+          return null;
+        }
+        return contents.item;
+      }
+    }
+  }
+
+  // ALTTP's "found item" pose - the prize is raised overhead while the jingle plays
+  private holdUp(playerId: string, player: PlayerComponent, itemType: string): void {
+    const transform = this.getComponent<TransformComponent>(playerId, 'transform')!;
+    this.clearHeldItem();
+
+    player.itemHoldTimer = ITEM_HOLD_UP_DURATION;
+    this.heldItemEntity = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { x: transform.position.x, y: transform.position.y - this.HELD_ITEM_OFFSET },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: `item_${itemType}`, frame: 0, tint: 0xffffff, alpha: 1 })
+      .build().id;
+
+    gameEvents.emit({
+      type: 'player.item.holdUp',
+      payload: { entityId: playerId, itemType, duration: ITEM_HOLD_UP_DURATION },
+      timestamp: Date.now()
+    });
+  }
+
+  private clearHeldItem(): void {
+    if (this.heldItemEntity) {
+      this.world.destroyEntity(this.heldItemEntity);
+      this.heldItemEntity = null;
+    }
+  }
+
+  private spawnLocks(mapId: string): void {
+    this.lockEntities.forEach(entityId => this.world.destroyEntity(entityId));
+    this.lockEntities = [];
+
+    const dungeon = this.getDungeonForMap(mapId);
+    if (!dungeon) return;
+
+    for (const door of dungeon.doors) {
+      if (door.map === mapId && !this.isDoorOpen(door.id)) {
+        this.lockEntities.push(this.createDoor(dungeon, door));
+      }
+    }
+
+    for (const chest of dungeon.chests) {
+      if (chest.map === mapId) {
+        this.lockEntities.push(this.createChest(dungeon, chest));
+      }
+    }
+  }
+
+  private createDoor(dungeon: Dungeon, door: LockedDoor): string {
+    return EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { x: door.bounds.x, y: door.bounds.y },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: door.lock === 'big' ? 'big_key_door' : 'locked_door',
+        frame: 0,
+        tint: door.lock === 'big' ? 0x8E24AA : 0x6D4C41,
+        alpha: 1
+      })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: door.bounds.width, height: door.bounds.height },
+        solid: true,
+        trigger: false
+      })
+      .with({ type: 'door', entityId: '', doorId: door.id, dungeonId: dungeon.id, lock: door.lock })
+      .build().id;
+  }
+
+  private createChest(dungeon: Dungeon, chest: Chest): string {
+    const size = chest.big ? this.BIG_CHEST_SIZE : { width: this.CHEST_SIZE, height: this.CHEST_SIZE };
+    const opened = this.isChestOpened(chest.id);
+
+    const entityId = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...chest.position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: chest.big ? 'big_chest' : 'chest',
+        frame: 0,
+        tint: 0xD49C3D,
+        alpha: 1
+      })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, ...size },
+        solid: true,
+        trigger: false
+      })
+      .with({ type: 'chest', entityId: '', chestId: chest.id, dungeonId: dungeon.id, big: chest.big, opened })
+      .build().id;
+
+    if (opened) this.setOpenedLook(entityId);
+    return entityId;
+  }
+
+  private setOpenedLook(entityId: string): void {
+    const sprite = this.getComponent<SpriteComponent>(entityId, 'sprite');
+    if (sprite) {
+      sprite.frame = 1;
+      sprite.tint = 0x8D6E3F;
+    }
+  }
+
+  private findChest(chestId: string): Chest | undefined {
+    for (const dungeon of DUNGEONS) {
+      const chest = dungeon.chests.find(candidate => candidate.id === chestId);
+      if (chest) return chest;
+    }
+    return undefined;
+  }
+
+  private getPlayer(): PlayerComponent | undefined {
+    const playerEntity = this.getEntitiesWithComponents('player')[0];
+    return playerEntity && this.getComponent<PlayerComponent>(playerEntity.id, 'player');
+  }
+
+  private emitInventoryChanged(player: PlayerComponent): void {
+    gameEvents.emit({
+      type: 'player.inventory.changed',
+      payload: { inventory: player.inventory },
+      timestamp: Date.now()
+    });
+  }
+
+  private getFlag(flag: string): boolean {
+    return WorldConditions.hasFlag(this.world, flag);
+  }
+
+  private setFlag(flag: string): void {
+    gameEvents.emit({
+      type: 'world.flag.set',
+      payload: { flag, value: true },
+      timestamp: Date.now()
+    });
+  }
+
+  private bigKeyId(dungeonId: string): string {
+    return `${dungeonId}_big`;
+  }
+
+  private doorFlag(doorId: string): string {
+    return `door_open_${doorId}`;
+  }
+
+  private chestFlag(chestId: string): string {
+    return `chest_opened_${chestId}`;
+  }
+}
@@ -0,0 +1,242 @@
+// Loot System - Weighted drop tables, physical pickups and cuttable brush
+// Following Spec Librarian drop rates (GDD section 12); rolls come from a seedable RNG so tests and replays agree
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import type { Direction8, PlayerAttackStartEvent } from '@shared/events.js';
+import {
+  CUTTABLE_TILES,
+  DEFAULT_ENEMY_LOOT_TABLE,
+  ENEMIES,
+  LOOT_TABLES,
+  PICKUP_BLINK_TIME,
+  PICKUP_LIFETIME,
+  TILE_SIZE
+} from '@shared/constants.js';
+import type {
+  DropKind,
+  HealthComponent,
+  PickupComponent,
+  PlayerComponent,
+  SpriteComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { SeededRandom } from '../utils/SeededRandom.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+export class LootSystem extends System {
+  private random: SeededRandom;
+  private worldTiles: WorldTile[][] | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly PICKUP_RADIUS = 12;        // px - walking this close collects a drop
+  private readonly SCATTER = 6;               // px - multiple drops fan out around the source
+  private readonly BLINK_RATE = 100;          // ms per blink phase
+
+  constructor(seed?: number) {
+    super();
+    this.random = new SeededRandom(seed);
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on(GAME_EVENTS.ENEMY_DIED, (event: any) => {
+        const { species, position } = event.payload;
+        this.dropFrom(ENEMIES[species]?.lootTable ?? DEFAULT_ENEMY_LOOT_TABLE, position);
+      }),
+
+      // Sword swings cut the brush they pass through
+      gameEvents.on(GAME_EVENTS.PLAYER_ATTACK_START, (event: any) => {
+        const attack = event.payload as PlayerAttackStartEvent;
+        if (attack.attackType === 'sword' || attack.attackType === 'spin') {
+          this.cutAround(attack.position, attack.direction, attack.attackType === 'spin');
+        }
+      }),
+
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+      }),
+
+      // Drops left on the old map are gone when the player returns
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, () => {
+        this.getEntitiesWithComponents('pickup').forEach(entity => this.world.destroyEntity(entity.id));
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    const player = this.getEntitiesWithComponents('player', 'transform')[0];
+    const playerPosition = player && this.getComponent<TransformComponent>(player.id, 'transform')!.position;
+
+    for (const entity of this.getEntitiesWithComponents('pickup', 'transform')) {
+      const pickup = this.getComponent<PickupComponent>(entity.id, 'pickup')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+
+      if (player && playerPosition &&
+          Math.hypot(playerPosition.x - transform.position.x, playerPosition.y - transform.position.y) <= this.PICKUP_RADIUS) {
+        this.collect(player.id, entity.id, pickup, transform.position);
+        continue;
+      }
+
+      pickup.lifetime -= deltaTime * 1000;
+      if (pickup.lifetime <= 0) {
+        this.world.destroyEntity(entity.id);
+        continue;
+      }
+
+      // Blink through the last few seconds as a warning
+      const sprite = this.getComponent<SpriteComponent>(entity.id, 'sprite');
+      if (sprite) {
+        const blinking = pickup.lifetime <= PICKUP_BLINK_TIME;
+        sprite.alpha = blinking && Math.floor(pickup.lifetime / this.BLINK_RATE) % 2 === 0 ? 0.25 : 1;
+      }
+    }
+  }
+
+  /**
+   * Re-seed the drop RNG - the same seed replays the same drops
+   */
+  setSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  /**
+   * Roll a loot table and scatter the results as pickups - returns the new pickup ids
+   */
+  dropFrom(tableId: string, position: Vector2): string[] {
+    const table = LOOT_TABLES[tableId];
+    if (!table || !this.random.chance(table.dropChance)) return [];
+
+    const dropped: string[] = [];
+    for (let roll = 0; roll < table.rolls; roll++) {
+      const entry = this.random.weighted(table.entries);
+      if (!entry) continue;
+
+      const amount = this.random.int(entry.min, entry.max);
+      const offset = table.rolls > 1 ? (roll - (table.rolls - 1) / 2) * this.SCATTER * 2 : 0;
+      dropped.push(this.spawnPickup(entry.kind, amount, { x: position.x + offset, y: position.y }, tableId));
+    }
+    return dropped;
+  }
+
+  /**
+   * Place a single pickup - pass Infinity as the lifetime for placed (non-dropped) pickups that never fade
+   */
+  spawnPickup(kind: DropKind, amount: number, position: Vector2, source = 'manual', lifetime = PICKUP_LIFETIME): string {
+    const id = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: `pickup_${kind}` })
+      .with({ type: 'pickup', entityId: '', kind, amount, lifetime })
+      .build().id;
+
+    emitTypedEvent(createEvent.itemDropped(id, kind, { ...position }, amount, source));
+    return id;
+  }
+
+  // === Cutting brush ===
+
+  private cutAround(position: Vector2, direction: Direction8, spin: boolean): void {
+    const offsets = spin
+      ? [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+      : [this.directionOffset(direction)];
+
+    for (const [dx, dy] of offsets) {
+      this.cutTile({ x: position.x + dx * TILE_SIZE, y: position.y + dy * TILE_SIZE });
+    }
+  }
+
+  private cutTile(position: Vector2): void {
+    const { tileX, tileY } = TileCollision.pixelToTile(position.x, position.y);
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    const cuttable = tile ? CUTTABLE_TILES[tile.tileType] : undefined;
+    if (!tile || !cuttable) return;
+
+    const previousTileType = tile.tileType;
+    tile.tileType = cuttable.replacement;
+    tile.walkable = TileCollision.isTileWalkable(cuttable.replacement);
+
+    gameEvents.emit({
+      type: 'world.tile.changed',
+      payload: { tileX, tileY, tileType: cuttable.replacement, previousTileType },
+      timestamp: Date.now()
+    });
+
+    this.dropFrom(cuttable.lootTable, TileCollision.tileToPixel(tileX, tileY));
+  }
+
+  private directionOffset(direction: Direction8): [number, number] {
+    const dx = direction.includes('left') ? -1 : direction.includes('right') ? 1 : 0;
+    const dy = direction.includes('up') ? -1 : direction.includes('down') ? 1 : 0;
+    return [dx, dy];
+  }
+
+  // === Collecting ===
+
+  private collect(playerId: string, pickupId: string, pickup: PickupComponent, position: Vector2): void {
+    const player = this.getComponent<PlayerComponent>(playerId, 'player');
+    if (!player) return;
+
+    switch (pickup.kind) {
+      case 'gleam':
+        player.gleam += pickup.amount;
+        gameEvents.emit({
+          type: 'player.gleam.changed',
+          payload: { gleam: player.gleam },
+          timestamp: Date.now()
+        });
+        break;
+
+      case 'charge':
+        // PlayerControllerSystem reports the new stamina to the HUD
+        player.stamina = Math.min(player.maxStamina, player.stamina + pickup.amount);
+        break;
+
+      case 'heart': {
+        const health = this.getComponent<HealthComponent>(playerId, 'health');
+        if (!health) break;
+        health.current = Math.min(health.maximum, health.current + pickup.amount);
+        emitTypedEvent(createEvent.playerHealthChanged(playerId, health.current, health.maximum));
+        break;
+      }
+
+      case 'rumor_card':
+        player.inventory.rumor_cards += pickup.amount;
+        gameEvents.emit({
+          type: 'player.inventory.changed',
+          payload: { inventory: player.inventory },
+          timestamp: Date.now()
+        });
+        break;
+    }
+
+    this.world.destroyEntity(pickupId);
+
+    // Same feedback as inventory pickups (sparkles and sound)
+    gameEvents.emit({
+      type: 'inventory.item.collected',
+      payload: {
+        itemType: pickup.kind,
+        value: pickup.amount,
+        position: { ...position },
+        playerInventory: player.inventory
+      },
+      timestamp: Date.now()
+    });
+    emitTypedEvent(createEvent.itemCollected(pickupId, pickup.kind, { ...position }, pickup.amount,
+      pickup.kind === 'rumor_card' ? 'rare' : 'common'));
+  }
+}
@@ -3,9 +3,9 @@
 
 import { System } from '../ECS.js';
 import { emitPlayerMoved, gameEvents } from '@shared/events.js';
-import { WORLD_WIDTH, WORLD_HEIGHT, TILE_SIZE } from '@shared/constants.js';
+import { WORLD_WIDTH, WORLD_HEIGHT, TILE_SIZE, SWIM_TILES } from '@shared/constants.js';
 import { TileCollision } from '../utils/TileCollision.js';
-import type { MovementComponent, TransformComponent, ColliderComponent } from '@shared/types.js';
+import type { MovementComponent, TransformComponent, ColliderComponent, PlayerComponent, TileType } from '@shared/types.js';
 import type { WorldTile } from '../utils/WorldGenerator.js';
 
 interface MovementSystemConfig {
@@ -18,20 +18,28 @@ export class MovementSystem extends System {
   private worldTiles: WorldTile[][] | null = null;
   private currentRealm: 'dayrealm' | 'eclipse' = 'dayrealm';
   public debugTileCollision = false; // Runtime debug flag
+  private unsubscribers: Array<() => void> = [];
   
   constructor() {
     super();
     
-    // Listen for world data updates
-    gameEvents.on('movement.worldData.update', (event) => {
-      this.updateWorldData(event.payload.worldTiles, event.payload.realm);
-    });
-    
-    // Listen for realm changes
-    gameEvents.on('world/realmSwitched', (event) => {
-      this.currentRealm = event.payload.currentRealm;
-      console.log('MovementSystem: Realm switched to', this.currentRealm);
-    });
+    this.unsubscribers.push(
+      // Listen for world data updates
+      gameEvents.on('movement.worldData.update', (event) => {
+        this.updateWorldData(event.payload.worldTiles, event.payload.realm);
+      }),
+      
+      // Listen for realm changes
+      gameEvents.on('world/realmSwitched', (event) => {
+        this.currentRealm = event.payload.currentRealm;
+        console.log('MovementSystem: Realm switched to', this.currentRealm);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
   }
   
   /**
@@ -155,8 +163,9 @@ export class MovementSystem extends System {
       collider.bounds,
       this.worldTiles!,
       this.currentRealm,
-      WORLD_WIDTH,
-      WORLD_HEIGHT
+      this.worldTiles![0]?.length ?? WORLD_WIDTH,
+      this.worldTiles!.length,
+      this.getPassableTiles(entityId)
     );
 
     if (!collisionResult.canMove) {
@@ -225,6 +234,14 @@ export class MovementSystem extends System {
     }
   }
   
+  /**
+   * Extra tiles an entity may enter thanks to its items (Riverfin Vest swimming)
+   */
+  private getPassableTiles(entityId: string): ReadonlySet<TileType> | undefined {
+    const player = this.getComponent<PlayerComponent>(entityId, 'player');
+    return player?.inventory.riverfin_vest ? SWIM_TILES : undefined;
+  }
+
   private applyBasicWorldBounds(
     transform: TransformComponent,
     previousPosition: { x: number; y: number },
@@ -340,7 +357,7 @@ export class MovementSystem extends System {
     if (tileCoords.tileY >= 0 && tileCoords.tileY < this.worldTiles.length &&
         tileCoords.tileX >= 0 && tileCoords.tileX < this.worldTiles[0].length) {
       const tile = this.worldTiles[tileCoords.tileY][tileCoords.tileX];
-      const effectiveTileType = TileCollision.getEffectiveTileType(tile.tileType, this.currentRealm);
+      const effectiveTileType = TileCollision.getEffectiveTileType(tile, this.currentRealm);
       
       return {
         tileType: effectiveTileType,
@@ -0,0 +1,176 @@
+// Player Controller System - Sprint, dodge roll and stamina for the player
+// Following Player Controller & Camera agent specifications; runs after InputSystem sets walking velocity
+
+import { System } from '../ECS.js';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events.js';
+import {
+  ROLL_DURATION,
+  ROLL_IFRAME_DURATION,
+  ROLL_SPEED,
+  SPRINT_MULTIPLIER,
+  STAMINA
+} from '@shared/constants.js';
+import type { MovementComponent, PlayerComponent, PlayerMovementState, Vector2 } from '@shared/types.js';
+
+interface ControllerState {
+  sprintHeld: boolean;
+  rollDirection: Vector2;
+  regenDelay: number;         // ms until stamina starts refilling
+  reportedStamina: number;    // last value sent to the HUD
+}
+
+export class PlayerControllerSystem extends System {
+  private states: Map<string, ControllerState> = new Map();
+
+  /**
+   * True while a roll is inside its i-frame window (centred on the roll peak)
+   */
+  static isRollInvulnerable(player: PlayerComponent): boolean {
+    if (player.movementState !== 'rolling') return false;
+
+    const start = (ROLL_DURATION - ROLL_IFRAME_DURATION) / 2;
+    return player.rollTimer >= start && player.rollTimer < start + ROLL_IFRAME_DURATION;
+  }
+
+  update(deltaTime: number): void {
+    for (const entity of this.getEntitiesWithComponents('player', 'movement')) {
+      const player = this.getComponent<PlayerComponent>(entity.id, 'player')!;
+      const movement = this.getComponent<MovementComponent>(entity.id, 'movement')!;
+      const state = this.getState(entity.id);
+
+      if (player.movementState === 'rolling') {
+        this.updateRoll(entity.id, player, movement, state, deltaTime);
+      } else {
+        this.updateSprint(entity.id, player, movement, state, deltaTime);
+      }
+
+      this.updateRegen(player, state, deltaTime);
+      this.reportStamina(player, state);
+    }
+  }
+
+  setSprinting(entityId: string, active: boolean): void {
+    this.getState(entityId).sprintHeld = active;
+  }
+
+  /**
+   * Start a dodge roll in the movement direction (or facing when standing still)
+   */
+  startRoll(entityId: string): boolean {
+    const player = this.getComponent<PlayerComponent>(entityId, 'player');
+    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
+    if (!player || !movement || player.movementState === 'rolling') return false;
+
+    const cost = player.inventory.gale_boots ? STAMINA.GALE_ROLL_COST : STAMINA.ROLL_COST;
+    if (player.stamina < cost) return false;
+
+    const state = this.getState(entityId);
+    this.spendStamina(player, state, cost);
+    state.rollDirection = this.getRollDirection(movement);
+    player.rollTimer = 0;
+    this.setMovementState(entityId, player, 'rolling');
+    return true;
+  }
+
+  private updateRoll(
+    entityId: string,
+    player: PlayerComponent,
+    movement: MovementComponent,
+    state: ControllerState,
+    deltaTime: number
+  ): void {
+    player.rollTimer += deltaTime * 1000;
+
+    if (player.rollTimer >= ROLL_DURATION) {
+      player.rollTimer = 0;
+      this.setMovementState(entityId, player, 'walking');
+      return;
+    }
+
+    // The roll commits to its direction - steering input is ignored until it ends
+    movement.velocity.x = state.rollDirection.x * ROLL_SPEED;
+    movement.velocity.y = state.rollDirection.y * ROLL_SPEED;
+  }
+
+  private updateSprint(
+    entityId: string,
+    player: PlayerComponent,
+    movement: MovementComponent,
+    state: ControllerState,
+    deltaTime: number
+  ): void {
+    const moving = movement.velocity.x !== 0 || movement.velocity.y !== 0;
+    const sprinting = state.sprintHeld && moving && player.stamina > 0;
+
+    if (sprinting) {
+      movement.velocity.x *= SPRINT_MULTIPLIER;
+      movement.velocity.y *= SPRINT_MULTIPLIER;
+      this.spendStamina(player, state, STAMINA.SPRINT_DRAIN * deltaTime);
+    }
+
+    this.setMovementState(entityId, player, sprinting ? 'sprinting' : 'walking');
+  }
+
+  private updateRegen(player: PlayerComponent, state: ControllerState, deltaTime: number): void {
+    if (state.regenDelay > 0) {
+      state.regenDelay -= deltaTime * 1000;
+      return;
+    }
+
+    player.stamina = Math.min(player.maxStamina, player.stamina + STAMINA.REGEN_RATE * deltaTime);
+  }
+
+  private spendStamina(player: PlayerComponent, state: ControllerState, amount: number): void {
+    player.stamina = Math.max(0, player.stamina - amount);
+    state.regenDelay = STAMINA.REGEN_DELAY;
+  }
+
+  private reportStamina(player: PlayerComponent, state: ControllerState): void {
+    const rounded = Math.round(player.stamina);
+    if (rounded === state.reportedStamina) return;
+
+    state.reportedStamina = rounded;
+    gameEvents.emit({
+      type: 'player.stamina.changed',
+      payload: { stamina: rounded, maxStamina: player.maxStamina },
+      timestamp: Date.now()
+    });
+  }
+
+  private setMovementState(entityId: string, player: PlayerComponent, next: PlayerMovementState): void {
+    if (player.movementState === next) return;
+
+    const previous = player.movementState;
+    player.movementState = next;
+    emitTypedEvent(createEvent.playerStateChanged(entityId, next, previous));
+  }
+
+  private getRollDirection(movement: MovementComponent): Vector2 {
+    const length = Math.hypot(movement.velocity.x, movement.velocity.y);
+    if (length > 0) {
+      return { x: movement.velocity.x / length, y: movement.velocity.y / length };
+    }
+
+    switch (movement.direction) {
+      case 'up': return { x: 0, y: -1 };
+      case 'left': return { x: -1, y: 0 };
+      case 'right': return { x: 1, y: 0 };
+      default: return { x: 0, y: 1 };
+    }
+  }
+
+  private getState(entityId: string): ControllerState {
+    let state = this.states.get(entityId);
+    if (!state) {
+      const player = this.getComponent<PlayerComponent>(entityId, 'player');
+      state = {
+        sprintHeld: false,
+        rollDirection: { x: 0, y: 1 },
+        regenDelay: 0,
+        reportedStamina: Math.round(player?.stamina ?? 0)
+      };
+      this.states.set(entityId, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,126 @@
+// Portal System - Spawns portal triggers for the active map and requests map transitions
+// Following World Builder agent specifications for portals and map connections
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import { OVERWORLD_MAP_ID, OVERWORLD_PORTALS } from '@shared/constants.js';
+import type { Portal, PortalComponent, Realm } from '@shared/types.js';
+import { mapLoader } from '../utils/MapLoader.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+
+export class PortalSystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private currentRealm: Realm = 'dayrealm';
+  private portalEntities: string[] = [];
+  private transitionPending = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('collision.trigger.enter', (event: any) => {
+        this.handleTriggerEnter(event.payload.triggerId);
+      }),
+
+      // Portal colliders are rebuilt whenever a map becomes active
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.transitionPending = false;
+        this.spawnPortals(this.currentMap);
+      }),
+
+      // Eclipse-only portals open and close with the realm
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+        if (mapLoader.getLoadedMap(this.currentMap)?.eclipse?.portals.length) {
+          this.spawnPortals(this.currentMap);
+        }
+      }),
+
+      gameEvents.on('world.map.loadFailed', () => {
+        this.transitionPending = false;
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Portals are event-driven - activation comes from CollisionSystem trigger events
+  }
+
+  getPortalsForMap(mapId: string): Portal[] {
+    if (mapLoader.hasMap(mapId)) {
+      const portals = mapLoader.getMapEntry(mapId)?.portals ?? [];
+      const eclipsePortals = this.currentRealm === 'eclipse' ? mapLoader.getLoadedMap(mapId)?.eclipse?.portals ?? [] : [];
+      return [...portals, ...eclipsePortals];
+    }
+    return mapId === OVERWORLD_MAP_ID ? OVERWORLD_PORTALS : [];
+  }
+
+  isTransitionPending(): boolean {
+    return this.transitionPending;
+  }
+
+  private spawnPortals(mapId: string): void {
+    this.portalEntities.forEach(entityId => this.world.destroyEntity(entityId));
+    this.portalEntities = [];
+
+    for (const portal of this.getPortalsForMap(mapId)) {
+      const entity = EntityBuilder.create(this.world)
+        .with({
+          type: 'transform',
+          entityId: '',
+          position: { x: portal.trigger.x, y: portal.trigger.y },
+          rotation: 0,
+          scale: { x: 1, y: 1 }
+        })
+        .with({
+          type: 'collider',
+          entityId: '',
+          bounds: { x: 0, y: 0, width: portal.trigger.width, height: portal.trigger.height },
+          solid: false,
+          trigger: true
+        })
+        .with<PortalComponent>({
+          type: 'portal',
+          entityId: '',
+          portalId: portal.id,
+          sourceMap: mapId,
+          target: portal.target,
+          ...(portal.conditions ? { conditions: portal.conditions } : {})
+        })
+        .build();
+
+      this.portalEntities.push(entity.id);
+    }
+
+    console.log(`PortalSystem: ${this.portalEntities.length} portal(s) active in ${mapId}`);
+  }
+
+  private handleTriggerEnter(triggerId: string): void {
+    const portal = this.getComponent<PortalComponent>(triggerId, 'portal');
+    if (!portal || this.transitionPending) return;
+
+    if (!WorldConditions.checkAll(this.world, portal.conditions)) {
+      console.log(`PortalSystem: Portal ${portal.portalId} is sealed`);
+      return;
+    }
+
+    this.transitionPending = true;
+    emitTypedEvent(createEvent.portalTriggered(
+      portal.portalId,
+      portal.sourceMap,
+      portal.target.map,
+      portal.target.spawn,
+      portal.target.transition ?? 'fade'
+    ));
+  }
+}
@@ -0,0 +1,392 @@
+// Projectile System - Arrows, thrown items and bolts with straight, arcing, homing and returning flight
+// Following Combat & Physics Engineer specifications; hits go through CombatSystem as 'projectile' damage
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import { BURNABLE_TILES, GAP_TILES, PROJECTILES } from '@shared/constants.js';
+import { TileType } from '@shared/types.js';
+import type {
+  MovementComponent,
+  PlayerComponent,
+  ProjectileComponent,
+  ProjectileDefinition,
+  ProjectileFaction,
+  Realm,
+  StatusComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+export interface ProjectileSpawnOptions {
+  faction?: ProjectileFaction;  // defaults to the owner's side
+  targetId?: string;            // homing shots chase this entity
+  target?: Vector2;             // arcing shots land here (clamped to range)
+}
+
+export class ProjectileSystem extends System {
+  private worldTiles: WorldTile[][] | null = null;
+  private currentRealm: Realm = 'dayrealm';
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly CATCH_RADIUS = 10;         // px - returning projectiles are caught this close
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+        this.currentRealm = event.payload.realm;
+      }),
+
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+      }),
+
+      // Nothing in flight survives a map change
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, () => {
+        this.getEntitiesWithComponents('projectile').forEach(entity => this.world.destroyEntity(entity.id));
+      }),
+
+      // A parried shot flies back at whoever loosed it
+      gameEvents.on('combat.parried', (event: any) => {
+        if (event.payload.reflected && event.payload.projectileId) {
+          this.reflect(event.payload.projectileId, event.payload.defenderId);
+        }
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    for (const entity of this.getEntitiesWithComponents('projectile', 'transform')) {
+      const projectile = this.getComponent<ProjectileComponent>(entity.id, 'projectile')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const def = PROJECTILES[projectile.kind];
+
+      // Spent shots linger one frame so a parry can still send them back
+      if (!def || projectile.spent) {
+        this.world.destroyEntity(entity.id);
+        continue;
+      }
+
+      projectile.age += deltaTime * 1000;
+      if (projectile.age >= def.lifetime) {
+        this.world.destroyEntity(entity.id);
+        continue;
+      }
+
+      const alive = def.trajectory === 'arc'
+        ? this.updateArc(entity.id, projectile, transform, def, deltaTime)
+        : this.updateFlight(entity.id, projectile, transform, def, deltaTime);
+      if (!alive) {
+        this.world.destroyEntity(entity.id);
+        continue;
+      }
+
+      transform.rotation = Math.atan2(projectile.velocity.y, projectile.velocity.x);
+    }
+  }
+
+  /**
+   * Launch a projectile from PROJECTILES - returns the new entity id
+   */
+  spawn(kind: string, ownerId: string, origin: Vector2, direction: Vector2, options: ProjectileSpawnOptions = {}): string | null {
+    const def = PROJECTILES[kind];
+    const heading = this.normalize(direction);
+    if (!def || (heading.x === 0 && heading.y === 0)) return null;
+
+    let target: Vector2 | null = null;
+    if (def.trajectory === 'arc') {
+      const aim = options.target ?? { x: origin.x + heading.x * def.range, y: origin.y + heading.y * def.range };
+      const distance = Math.min(def.range, Math.hypot(aim.x - origin.x, aim.y - origin.y));
+      target = { x: origin.x + heading.x * distance, y: origin.y + heading.y * distance };
+    }
+
+    const faction = options.faction ?? (this.hasComponent(ownerId, 'player') ? 'player' : 'hostile');
+
+    return EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...origin },
+        rotation: Math.atan2(heading.y, heading.x),
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: kind })
+      .with({
+        type: 'projectile',
+        entityId: '',
+        kind,
+        ownerId,
+        faction,
+        element: def.element ?? 'physical',
+        velocity: { x: heading.x * def.speed, y: heading.y * def.speed },
+        origin: { ...origin },
+        target,
+        targetId: options.targetId ?? null,
+        age: 0,
+        distance: 0,
+        height: 0,
+        returning: false,
+        spent: false,
+        reflected: false,
+        hitIds: [ownerId]
+      })
+      .build().id;
+  }
+
+  /**
+   * Projectiles of a kind an entity currently has in flight
+   */
+  countOwned(ownerId: string, kind: string): number {
+    return this.getEntitiesWithComponents('projectile').filter(entity => {
+      const projectile = this.getComponent<ProjectileComponent>(entity.id, 'projectile')!;
+      return projectile.ownerId === ownerId && projectile.kind === kind;
+    }).length;
+  }
+
+  /**
+   * Turn a projectile around and hand it to the reflecting entity's side
+   */
+  reflect(projectileId: string, reflectorId: string): boolean {
+    const projectile = this.getComponent<ProjectileComponent>(projectileId, 'projectile');
+    const transform = this.getComponent<TransformComponent>(projectileId, 'transform');
+    if (!projectile || !transform) return false;
+
+    const previousOwner = projectile.ownerId;
+    projectile.ownerId = reflectorId;
+    projectile.faction = projectile.faction === 'player' ? 'hostile' : 'player';
+    projectile.velocity = { x: -projectile.velocity.x, y: -projectile.velocity.y };
+    projectile.origin = { ...transform.position };
+    // Homing shots now chase whoever loosed them
+    projectile.targetId = projectile.targetId ? previousOwner : null;
+    projectile.age = 0;
+    projectile.distance = 0;
+    projectile.returning = false;
+    projectile.spent = false;
+    projectile.reflected = true;
+    projectile.hitIds = [reflectorId];
+
+    gameEvents.emit({
+      type: 'projectile.reflected',
+      payload: { projectileId, kind: projectile.kind, reflectorId, position: { ...transform.position } },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  // === Flight ===
+
+  private updateFlight(
+    entityId: string,
+    projectile: ProjectileComponent,
+    transform: TransformComponent,
+    def: ProjectileDefinition,
+    deltaTime: number
+  ): boolean {
+    const step = def.speed * deltaTime;
+
+    if (def.trajectory === 'homing') {
+      this.steer(projectile, transform.position, def, deltaTime);
+    }
+
+    if (projectile.returning) {
+      const owner = this.getComponent<TransformComponent>(projectile.ownerId, 'transform');
+      if (!owner) return false;
+
+      const dx = owner.position.x - transform.position.x;
+      const dy = owner.position.y - transform.position.y;
+      const distance = Math.hypot(dx, dy);
+      if (distance <= Math.max(this.CATCH_RADIUS, step)) return false;
+
+      projectile.velocity = { x: (dx / distance) * def.speed, y: (dy / distance) * def.speed };
+    }
+
+    transform.position.x += projectile.velocity.x * deltaTime;
+    transform.position.y += projectile.velocity.y * deltaTime;
+    this.updateElement(projectile, transform.position, def);
+
+    if (!projectile.returning) {
+      projectile.distance += step;
+
+      if (!this.isOpen(transform.position)) {
+        if (def.trajectory !== 'returning') return false;
+        projectile.returning = true;
+      }
+
+      if (projectile.distance >= def.range) {
+        if (def.trajectory !== 'returning') return false;
+        projectile.returning = true;
+      }
+    }
+
+    this.strikeTargets(entityId, projectile, transform.position, def);
+    return true;
+  }
+
+  // Arcs fly over everything and only strike where they come down
+  private updateArc(
+    entityId: string,
+    projectile: ProjectileComponent,
+    transform: TransformComponent,
+    def: ProjectileDefinition,
+    deltaTime: number
+  ): boolean {
+    const target = projectile.target ?? projectile.origin;
+    const total = Math.hypot(target.x - projectile.origin.x, target.y - projectile.origin.y);
+
+    projectile.distance = Math.min(total, projectile.distance + def.speed * deltaTime);
+    const t = total > 0 ? projectile.distance / total : 1;
+    transform.position.x = projectile.origin.x + (target.x - projectile.origin.x) * t;
+    transform.position.y = projectile.origin.y + (target.y - projectile.origin.y) * t;
+
+    projectile.height = (def.arcHeight ?? 0) * 4 * t * (1 - t);
+    const scale = 1 + projectile.height / 32;
+    transform.scale = { x: scale, y: scale };
+
+    if (t < 1) return true;
+
+    this.strikeTargets(entityId, projectile, transform.position, def);
+    return false;
+  }
+
+  private steer(projectile: ProjectileComponent, position: Vector2, def: ProjectileDefinition, deltaTime: number): void {
+    const target = projectile.targetId
+      ? this.getComponent<TransformComponent>(projectile.targetId, 'transform')
+      : undefined;
+    if (!target) return;
+
+    const current = Math.atan2(projectile.velocity.y, projectile.velocity.x);
+    const desired = Math.atan2(target.position.y - position.y, target.position.x - position.x);
+    let delta = desired - current;
+    while (delta > Math.PI) delta -= Math.PI * 2;
+    while (delta < -Math.PI) delta += Math.PI * 2;
+
+    const maxTurn = (def.turnRate ?? 0) * deltaTime;
+    const heading = current + Math.max(-maxTurn, Math.min(maxTurn, delta));
+    projectile.velocity = { x: Math.cos(heading) * def.speed, y: Math.sin(heading) * def.speed };
+  }
+
+  // Conductive shots catch fire from torches; burning shots set brush alight
+  private updateElement(projectile: ProjectileComponent, position: Vector2, def: ProjectileDefinition): void {
+    const tile = this.getTileAt(position);
+
+    if (def.conducts && tile === TileType.TORCH) {
+      projectile.element = 'fire';
+    }
+
+    if (projectile.element === 'fire' && tile !== null && BURNABLE_TILES[tile] !== undefined) {
+      gameEvents.emit({
+        type: 'world.fire.ignite',
+        payload: { position: { ...position }, sourceId: projectile.ownerId },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  // === Hits ===
+
+  private strikeTargets(entityId: string, projectile: ProjectileComponent, position: Vector2, def: ProjectileDefinition): void {
+    for (const targetId of this.findTargetsNear(projectile.faction, position, def.radius)) {
+      if (projectile.hitIds.includes(targetId)) continue;
+      projectile.hitIds.push(targetId);
+
+      if (this.mirrorBlocks(targetId, projectile)) {
+        this.reflect(entityId, targetId);
+        return;
+      }
+
+      // Conductive shots pick up the flames of a burning target and carry them on
+      const status = this.getComponent<StatusComponent>(targetId, 'status');
+      if (def.conducts && status?.effects.some(effect => effect.type === 'burn')) {
+        projectile.element = 'fire';
+      }
+
+      const direction = this.normalize(projectile.velocity);
+      gameEvents.emit({
+        type: 'combat.damage',
+        payload: {
+          targetId,
+          damage: def.damage,
+          source: projectile.ownerId,
+          position: { ...position },
+          knockback: { x: direction.x * def.knockback, y: direction.y * def.knockback },
+          type: 'projectile',
+          element: projectile.element,
+          projectileId: entityId
+        },
+        timestamp: Date.now()
+      });
+
+      if (!def.pierce) {
+        projectile.spent = true;
+        return;
+      }
+    }
+  }
+
+  // The Aether Mirror turns back hostile shots that strike its bearer from the front
+  private mirrorBlocks(targetId: string, projectile: ProjectileComponent): boolean {
+    if (projectile.faction !== 'hostile') return false;
+
+    const player = this.getComponent<PlayerComponent>(targetId, 'player');
+    const movement = this.getComponent<MovementComponent>(targetId, 'movement');
+    if (!player?.inventory.aether_mirror || !movement) return false;
+
+    const facing = this.facing(movement.direction);
+    return facing.x * projectile.velocity.x + facing.y * projectile.velocity.y < 0;
+  }
+
+  // Factions never hit their own side - enemy shots pass through other enemies
+  private findTargetsNear(faction: ProjectileFaction, position: Vector2, radius: number): string[] {
+    return this.getEntitiesWithComponents('health', 'transform')
+      .filter(entity => faction === 'player'
+        ? this.hasComponent(entity.id, 'enemy') || this.hasComponent(entity.id, 'boss')
+        : this.hasComponent(entity.id, 'player'))
+      .filter(entity => {
+        const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+        return Math.hypot(transform.position.x - position.x, transform.position.y - position.y) <= radius;
+      })
+      .map(entity => entity.id);
+  }
+
+  // === Helpers ===
+
+  // Projectiles fly over water and gaps but stop at walls and the edge of the map
+  private isOpen(position: Vector2): boolean {
+    if (!this.worldTiles) return true;
+
+    const tileType = this.getTileAt(position);
+    return tileType !== null && (TileCollision.isTileWalkable(tileType) || GAP_TILES.has(tileType));
+  }
+
+  private getTileAt(position: Vector2): TileType | null {
+    const { tileX, tileY } = TileCollision.pixelToTile(position.x, position.y);
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    return tile ? TileCollision.getEffectiveTileType(tile, this.currentRealm) : null;
+  }
+
+  private facing(direction: MovementComponent['direction']): Vector2 {
+    switch (direction) {
+      case 'up': return { x: 0, y: -1 };
+      case 'down': return { x: 0, y: 1 };
+      case 'left': return { x: -1, y: 0 };
+      default: return { x: 1, y: 0 };
+    }
+  }
+
+  private normalize(vector: Vector2): Vector2 {
+    const length = Math.hypot(vector.x, vector.y);
+    return length > 0 ? { x: vector.x / length, y: vector.y / length } : { x: 0, y: 0 };
+  }
+}
@@ -0,0 +1,629 @@
+// Puzzle System - Push blocks, pressure plates, crystal and timed switches wired to gates and bridges
+// Following World Builder agent specifications; rooms come from PUZZLE_ROOMS, latched wires are saved per room
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import type { Direction8 } from '@shared/events.js';
+import {
+  BLOCK_PUSH_DELAY,
+  BLOCK_SLIDE_DURATION,
+  PUZZLE_ROOMS,
+  TILE_SIZE
+} from '@shared/constants.js';
+import { TileType } from '@shared/types.js';
+import type {
+  ColliderComponent,
+  MovementComponent,
+  ProjectileComponent,
+  PushBlock,
+  PushBlockComponent,
+  PuzzleRoom,
+  PuzzleSwitch,
+  PuzzleSwitchComponent,
+  PuzzleTarget,
+  Realm,
+  Rectangle,
+  SpriteComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+import { WorldConditions } from '../utils/WorldConditions.js';
+
+interface LaidTile {
+  tile: WorldTile;
+  tileX: number;
+  tileY: number;
+  previous: TileType;
+}
+
+export class PuzzleSystem extends System {
+  private room: PuzzleRoom | null = null;
+  private roomEntities: string[] = [];
+  private gates: Map<string, string> = new Map();            // gateId -> entity id while closed
+  private laidBridges: Map<string, LaidTile[]> = new Map();   // bridgeId -> tiles it covered
+  private activeWires: Set<string> = new Set();
+  private weightedSwitches: Set<string> = new Set();          // switch ids weighed down last frame
+  private worldTiles: WorldTile[][] | null = null;
+  private currentRealm: Realm = 'dayrealm';
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly PUSH_CONTACT = 2;          // px - how close the player must lean on a block face
+  private readonly SWORD_REACH = 14;          // px in front of the player a swing strikes crystals
+  private readonly SPIN_REACH = 28;           // px around the player a spin attack strikes crystals
+  private readonly CRYSTAL_COOLDOWN = 500;    // ms before a crystal can be struck again
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+        this.currentRealm = event.payload.realm;
+      }),
+
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+      }),
+
+      // Rooms reset on every entry - only latched wires come back solved
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.spawnRoom(event.payload.mapId);
+      }),
+
+      gameEvents.on(GAME_EVENTS.PLAYER_ATTACK_START, (event: any) => {
+        const { position, direction, attackType } = event.payload;
+        if (attackType === 'sword' || attackType === 'spin') {
+          this.strikeWithSword(position, direction, attackType === 'spin');
+        }
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    if (!this.room) return;
+
+    this.updateBlocks(deltaTime);
+    this.updateSwitches(deltaTime);
+    this.updateWires(true);
+  }
+
+  isSwitchActive(switchId: string): boolean {
+    const entityId = this.findSwitch(switchId);
+    return entityId ? this.getComponent<PuzzleSwitchComponent>(entityId, 'puzzleSwitch')!.active : false;
+  }
+
+  isWireActive(wireId: string): boolean {
+    return this.activeWires.has(wireId);
+  }
+
+  isTargetActive(targetId: string): boolean {
+    return this.laidBridges.has(targetId) || (this.isGate(targetId) && !this.gates.has(targetId));
+  }
+
+  isSolved(mapId: string, wireId: string): boolean {
+    return this.getFlag(this.solvedFlag(mapId, wireId));
+  }
+
+  // === Push blocks: lean on one long enough and it slides a tile ===
+
+  private updateBlocks(deltaTime: number): void {
+    const push = this.getPlayerPush();
+
+    for (const entity of this.getEntitiesWithComponents('pushBlock', 'transform')) {
+      const block = this.getComponent<PushBlockComponent>(entity.id, 'pushBlock')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+
+      if (block.slide) {
+        block.slide.elapsed += deltaTime * 1000;
+        const t = Math.min(1, block.slide.elapsed / BLOCK_SLIDE_DURATION);
+        transform.position.x = block.slide.from.x + (block.slide.to.x - block.slide.from.x) * t;
+        transform.position.y = block.slide.from.y + (block.slide.to.y - block.slide.from.y) * t;
+        if (t === 1) block.slide = null;
+        continue;
+      }
+
+      const direction = push && this.isPushingBlock(push.bounds, push.direction, transform.position)
+        ? push.direction
+        : null;
+      if (!direction) {
+        block.pushTimer = 0;
+        continue;
+      }
+
+      block.pushTimer += deltaTime * 1000;
+      if (block.pushTimer < BLOCK_PUSH_DELAY) continue;
+      block.pushTimer = 0;
+
+      const from = { ...transform.position };
+      const to = { x: from.x + direction.x * TILE_SIZE, y: from.y + direction.y * TILE_SIZE };
+      if (!this.canBlockEnter(entity.id, to)) continue;
+
+      block.slide = { from, to, elapsed: 0 };
+      gameEvents.emit({
+        type: 'puzzle.block.pushed',
+        payload: { blockId: block.blockId, from, to },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  // The player's collider and the cardinal direction they are walking, if any
+  private getPlayerPush(): { bounds: Rectangle; direction: Vector2 } | null {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform', 'movement')[0];
+    if (!playerEntity) return null;
+
+    const movement = this.getComponent<MovementComponent>(playerEntity.id, 'movement')!;
+    const { x, y } = movement.velocity;
+    if (x === 0 && y === 0) return null;
+
+    // Diagonal leaning never moves a block - only the dominant axis counts
+    const direction = Math.abs(x) >= Math.abs(y)
+      ? { x: Math.sign(x), y: 0 }
+      : { x: 0, y: Math.sign(y) };
+
+    const bounds = this.getBounds(playerEntity.id);
+    return bounds ? { bounds, direction } : null;
+  }
+
+  private isPushingBlock(player: Rectangle, direction: Vector2, block: Vector2): boolean {
+    let gap: number;
+    let overlap: number;
+
+    if (direction.x !== 0) {
+      gap = direction.x > 0 ? block.x - (player.x + player.width) : player.x - (block.x + TILE_SIZE);
+      overlap = Math.min(player.y + player.height, block.y + TILE_SIZE) - Math.max(player.y, block.y);
+      return Math.abs(gap) <= this.PUSH_CONTACT && overlap >= player.height / 2;
+    }
+
+    gap = direction.y > 0 ? block.y - (player.y + player.height) : player.y - (block.y + TILE_SIZE);
+    overlap = Math.min(player.x + player.width, block.x + TILE_SIZE) - Math.max(player.x, block.x);
+    return Math.abs(gap) <= this.PUSH_CONTACT && overlap >= player.width / 2;
+  }
+
+  private canBlockEnter(blockEntityId: string, position: Vector2): boolean {
+    const area = { x: position.x, y: position.y, width: TILE_SIZE, height: TILE_SIZE };
+
+    const corners = [
+      { x: area.x, y: area.y },
+      { x: area.x + area.width - 1, y: area.y },
+      { x: area.x, y: area.y + area.height - 1 },
+      { x: area.x + area.width - 1, y: area.y + area.height - 1 }
+    ];
+    for (const corner of corners) {
+      const { tileX, tileY } = TileCollision.pixelToTile(corner.x, corner.y);
+      const tile = this.worldTiles?.[tileY]?.[tileX];
+      if (!tile || !TileCollision.isTileWalkable(TileCollision.getEffectiveTileType(tile, this.currentRealm))) {
+        return false;
+      }
+    }
+
+    // Doors, chests, gates and other blocks are in the way too
+    return !this.getEntitiesWithComponents('collider', 'transform').some(entity => {
+      if (entity.id === blockEntityId) return false;
+      const collider = this.getComponent<ColliderComponent>(entity.id, 'collider')!;
+      const bounds = this.getBounds(entity.id);
+      return collider.solid && !collider.trigger && bounds !== null && this.overlaps(area, bounds);
+    });
+  }
+
+  // === Switches ===
+
+  private updateSwitches(deltaTime: number): void {
+    const weighted = new Set<string>();
+
+    for (const entity of this.getEntitiesWithComponents('puzzleSwitch', 'transform')) {
+      const puzzleSwitch = this.getComponent<PuzzleSwitchComponent>(entity.id, 'puzzleSwitch')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const definition = this.room?.switches.find(candidate => candidate.id === puzzleSwitch.switchId);
+      if (!definition) continue;
+
+      puzzleSwitch.timer = Math.max(0, puzzleSwitch.timer - deltaTime * 1000);
+
+      switch (puzzleSwitch.kind) {
+        case 'plate':
+          this.setSwitch(entity.id, puzzleSwitch, this.isWeighed(transform.position, definition.heavy ?? false));
+          break;
+
+        case 'timed': {
+          const weighed = this.isWeighed(transform.position, false);
+          if (weighed) weighted.add(puzzleSwitch.switchId);
+
+          // Stepping on restarts the countdown; it runs out on its own
+          if (weighed && !this.weightedSwitches.has(puzzleSwitch.switchId)) {
+            puzzleSwitch.timer = definition.duration ?? 0;
+          }
+          this.setSwitch(entity.id, puzzleSwitch, puzzleSwitch.timer > 0);
+          break;
+        }
+
+        case 'crystal':
+          if (puzzleSwitch.timer === 0 && this.isStruckByThrow(transform.position)) {
+            this.strikeCrystal(entity.id, puzzleSwitch);
+          }
+          break;
+      }
+    }
+
+    this.weightedSwitches = weighted;
+  }
+
+  // Blocks always weigh a plate down; the player only counts on light plates
+  private isWeighed(position: Vector2, heavy: boolean): boolean {
+    const plate = { x: position.x, y: position.y, width: TILE_SIZE, height: TILE_SIZE };
+
+    const blockOnPlate = this.getEntitiesWithComponents('pushBlock', 'transform').some(entity => {
+      const block = this.getComponent<PushBlockComponent>(entity.id, 'pushBlock')!;
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      return !block.slide && this.containsPoint(plate, {
+        x: transform.position.x + TILE_SIZE / 2,
+        y: transform.position.y + TILE_SIZE / 2
+      });
+    });
+    if (blockOnPlate || heavy) return blockOnPlate;
+
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    const player = playerEntity && this.getBounds(playerEntity.id);
+    return !!player && this.containsPoint(plate, {
+      x: player.x + player.width / 2,
+      y: player.y + player.height / 2
+    });
+  }
+
+  private strikeWithSword(position: Vector2, direction: Direction8, spin: boolean): void {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    const player = playerEntity && this.getBounds(playerEntity.id);
+    const centre = player
+      ? { x: player.x + player.width / 2, y: player.y + player.height / 2 }
+      : position;
+
+    const facing = this.facing(direction);
+    const tip = { x: centre.x + facing.x * this.SWORD_REACH, y: centre.y + facing.y * this.SWORD_REACH };
+
+    for (const entity of this.getEntitiesWithComponents('puzzleSwitch', 'transform')) {
+      const puzzleSwitch = this.getComponent<PuzzleSwitchComponent>(entity.id, 'puzzleSwitch')!;
+      if (puzzleSwitch.kind !== 'crystal' || puzzleSwitch.timer > 0) continue;
+
+      const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+      const crystal = { x: transform.position.x, y: transform.position.y, width: TILE_SIZE, height: TILE_SIZE };
+      const struck = spin
+        ? Math.hypot(crystal.x + TILE_SIZE / 2 - centre.x, crystal.y + TILE_SIZE / 2 - centre.y) <= this.SPIN_REACH
+        : this.containsPoint(crystal, tip);
+
+      if (struck) this.strikeCrystal(entity.id, puzzleSwitch);
+    }
+  }
+
+  // Thrown items and the player's own projectiles flip crystals from across the room
+  private isStruckByThrow(position: Vector2): boolean {
+    const crystal = { x: position.x, y: position.y, width: TILE_SIZE, height: TILE_SIZE };
+
+    const thrown = this.getEntitiesWithComponents('itemEffect', 'transform');
+    const shots = this.getEntitiesWithComponents('projectile', 'transform').filter(entity =>
+      this.getComponent<ProjectileComponent>(entity.id, 'projectile')!.faction === 'player'
+    );
+
+    return [...thrown, ...shots].some(entity =>
+      this.containsPoint(crystal, this.getComponent<TransformComponent>(entity.id, 'transform')!.position)
+    );
+  }
+
+  private strikeCrystal(entityId: string, puzzleSwitch: PuzzleSwitchComponent): void {
+    puzzleSwitch.timer = this.CRYSTAL_COOLDOWN;
+    this.setSwitch(entityId, puzzleSwitch, !puzzleSwitch.active);
+  }
+
+  private setSwitch(entityId: string, puzzleSwitch: PuzzleSwitchComponent, active: boolean): void {
+    if (puzzleSwitch.active === active) return;
+    puzzleSwitch.active = active;
+
+    const sprite = this.getComponent<SpriteComponent>(entityId, 'sprite');
+    if (sprite) {
+      sprite.frame = active ? 1 : 0;
+      if (puzzleSwitch.kind === 'crystal') sprite.tint = active ? 0xFF9800 : 0x42A5F5;
+    }
+
+    gameEvents.emit({
+      type: 'puzzle.switch.changed',
+      payload: { switchId: puzzleSwitch.switchId, kind: puzzleSwitch.kind, active },
+      timestamp: Date.now()
+    });
+  }
+
+  // === Wiring: switches drive wires, wires drive gates and bridges ===
+
+  private updateWires(announce: boolean): void {
+    if (!this.room) return;
+    const mapId = this.room.map;
+
+    for (const wire of this.room.wires) {
+      const met = wire.mode === 'all'
+        ? wire.triggers.every(switchId => this.isSwitchActive(switchId))
+        : wire.triggers.some(switchId => this.isSwitchActive(switchId));
+
+      const solved = wire.latch && this.isSolved(mapId, wire.id);
+      if (met && wire.latch && !solved) {
+        this.setFlag(this.solvedFlag(mapId, wire.id));
+        gameEvents.emit({
+          type: 'puzzle.solved',
+          payload: { mapId, wireId: wire.id },
+          timestamp: Date.now()
+        });
+      }
+
+      const active = met || solved;
+      if (active === this.activeWires.has(wire.id)) continue;
+
+      if (active) {
+        this.activeWires.add(wire.id);
+      } else {
+        this.activeWires.delete(wire.id);
+      }
+      if (announce) {
+        gameEvents.emit({
+          type: 'puzzle.wire.changed',
+          payload: { wireId: wire.id, active },
+          timestamp: Date.now()
+        });
+      }
+    }
+
+    for (const target of this.room.targets) {
+      const powered = this.room.wires.some(wire => this.activeWires.has(wire.id) && wire.targets.includes(target.id));
+      this.setTarget(target, powered, announce);
+    }
+  }
+
+  private setTarget(target: PuzzleTarget, active: boolean, announce: boolean): void {
+    if (active === this.isTargetActive(target.id)) return;
+
+    // Never shut a gate or pull a bridge out from under the player - it waits until they step clear
+    if (!active && this.isPlayerInside(this.getTargetAreas(target))) return;
+
+    if (target.type === 'gate') {
+      if (active) {
+        const entityId = this.gates.get(target.id)!;
+        this.world.destroyEntity(entityId);
+        this.gates.delete(target.id);
+        this.roomEntities = this.roomEntities.filter(id => id !== entityId);
+      } else {
+        this.gates.set(target.id, this.createGate(target.id, target.bounds));
+      }
+    } else if (active) {
+      this.layBridge(target.id, target.tiles);
+    } else {
+      this.liftBridge(target.id);
+    }
+
+    if (announce) {
+      gameEvents.emit({
+        type: 'puzzle.target.changed',
+        payload: { targetId: target.id, kind: target.type, active },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  private layBridge(bridgeId: string, tiles: Vector2[]): void {
+    const laid: LaidTile[] = [];
+
+    for (const { x: tileX, y: tileY } of tiles) {
+      const tile = this.worldTiles?.[tileY]?.[tileX];
+      if (!tile) continue;
+
+      const laidTile = { tile, tileX, tileY, previous: tile.tileType };
+      laid.push(laidTile);
+      this.changeTile(laidTile, TileType.BRIDGE);
+    }
+
+    this.laidBridges.set(bridgeId, laid);
+  }
+
+  private liftBridge(bridgeId: string): void {
+    this.laidBridges.get(bridgeId)?.forEach(laid => this.changeTile(laid, laid.previous));
+    this.laidBridges.delete(bridgeId);
+  }
+
+  private changeTile(laid: LaidTile, tileType: TileType): void {
+    const previousTileType = laid.tile.tileType;
+    laid.tile.tileType = tileType;
+    laid.tile.walkable = TileCollision.isTileWalkable(tileType);
+
+    gameEvents.emit({
+      type: 'world.tile.changed',
+      payload: { tileX: laid.tileX, tileY: laid.tileY, tileType, previousTileType },
+      timestamp: Date.now()
+    });
+  }
+
+  private getTargetAreas(target: PuzzleTarget): Rectangle[] {
+    return target.type === 'gate'
+      ? [target.bounds]
+      : target.tiles.map(tile => ({ x: tile.x * TILE_SIZE, y: tile.y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE }));
+  }
+
+  // === Room setup ===
+
+  private spawnRoom(mapId: string): void {
+    // Bridges are tile edits - put the old map's tiles back before its state is dropped
+    for (const bridgeId of [...this.laidBridges.keys()]) this.liftBridge(bridgeId);
+
+    this.roomEntities.forEach(entityId => this.world.destroyEntity(entityId));
+    this.roomEntities = [];
+    this.gates.clear();
+    this.activeWires.clear();
+    this.weightedSwitches.clear();
+
+    this.room = PUZZLE_ROOMS.find(room => room.map === mapId) ?? null;
+    if (!this.room) return;
+
+    for (const block of this.room.blocks) {
+      this.roomEntities.push(this.createBlock(block));
+    }
+    for (const puzzleSwitch of this.room.switches) {
+      this.roomEntities.push(this.createSwitch(puzzleSwitch));
+    }
+    for (const target of this.room.targets) {
+      if (target.type === 'gate') this.gates.set(target.id, this.createGate(target.id, target.bounds));
+    }
+
+    // Solved wires open their gates and lay their bridges straight away, without fanfare
+    this.updateWires(false);
+  }
+
+  private createBlock(block: PushBlock): string {
+    return EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...block.position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: 'push_block', frame: 0, tint: 0x9E9E9E, alpha: 1 })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: TILE_SIZE, height: TILE_SIZE },
+        solid: true,
+        trigger: false
+      })
+      .with({ type: 'pushBlock', entityId: '', blockId: block.id, pushTimer: 0, slide: null })
+      .build().id;
+  }
+
+  private createSwitch(puzzleSwitch: PuzzleSwitch): string {
+    const builder = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { ...puzzleSwitch.position },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({
+        type: 'sprite',
+        entityId: '',
+        texture: `${puzzleSwitch.kind}_switch`,
+        frame: 0,
+        tint: puzzleSwitch.kind === 'crystal' ? 0x42A5F5 : 0xB0BEC5,
+        alpha: 1
+      })
+      .with({
+        type: 'puzzleSwitch',
+        entityId: '',
+        switchId: puzzleSwitch.id,
+        kind: puzzleSwitch.kind,
+        active: false,
+        timer: 0
+      });
+
+    // Crystals stand up off the floor; plates and timed switches are walked over
+    if (puzzleSwitch.kind === 'crystal') {
+      builder.with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: TILE_SIZE, height: TILE_SIZE },
+        solid: true,
+        trigger: false
+      });
+    }
+
+    return builder.build().id;
+  }
+
+  private createGate(gateId: string, bounds: Rectangle): string {
+    const entityId = EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { x: bounds.x, y: bounds.y },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: 'puzzle_gate', frame: 0, tint: 0x607D8B, alpha: 1 })
+      .with({
+        type: 'collider',
+        entityId: '',
+        bounds: { x: 0, y: 0, width: bounds.width, height: bounds.height },
+        solid: true,
+        trigger: false
+      })
+      .with({ type: 'gate', entityId: '', gateId })
+      .build().id;
+
+    this.roomEntities.push(entityId);
+    return entityId;
+  }
+
+  // === Helpers ===
+
+  private findSwitch(switchId: string): string | undefined {
+    return this.getEntitiesWithComponents('puzzleSwitch').find(entity =>
+      this.getComponent<PuzzleSwitchComponent>(entity.id, 'puzzleSwitch')!.switchId === switchId
+    )?.id;
+  }
+
+  private isGate(targetId: string): boolean {
+    return this.room?.targets.some(target => target.type === 'gate' && target.id === targetId) ?? false;
+  }
+
+  private isPlayerInside(areas: Rectangle[]): boolean {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    const player = playerEntity && this.getBounds(playerEntity.id);
+    return !!player && areas.some(area => this.overlaps(area, player));
+  }
+
+  private getBounds(entityId: string): Rectangle | null {
+    const transform = this.getComponent<TransformComponent>(entityId, 'transform');
+    const collider = this.getComponent<ColliderComponent>(entityId, 'collider');
+    if (!transform || !collider) return null;
+
+    return {
+      x: transform.position.x + collider.bounds.x,
+      y: transform.position.y + collider.bounds.y,
+      width: collider.bounds.width,
+      height: collider.bounds.height
+    };
+  }
+
+  private overlaps(a: Rectangle, b: Rectangle): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+  }
+
+  private containsPoint(area: Rectangle, point: Vector2): boolean {
+    return point.x >= area.x && point.x < area.x + area.width && point.y >= area.y && point.y < area.y + area.height;
+  }
+
+  private facing(direction: Direction8): Vector2 {
+    return {
+      x: direction.includes('left') ? -1 : direction.includes('right') ? 1 : 0,
+      y: direction.includes('up') ? -1 : direction.includes('down') ? 1 : 0
+    };
+  }
+
+  private getFlag(flag: string): boolean {
+    return WorldConditions.hasFlag(this.world, flag);
+  }
+
+  private setFlag(flag: string): void {
+    gameEvents.emit({
+      type: 'world.flag.set',
+      payload: { flag, value: true },
+      timestamp: Date.now()
+    });
+  }
+
+  private solvedFlag(mapId: string, wireId: string): string {
+    return `puzzle_solved_${mapId}_${wireId}`;
+  }
+}
@@ -0,0 +1,224 @@
+// Quest System - Data-driven storyline quests advanced by gameplay events
+// Following Spec Librarian standards; quests live in world/quests.json
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import { OVERWORLD_MAP_ID, REGIONS, TILE_SIZE } from '@shared/constants.js';
+import type { Quest, QuestData, QuestObjective, QuestObjectiveType, TransformComponent } from '@shared/types.js';
+import questSchema from '@schemas/quests.schema.json';
+import defaultQuestData from '@world/quests.json';
+import { SchemaValidator } from '../utils/SchemaValidator.js';
+
+export class QuestSystem extends System {
+  private quests: Quest[];
+  private completedQuests: Set<string> = new Set();
+  private objectiveProgress: Record<string, number> = {};
+  private activeQuestId: string | null = null;
+  private currentMap = OVERWORLD_MAP_ID;
+  private currentRegion: string | null = null;
+  private regionCheckTimer = 0;
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly REGION_CHECK_INTERVAL = 250; // ms
+
+  constructor(data: unknown = defaultQuestData) {
+    super();
+
+    const validation = SchemaValidator.validate(questSchema, data);
+    if (!validation.valid) {
+      throw new Error(`Invalid quest data:\n${validation.errors.join('\n')}`);
+    }
+
+    this.quests = (data as QuestData).quests;
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on(GAME_EVENTS.ITEM_COLLECTED, (event: any) => {
+        this.updateQuestProgress('collect', event.payload.itemType, event.payload.quantity ?? 1);
+      }),
+
+      // Both the species and the catch-all 'enemy' target count a kill
+      gameEvents.on(GAME_EVENTS.ENEMY_DIED, (event: any) => {
+        this.updateQuestProgress('defeat', event.payload.species);
+        this.updateQuestProgress('defeat', 'enemy');
+      }),
+
+      gameEvents.on(GAME_EVENTS.BOSS_DEFEATED, (event: any) => {
+        this.updateQuestProgress('defeat', event.payload.bossId);
+      }),
+
+      gameEvents.on(GAME_EVENTS.INTERACTION_END, (event: any) => {
+        this.updateQuestProgress('talk', event.payload.npcId);
+      }),
+
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.currentRegion = null;
+        this.updateQuestProgress('enter', this.currentMap);
+        this.updateQuestProgress('reach', this.currentMap);
+      }),
+
+      // Each trip into the Eclipse counts, as in the original tutorial
+      gameEvents.on(GAME_EVENTS.REALM_SWITCHED, (event: any) => {
+        if (event.payload.currentRealm === 'eclipse') {
+          this.updateQuestProgress('collect', 'eclipse_toggle');
+        }
+      }),
+
+      gameEvents.on('world.flag.set', (event: any) => {
+        if (event.payload.value ?? true) {
+          this.updateQuestProgress('solve', event.payload.flag);
+        }
+      })
+    );
+  }
+
+  onAddedToWorld(): void {
+    this.activateNextQuest();
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    this.regionCheckTimer += deltaTime * 1000;
+    if (this.regionCheckTimer < this.REGION_CHECK_INTERVAL) return;
+    this.regionCheckTimer = 0;
+
+    if (this.currentMap !== OVERWORLD_MAP_ID) return;
+
+    // Overworld regions count as 'reach' targets the moment the player crosses into them
+    const region = this.findPlayerRegion();
+    if (region && region !== this.currentRegion) {
+      this.updateQuestProgress('reach', region);
+    }
+    this.currentRegion = region;
+  }
+
+  /**
+   * Advance every matching objective of the active quest
+   */
+  updateQuestProgress(type: QuestObjectiveType, target: string, amount = 1): void {
+    const quest = this.getActiveQuest();
+    if (!quest) return;
+
+    for (const objective of quest.objectives) {
+      if (objective.type !== type || objective.target !== target) continue;
+
+      const required = this.getRequiredAmount(objective);
+      const key = this.getProgressKey(quest.id, objective.id);
+      const current = this.objectiveProgress[key] ?? 0;
+      if (current >= required) continue;
+
+      const progress = Math.min(required, current + amount);
+      this.objectiveProgress[key] = progress;
+      emitTypedEvent(createEvent.questObjectiveUpdated(quest.id, objective.id, objective.description, progress, required));
+    }
+
+    if (quest.objectives.every(objective => this.isObjectiveComplete(quest.id, objective))) {
+      this.completeQuest(quest.id);
+    }
+  }
+
+  completeQuest(questId: string): void {
+    const quest = this.quests.find(candidate => candidate.id === questId);
+    if (!quest || this.completedQuests.has(questId)) return;
+
+    this.completedQuests.add(questId);
+    quest.objectives.forEach(objective => {
+      this.objectiveProgress[this.getProgressKey(questId, objective.id)] = this.getRequiredAmount(objective);
+    });
+
+    emitTypedEvent(createEvent.questCompleted(quest.id, quest.title));
+
+    if (this.activeQuestId === questId) {
+      this.activateNextQuest();
+    }
+  }
+
+  /**
+   * Jump straight to a quest (e.g. handed out in dialogue) instead of waiting for storyline order
+   */
+  startQuest(questId: string): boolean {
+    const quest = this.quests.find(candidate => candidate.id === questId);
+    if (!quest || this.completedQuests.has(questId) || this.activeQuestId === questId) return false;
+
+    this.activeQuestId = questId;
+    emitTypedEvent(createEvent.questStarted(quest.id, quest.title, quest.description));
+    return true;
+  }
+
+  getActiveQuest(): Quest | null {
+    return this.quests.find(quest => quest.id === this.activeQuestId) ?? null;
+  }
+
+  getObjectiveProgress(questId: string, objectiveId: string): number {
+    return this.objectiveProgress[this.getProgressKey(questId, objectiveId)] ?? 0;
+  }
+
+  isQuestComplete(questId: string): boolean {
+    return this.completedQuests.has(questId);
+  }
+
+  /**
+   * Snapshot for SaveData.progress
+   */
+  getProgress(): { completedQuests: string[]; objectiveProgress: Record<string, number> } {
+    return {
+      completedQuests: Array.from(this.completedQuests),
+      objectiveProgress: { ...this.objectiveProgress }
+    };
+  }
+
+  /**
+   * Restore progress from SaveData.progress and re-announce the active quest
+   */
+  applyProgress(completedQuests: string[], objectiveProgress: Record<string, number>): void {
+    this.completedQuests = new Set(completedQuests);
+    this.objectiveProgress = { ...objectiveProgress };
+    this.activeQuestId = null;
+    this.activateNextQuest();
+  }
+
+  private activateNextQuest(): void {
+    const next = this.quests.find(quest => !this.completedQuests.has(quest.id));
+    this.activeQuestId = next?.id ?? null;
+
+    if (next) {
+      emitTypedEvent(createEvent.questStarted(next.id, next.title, next.description));
+    }
+  }
+
+  private isObjectiveComplete(questId: string, objective: QuestObjective): boolean {
+    return this.getObjectiveProgress(questId, objective.id) >= this.getRequiredAmount(objective);
+  }
+
+  private getRequiredAmount(objective: QuestObjective): number {
+    return objective.amount ?? 1;
+  }
+
+  private getProgressKey(questId: string, objectiveId: string): string {
+    return `${questId}/${objectiveId}`;
+  }
+
+  private findPlayerRegion(): string | null {
+    const playerEntities = this.getEntitiesWithComponents('player', 'transform');
+    if (playerEntities.length === 0) return null;
+
+    const transform = this.getComponent<TransformComponent>(playerEntities[0].id, 'transform')!;
+    const tileX = transform.position.x / TILE_SIZE;
+    const tileY = transform.position.y / TILE_SIZE;
+
+    const region = REGIONS.find(candidate =>
+      tileX >= candidate.bounds.x && tileX < candidate.bounds.x + candidate.bounds.width &&
+      tileY >= candidate.bounds.y && tileY < candidate.bounds.y + candidate.bounds.height
+    );
+
+    // "Riverlands & Waterworks" -> "riverlands_waterworks"
+    return region ? region.name.toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '') : null;
+  }
+}
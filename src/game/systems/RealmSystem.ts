@@ -0,0 +1,167 @@
+// Realm System - Aether Mirror gating and safe-switch rules for Dayrealm/Eclipse toggling
+// Following World Builder agent specifications; the mirror or a realm anchor opens the switch, a blocked destination refuses it
+
+import { System, EntityBuilder } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import { OVERWORLD_MAP_ID, REALM_ANCHORS, REALM_ANCHOR_RADIUS, SWIM_TILES, TILE_SIZE } from '@shared/constants.js';
+import type { ColliderComponent, PlayerComponent, Realm, RealmAnchor, TileType, TransformComponent } from '@shared/types.js';
+import { EclipseOverlaySystem } from './EclipseOverlaySystem.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+export type RealmSwitchFailure = 'no_mirror' | 'blocked';
+
+export class RealmSystem extends System {
+  private currentMap = OVERWORLD_MAP_ID;
+  private currentRealm: Realm = 'dayrealm';
+  private worldTiles: WorldTile[][] | null = null;
+  private anchorEntities: string[] = [];
+  private unsubscribers: Array<() => void> = [];
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+      }),
+
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.spawnAnchors(this.currentMap);
+      }),
+
+      // Using the Aether Mirror from the inventory
+      gameEvents.on('world.realm.switch', () => {
+        this.requestSwitch();
+      }),
+
+      // A restored save puts the player back where they were - no mirror or anchor needed
+      gameEvents.on('system/loadComplete', (event: any) => {
+        const realm = event.payload.saveData?.player.realm;
+        if (realm && realm !== this.currentRealm) this.switchTo(realm, null, 'restore');
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Realm switches are requested by input and items
+  }
+
+  getCurrentRealm(): Realm {
+    return this.currentRealm;
+  }
+
+  /**
+   * Flip to the other realm - the reason is returned (and emitted) when the switch is refused
+   */
+  requestSwitch(): RealmSwitchFailure | null {
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform', 'collider')[0];
+    if (!playerEntity) return 'no_mirror';
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    const collider = this.getComponent<ColliderComponent>(playerEntity.id, 'collider')!;
+    const targetRealm: Realm = this.currentRealm === 'dayrealm' ? 'eclipse' : 'dayrealm';
+
+    const anchor = this.findAnchor(transform, collider);
+    if (!player.inventory.aether_mirror && !anchor) {
+      return this.deny('no_mirror', targetRealm);
+    }
+
+    // Never drop the player inside a wall of the other realm
+    const passable = player.inventory.riverfin_vest ? SWIM_TILES : undefined;
+    if (!this.isDestinationClear(transform, collider, targetRealm, passable)) {
+      return this.deny('blocked', targetRealm);
+    }
+
+    this.switchTo(targetRealm, anchor?.id ?? null, 'flash');
+    return null;
+  }
+
+  getAnchorsForMap(mapId: string): RealmAnchor[] {
+    return REALM_ANCHORS.filter(anchor => anchor.map === mapId);
+  }
+
+  private switchTo(realm: Realm, anchorId: string | null, transitionType: 'flash' | 'restore'): void {
+    const previousRealm = this.currentRealm;
+    emitTypedEvent(createEvent.realmSwitchStart(previousRealm, realm, anchorId));
+
+    this.currentRealm = realm;
+    emitTypedEvent(createEvent.realmSwitched(previousRealm, realm, transitionType));
+  }
+
+  private deny(reason: RealmSwitchFailure, toRealm: Realm): RealmSwitchFailure {
+    gameEvents.emit({
+      type: 'world.realm.switchDenied',
+      payload: { reason, fromRealm: this.currentRealm, toRealm },
+      timestamp: Date.now()
+    });
+    return reason;
+  }
+
+  private findAnchor(transform: TransformComponent, collider: ColliderComponent): RealmAnchor | undefined {
+    const centerX = transform.position.x + collider.bounds.x + collider.bounds.width / 2;
+    const centerY = transform.position.y + collider.bounds.y + collider.bounds.height / 2;
+
+    return this.getAnchorsForMap(this.currentMap).find(anchor =>
+      Math.hypot(anchor.position.x - centerX, anchor.position.y - centerY) <= REALM_ANCHOR_RADIUS
+    );
+  }
+
+  private isDestinationClear(
+    transform: TransformComponent,
+    collider: ColliderComponent,
+    realm: Realm,
+    passable?: ReadonlySet<TileType>
+  ): boolean {
+    const left = transform.position.x + collider.bounds.x;
+    const top = transform.position.y + collider.bounds.y;
+    const startTile = TileCollision.pixelToTile(left, top);
+    const endTile = TileCollision.pixelToTile(left + collider.bounds.width - 1, top + collider.bounds.height - 1);
+
+    for (let tileY = startTile.tileY; tileY <= endTile.tileY; tileY++) {
+      for (let tileX = startTile.tileX; tileX <= endTile.tileX; tileX++) {
+        const tileType = this.getRealmTileType(tileX, tileY, realm);
+        if (tileType === null) return false;
+        if (!TileCollision.isTileWalkable(tileType) && !passable?.has(tileType)) return false;
+      }
+    }
+    return true;
+  }
+
+  // Authored Eclipse overlays know both versions of their tiles; elsewhere the global table decides
+  private getRealmTileType(tileX: number, tileY: number, realm: Realm): TileType | null {
+    const overlays = this.world.getSystem(EclipseOverlaySystem);
+    if (overlays) return overlays.getRealmTileType(tileX, tileY, realm);
+
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    return tile ? TileCollision.getEffectiveTileType(tile, realm) : null;
+  }
+
+  private spawnAnchors(mapId: string): void {
+    this.anchorEntities.forEach(entityId => this.world.destroyEntity(entityId));
+    this.anchorEntities = this.getAnchorsForMap(mapId).map(anchor => this.createAnchor(anchor));
+  }
+
+  private createAnchor(anchor: RealmAnchor): string {
+    return EntityBuilder.create(this.world)
+      .with({
+        type: 'transform',
+        entityId: '',
+        position: { x: anchor.position.x - TILE_SIZE / 2, y: anchor.position.y - TILE_SIZE / 2 },
+        rotation: 0,
+        scale: { x: 1, y: 1 }
+      })
+      .with({ type: 'sprite', entityId: '', texture: 'realm_anchor', frame: 0, tint: 0xB39DDB, alpha: 1 })
+      .build().id;
+  }
+}
@@ -4,7 +4,8 @@
 import Phaser from 'phaser';
 import { System } from '../ECS.js';
 import { spriteManager, type AnimationState } from './SpriteManager.js';
-import type { TransformComponent, SpriteComponent, MovementComponent, HealthComponent } from '@shared/types.js';
+import { StatusEffectSystem } from './StatusEffectSystem.js';
+import type { TransformComponent, SpriteComponent, MovementComponent, HealthComponent, StatusComponent } from '@shared/types.js';
 import type { WorldScene } from '../scenes/WorldScene.js';
 import type { Direction } from '@shared/types.js';
 
@@ -248,6 +249,12 @@ export class RenderSystem extends System {
       spriteObject.setVisible(true);
     }
 
+    // Tint entities suffering a status effect (burning, stunned, frozen, slowed)
+    const statusTint = StatusEffectSystem.getTint(this.getComponent<StatusComponent>(entityId, 'status'));
+    if (statusTint !== null && 'setTint' in spriteObject) {
+      spriteObject.setTint(statusTint);
+    }
+
     // Apply direction-based sprite effects
     const movement = this.getComponent<MovementComponent>(entityId, 'movement');
     if (movement && 'setFlipX' in spriteObject) {
@@ -0,0 +1,235 @@
+// Respawn System - Player death, the game-over screen and checkpoint respawns
+// Following Combat & Physics Engineer specifications; Continue returns to the town entrance or dungeon room
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import {
+  DEATH_ANIMATION_DURATION,
+  HEALTH_PER_HEART,
+  OVERWORLD_MAP_ID,
+  OVERWORLD_SPAWNS,
+  RESPAWN_HEARTS
+} from '@shared/constants.js';
+import type {
+  Direction,
+  HealthComponent,
+  MovementComponent,
+  PlayerComponent,
+  SpriteComponent,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { SaveSystem } from './SaveSystem.js';
+
+export type RespawnState = 'alive' | 'dying' | 'game_over' | 'respawning';
+
+interface Checkpoint {
+  mapId: string;
+  position: Vector2;
+}
+
+export class RespawnSystem extends System {
+  private state: RespawnState = 'alive';
+  private checkpoint: Checkpoint = { mapId: OVERWORLD_MAP_ID, position: { ...OVERWORLD_SPAWNS.town_entrance } };
+  private deathTimer = 0;
+  private pendingSaveSlot: number | null = null;
+  private quitAfterSave = false;
+  private unsubscribers: Array<() => void> = [];
+
+  private readonly SPIN_ORDER: Direction[] = ['down', 'left', 'up', 'right'];
+  private readonly SPIN_STEP = 100;            // ms per facing during the death spin
+  private readonly SPIN_PORTION = 0.6;         // rest of the animation is the fade
+  private readonly DEATH_TINT = 0xff4040;
+  private readonly FADED_ALPHA = 0.2;
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('combat.death', (event: any) => {
+        this.handleDeath(event.payload.targetId, event.payload.killerId);
+      }),
+
+      // Every map entered becomes the checkpoint - the overworld always sends you back to town
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, (event: any) => {
+        this.recordCheckpoint(event.payload.mapId);
+        if (this.state === 'respawning') this.finishRespawn();
+      }),
+
+      gameEvents.on('world.map.loadFailed', () => {
+        if (this.state === 'respawning') this.finishRespawn();
+      }),
+
+      // GameOverScreen's Continue / Save & Quit
+      gameEvents.on('player.respawn.request', (event: any) => {
+        this.respawn(event.payload?.saveSlot, event.payload?.quit ?? false);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    if (this.state !== 'dying' && this.state !== 'game_over') return;
+
+    const playerEntity = this.getEntitiesWithComponents('player', 'health')[0];
+    if (!playerEntity) return;
+
+    // Re-assert every frame - CombatSystem clears invulnerability when its i-frames run out
+    const health = this.getComponent<HealthComponent>(playerEntity.id, 'health')!;
+    health.invulnerable = true;
+
+    const movement = this.getComponent<MovementComponent>(playerEntity.id, 'movement');
+    if (movement) {
+      movement.velocity.x = 0;
+      movement.velocity.y = 0;
+    }
+
+    if (this.state === 'dying') {
+      this.deathTimer += deltaTime * 1000;
+      this.animateDeath(playerEntity.id, movement);
+
+      if (this.deathTimer >= DEATH_ANIMATION_DURATION) {
+        this.state = 'game_over';
+        this.emitGameState('game_over');
+      }
+    }
+  }
+
+  getState(): RespawnState {
+    return this.state;
+  }
+
+  getCheckpoint(): Checkpoint {
+    return { mapId: this.checkpoint.mapId, position: { ...this.checkpoint.position } };
+  }
+
+  /**
+   * Bring the player back at the last checkpoint with partial hearts.
+   * WorldScene reloads the checkpoint map on PLAYER_RESPAWNED, which resets bosses, rooms and enemies;
+   * with a save slot the game is written once that map is back, and with quit the player leaves for the title.
+   */
+  respawn(saveSlot?: number, quit = false): boolean {
+    if (this.state !== 'game_over') return false;
+
+    const playerEntity = this.getEntitiesWithComponents('player', 'health', 'transform')[0];
+    if (!playerEntity) return false;
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const health = this.getComponent<HealthComponent>(playerEntity.id, 'health')!;
+    const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    const movement = this.getComponent<MovementComponent>(playerEntity.id, 'movement');
+    const sprite = this.getComponent<SpriteComponent>(playerEntity.id, 'sprite');
+
+    health.current = Math.min(health.maximum, RESPAWN_HEARTS * HEALTH_PER_HEART);
+    health.invulnerable = false;
+    health.invulnerabilityTimer = 0;
+
+    transform.position.x = this.checkpoint.position.x;
+    transform.position.y = this.checkpoint.position.y;
+    if (movement) movement.direction = 'down';
+    if (sprite) {
+      sprite.tint = 0xffffff;
+      sprite.alpha = 1;
+    }
+    player.movementState = 'walking';
+    player.rollTimer = 0;
+
+    this.state = 'respawning';
+    this.pendingSaveSlot = saveSlot ?? null;
+    this.quitAfterSave = quit && saveSlot !== undefined;
+    this.emitGameState('playing');
+
+    emitTypedEvent(createEvent.playerRespawned(
+      playerEntity.id, this.checkpoint.mapId, { ...this.checkpoint.position }, health.current, health.maximum
+    ));
+    emitTypedEvent(createEvent.playerHealthChanged(playerEntity.id, health.current, health.maximum));
+    return true;
+  }
+
+  private handleDeath(targetId: string, killerId: string): void {
+    if (this.state !== 'alive' || !this.hasComponent(targetId, 'player')) return;
+
+    const transform = this.getComponent<TransformComponent>(targetId, 'transform');
+    this.state = 'dying';
+    this.deathTimer = 0;
+
+    emitTypedEvent(createEvent.playerDied(
+      targetId, killerId, transform ? { ...transform.position } : { x: 0, y: 0 }, this.checkpoint.mapId
+    ));
+  }
+
+  // ALTTP-style spin on the spot, then a red fade
+  private animateDeath(entityId: string, movement: MovementComponent | undefined): void {
+    const sprite = this.getComponent<SpriteComponent>(entityId, 'sprite');
+    const spinTime = DEATH_ANIMATION_DURATION * this.SPIN_PORTION;
+
+    if (this.deathTimer < spinTime) {
+      if (movement) {
+        movement.direction = this.SPIN_ORDER[Math.floor(this.deathTimer / this.SPIN_STEP) % this.SPIN_ORDER.length];
+      }
+      return;
+    }
+
+    if (movement) movement.direction = 'down';
+    if (sprite) {
+      const fade = Math.min(1, (this.deathTimer - spinTime) / (DEATH_ANIMATION_DURATION - spinTime));
+      sprite.tint = this.DEATH_TINT;
+      sprite.alpha = 1 - fade * (1 - this.FADED_ALPHA);
+    }
+  }
+
+  private recordCheckpoint(mapId: string): void {
+    if (mapId === OVERWORLD_MAP_ID) {
+      this.checkpoint = { mapId, position: { ...OVERWORLD_SPAWNS.town_entrance } };
+      return;
+    }
+
+    // Dungeon rooms restart where the player walked in
+    const playerEntity = this.getEntitiesWithComponents('player', 'transform')[0];
+    if (!playerEntity) return;
+    const transform = this.getComponent<TransformComponent>(playerEntity.id, 'transform')!;
+    this.checkpoint = { mapId, position: { ...transform.position } };
+  }
+
+  private finishRespawn(): void {
+    this.state = 'alive';
+
+    if (this.pendingSaveSlot !== null) {
+      const slot = this.pendingSaveSlot;
+      const quit = this.quitAfterSave;
+      const saving = this.world.getSystem(SaveSystem)?.save(slot) ?? Promise.resolve(false);
+      this.pendingSaveSlot = null;
+      this.quitAfterSave = false;
+
+      // Only leave for the title once the game is safely written
+      if (quit) {
+        saving.then(saved => {
+          if (!saved) {
+            console.warn(`RespawnSystem: Save to slot ${slot} failed - staying in the game`);
+            return;
+          }
+          gameEvents.emit({
+            type: 'game.quit.request',
+            payload: { slot },
+            timestamp: Date.now()
+          });
+        });
+      }
+    }
+  }
+
+  private emitGameState(state: 'playing' | 'game_over'): void {
+    gameEvents.emit({
+      type: 'game.state.changed',
+      payload: { state },
+      timestamp: Date.now()
+    });
+  }
+}
@@ -0,0 +1,300 @@
+// Save System - Persists and restores game state across sessions
+// Following Spec Librarian standards for save data structure
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import {
+  SAVE_VERSION,
+  SAVE_SLOT_COUNT,
+  AUTOSAVE_SLOT,
+  AUTOSAVE_INTERVAL,
+  HEALTH_PER_HEART,
+  MAX_HEARTS
+} from '@shared/constants.js';
+import type {
+  TransformComponent,
+  HealthComponent,
+  PlayerComponent,
+  Realm,
+  SaveData,
+  SaveSlotInfo
+} from '@shared/types.js';
+import { createSaveStorage, type SaveStorage } from '../utils/saveStorage.js';
+import { migrateSaveData } from '../utils/saveMigrations.js';
+import { QuestSystem } from './QuestSystem.js';
+import { ShopSystem } from './ShopSystem.js';
+
+export class SaveSystem extends System {
+  private storage: SaveStorage;
+  private worldFlags: Record<string, boolean> = {};
+  private discoveredAreas: Set<string> = new Set();
+  private currentMap = 'hearthmere';
+  private currentRealm: Realm = 'dayrealm';
+  private autosaveTimer = 0;
+  private saveInProgress = false;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(storage: SaveStorage = createSaveStorage()) {
+    super();
+    this.storage = storage;
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('save.game.request', (event: any) => {
+        this.save(event.payload?.slot ?? AUTOSAVE_SLOT);
+      }),
+
+      gameEvents.on('load.game.request', (event: any) => {
+        this.load(event.payload?.slot ?? AUTOSAVE_SLOT);
+      }),
+
+      gameEvents.on('world/realmSwitched', (event: any) => {
+        this.currentRealm = event.payload.currentRealm;
+      }),
+
+      gameEvents.on('world.map.loaded', (event: any) => {
+        this.currentMap = event.payload.mapId;
+        this.discoveredAreas.add(event.payload.mapId);
+      }),
+
+      gameEvents.on('world.flag.set', (event: any) => {
+        this.setFlag(event.payload.flag, event.payload.value ?? true);
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    this.autosaveTimer += deltaTime * 1000;
+
+    if (this.autosaveTimer >= AUTOSAVE_INTERVAL) {
+      this.autosaveTimer = 0;
+      this.save(AUTOSAVE_SLOT);
+    }
+  }
+
+  /**
+   * Snapshot the live ECS world into a SaveData payload
+   */
+  buildSaveData(): SaveData | null {
+    const playerEntities = this.getEntitiesWithComponents('player', 'transform', 'health');
+    if (playerEntities.length === 0) return null;
+
+    const playerId = playerEntities[0].id;
+    const transform = this.getComponent<TransformComponent>(playerId, 'transform')!;
+    const health = this.getComponent<HealthComponent>(playerId, 'health')!;
+    const player = this.getComponent<PlayerComponent>(playerId, 'player')!;
+    const quests = this.getQuestSystem()?.getProgress();
+
+    // Never write out a downed player - the save would load straight into a death
+    if (health.current <= 0) return null;
+
+    return {
+      version: SAVE_VERSION,
+      timestamp: Date.now(),
+      player: {
+        position: { ...transform.position },
+        realm: this.currentRealm,
+        health: health.current,
+        maxHealth: health.maximum,
+        maxStamina: player.maxStamina,
+        gleam: player.gleam,
+        inventory: structuredClone(player.inventory),
+        equipment: { ...player.equipment }
+      },
+      world: {
+        currentMap: this.currentMap,
+        flags: { ...this.worldFlags },
+        discoveredAreas: Array.from(this.discoveredAreas),
+        shopStock: this.world.getSystem(ShopSystem)?.getStockState() ?? {}
+      },
+      progress: {
+        aetherShards: player.inventory.aether_shards,
+        completedQuests: quests?.completedQuests ?? [],
+        objectiveProgress: quests?.objectiveProgress ?? {},
+        unlockedAreas: Array.from(this.discoveredAreas)
+      }
+    };
+  }
+
+  /**
+   * Restore a (migrated) SaveData payload onto the live ECS world
+   */
+  applySaveData(saveData: SaveData): boolean {
+    const playerEntities = this.getEntitiesWithComponents('player', 'transform', 'health');
+    if (playerEntities.length === 0) return false;
+
+    const playerId = playerEntities[0].id;
+    const transform = this.getComponent<TransformComponent>(playerId, 'transform')!;
+    const health = this.getComponent<HealthComponent>(playerId, 'health')!;
+    const player = this.getComponent<PlayerComponent>(playerId, 'player')!;
+
+    transform.position.x = saveData.player.position.x;
+    transform.position.y = saveData.player.position.y;
+
+    // Heart containers live on as max health; hand-edited saves cannot exceed the heart cap
+    health.maximum = Math.min(saveData.player.maxHealth, MAX_HEARTS * HEALTH_PER_HEART);
+    health.current = Math.min(saveData.player.health, health.maximum);
+    player.hearts = Math.ceil(health.maximum / HEALTH_PER_HEART);
+    player.maxStamina = saveData.player.maxStamina;
+    player.stamina = player.maxStamina;
+    player.gleam = saveData.player.gleam;
+    player.inventory = structuredClone(saveData.player.inventory);
+    player.equipment = { ...saveData.player.equipment };
+
+    this.currentRealm = saveData.player.realm;
+    this.currentMap = saveData.world.currentMap;
+    this.worldFlags = { ...saveData.world.flags };
+    this.discoveredAreas = new Set(saveData.world.discoveredAreas);
+    this.getQuestSystem()?.applyProgress(saveData.progress.completedQuests, saveData.progress.objectiveProgress);
+    this.world.getSystem(ShopSystem)?.applyStockState(saveData.world.shopStock);
+
+    // Keep React UI in sync with the restored state
+    gameEvents.emit({
+      type: 'player.inventory.changed',
+      payload: { inventory: player.inventory },
+      timestamp: Date.now()
+    });
+
+    emitTypedEvent(createEvent.equipmentChanged(playerId, player.equipment.equipped, player.equipment.quickSwap));
+
+    gameEvents.emit({
+      type: 'player.gleam.changed',
+      payload: { gleam: player.gleam },
+      timestamp: Date.now()
+    });
+
+    gameEvents.emit({
+      type: 'player.stamina.changed',
+      payload: { stamina: player.stamina, maxStamina: player.maxStamina },
+      timestamp: Date.now()
+    });
+
+    emitTypedEvent(createEvent.playerHealthChanged(playerId, health.current, health.maximum));
+
+    return true;
+  }
+
+  async save(slot: number): Promise<boolean> {
+    if (!this.isValidSlot(slot) || this.saveInProgress) return false;
+
+    const saveData = this.buildSaveData();
+    if (!saveData) return false;
+
+    this.saveInProgress = true;
+    gameEvents.emit({
+      type: GAME_EVENTS.SAVE_GAME_START,
+      payload: { slot },
+      timestamp: Date.now()
+    });
+
+    let success = true;
+    try {
+      await this.storage.write(slot, saveData);
+    } catch (error) {
+      console.warn(`SaveSystem: Failed to write slot ${slot}:`, error);
+      success = false;
+    } finally {
+      this.saveInProgress = false;
+    }
+
+    gameEvents.emit({
+      type: GAME_EVENTS.SAVE_GAME_COMPLETE,
+      payload: { slot, success, saveData },
+      timestamp: Date.now()
+    });
+
+    return success;
+  }
+
+  async load(slot: number): Promise<SaveData | null> {
+    if (!this.isValidSlot(slot)) return null;
+
+    gameEvents.emit({
+      type: GAME_EVENTS.LOAD_GAME_START,
+      payload: { slot },
+      timestamp: Date.now()
+    });
+
+    let saveData: SaveData | null = null;
+    try {
+      const raw = await this.storage.read(slot);
+      if (raw) {
+        saveData = migrateSaveData(raw);
+        if (!this.applySaveData(saveData)) {
+          saveData = null;
+        }
+      }
+    } catch (error) {
+      console.warn(`SaveSystem: Failed to load slot ${slot}:`, error);
+      saveData = null;
+    }
+
+    gameEvents.emit({
+      type: GAME_EVENTS.LOAD_GAME_COMPLETE,
+      payload: { slot, success: saveData !== null, saveData },
+      timestamp: Date.now()
+    });
+
+    return saveData;
+  }
+
+  async listSlots(): Promise<SaveSlotInfo[]> {
+    const slots: SaveSlotInfo[] = [];
+
+    for (let slot = AUTOSAVE_SLOT; slot <= SAVE_SLOT_COUNT; slot++) {
+      try {
+        const raw = await this.storage.read(slot);
+        if (!raw) continue;
+
+        const saveData = migrateSaveData(raw);
+        slots.push({
+          slot,
+          version: saveData.version,
+          timestamp: saveData.timestamp,
+          currentMap: saveData.world.currentMap
+        });
+      } catch (error) {
+        console.warn(`SaveSystem: Slot ${slot} is unreadable:`, error);
+      }
+    }
+
+    return slots;
+  }
+
+  async deleteSlot(slot: number): Promise<void> {
+    if (!this.isValidSlot(slot)) return;
+    await this.storage.remove(slot);
+  }
+
+  // World flag API for gameplay systems
+  setFlag(flag: string, value: boolean = true): void {
+    this.worldFlags[flag] = value;
+  }
+
+  getFlag(flag: string): boolean {
+    return this.worldFlags[flag] ?? false;
+  }
+
+  getFlags(): Record<string, boolean> {
+    return { ...this.worldFlags };
+  }
+
+  getCurrentMap(): string {
+    return this.currentMap;
+  }
+
+  private isValidSlot(slot: number): boolean {
+    return Number.isInteger(slot) && slot >= AUTOSAVE_SLOT && slot <= SAVE_SLOT_COUNT;
+  }
+
+  private getQuestSystem(): QuestSystem | undefined {
+    return this.world.getSystem(QuestSystem);
+  }
+}
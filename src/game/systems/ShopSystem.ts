@@ -0,0 +1,322 @@
+// Shop System - Gleam vendors with limited stock, buying and selling
+// Following Spec Librarian standards; vendor inventories live in world/shops.json
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import type {
+  HealthComponent,
+  PlayerComponent,
+  Shop,
+  ShopData,
+  ShopGood,
+  ShopView,
+  TransformComponent
+} from '@shared/types.js';
+import shopSchema from '@schemas/shops.schema.json';
+import defaultShopData from '@world/shops.json';
+import { SchemaValidator } from '../utils/SchemaValidator.js';
+
+export type ShopTradeFailure =
+  | 'no_shop'
+  | 'unknown_good'
+  | 'sold_out'
+  | 'insufficient_gleam'
+  | 'full_health'
+  | 'nothing_to_sell';
+
+export class ShopSystem extends System {
+  private shops: Record<string, Shop>;
+  private stock: Map<string, number> = new Map();   // "shopId:goodId" -> remaining, limited goods only
+  private openShopId: string | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(data: unknown = defaultShopData) {
+    super();
+
+    const validation = SchemaValidator.validate(shopSchema, data);
+    if (!validation.valid) {
+      throw new Error(`Invalid shop data:\n${validation.errors.join('\n')}`);
+    }
+
+    this.shops = (data as ShopData).shops;
+    this.restock();
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      // DialogueSystem's openShop action
+      gameEvents.on('ui.shop.open', (event: any) => {
+        this.open(event.payload.shopId);
+      }),
+
+      gameEvents.on('ui.shop.close', () => {
+        this.close();
+      }),
+
+      gameEvents.on('shop.buy.request', (event: any) => {
+        this.buy(event.payload.goodId);
+      }),
+
+      gameEvents.on('shop.sell.request', (event: any) => {
+        this.sell(event.payload.item);
+      }),
+
+      // Walking through a door mid-trade closes the window
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, () => {
+        this.close();
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(_deltaTime: number): void {
+    // Trades are driven entirely by events
+  }
+
+  open(shopId: string): boolean {
+    if (!this.shops[shopId]) {
+      console.warn(`ShopSystem: Unknown shop "${shopId}"`);
+      return false;
+    }
+
+    this.openShopId = shopId;
+    gameEvents.emit({
+      type: 'shop.opened',
+      payload: { view: this.getView(shopId) },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  close(): void {
+    if (!this.openShopId) return;
+
+    const shopId = this.openShopId;
+    this.openShopId = null;
+    gameEvents.emit({
+      type: 'shop.closed',
+      payload: { shopId },
+      timestamp: Date.now()
+    });
+  }
+
+  getOpenShopId(): string | null {
+    return this.openShopId;
+  }
+
+  /**
+   * Remaining stock of a good - null for goods that never sell out
+   */
+  getStock(shopId: string, goodId: string): number | null {
+    return this.stock.get(this.stockKey(shopId, goodId)) ?? null;
+  }
+
+  /**
+   * Snapshot for SaveData.world.shopStock
+   */
+  getStockState(): Record<string, number> {
+    return Object.fromEntries(this.stock);
+  }
+
+  /**
+   * Restore remaining stock from SaveData.world.shopStock - goods missing from the save start fully stocked
+   */
+  applyStockState(shopStock: Record<string, number>): void {
+    this.restock();
+    for (const [key, remaining] of Object.entries(shopStock)) {
+      if (this.stock.has(key)) this.stock.set(key, remaining);
+    }
+  }
+
+  /**
+   * Buy one of a good from the open shop - the reason is returned (and emitted) when the trade is refused
+   */
+  buy(goodId: string): ShopTradeFailure | null {
+    const shopId = this.openShopId;
+    const shop = shopId ? this.shops[shopId] : undefined;
+    const playerEntity = this.getEntitiesWithComponents('player')[0];
+    if (!shopId || !shop || !playerEntity) return this.refuse(shopId, goodId, 'no_shop');
+
+    const good = shop.goods.find(candidate => candidate.id === goodId);
+    if (!good) return this.refuse(shopId, goodId, 'unknown_good');
+
+    const remaining = this.getStock(shopId, goodId);
+    if (remaining !== null && remaining <= 0) return this.refuse(shopId, goodId, 'sold_out');
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    if (player.gleam < good.price) return this.refuse(shopId, goodId, 'insufficient_gleam');
+
+    // A tonic bought at full health would just be wasted
+    const health = this.getComponent<HealthComponent>(playerEntity.id, 'health');
+    if (good.grant.type === 'heal' && health && health.current >= health.maximum) {
+      return this.refuse(shopId, goodId, 'full_health');
+    }
+
+    if (remaining !== null) this.stock.set(this.stockKey(shopId, goodId), remaining - 1);
+    this.setGleam(player, player.gleam - good.price);
+    this.grant(playerEntity.id, player, good);
+
+    this.emitTrade(shopId, 'buy', goodId, good.price);
+    return null;
+  }
+
+  /**
+   * Sell one inventory item the open shop buys
+   */
+  sell(item: string): ShopTradeFailure | null {
+    const shopId = this.openShopId;
+    const offer = shopId ? this.shops[shopId]?.buys?.find(candidate => candidate.item === item) : undefined;
+    const playerEntity = this.getEntitiesWithComponents('player')[0];
+    if (!shopId || !playerEntity) return this.refuse(shopId, item, 'no_shop');
+    if (!offer) return this.refuse(shopId, item, 'unknown_good');
+
+    const player = this.getComponent<PlayerComponent>(playerEntity.id, 'player')!;
+    const inventory = player.inventory as unknown as Record<string, unknown>;
+    const owned = inventory[item];
+    if (typeof owned !== 'number' || owned <= 0) return this.refuse(shopId, item, 'nothing_to_sell');
+
+    inventory[item] = owned - 1;
+    this.emitInventoryChanged(player);
+    this.setGleam(player, player.gleam + offer.price);
+
+    this.emitTrade(shopId, 'sell', item, offer.price);
+    return null;
+  }
+
+  /**
+   * Snapshot of a shop for the purchase window, priced against the player's current purse
+   */
+  getView(shopId: string): ShopView | null {
+    const shop = this.shops[shopId];
+    if (!shop) return null;
+
+    const playerEntity = this.getEntitiesWithComponents('player')[0];
+    const player = playerEntity && this.getComponent<PlayerComponent>(playerEntity.id, 'player');
+    const inventory = (player?.inventory ?? {}) as unknown as Record<string, unknown>;
+
+    return {
+      shopId,
+      name: shop.name,
+      keeper: shop.keeper,
+      ...(shop.greeting ? { greeting: shop.greeting } : {}),
+      gleam: player?.gleam ?? 0,
+      goods: shop.goods.map(good => ({ ...good, remaining: this.getStock(shopId, good.id) })),
+      buys: (shop.buys ?? []).map(offer => ({
+        ...offer,
+        owned: typeof inventory[offer.item] === 'number' ? inventory[offer.item] as number : 0
+      }))
+    };
+  }
+
+  private grant(playerId: string, player: PlayerComponent, good: ShopGood): void {
+    const { type, key, amount } = good.grant;
+
+    switch (type) {
+      case 'item': {
+        const inventory = player.inventory as unknown as Record<string, unknown>;
+        if (!key) break;
+        if (typeof inventory[key] === 'boolean') {
+          inventory[key] = true;
+        } else if (typeof inventory[key] === 'number') {
+          inventory[key] = (inventory[key] as number) + amount;
+        } else {
+          console.warn(`ShopSystem: Cannot grant unknown item "${key}"`);
+          break;
+        }
+        this.emitInventoryChanged(player);
+        this.emitCollected(playerId, good.id, key, amount);
+        break;
+      }
+
+      case 'key':
+        if (!key) break;
+        player.inventory.keys[key] = (player.inventory.keys[key] ?? 0) + amount;
+        this.emitInventoryChanged(player);
+        this.emitCollected(playerId, good.id, key, amount);
+        break;
+
+      case 'heal': {
+        const health = this.getComponent<HealthComponent>(playerId, 'health');
+        if (!health) break;
+        health.current = Math.min(health.maximum, health.current + amount);
+        emitTypedEvent(createEvent.playerHealthChanged(playerId, health.current, health.maximum));
+        break;
+      }
+
+      case 'stamina':
+        player.maxStamina += amount;
+        player.stamina = player.maxStamina;
+        gameEvents.emit({
+          type: 'player.stamina.changed',
+          payload: { stamina: player.stamina, maxStamina: player.maxStamina },
+          timestamp: Date.now()
+        });
+        break;
+    }
+  }
+
+  private setGleam(player: PlayerComponent, gleam: number): void {
+    player.gleam = gleam;
+    gameEvents.emit({
+      type: 'player.gleam.changed',
+      payload: { gleam },
+      timestamp: Date.now()
+    });
+  }
+
+  private emitInventoryChanged(player: PlayerComponent): void {
+    gameEvents.emit({
+      type: 'player.inventory.changed',
+      payload: { inventory: player.inventory },
+      timestamp: Date.now()
+    });
+  }
+
+  // Purchases count toward 'collect' quest objectives like any other pickup
+  private emitCollected(playerId: string, goodId: string, itemType: string, amount: number): void {
+    const transform = this.getComponent<TransformComponent>(playerId, 'transform');
+    emitTypedEvent(createEvent.itemCollected(`shop_${goodId}`, itemType,
+      transform ? { ...transform.position } : { x: 0, y: 0 }, amount));
+  }
+
+  private emitTrade(shopId: string, action: 'buy' | 'sell', id: string, price: number): void {
+    gameEvents.emit({
+      type: 'shop.trade',
+      payload: { shopId, action, id, price },
+      timestamp: Date.now()
+    });
+    gameEvents.emit({
+      type: 'shop.updated',
+      payload: { view: this.getView(shopId) },
+      timestamp: Date.now()
+    });
+  }
+
+  private refuse(shopId: string | null, id: string, reason: ShopTradeFailure): ShopTradeFailure {
+    gameEvents.emit({
+      type: 'shop.trade.failed',
+      payload: { shopId, id, reason },
+      timestamp: Date.now()
+    });
+    return reason;
+  }
+
+  private restock(): void {
+    this.stock.clear();
+    for (const [shopId, shop] of Object.entries(this.shops)) {
+      for (const good of shop.goods) {
+        if (good.stock !== undefined) this.stock.set(this.stockKey(shopId, good.id), good.stock);
+      }
+    }
+  }
+
+  private stockKey(shopId: string, goodId: string): string {
+    return `${shopId}:${goodId}`;
+  }
+}
@@ -0,0 +1,225 @@
+// Status Effect System - Timed burn, stun, freeze and slow effects plus burning tiles
+// Following Combat & Physics Engineer specifications; runs before MovementSystem so it can hold entities in place
+
+import { System } from '../ECS.js';
+import { gameEvents, GAME_EVENTS } from '@shared/events.js';
+import { BURNABLE_TILES, FIRE_BURN_DURATION, STATUS_EFFECTS } from '@shared/constants.js';
+import type {
+  MovementComponent,
+  StatusComponent,
+  StatusEffectType,
+  TransformComponent,
+  Vector2
+} from '@shared/types.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+
+interface BurningTile {
+  tileX: number;
+  tileY: number;
+  remaining: number;          // ms until the tile burns out
+  sourceId: string;
+}
+
+export class StatusEffectSystem extends System {
+  private worldTiles: WorldTile[][] | null = null;
+  private burningTiles: Map<string, BurningTile> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * True while a stun or freeze holds the entity in place
+   */
+  static isImmobilized(status: StatusComponent | undefined): boolean {
+    return !!status?.effects.some(effect => STATUS_EFFECTS[effect.type].speedMultiplier === 0);
+  }
+
+  /**
+   * Tint of the most recently applied effect, for RenderSystem
+   */
+  static getTint(status: StatusComponent | undefined): number | null {
+    const latest = status?.effects[status.effects.length - 1];
+    return latest ? STATUS_EFFECTS[latest.type].tint : null;
+  }
+
+  constructor() {
+    super();
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.unsubscribers.push(
+      gameEvents.on('status.apply', (event: any) => {
+        this.apply(event.payload.targetId, event.payload.effect, event.payload.sourceId);
+      }),
+
+      gameEvents.on('world.fire.ignite', (event: any) => {
+        this.ignite(event.payload.position, event.payload.sourceId);
+      }),
+
+      gameEvents.on('movement.worldData.update', (event: any) => {
+        this.worldTiles = event.payload.worldTiles;
+      }),
+
+      gameEvents.on(GAME_EVENTS.MAP_LOADED, () => {
+        this.burningTiles.clear();
+      })
+    );
+  }
+
+  onRemovedFromWorld(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+
+  update(deltaTime: number): void {
+    const elapsed = deltaTime * 1000;
+
+    for (const entity of this.getEntitiesWithComponents('status')) {
+      const status = this.getComponent<StatusComponent>(entity.id, 'status')!;
+      this.updateEffects(entity.id, status, elapsed);
+    }
+
+    this.updateBurningTiles(elapsed);
+  }
+
+  /**
+   * Inflict a status effect - reapplying refreshes its duration
+   */
+  apply(entityId: string, type: StatusEffectType, sourceId: string): boolean {
+    if (!this.world.getEntity(entityId) || !this.hasComponent(entityId, 'health')) return false;
+
+    // Bosses shrug off effects that would pin them in place
+    const config = STATUS_EFFECTS[type];
+    if (config.speedMultiplier === 0 && this.hasComponent(entityId, 'boss')) return false;
+
+    let status = this.getComponent<StatusComponent>(entityId, 'status');
+    if (!status) {
+      status = { type: 'status', entityId, effects: [] };
+      this.addComponent(entityId, status);
+    }
+
+    const existing = status.effects.find(effect => effect.type === type);
+    if (existing) {
+      existing.remaining = config.duration;
+      existing.sourceId = sourceId;
+    } else {
+      status.effects.push({ type, remaining: config.duration, tickTimer: config.tickInterval ?? 0, sourceId });
+    }
+
+    gameEvents.emit({
+      type: 'status.applied',
+      payload: { entityId, effect: type, duration: config.duration },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  hasEffect(entityId: string, type: StatusEffectType): boolean {
+    return !!this.getComponent<StatusComponent>(entityId, 'status')?.effects.some(effect => effect.type === type);
+  }
+
+  /**
+   * Set a burnable tile (tall grass, bushes) alight - false when nothing there can burn
+   */
+  ignite(position: Vector2, sourceId = 'environmental'): boolean {
+    const { tileX, tileY } = TileCollision.pixelToTile(position.x, position.y);
+    const tile = this.worldTiles?.[tileY]?.[tileX];
+    const key = `${tileX},${tileY}`;
+    if (!tile || BURNABLE_TILES[tile.tileType] === undefined || this.burningTiles.has(key)) return false;
+
+    this.burningTiles.set(key, { tileX, tileY, remaining: FIRE_BURN_DURATION, sourceId });
+
+    gameEvents.emit({
+      type: 'world.tile.burning',
+      payload: { tileX, tileY },
+      timestamp: Date.now()
+    });
+    return true;
+  }
+
+  isBurning(position: Vector2): boolean {
+    const { tileX, tileY } = TileCollision.pixelToTile(position.x, position.y);
+    return this.burningTiles.has(`${tileX},${tileY}`);
+  }
+
+  private updateEffects(entityId: string, status: StatusComponent, elapsed: number): void {
+    const movement = this.getComponent<MovementComponent>(entityId, 'movement');
+
+    for (const effect of [...status.effects]) {
+      const config = STATUS_EFFECTS[effect.type];
+      effect.remaining -= elapsed;
+
+      if (config.tickInterval && config.tickDamage) {
+        effect.tickTimer -= elapsed;
+        if (effect.tickTimer <= 0) {
+          effect.tickTimer += config.tickInterval;
+          this.tick(entityId, config.tickDamage, effect.sourceId);
+        }
+      }
+
+      if (movement && config.speedMultiplier !== undefined) {
+        movement.velocity.x *= config.speedMultiplier;
+        movement.velocity.y *= config.speedMultiplier;
+      }
+
+      if (effect.remaining <= 0) {
+        status.effects.splice(status.effects.indexOf(effect), 1);
+        gameEvents.emit({
+          type: 'status.expired',
+          payload: { entityId, effect: effect.type },
+          timestamp: Date.now()
+        });
+      }
+    }
+  }
+
+  private tick(entityId: string, damage: number, sourceId: string): void {
+    const transform = this.getComponent<TransformComponent>(entityId, 'transform');
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: {
+        targetId: entityId,
+        damage,
+        source: sourceId,
+        ...(transform ? { position: { ...transform.position } } : {}),
+        type: 'status'
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private updateBurningTiles(elapsed: number): void {
+    for (const [key, fire] of this.burningTiles) {
+      // Anything standing in the flames catches fire
+      for (const entity of this.getEntitiesWithComponents('health', 'transform')) {
+        const transform = this.getComponent<TransformComponent>(entity.id, 'transform')!;
+        const { tileX, tileY } = TileCollision.pixelToTile(transform.position.x, transform.position.y);
+        if (tileX === fire.tileX && tileY === fire.tileY && !this.hasEffect(entity.id, 'burn')) {
+          this.apply(entity.id, 'burn', fire.sourceId);
+        }
+      }
+
+      fire.remaining -= elapsed;
+      if (fire.remaining > 0) continue;
+
+      this.burningTiles.delete(key);
+      this.burnOut(fire);
+    }
+  }
+
+  private burnOut(fire: BurningTile): void {
+    const tile = this.worldTiles?.[fire.tileY]?.[fire.tileX];
+    const replacement = tile ? BURNABLE_TILES[tile.tileType] : undefined;
+    if (!tile || replacement === undefined) return;
+
+    const previousTileType = tile.tileType;
+    tile.tileType = replacement;
+    tile.walkable = TileCollision.isTileWalkable(replacement);
+
+    gameEvents.emit({
+      type: 'world.tile.changed',
+      payload: { tileX: fire.tileX, tileY: fire.tileY, tileType: replacement, previousTileType },
+      timestamp: Date.now()
+    });
+  }
+}
@@ -0,0 +1,464 @@
+// Tile Chunk Renderer - Bakes the world into cached render-texture chunks
+// Following World Builder agent specifications; each chunk is drawn once per realm, then only culled by the camera
+
+import { TILE_CHUNK_SIZE, TILE_SIZE } from '@shared/constants.js';
+import { gameEvents } from '@shared/events.js';
+import { TileType } from '@shared/types.js';
+import type { Realm } from '@shared/types.js';
+import { TileCollision } from '../utils/TileCollision.js';
+import type { WorldTile } from '../utils/WorldGenerator.js';
+import { altttpTilesetManager } from './ALTTPTilesetManager.js';
+
+type TileLayerName = 'ground' | 'decorations' | 'details';
+
+interface TileChunk {
+  texture: Phaser.GameObjects.RenderTexture;
+  chunkX: number;
+  chunkY: number;
+  realm: Realm;
+  dirty: boolean;
+}
+
+interface ChunkRange {
+  left: number;
+  top: number;
+  right: number;              // inclusive
+  bottom: number;             // inclusive
+}
+
+export class TileChunkRenderer {
+  private scene: Phaser.Scene;
+  private layer: Phaser.GameObjects.Group;
+  private scratch: Phaser.GameObjects.Graphics;
+  private tiles: WorldTile[][] = [];
+  private realm: Realm = 'dayrealm';
+  private chunks: Map<string, TileChunk> = new Map();   // "realm:chunkX,chunkY"
+  private visible: Set<string> = new Set();
+  private lastView = '';
+  private needsRefresh = true;
+  private unsubscribeTileChanged: () => void;
+
+  private readonly CHUNK_PIXELS = TILE_CHUNK_SIZE * TILE_SIZE;
+  private readonly DEPTH = -10;                 // beneath every sprite and effect
+  private readonly PREFETCH_MARGIN = 1;         // chunks baked ahead of the camera, one per frame
+  private readonly KEEP_MARGIN = 3;             // chunks further out than this are evicted
+
+  // Ground tiles the ALTTP tileset paints in full; everything else comes from the palette below
+  private readonly ALTTP_GROUND_TILES: Partial<Record<TileType, string>> = {
+    [TileType.GRASS]: 'grass_base',
+    [TileType.GRASS_DARK]: 'grass_dark',
+    [TileType.GRASS_LIGHT]: 'grass_light',
+    [TileType.FOREST]: 'forest_dense',
+    [TileType.WATER]: 'water_anim_0'
+  };
+
+  constructor(scene: Phaser.Scene, layer: Phaser.GameObjects.Group) {
+    this.scene = scene;
+    this.layer = layer;
+    // Off the display list - it is only ever drawn into chunk textures
+    this.scratch = scene.make.graphics({ x: 0, y: 0 }, false);
+    this.registerAlttpTextures();
+
+    // Shattered rocks, cut bushes and puzzle bridges re-bake only the chunk they sit in
+    this.unsubscribeTileChanged = gameEvents.on('world.tile.changed', (event: any) => {
+      this.invalidateTile(event.payload.tileX, event.payload.tileY);
+    });
+  }
+
+  /**
+   * Swap the tiles being drawn (map change). Every cached chunk belongs to the old map.
+   */
+  setTiles(tiles: WorldTile[][]): void {
+    this.tiles = tiles;
+    this.chunks.forEach(chunk => chunk.texture.destroy());
+    this.chunks.clear();
+    this.visible.clear();
+    this.needsRefresh = true;
+  }
+
+  // Chunks of the other realm stay cached, so switching back and forth never re-bakes
+  setRealm(realm: Realm): void {
+    if (realm === this.realm) return;
+    this.realm = realm;
+    this.needsRefresh = true;
+  }
+
+  /**
+   * Mark the chunk holding a tile for re-baking in both realms (bridges, cut bushes, broken rocks)
+   */
+  invalidateTile(tileX: number, tileY: number): void {
+    const chunkX = Math.floor(tileX / TILE_CHUNK_SIZE);
+    const chunkY = Math.floor(tileY / TILE_CHUNK_SIZE);
+
+    for (const realm of ['dayrealm', 'eclipse'] as const) {
+      const chunk = this.chunks.get(this.chunkKey(realm, chunkX, chunkY));
+      if (chunk) chunk.dirty = true;
+    }
+    this.needsRefresh = true;
+  }
+
+  /**
+   * Show the chunks under the camera. Costs a range check per frame unless the view
+   * crossed a chunk edge, a tile changed or chunks ahead of the camera are still being baked.
+   */
+  update(camera: Phaser.Cameras.Scene2D.Camera): void {
+    const view = this.getChunkRange(camera, 0);
+    const viewKey = `${this.realm}:${view.left},${view.top},${view.right},${view.bottom}`;
+    if (viewKey === this.lastView && !this.needsRefresh) return;
+
+    this.lastView = viewKey;
+    this.needsRefresh = false;
+
+    const nowVisible = new Set<string>();
+    this.forEachChunk(view, (chunkX, chunkY) => {
+      const chunk = this.getChunk(chunkX, chunkY);
+      chunk.texture.setVisible(true);
+      nowVisible.add(this.chunkKey(this.realm, chunkX, chunkY));
+    });
+
+    this.visible.forEach(key => {
+      if (!nowVisible.has(key)) this.chunks.get(key)?.texture.setVisible(false);
+    });
+    this.visible = nowVisible;
+
+    // Bake one chunk ahead per frame so panning never has to bake a whole row at once
+    const prefetch = this.getChunkRange(camera, this.PREFETCH_MARGIN);
+    let baked = false;
+    this.forEachChunk(prefetch, (chunkX, chunkY) => {
+      const chunk = this.chunks.get(this.chunkKey(this.realm, chunkX, chunkY));
+      if (chunk && !chunk.dirty) return;
+      if (baked) {
+        this.needsRefresh = true;
+        return;
+      }
+      this.getChunk(chunkX, chunkY).texture.setVisible(false);
+      baked = true;
+    });
+
+    this.evictDistantChunks(this.getChunkRange(camera, this.KEEP_MARGIN));
+  }
+
+  destroy(): void {
+    this.unsubscribeTileChanged();
+    this.setTiles([]);
+    this.scratch.destroy();
+  }
+
+  private getChunk(chunkX: number, chunkY: number): TileChunk {
+    const key = this.chunkKey(this.realm, chunkX, chunkY);
+    let chunk = this.chunks.get(key);
+
+    if (!chunk) {
+      const texture = this.scene.add.renderTexture(
+        chunkX * this.CHUNK_PIXELS, chunkY * this.CHUNK_PIXELS, this.CHUNK_PIXELS, this.CHUNK_PIXELS
+      );
+      texture.setOrigin(0, 0);
+      texture.setDepth(this.DEPTH);
+      texture.setVisible(false);
+      this.layer.add(texture);
+
+      chunk = { texture, chunkX, chunkY, realm: this.realm, dirty: true };
+      this.chunks.set(key, chunk);
+    }
+
+    if (chunk.dirty) this.bake(chunk);
+    return chunk;
+  }
+
+  private bake(chunk: TileChunk): void {
+    const startX = chunk.chunkX * TILE_CHUNK_SIZE;
+    const startY = chunk.chunkY * TILE_CHUNK_SIZE;
+    const endX = Math.min(this.tiles[0]?.length ?? 0, startX + TILE_CHUNK_SIZE);
+    const endY = Math.min(this.tiles.length, startY + TILE_CHUNK_SIZE);
+    const originX = chunk.chunkX * this.CHUNK_PIXELS;
+    const originY = chunk.chunkY * this.CHUNK_PIXELS;
+    const texture = chunk.texture;
+
+    texture.clear();
+
+    // Ground first: ALTTP-painted tiles are stamped from the tileset cache, the rest drawn flat
+    const stamps: Array<{ key: string; x: number; y: number }> = [];
+    this.scratch.clear();
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tileType = this.getTileType(x, y, chunk.realm);
+        if (!this.shouldRenderTileInLayer(tileType, 'ground')) continue;
+
+        const stamp = this.getAlttpTexture(tileType);
+        if (stamp) {
+          stamps.push({ key: stamp, x: x * TILE_SIZE - originX, y: y * TILE_SIZE - originY });
+        } else {
+          this.renderEnhancedTile(x, y, tileType, 'ground');
+        }
+      }
+    }
+    texture.draw(this.scratch, -originX, -originY);
+
+    if (stamps.length > 0) {
+      texture.beginDraw();
+      stamps.forEach(stamp => texture.batchDrawFrame(stamp.key, undefined, stamp.x, stamp.y));
+      texture.endDraw();
+    }
+
+    // Decorations and details sit on top, with their drop shadows
+    this.scratch.clear();
+    this.renderTileLayer(chunk.realm, startX, startY, endX, endY, 'decorations');
+    this.renderTileLayer(chunk.realm, startX, startY, endX, endY, 'details');
+    texture.draw(this.scratch, -originX, -originY);
+    this.scratch.clear();
+
+    chunk.dirty = false;
+  }
+
+  private evictDistantChunks(keep: ChunkRange): void {
+    for (const [key, chunk] of this.chunks) {
+      const inside = chunk.chunkX >= keep.left && chunk.chunkX <= keep.right &&
+        chunk.chunkY >= keep.top && chunk.chunkY <= keep.bottom;
+      if (inside) continue;
+
+      chunk.texture.destroy();
+      this.chunks.delete(key);
+      this.visible.delete(key);
+    }
+  }
+
+  private getChunkRange(camera: Phaser.Cameras.Scene2D.Camera, margin: number): ChunkRange {
+    const view = camera.worldView;
+    const maxX = Math.ceil((this.tiles[0]?.length ?? 0) / TILE_CHUNK_SIZE) - 1;
+    const maxY = Math.ceil(this.tiles.length / TILE_CHUNK_SIZE) - 1;
+
+    return {
+      left: Math.max(0, Math.floor(view.x / this.CHUNK_PIXELS) - margin),
+      top: Math.max(0, Math.floor(view.y / this.CHUNK_PIXELS) - margin),
+      right: Math.min(maxX, Math.floor((view.x + view.width) / this.CHUNK_PIXELS) + margin),
+      bottom: Math.min(maxY, Math.floor((view.y + view.height) / this.CHUNK_PIXELS) + margin)
+    };
+  }
+
+  private forEachChunk(range: ChunkRange, callback: (chunkX: number, chunkY: number) => void): void {
+    for (let chunkY = range.top; chunkY <= range.bottom; chunkY++) {
+      for (let chunkX = range.left; chunkX <= range.right; chunkX++) {
+        callback(chunkX, chunkY);
+      }
+    }
+  }
+
+  private chunkKey(realm: Realm, chunkX: number, chunkY: number): string {
+    return `${realm}:${chunkX},${chunkY}`;
+  }
+
+  private getTileType(x: number, y: number, realm: Realm): TileType {
+    return TileCollision.getEffectiveTileType(this.tiles[y][x], realm);
+  }
+
+  // The tileset manager's canvases become Phaser textures once, up front
+  private registerAlttpTextures(): void {
+    for (const variantId of Object.values(this.ALTTP_GROUND_TILES)) {
+      const canvas = altttpTilesetManager.getCachedTile(variantId);
+      const key = `alttp_${variantId}`;
+      if (canvas && !this.scene.textures.exists(key)) {
+        this.scene.textures.addCanvas(key, canvas);
+      }
+    }
+  }
+
+  private getAlttpTexture(tileType: TileType): string | null {
+    const variantId = this.ALTTP_GROUND_TILES[tileType];
+    const key = variantId && `alttp_${variantId}`;
+    return key && this.scene.textures.exists(key) ? key : null;
+  }
+
+  private renderTileLayer(realm: Realm, startX: number, startY: number, endX: number, endY: number, layer: TileLayerName): void {
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tileType = this.getTileType(x, y, realm);
+        if (this.shouldRenderTileInLayer(tileType, layer)) {
+          this.renderEnhancedTile(x, y, tileType, layer);
+        }
+      }
+    }
+  }
+
+  private shouldRenderTileInLayer(tileType: TileType, layer: TileLayerName): boolean {
+    const groundTiles = new Set<TileType>([
+      TileType.GRASS, TileType.WATER, TileType.FOREST, TileType.MOUNTAIN,
+      TileType.DESERT, TileType.SNOW, TileType.MARSH, TileType.VOLCANIC,
+      TileType.WALL, TileType.BRIDGE, TileType.PATH, TileType.HOUSE,
+      TileType.GRASS_DARK, TileType.GRASS_LIGHT, TileType.DIRT, TileType.SAND,
+      TileType.STONE, TileType.WATER_DEEP, TileType.WATER_SHALLOW, TileType.COBBLESTONE
+    ]);
+
+    const decorationTiles = new Set<TileType>([
+      TileType.BUSH, TileType.ROCK, TileType.TREE, TileType.TALL_GRASS,
+      TileType.MUSHROOM, TileType.POND, TileType.WOODEN_FENCE
+    ]);
+
+    const detailTiles = new Set<TileType>([
+      TileType.FLOWER, TileType.CHEST, TileType.DOOR, TileType.SHRINE,
+      TileType.STATUE, TileType.FOUNTAIN, TileType.WELL, TileType.SIGN,
+      TileType.TORCH, TileType.LANTERN
+    ]);
+
+    switch (layer) {
+      case 'ground': return groundTiles.has(tileType);
+      case 'decorations': return decorationTiles.has(tileType);
+      case 'details': return detailTiles.has(tileType);
+      default: return false;
+    }
+  }
+
+  private renderEnhancedTile(x: number, y: number, tileType: TileType, layer: TileLayerName): void {
+    const pixelX = x * TILE_SIZE;
+    const pixelY = y * TILE_SIZE;
+    const baseColor = this.getTileColor(tileType);
+    
+    // Add subtle shadows and highlights for depth
+    const shadowOffset = layer === 'details' ? 1 : 0;
+    if (shadowOffset > 0 && this.shouldHaveShadow(tileType)) {
+      this.scratch.fillStyle(0x000000, 0.2);
+      this.scratch.fillRect(pixelX + shadowOffset, pixelY + shadowOffset, TILE_SIZE, TILE_SIZE);
+    }
+
+    // Render main tile
+    this.scratch.fillStyle(baseColor);
+    this.scratch.fillRect(pixelX, pixelY, TILE_SIZE, TILE_SIZE);
+    
+    // Add tile-specific visual enhancements
+    this.addTileDetails(x, y, tileType, pixelX, pixelY);
+  }
+
+  private shouldHaveShadow(tileType: TileType): boolean {
+    const shadowTiles = new Set<TileType>([
+      TileType.CHEST, TileType.STATUE, TileType.FOUNTAIN, TileType.WELL,
+      TileType.TORCH, TileType.LANTERN, TileType.TREE, TileType.ROCK
+    ]);
+    return shadowTiles.has(tileType);
+  }
+
+  private addTileDetails(x: number, y: number, tileType: TileType, pixelX: number, pixelY: number): void {
+    const size = TILE_SIZE;
+    const halfSize = size / 2;
+    const quarterSize = size / 4;
+
+    switch (tileType) {
+      case TileType.WATER:
+      case TileType.WATER_DEEP:
+        // Add water shimmer effect
+        this.scratch.fillStyle(0x4A7BCA, 0.3);
+        this.scratch.fillRect(pixelX + 2, pixelY + 2, size - 4, 2);
+        this.scratch.fillRect(pixelX + 4, pixelY + 8, size - 8, 2);
+        break;
+
+      case TileType.GRASS:
+        // Add grass texture variation
+        const grassVariant = (x + y) % 3;
+        if (grassVariant === 0) {
+          this.scratch.fillStyle(0x5BA052, 0.4);
+          this.scratch.fillRect(pixelX + 1, pixelY + 12, 3, 2);
+          this.scratch.fillRect(pixelX + 8, pixelY + 10, 2, 3);
+        }
+        break;
+
+      case TileType.CHEST:
+        // Enhanced chest with highlight
+        this.scratch.fillStyle(0xFFD700, 0.8);
+        this.scratch.fillRect(pixelX + quarterSize, pixelY + quarterSize, halfSize, halfSize);
+        this.scratch.fillStyle(0xFFFFAA);
+        this.scratch.fillRect(pixelX + quarterSize + 2, pixelY + quarterSize + 2, 4, 2);
+        break;
+
+      case TileType.FLOWER:
+        // Multi-colored flower
+        const flowerHue = ((x * 7 + y * 13) % 6);
+        const flowerColors = [0xFF69B4, 0xFF6B6B, 0x4ECDC4, 0x45B7D1, 0xFFA07A, 0x98D8C8];
+        this.scratch.fillStyle(flowerColors[flowerHue]);
+        this.scratch.fillCircle(pixelX + halfSize, pixelY + halfSize, 3);
+        break;
+
+      case TileType.TORCH:
+        // Animated torch flame effect
+        this.scratch.fillStyle(0xFF6B47);
+        this.scratch.fillRect(pixelX + 6, pixelY + 2, 4, 8);
+        this.scratch.fillStyle(0xFFD700, 0.7);
+        this.scratch.fillRect(pixelX + 7, pixelY + 3, 2, 4);
+        break;
+
+      case TileType.BUSH:
+        // Layered bush with depth
+        this.scratch.fillStyle(0x2D5B2D, 0.8);
+        this.scratch.fillCircle(pixelX + halfSize, pixelY + halfSize + 2, 6);
+        this.scratch.fillStyle(0x4A8B3B, 0.6);
+        this.scratch.fillCircle(pixelX + halfSize - 2, pixelY + halfSize, 4);
+        break;
+
+      case TileType.ROCK:
+        // Multi-tone rock
+        this.scratch.fillStyle(0x555555);
+        this.scratch.fillRect(pixelX + 2, pixelY + 4, 12, 10);
+        this.scratch.fillStyle(0x777777);
+        this.scratch.fillRect(pixelX + 3, pixelY + 5, 6, 6);
+        break;
+    }
+  }
+
+  private getTileColor(tileType: TileType): number {
+    // Use enhanced 16-bit color palette
+    switch (tileType) {
+      // Base terrain - rich, vibrant colors
+      case TileType.GRASS: return 0x4A8B3B;
+      case TileType.WATER: return 0x1E5BB8;
+      case TileType.FOREST: return 0x2D5B2D;
+      case TileType.MOUNTAIN: return 0x6B5B73;
+      case TileType.DESERT: return 0xE6C679;
+      case TileType.SNOW: return 0xE8F4F8;
+      case TileType.MARSH: return 0x5A7C47;
+      case TileType.VOLCANIC: return 0x8B2635;
+      
+      // Structures - earth tones
+      case TileType.WALL: return 0x4A4A52;
+      case TileType.DOOR: return 0x8B5A2B;
+      case TileType.BRIDGE: return 0xA67C52;
+      case TileType.PATH: return 0xB8A082;
+      case TileType.HOUSE: return 0x7C5A3A;
+      case TileType.SHRINE: return 0x6B4A8B;
+      
+      // Interactive objects
+      case TileType.CHEST: return 0xD49C3D;
+      case TileType.FLOWER: return 0xE84A5F;
+      
+      // Enhanced environmental details
+      case TileType.BUSH: return 0x3A6B2D;
+      case TileType.ROCK: return 0x7A7A82;
+      case TileType.TREE: return 0x2D3D2D;
+      case TileType.TALL_GRASS: return 0x5BA052;
+      case TileType.MUSHROOM: return 0xB85A3A;
+      case TileType.POND: return 0x4A8BCA;
+      case TileType.STONE_WALL: return 0x5A5A63;
+      case TileType.WOODEN_FENCE: return 0x9C6B39;
+      case TileType.DIRT_PATH: return 0xA68B6B;
+      case TileType.COBBLESTONE: return 0x6B6B73;
+      
+      // Decorative elements
+      case TileType.STATUE: return 0x7A7A8B;
+      case TileType.FOUNTAIN: return 0x5A8BCA;
+      case TileType.WELL: return 0x5A5A63;
+      case TileType.SIGN: return 0x8B6B3A;
+      case TileType.TORCH: return 0xD49C3D;
+      case TileType.LANTERN: return 0xE6B55C;
+      
+      // Ground variations
+      case TileType.GRASS_DARK: return 0x3A6B2D;
+      case TileType.GRASS_LIGHT: return 0x6BAD5A;
+      case TileType.DIRT: return 0x8B6B4A;
+      case TileType.SAND: return 0xE6C679;
+      case TileType.STONE: return 0x6B6B73;
+      
+      // Water variations
+      case TileType.WATER_DEEP: return 0x1A4A9C;
+      case TileType.WATER_SHALLOW: return 0x4A7BCA;
+      case TileType.WATERFALL: return 0x7ABFFF;
+      
+      default: return 0x4A8B3B;
+    }
+  }
+}
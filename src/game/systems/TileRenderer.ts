@@ -623,7 +623,8 @@ export class TileRenderer {
   addEnvironmentalDetails(
     tileMap: ALTTPTileMap,
     region: string,
-    density: number = 0.1
+    density: number = 0.1,
+    random: () => number = Math.random
   ): void {
     const width = tileMap.width;
     const height = tileMap.height;
@@ -633,14 +634,14 @@ export class TileRenderer {
     
     // Add region-specific environmental details
     for (let attempts = 0; attempts < width * height * density; attempts++) {
-      const x = Math.floor(Math.random() * width);
-      const y = Math.floor(Math.random() * height);
+      const x = Math.floor(random() * width);
+      const y = Math.floor(random() * height);
       
       // Skip if tile already occupied
       if (decorLayer.tiles[y][x]) continue;
       
       // Add appropriate decoration based on region and surrounding context
-      const decorationId = this.selectEnvironmentalDecoration(region, x, y, tileMap);
+      const decorationId = this.selectEnvironmentalDecoration(region, x, y, tileMap, random);
       if (decorationId) {
         const variant = altttpTilesetManager.getTileVariant(decorationId);
         if (variant) {
@@ -664,7 +665,8 @@ export class TileRenderer {
     region: string,
     x: number,
     y: number,
-    tileMap: ALTTPTileMap
+    tileMap: ALTTPTileMap,
+    random: () => number
   ): string | null {
     const groundLayer = tileMap.layers.get('ground');
     if (!groundLayer || !groundLayer.tiles[y] || !groundLayer.tiles[y][x]) return null;
@@ -691,7 +693,7 @@ export class TileRenderer {
     }
     
     return decorationOptions.length > 0 
-      ? decorationOptions[Math.floor(Math.random() * decorationOptions.length)]
+      ? decorationOptions[Math.floor(random() * decorationOptions.length)]
       : null;
   }
 
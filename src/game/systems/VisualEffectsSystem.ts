@@ -36,6 +36,7 @@ export enum ParticleType {
 
 export enum TransitionType {
   FADE_TO_BLACK = 'fade_to_black',
+  FADE_FROM_BLACK = 'fade_from_black',
   DIAMOND_WIPE = 'diamond_wipe',
   CIRCLE_EXPAND = 'circle_expand',
   SLICE_LEFT = 'slice_left',
@@ -655,6 +656,9 @@ export class VisualEffectsSystem {
     this.transitionDuration = duration;
     this.transitionCallback = onComplete || null;
     
+    // Draw the first frame now so chained transitions never flash a cleared screen
+    this.renderTransition(type, 0);
+    
     console.log(`Starting transition: ${type} for ${duration}ms`);
   }
 
@@ -667,14 +671,16 @@ export class VisualEffectsSystem {
     // Render transition based on type
     this.renderTransition(this.currentTransition, progress);
     
-    // Complete transition
+    // Complete transition - reset state before the callback so it can chain another transition
     if (progress >= 1) {
+      const callback = this.transitionCallback;
       this.transitionActive = false;
-      if (this.transitionCallback) {
-        this.transitionCallback();
-      }
+      this.transitionCallback = null;
       this.transitionGraphics.clear();
       this.currentTransition = null;
+      if (callback) {
+        callback();
+      }
     }
   }
 
@@ -693,6 +699,11 @@ export class VisualEffectsSystem {
         this.transitionGraphics.fillRect(0, 0, width, height);
         break;
         
+      case TransitionType.FADE_FROM_BLACK:
+        this.transitionGraphics.fillStyle(0x000000, 1 - progress);
+        this.transitionGraphics.fillRect(0, 0, width, height);
+        break;
+        
       case TransitionType.DIAMOND_WIPE:
         const maxRadius = Math.sqrt(width * width + height * height);
         const currentRadius = maxRadius * (1 - progress);
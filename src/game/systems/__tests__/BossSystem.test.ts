@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BossSystem } from '../BossSystem';
+import { CombatSystem } from '../CombatSystem';
+import { SaveSystem } from '../SaveSystem';
+import { HealthProgressionSystem } from '../HealthProgressionSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { BOSSES, BOSS_ARENAS, BOSS_INTRO_DURATION } from '@shared/constants';
+import type { BossComponent, HealthComponent, PlayerComponent, TransformComponent } from '@shared/types';
+
+describe('BossSystem', () => {
+  let world: World;
+  let combat: CombatSystem;
+  let bossSystem: BossSystem;
+  let playerId: string;
+  let events: Array<{ type: string; payload: any }>;
+  let unsubscribers: Array<() => void>;
+
+  const arena = BOSS_ARENAS[0];
+  const garruk = BOSSES[arena.bossId];
+
+  const enterMap = (mapId: string) => {
+    emitTypedEvent(createEvent.mapLoaded(mapId, 'test.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  const step = (seconds: number, frame = 1 / 60) => {
+    for (let elapsed = 0; elapsed < seconds; elapsed += frame) {
+      world.getSystems().forEach(system => system.update(frame));
+    }
+  };
+
+  const bossEntityId = () => world.getEntitiesWithComponents('boss')[0]?.id;
+
+  const enterArena = () => {
+    const transform = world.getComponent<TransformComponent>(playerId, 'transform')!;
+    transform.position = { x: arena.bounds.x + arena.bounds.width / 2, y: arena.bounds.y + arena.bounds.height - 8 };
+    step(1 / 60);
+  };
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new SaveSystem(new MemorySaveStorage()));
+    world.addSystem(new HealthProgressionSystem());
+    combat = new CombatSystem();
+    world.addSystem(combat);
+    bossSystem = new BossSystem();
+    world.addSystem(bossSystem);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 160, y: 220 }).id;
+
+    events = [];
+    unsubscribers = [
+      GAME_EVENTS.BOSS_ENCOUNTER_START,
+      GAME_EVENTS.BOSS_PHASE_CHANGED,
+      GAME_EVENTS.BOSS_DEFEATED,
+      GAME_EVENTS.BOSS_REWARD_GRANTED,
+      GAME_EVENTS.ARENA_SEALED,
+      GAME_EVENTS.ARENA_UNSEALED
+    ].map(type => gameEvents.on(type, (event: any) => events.push({ type, payload: event.payload })));
+
+    enterMap(arena.map);
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should stay dormant until the player enters the arena, then seal the doors', () => {
+    step(1);
+    expect(world.getComponent<BossComponent>(bossEntityId()!, 'boss')!.state).toBe('dormant');
+    expect(bossSystem.isArenaSealed(arena.id)).toBe(false);
+
+    enterArena();
+
+    expect(bossSystem.isArenaSealed(arena.id)).toBe(true);
+    expect(world.getEntitiesWithComponents('collider').length).toBeGreaterThan(2);
+    expect(events.map(event => event.type)).toEqual([GAME_EVENTS.ARENA_SEALED, GAME_EVENTS.BOSS_ENCOUNTER_START]);
+    expect(events[1].payload).toMatchObject({ bossId: garruk.id, health: garruk.health, maxHealth: garruk.health });
+  });
+
+  it('should advance phases at health thresholds', () => {
+    enterArena();
+    step(BOSS_INTRO_DURATION / 1000 + 0.1);
+    const bossId = bossEntityId()!;
+
+    combat.forceDamage(bossId, Math.ceil(garruk.health * (1 - garruk.phases[1].healthThreshold)));
+
+    const boss = world.getComponent<BossComponent>(bossId, 'boss')!;
+    expect(boss.phase).toBe(1);
+    expect(boss.state).toBe('transition');
+    expect(world.getComponent<HealthComponent>(bossId, 'health')!.invulnerable).toBe(true);
+    expect(events.find(event => event.type === GAME_EVENTS.BOSS_PHASE_CHANGED)!.payload)
+      .toMatchObject({ phase: 1, phaseName: garruk.phases[1].name });
+  });
+
+  it('should report half points to the boss health bar', () => {
+    enterArena();
+    step(BOSS_INTRO_DURATION / 1000 + 0.1);
+    const reports: any[] = [];
+    unsubscribers.push(gameEvents.on(GAME_EVENTS.BOSS_HEALTH_CHANGED, (event: any) => reports.push(event.payload)));
+
+    combat.forceDamage(bossEntityId()!, 0.5);
+
+    expect(reports).toEqual([expect.objectContaining({ health: garruk.health - 0.5, maxHealth: garruk.health })]);
+  });
+
+  it('should unseal the arena, grant rewards and stay defeated on return', () => {
+    enterArena();
+    const bossId = bossEntityId()!;
+    const player = world.getComponent<PlayerComponent>(playerId, 'player')!;
+    const health = world.getComponent<HealthComponent>(playerId, 'health')!;
+    const shardsBefore = player.inventory.aether_shards;
+    const maxHealthBefore = health.maximum;
+
+    combat.forceDamage(bossId, garruk.health, playerId);
+
+    expect(world.getEntity(bossId)).toBeUndefined();
+    expect(bossSystem.isArenaSealed(arena.id)).toBe(false);
+    expect(player.inventory.aether_shards).toBe(shardsBefore + 1);
+    expect(health.maximum).toBe(maxHealthBefore + 2);
+    expect(health.current).toBe(health.maximum);
+    expect(events.find(event => event.type === GAME_EVENTS.BOSS_REWARD_GRANTED)!.payload)
+      .toMatchObject({ bossId: garruk.id, aetherShards: 1, heartContainers: 1 });
+
+    enterMap('hearthmere_shrine');
+    enterMap(arena.map);
+    expect(bossEntityId()).toBeUndefined();
+  });
+});
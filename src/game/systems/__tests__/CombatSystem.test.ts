@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CombatSystem } from '../CombatSystem';
+import { EnemyAISystem } from '../EnemyAISystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import { ENEMIES } from '@shared/constants';
+import type { EnemyComponent, HealthComponent } from '@shared/types';
+
+describe('CombatSystem', () => {
+  let world: World;
+  let combat: CombatSystem;
+  let playerId: string;
+  let unsubscribers: Array<() => void>;
+
+  const PLAYER_START = { x: 200, y: 200 };
+
+  const spawnEnemy = (x: number, y: number) =>
+    ECSUtils.createEnemyEntity(world, ENEMIES.sprig_stalker, { x: PLAYER_START.x + x, y: PLAYER_START.y + y }).id;
+
+  const health = (entityId: string) => world.getComponent<HealthComponent>(entityId, 'health')!.current;
+
+  const sword = (type: 'press' | 'release') => {
+    gameEvents.emit({ type: `combat.sword.${type}`, payload: { attackerId: playerId }, timestamp: Date.now() });
+  };
+
+  const record = (eventType: string) => {
+    const payloads: any[] = [];
+    unsubscribers.push(gameEvents.on(eventType, (event: any) => payloads.push(event.payload)));
+    return payloads;
+  };
+
+  beforeEach(() => {
+    world = new World();
+    combat = new CombatSystem();
+    world.addSystem(combat);
+    world.addSystem(new EnemyAISystem());
+    playerId = ECSUtils.createPlayerEntity(world, PLAYER_START).id;
+    unsubscribers = [];
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should chain three swings inside the combo window and then restart', () => {
+    const attacks = record(GAME_EVENTS.PLAYER_ATTACK_START);
+
+    for (let swing = 0; swing < 3; swing++) {
+      sword('press');
+      sword('release');
+      combat.update(0.3);
+    }
+    combat.update(0.5);
+    sword('press');
+
+    expect(attacks.map(attack => attack.comboStep)).toEqual([1, 2, 3, 1]);
+  });
+
+  it('should land every swing of a chain on the same enemy', () => {
+    const serpent = ECSUtils.createEnemyEntity(world, ENEMIES.bog_serpent, { x: PLAYER_START.x, y: PLAYER_START.y + 16 }).id;
+
+    for (let swing = 0; swing < 3; swing++) {
+      sword('press');
+      sword('release');
+      combat.update(0.3);
+    }
+
+    // 1 + 1 + the finisher's 2
+    expect(health(serpent)).toBe(ENEMIES.bog_serpent.health - 4);
+  });
+
+  it('should halve a sword hit on a resistant enemy instead of rounding it back up', () => {
+    const sentinel = ECSUtils.createEnemyEntity(world, ENEMIES.stone_sentinel, { x: PLAYER_START.x, y: PLAYER_START.y + 16 }).id;
+
+    sword('press');
+    sword('release');
+    combat.update(0.3);
+    expect(health(sentinel)).toBe(ENEMIES.stone_sentinel.health - 0.5);
+
+    combat.update(0.5);
+    sword('press');
+    sword('release');
+    combat.update(0.3);
+    expect(health(sentinel)).toBe(ENEMIES.stone_sentinel.health - 1);
+  });
+
+  it('should round forced damage to the same half points as hits', () => {
+    const sentinel = ECSUtils.createEnemyEntity(world, ENEMIES.stone_sentinel, { x: PLAYER_START.x, y: PLAYER_START.y + 16 }).id;
+
+    combat.forceDamage(sentinel, 0.2);
+    expect(health(sentinel)).toBe(ENEMIES.stone_sentinel.health - 0.5);
+
+    combat.forceDamage(sentinel, 1.3);
+    expect(health(sentinel)).toBe(ENEMIES.stone_sentinel.health - 2);
+  });
+
+  it('should not hurt a burrowed enemy whose earlier i-frames expire in the same tick', () => {
+    const wraith = ECSUtils.createEnemyEntity(world, ENEMIES.sand_wraith, { x: PLAYER_START.x + 128, y: PLAYER_START.y }).id;
+    world.update(1 / 60);
+    expect(world.getComponent<EnemyComponent>(wraith, 'enemy')!.burrowed).toBe(true);
+
+    // CombatSystem runs before EnemyAISystem, so nothing re-asserts invulnerable before the hit lands
+    world.getComponent<HealthComponent>(wraith, 'health')!.invulnerable = false;
+    gameEvents.emit({ type: 'combat.damage', payload: { targetId: wraith, damage: 1, source: playerId }, timestamp: Date.now() });
+    combat.update(1 / 60);
+
+    expect(health(wraith)).toBe(ENEMIES.sand_wraith.health);
+  });
+
+  it('should spin into enemies on every side after a full charge', () => {
+    // Behind the player, outside the first swing's cone
+    const above = spawnEnemy(0, -20);
+    const aboveLeft = spawnEnemy(-16, -16);
+    const hits = record(GAME_EVENTS.COMBAT_HIT_DETECTED);
+
+    sword('press');
+    combat.update(0.3);
+    sword('release');
+    combat.update(0);
+    expect(hits).toHaveLength(0);
+
+    sword('press');
+    combat.update(0.9);
+    sword('release');
+    combat.update(0);
+
+    expect(hits.map(hit => hit.attackType)).toEqual(['spin_attack', 'spin_attack']);
+    expect(hits.map(hit => hit.target).sort()).toEqual([above, aboveLeft].sort());
+  });
+
+  it('should negate and stagger a melee hit that lands inside the parry window', () => {
+    const enemyId = spawnEnemy(12, 0);
+    const parries = record('combat.parried');
+    const strike = () => {
+      gameEvents.emit({
+        type: 'combat.damage',
+        payload: { targetId: playerId, damage: 1, source: enemyId },
+        timestamp: Date.now()
+      });
+      combat.update(0);
+    };
+
+    expect(combat.attemptParry(playerId)).toBe(true);
+    strike();
+
+    expect(health(playerId)).toBe(6);
+    expect(parries).toEqual([expect.objectContaining({ defenderId: playerId, attackerId: enemyId, reflected: false })]);
+    expect(world.getComponent<EnemyComponent>(enemyId, 'enemy')!.state).toBe('stagger');
+
+    // Once the window has closed the same attack lands
+    combat.update(0.25);
+    strike();
+    expect(health(playerId)).toBe(5);
+  });
+
+  it('should stop handling combat input once removed from the world', () => {
+    const attacks = record(GAME_EVENTS.PLAYER_ATTACK_START);
+    world.removeSystem(combat);
+
+    sword('press');
+    gameEvents.emit({ type: 'combat.attack', payload: { attackerId: playerId }, timestamp: Date.now() });
+
+    expect(attacks).toHaveLength(0);
+  });
+});
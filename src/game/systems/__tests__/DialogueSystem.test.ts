@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DialogueSystem } from '../DialogueSystem';
+import { QuestSystem } from '../QuestSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils, EntityBuilder } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import type { PlayerComponent } from '@shared/types';
+
+const dialogueData = {
+  version: '1.0.0',
+  trees: {
+    sage: {
+      start: 'hello',
+      entries: [{ next: 'again', conditions: [{ type: 'flag', key: 'met_sage' }] }],
+      nodes: {
+        hello: { text: 'Greetings.', actions: [{ type: 'setFlag', key: 'met_sage' }], next: 'ask' },
+        again: { text: 'You return.', next: 'ask' },
+        ask: {
+          text: 'Need something?',
+          choices: [
+            { text: 'A gift?', next: 'gift', conditions: [{ type: 'flag', key: 'sage_gift', value: false }] },
+            { text: 'A quest?', actions: [{ type: 'startQuest', key: 'eclipse_discovery' }] },
+            { text: 'Bye.' }
+          ]
+        },
+        gift: {
+          text: 'Take this.',
+          actions: [{ type: 'giveItem', key: 'rumor_cards', value: 2 }, { type: 'setFlag', key: 'sage_gift' }],
+          next: 'ask'
+        }
+      }
+    }
+  }
+};
+
+describe('DialogueSystem', () => {
+  let world: World;
+  let saveSystem: SaveSystem;
+  let questSystem: QuestSystem;
+  let playerId: string;
+  let sageId: string;
+  let lines: Array<{ nodeId: string; choices: string[] }>;
+  let ended: string[];
+  let unsubscribers: Array<() => void>;
+
+  const talk = () => emitTypedEvent(createEvent.interactionStart(sageId, 'sage', 'Sage'));
+  const choose = (index: number) => emitTypedEvent(createEvent.dialogueChoice(index));
+
+  beforeEach(() => {
+    world = new World();
+    saveSystem = new SaveSystem(new MemorySaveStorage());
+    questSystem = new QuestSystem();
+    world.addSystem(saveSystem);
+    world.addSystem(questSystem);
+    world.addSystem(new DialogueSystem(dialogueData));
+    playerId = ECSUtils.createPlayerEntity(world, { x: 0, y: 0 }).id;
+    sageId = EntityBuilder.create(world)
+      .with({
+        type: 'npc',
+        entityId: '',
+        name: 'Sage',
+        npcId: 'sage',
+        dialogueTree: 'sage',
+        dialogue: [],
+        currentDialogue: 0,
+        questGiver: true,
+        shopkeeper: false,
+        interactable: true
+      })
+      .build().id;
+
+    lines = [];
+    ended = [];
+    unsubscribers = [
+      gameEvents.on(GAME_EVENTS.DIALOGUE_START, (event: any) => lines.push(event.payload)),
+      gameEvents.on(GAME_EVENTS.INTERACTION_END, (event: any) => ended.push(event.payload.npcId))
+    ];
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should walk nodes, filter choices by condition and run their actions', () => {
+    talk();
+    choose(0);
+    expect(lines.map(line => line.nodeId)).toEqual(['hello', 'ask']);
+    expect(lines[1].choices).toEqual(['A gift?', 'A quest?', 'Bye.']);
+    expect(saveSystem.getFlag('met_sage')).toBe(true);
+
+    choose(0);
+    choose(0);
+    const player = world.getComponent<PlayerComponent>(playerId, 'player')!;
+    expect(player.inventory.rumor_cards).toBe(2);
+    expect(lines[3].choices).toEqual(['A quest?', 'Bye.']);
+
+    choose(1);
+    expect(ended).toEqual(['sage']);
+  });
+
+  it('should pick the entry node from world state and apply quest actions', () => {
+    saveSystem.setFlag('met_sage');
+    talk();
+    expect(lines[0].nodeId).toBe('again');
+
+    choose(0);
+    choose(1);
+    expect(questSystem.getActiveQuest()!.id).toBe('eclipse_discovery');
+    expect(ended).toEqual(['sage']);
+  });
+
+  it('should ignore new interactions while a conversation is open', () => {
+    talk();
+    talk();
+    expect(lines).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { EclipseOverlaySystem } from '../EclipseOverlaySystem';
+import { PortalSystem } from '../PortalSystem';
+import { World } from '../../ECS';
+import { mapLoader } from '../../utils/MapLoader';
+import { TileCollision } from '../../utils/TileCollision';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { TileType } from '@shared/types';
+import type { EnemyComponent, Realm } from '@shared/types';
+import type { WorldTile } from '../../utils/WorldGenerator';
+
+describe('EclipseOverlaySystem', () => {
+  let world: World;
+  let overlays: EclipseOverlaySystem;
+  let portals: PortalSystem;
+  let tiles: WorldTile[][];
+  let changes: number;
+  let unsubscribe: () => void;
+
+  const enterMap = (mapId: string, mapTiles: WorldTile[][], realm: Realm = 'dayrealm') => {
+    tiles = mapTiles;
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: tiles, realm }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded(mapId, `${mapId}.tmx`, 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  const switchRealm = (currentRealm: Realm) => {
+    gameEvents.emit({ type: GAME_EVENTS.REALM_SWITCHED, payload: { currentRealm }, timestamp: Date.now() });
+  };
+
+  const motes = () => world.getEntitiesWithComponents('enemy')
+    .filter(entity => world.getComponent<EnemyComponent>(entity.id, 'enemy')!.species === 'rift_mote');
+
+  beforeAll(async () => {
+    await mapLoader.preloadMap('hearthmere_shrine');
+  });
+
+  beforeEach(() => {
+    world = new World();
+    overlays = new EclipseOverlaySystem();
+    world.addSystem(overlays);
+    portals = new PortalSystem();
+    world.addSystem(portals);
+
+    changes = 0;
+    unsubscribe = gameEvents.on('world.tile.changed', () => changes++);
+
+    enterMap('hearthmere_shrine', mapLoader.getLoadedMap('hearthmere_shrine')!.tiles);
+  });
+
+  afterEach(() => {
+    switchRealm('dayrealm');
+    unsubscribe();
+    world.clear();
+  });
+
+  it('should merge only the authored edits into the shrine during the Eclipse', () => {
+    expect(tiles[6][1].tileType).toBe(TileType.WATER);
+
+    switchRealm('eclipse');
+    expect(tiles[6][1]).toMatchObject({ tileType: TileType.WATER_SHALLOW, walkable: true });
+    expect(tiles[4][19].tileType).toBe(TileType.COBBLESTONE);
+    expect(changes).toBe(3);
+
+    // Untouched water stays water - the global table no longer turns it into bridges
+    expect(TileCollision.getEffectiveTileType(tiles[6][5], 'eclipse')).toBe(TileType.WATER);
+    expect(motes()).toHaveLength(2);
+    expect(portals.getPortalsForMap('hearthmere_shrine').map(portal => portal.id)).toContain('shrine_eclipse_crack');
+
+    switchRealm('dayrealm');
+    expect(tiles[6][1]).toMatchObject({ tileType: TileType.WATER, walkable: false });
+    expect(tiles[4][19].tileType).toBe(TileType.WALL);
+    expect(motes()).toHaveLength(0);
+    expect(portals.getPortalsForMap('hearthmere_shrine').map(portal => portal.id)).not.toContain('shrine_eclipse_crack');
+  });
+
+  it('should apply the overlay when a map is entered during the Eclipse and restore it on leaving', () => {
+    const shrineTiles = tiles;
+    switchRealm('eclipse');
+
+    const field = [[{ tileType: TileType.GRASS, walkable: true }]];
+    enterMap('hearthmere', field, 'eclipse');
+    expect(shrineTiles[6][18].tileType).toBe(TileType.WATER);
+    expect(overlays.isOverlayActive()).toBe(false);
+
+    // Unauthored areas still fall back to the global realm table
+    expect(TileCollision.getEffectiveTileType(field[0][0], 'eclipse')).toBe(TileType.MARSH);
+
+    enterMap('hearthmere_shrine', shrineTiles, 'eclipse');
+    expect(shrineTiles[6][18].tileType).toBe(TileType.WATER_SHALLOW);
+    expect(motes()).toHaveLength(2);
+  });
+
+  it('should not bring back defeated Eclipse enemies until the map is left', () => {
+    switchRealm('eclipse');
+    const [defeated] = motes();
+    gameEvents.emit({ type: GAME_EVENTS.ENEMY_DIED, payload: { entityId: defeated.id, species: 'rift_mote' }, timestamp: Date.now() });
+    world.destroyEntity(defeated.id);
+
+    switchRealm('dayrealm');
+    switchRealm('eclipse');
+    expect(motes()).toHaveLength(1);
+
+    const shrineTiles = tiles;
+    enterMap('hearthmere', [[{ tileType: TileType.GRASS, walkable: true }]], 'eclipse');
+    enterMap('hearthmere_shrine', shrineTiles, 'eclipse');
+    expect(motes()).toHaveLength(2);
+  });
+});
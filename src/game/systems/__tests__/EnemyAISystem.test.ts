@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EnemyAISystem } from '../EnemyAISystem';
+import { CombatSystem } from '../CombatSystem';
+import { ProjectileSystem } from '../ProjectileSystem';
+import { MovementSystem } from '../MovementSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import { ENEMIES, TILE_SIZE } from '@shared/constants';
+import type { EnemyComponent, HealthComponent, ProjectileComponent } from '@shared/types';
+
+describe('EnemyAISystem', () => {
+  let world: World;
+  let aiSystem: EnemyAISystem;
+  let playerId: string;
+
+  const PLAYER_START = { x: TILE_SIZE * 10, y: TILE_SIZE * 10 };
+
+  const spawnEnemy = (species: string, x: number, y: number) =>
+    ECSUtils.createEnemyEntity(world, ENEMIES[species], { x: PLAYER_START.x + x, y: PLAYER_START.y + y }).id;
+
+  const step = (seconds: number, frame = 1 / 60) => {
+    for (let elapsed = 0; elapsed < seconds; elapsed += frame) {
+      world.getSystems().forEach(system => system.update(frame));
+    }
+  };
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new MovementSystem());
+    world.addSystem(new CombatSystem());
+    aiSystem = new EnemyAISystem();
+    world.addSystem(aiSystem);
+    playerId = ECSUtils.createPlayerEntity(world, PLAYER_START).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should aggro when the player enters its aggro radius', () => {
+    const enemyId = spawnEnemy('sprig_stalker', TILE_SIZE * 3, 0);
+    const aggro: any[] = [];
+    const off = gameEvents.on(GAME_EVENTS.ENEMY_AGGRO_START, (event: any) => aggro.push(event.payload));
+
+    step(1 / 60);
+    off();
+
+    expect(aiSystem.getEnemyState(enemyId)).toBe('aggro');
+    expect(aggro[0]).toMatchObject({ entityId: enemyId, species: 'sprig_stalker', targetId: playerId });
+  });
+
+  it('should damage the player with a telegraphed lunge', () => {
+    spawnEnemy('sprig_stalker', TILE_SIZE * 1.5, 0);
+    const playerHealth = world.getComponent<HealthComponent>(playerId, 'health')!;
+
+    step(2);
+
+    expect(playerHealth.current).toBeLessThan(playerHealth.maximum);
+  });
+
+  it('should stagger when hit and die through CombatSystem', () => {
+    const enemyId = spawnEnemy('sprig_stalker', TILE_SIZE * 10, 0);
+    const died: any[] = [];
+    const off = gameEvents.on(GAME_EVENTS.ENEMY_DIED, (event: any) => died.push(event.payload));
+
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: { targetId: enemyId, damage: 1, source: playerId },
+      timestamp: Date.now()
+    });
+    step(1 / 60);
+    expect(world.getComponent<EnemyComponent>(enemyId, 'enemy')!.state).toBe('stagger');
+
+    step(1.1); // let the hit's i-frames run out
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: { targetId: enemyId, damage: ENEMIES.sprig_stalker.health, source: playerId },
+      timestamp: Date.now()
+    });
+    step(1 / 60);
+    off();
+
+    expect(died[0]).toMatchObject({ entityId: enemyId, species: 'sprig_stalker', killerId: playerId });
+    expect(world.getEntity(enemyId)).toBeUndefined();
+  });
+
+  it('should stay untouchable while burrowed after older i-frames run out', () => {
+    const wraithId = spawnEnemy('sand_wraith', TILE_SIZE * 8, 0);
+    const health = world.getComponent<HealthComponent>(wraithId, 'health')!;
+    step(1 / 60);
+    expect(world.getComponent<EnemyComponent>(wraithId, 'enemy')!.burrowed).toBe(true);
+
+    // What CombatSystem does when the i-frames of a hit taken before burrowing expire
+    health.invulnerable = false;
+    step(1 / 60);
+
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: { targetId: wraithId, damage: 1, source: playerId },
+      timestamp: Date.now()
+    });
+    step(1 / 60);
+    expect(health.current).toBe(ENEMIES.sand_wraith.health);
+  });
+
+  it('should have a Stone Sentinel lob a boulder at a player out of slam reach', () => {
+    world.addSystem(new ProjectileSystem());
+    spawnEnemy('stone_sentinel', TILE_SIZE * 4, 0);
+
+    step((ENEMIES.stone_sentinel.windup + 50) / 1000);
+
+    const boulders = world.getEntitiesWithComponents('projectile')
+      .map(entity => world.getComponent<ProjectileComponent>(entity.id, 'projectile')!);
+    expect(boulders.map(boulder => boulder.kind)).toEqual(['sentinel_boulder']);
+    expect(boulders[0].target).toEqual(PLAYER_START);
+  });
+});
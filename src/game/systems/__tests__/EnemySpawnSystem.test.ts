@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EnemySpawnSystem, type EnemySpawnHost } from '../EnemySpawnSystem';
+import { World } from '../../ECS';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { ENEMY_SPAWN, REGIONS, TILE_SIZE, WORLD_HEIGHT, WORLD_WIDTH } from '@shared/constants';
+import { TileType, type EnemyComponent, type Realm, type Rectangle } from '@shared/types';
+
+describe('EnemySpawnSystem', () => {
+  let world: World;
+  let spawner: EnemySpawnSystem;
+  let view: Rectangle;
+  let realm: Realm;
+
+  const crater = REGIONS.find(region => region.name === 'Obsidian Crater')!;
+  const craterView = (): Rectangle => ({
+    x: crater.bounds.x * TILE_SIZE,
+    y: crater.bounds.y * TILE_SIZE,
+    width: 320,
+    height: 240
+  });
+
+  const host: EnemySpawnHost = {
+    getViewBounds: () => view,
+    getCurrentRealm: () => realm
+  };
+
+  const tick = () => spawner.update(ENEMY_SPAWN.CHECK_INTERVAL / 1000);
+
+  const livingSpecies = () => world.getEntitiesWithComponents('enemy')
+    .map(entity => world.getComponent<EnemyComponent>(entity.id, 'enemy')!.species);
+
+  beforeEach(() => {
+    world = new World();
+    spawner = new EnemySpawnSystem(host);
+    world.addSystem(spawner);
+    view = craterView();
+    realm = 'dayrealm';
+
+    const worldTiles = Array.from({ length: WORLD_HEIGHT }, () =>
+      Array.from({ length: WORLD_WIDTH }, () => ({ tileType: TileType.VOLCANIC, walkable: true })));
+    gameEvents.emit({
+      type: 'movement.worldData.update',
+      payload: { worldTiles, realm },
+      timestamp: Date.now()
+    });
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should only populate zones near the camera and respect region caps', () => {
+    tick();
+
+    expect(spawner.getActiveZoneCount()).toBeGreaterThan(0);
+    expect(spawner.getActiveEnemyCount()).toBeGreaterThan(0);
+    expect(spawner.getRegionEnemyCount('Obsidian Crater')).toBeLessThanOrEqual(crater.maxEnemies!);
+    expect(spawner.getRegionEnemyCount('Verdant Lowlands')).toBe(0);
+  });
+
+  it('should only spawn rift motes during the eclipse', () => {
+    tick();
+    expect(livingSpecies()).not.toContain('rift_mote');
+
+    realm = 'eclipse';
+    tick();
+    expect(livingSpecies()).toContain('rift_mote');
+
+    realm = 'dayrealm';
+    tick();
+    expect(livingSpecies()).not.toContain('rift_mote');
+  });
+
+  it('should respawn defeated enemies only after the zone is left and re-entered', () => {
+    tick();
+    const before = spawner.getActiveEnemyCount();
+    const victim = world.getEntitiesWithComponents('enemy')[0];
+
+    world.destroyEntity(victim.id);
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_DIED,
+      payload: { entityId: victim.id, species: 'stone_sentinel', killerId: 'player' },
+      timestamp: Date.now()
+    });
+    tick();
+    expect(spawner.getActiveEnemyCount()).toBe(before - 1);
+
+    view = { x: 0, y: 0, width: 320, height: 240 };
+    tick();
+    expect(world.getEntitiesWithComponents('enemy')).toHaveLength(0);
+
+    view = craterView();
+    tick();
+    expect(spawner.getActiveEnemyCount()).toBe(before);
+  });
+
+  it('should clear enemies when leaving the overworld', () => {
+    tick();
+    emitTypedEvent(createEvent.mapLoaded('hearthmere_shrine', 'test.tmx', 'day', { x: 0, y: 0, width: 0, height: 0 }));
+    tick();
+
+    expect(world.getEntitiesWithComponents('enemy')).toHaveLength(0);
+  });
+});
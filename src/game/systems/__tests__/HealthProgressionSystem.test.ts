@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HealthProgressionSystem } from '../HealthProgressionSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import { HEALTH_PER_HEART, MAX_HEARTS } from '@shared/constants';
+import type { HealthComponent, PlayerComponent } from '@shared/types';
+
+describe('HealthProgressionSystem', () => {
+  let world: World;
+  let progression: HealthProgressionSystem;
+  let saveSystem: SaveSystem;
+  let playerId: string;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+  const health = () => world.getComponent<HealthComponent>(playerId, 'health')!;
+
+  const collectHeartPieces = (count: number) => {
+    player().inventory.heart_pieces += count;
+    gameEvents.emit({ type: 'player.inventory.changed', payload: { inventory: player().inventory }, timestamp: Date.now() });
+  };
+
+  beforeEach(() => {
+    world = new World();
+    progression = new HealthProgressionSystem();
+    saveSystem = new SaveSystem(new MemorySaveStorage());
+    world.addSystem(progression);
+    world.addSystem(saveSystem);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 100, y: 100 }).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should turn four heart pieces into a full heart with a refill', () => {
+    const gained: any[] = [];
+    const healthChanges: any[] = [];
+    const unsubscribers = [
+      gameEvents.on(GAME_EVENTS.HEART_CONTAINER_GAINED, (event: any) => gained.push(event.payload)),
+      gameEvents.on(GAME_EVENTS.PLAYER_HEALTH_CHANGED, (event: any) => healthChanges.push(event.payload))
+    ];
+    health().current = 1;
+
+    collectHeartPieces(3);
+    expect(gained).toHaveLength(0);
+
+    collectHeartPieces(2);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+
+    expect(player().hearts).toBe(4);
+    expect(player().inventory.heart_pieces).toBe(1);
+    expect(health().maximum).toBe(8);
+    expect(health().current).toBe(8);
+    expect(gained).toEqual([expect.objectContaining({ entityId: playerId, hearts: 4, maxHealth: 8, source: 'heart_pieces' })]);
+    expect(healthChanges.at(-1)).toMatchObject({ health: 8, maxHealth: 8 });
+  });
+
+  it('should stop growing at the heart cap', () => {
+    expect(progression.grantHeartContainers(MAX_HEARTS, 'boss')).toBe(MAX_HEARTS - 3);
+    expect(health().maximum).toBe(MAX_HEARTS * HEALTH_PER_HEART);
+
+    // Pieces collected at the cap are kept rather than wasted
+    collectHeartPieces(4);
+    expect(player().hearts).toBe(MAX_HEARTS);
+    expect(player().inventory.heart_pieces).toBe(4);
+    expect(progression.grantHeartContainers(1, 'boss')).toBe(0);
+  });
+
+  it('should restore earned hearts from a save', async () => {
+    progression.grantHeartContainers(2, 'boss');
+    collectHeartPieces(2);
+    await saveSystem.save(1);
+
+    health().maximum = 6;
+    player().hearts = 3;
+    player().inventory.heart_pieces = 0;
+    await saveSystem.load(1);
+
+    expect(player().hearts).toBe(5);
+    expect(health().maximum).toBe(10);
+    expect(player().inventory.heart_pieces).toBe(2);
+  });
+});
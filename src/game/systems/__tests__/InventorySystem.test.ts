@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InventorySystem } from '../InventorySystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import type { PlayerComponent } from '@shared/types';
+
+describe('InventorySystem', () => {
+  let world: World;
+  let inventory: InventorySystem;
+  let playerId: string;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+
+  beforeEach(() => {
+    world = new World();
+    inventory = new InventorySystem();
+    world.addSystem(inventory);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 0, y: 0 }).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should only equip items the player owns', () => {
+    expect(inventory.equipItem(playerId, 'gale_boots')).toBe(false);
+    expect(inventory.equipItem(playerId, 'aether_shards')).toBe(false);
+
+    player().inventory.gale_boots = true;
+    expect(inventory.equipItem(playerId, 'gale_boots')).toBe(true);
+    expect(player().equipment).toEqual({ equipped: 'gale_boots', quickSwap: null });
+  });
+
+  it('should quick-swap the two slots and announce EQUIPMENT_CHANGED', () => {
+    player().inventory.gale_boots = true;
+    inventory.equipItem(playerId, 'gale_boots', 'quickSwap');
+
+    const changes: Array<{ equipped: string | null; quickSwap: string | null }> = [];
+    const unsubscribe = gameEvents.on(GAME_EVENTS.EQUIPMENT_CHANGED, (event: any) => changes.push(event.payload));
+
+    expect(inventory.swapEquipment(playerId)).toBe(true);
+    unsubscribe();
+
+    expect(player().equipment).toEqual({ equipped: 'gale_boots', quickSwap: 'sunflame_lantern' });
+    expect(changes).toEqual([
+      expect.objectContaining({ entityId: playerId, equipped: 'gale_boots', quickSwap: 'sunflame_lantern' })
+    ]);
+  });
+
+  it('should stop listening for equip requests once removed from the world', () => {
+    player().inventory.gale_boots = true;
+    world.removeSystem(inventory);
+
+    gameEvents.emit({ type: 'inventory.equip.item', payload: { playerId, itemType: 'gale_boots' }, timestamp: Date.now() });
+
+    expect(player().equipment.equipped).not.toBe('gale_boots');
+  });
+});
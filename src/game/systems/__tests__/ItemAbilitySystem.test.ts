@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ItemAbilitySystem } from '../ItemAbilitySystem';
+import { MovementSystem } from '../MovementSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents } from '@shared/events';
+import { ITEM_ABILITIES, TILE_SIZE } from '@shared/constants';
+import { TileType, type HealthComponent, type MovementComponent, type PlayerComponent, type TransformComponent } from '@shared/types';
+
+describe('ItemAbilitySystem', () => {
+  let world: World;
+  let abilities: ItemAbilitySystem;
+  let worldTiles: Array<Array<{ tileType: TileType; walkable: boolean }>>;
+  let playerId: string;
+
+  const setTile = (tileX: number, tileY: number, tileType: TileType) => {
+    worldTiles[tileY][tileX] = { tileType, walkable: false };
+  };
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+  const transform = () => world.getComponent<TransformComponent>(playerId, 'transform')!;
+  const movement = () => world.getComponent<MovementComponent>(playerId, 'movement')!;
+
+  beforeEach(() => {
+    world = new World();
+    abilities = new ItemAbilitySystem();
+    world.addSystem(abilities);
+
+    worldTiles = Array.from({ length: 16 }, () =>
+      Array.from({ length: 16 }, () => ({ tileType: TileType.GRASS, walkable: true })));
+    gameEvents.emit({
+      type: 'movement.worldData.update',
+      payload: { worldTiles, realm: 'dayrealm' },
+      timestamp: Date.now()
+    });
+
+    // Player stands at the top-left of tile (4, 4), facing right
+    playerId = ECSUtils.createPlayerEntity(world, { x: 4 * TILE_SIZE + 2, y: 4 * TILE_SIZE + 2 }).id;
+    movement().direction = 'right';
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should dash across a water gap with the Gale Boots', () => {
+    setTile(5, 4, TileType.WATER);
+    player().inventory.gale_boots = true;
+
+    expect(abilities.use(playerId, 'gale_boots')).toBe(true);
+    abilities.update(ITEM_ABILITIES.gale_boots.duration / 1000);
+
+    expect(Math.floor(transform().position.x / TILE_SIZE)).toBeGreaterThanOrEqual(6);
+    expect(abilities.isDashing()).toBe(false);
+  });
+
+  it('should break rocks around the player with the Quake Maul', () => {
+    setTile(5, 4, TileType.ROCK);
+    player().inventory.quake_maul = true;
+
+    const changes: unknown[] = [];
+    const unsubscribe = gameEvents.on('world.tile.changed', (event: any) => changes.push(event.payload));
+
+    expect(abilities.use(playerId, 'quake_maul')).toBe(true);
+    unsubscribe();
+
+    expect(worldTiles[4][5].tileType).toBe(TileType.DIRT);
+    expect(changes).toContainEqual({ tileX: 5, tileY: 4, tileType: TileType.DIRT, previousTileType: TileType.ROCK });
+  });
+
+  it('should block reuse until the cooldown has elapsed', () => {
+    player().inventory.sunflame_lantern = true;
+
+    expect(abilities.use(playerId, 'sunflame_lantern')).toBe(true);
+    expect(abilities.use(playerId, 'sunflame_lantern')).toBe(false);
+    expect(abilities.isLanternLit()).toBe(true);
+
+    abilities.update(ITEM_ABILITIES.sunflame_lantern.cooldown / 1000);
+    expect(abilities.use(playerId, 'sunflame_lantern')).toBe(true);
+    expect(abilities.isLanternLit()).toBe(false);
+  });
+
+  it('should let the Riverfin Vest wearer swim through water', () => {
+    const movementSystem = new MovementSystem();
+    world.addSystem(movementSystem);
+    movementSystem.updateWorldData(worldTiles, 'dayrealm');
+    setTile(5, 4, TileType.WATER);
+
+    movement().velocity = { x: 60, y: 0 };
+    movementSystem.update(0.25);
+    expect(transform().position.x).toBe(4 * TILE_SIZE + 2);
+
+    player().inventory.riverfin_vest = true;
+    movement().velocity = { x: 60, y: 0 };
+    movementSystem.update(0.25);
+    expect(transform().position.x).toBeGreaterThan(4 * TILE_SIZE + 2);
+  });
+
+  it('should keep a diving player invulnerable until the dive ends', () => {
+    setTile(4, 4, TileType.WATER);
+    player().inventory.riverfin_vest = true;
+    const health = world.getComponent<HealthComponent>(playerId, 'health')!;
+
+    expect(abilities.use(playerId, 'riverfin_vest')).toBe(true);
+
+    // What CombatSystem does when the i-frames of a hit taken before diving expire
+    health.invulnerable = false;
+    abilities.update(0.016);
+    expect(health.invulnerable).toBe(true);
+
+    abilities.update(ITEM_ABILITIES.riverfin_vest.duration / 1000);
+    expect(health.invulnerable).toBe(false);
+  });
+});
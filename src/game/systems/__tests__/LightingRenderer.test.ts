@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { LightingRenderer } from '../LightingRenderer';
+import { LightingSystem } from '../LightingSystem';
+import { World, ECSUtils } from '../../ECS';
+import { mapLoader } from '../../utils/MapLoader';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events';
+import { LIGHTING } from '@shared/constants';
+
+describe('LightingRenderer', () => {
+  let world: World;
+  let lighting: LightingSystem;
+  let renderer: LightingRenderer;
+  let graphics: Record<string, ReturnType<typeof vi.fn>>;
+
+  // 10x5 darkness cells in the middle of the shrine
+  const camera = (x: number, y: number) => ({ worldView: { x, y, right: x + 80, bottom: y + 40 } }) as any;
+
+  beforeAll(async () => {
+    await mapLoader.preloadMap('hearthmere_shrine');
+  });
+
+  beforeEach(() => {
+    world = new World();
+    lighting = new LightingSystem();
+    world.addSystem(lighting);
+    ECSUtils.createPlayerEntity(world, { x: 160, y: 160 });
+
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: mapLoader.getLoadedMap('hearthmere_shrine')!.tiles, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('hearthmere_shrine', 'hearthmere_shrine.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+    world.update(0.016);
+
+    graphics = { setDepth: vi.fn(), clear: vi.fn(), fillStyle: vi.fn(), fillRect: vi.fn(), destroy: vi.fn() };
+    renderer = new LightingRenderer({ add: { graphics: () => graphics } } as any, lighting);
+  });
+
+  afterEach(() => {
+    renderer.destroy();
+    world.clear();
+  });
+
+  it('should fill each row of evenly dark cells with one rect', () => {
+    renderer.update(camera(160, 96));
+
+    expect(graphics.fillStyle).toHaveBeenCalledWith(LIGHTING.DARKNESS_COLOR, 10 / 16);
+    expect(graphics.fillRect).toHaveBeenCalledTimes(5);
+    expect(graphics.fillRect).toHaveBeenCalledWith(160, 96, 80, LIGHTING.CELL_SIZE);
+  });
+
+  it('should only redraw when the lights or the cells in view change', () => {
+    renderer.update(camera(162, 98));
+    renderer.update(camera(165, 100));
+    world.update(0.016);
+    renderer.update(camera(162, 98));
+    expect(graphics.clear).toHaveBeenCalledTimes(1);
+
+    renderer.update(camera(170, 98));
+    expect(graphics.clear).toHaveBeenCalledTimes(2);
+
+    gameEvents.emit({ type: 'world.light.toggle', payload: { active: true, radius: 64 }, timestamp: Date.now() });
+    world.update(0.016);
+    renderer.update(camera(170, 98));
+    expect(graphics.clear).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { LightingSystem } from '../LightingSystem';
+import { World, ECSUtils } from '../../ECS';
+import { mapLoader } from '../../utils/MapLoader';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events';
+import { TILE_SIZE, TOWNS } from '@shared/constants';
+import type { TransformComponent, Vector2 } from '@shared/types';
+import type { WorldTile } from '../../utils/WorldGenerator';
+
+describe('LightingSystem', () => {
+  let world: World;
+  let lighting: LightingSystem;
+  let playerId: string;
+
+  const tileCenter = (tileX: number, tileY: number): Vector2 => ({ x: tileX * TILE_SIZE + 8, y: tileY * TILE_SIZE + 8 });
+
+  const enterMap = (mapId: string, tiles: WorldTile[][]) => {
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: tiles, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded(mapId, `${mapId}.tmx`, 'day', { x: 0, y: 0, width: 320, height: 240 }));
+    world.update(0.016);
+  };
+
+  beforeAll(async () => {
+    await mapLoader.preloadMap('hearthmere_shrine');
+  });
+
+  beforeEach(() => {
+    world = new World();
+    lighting = new LightingSystem();
+    world.addSystem(lighting);
+    playerId = ECSUtils.createPlayerEntity(world, tileCenter(10, 3)).id;
+
+    enterMap('hearthmere_shrine', mapLoader.getLoadedMap('hearthmere_shrine')!.tiles);
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should take ambient darkness from the map, or from the region on the overworld', () => {
+    expect(lighting.getAmbientDarkness(tileCenter(10, 3))).toBe(0.6);
+    expect(lighting.isLit(tileCenter(10, 3))).toBe(false);
+
+    enterMap('hearthmere', [[]]);
+    expect(lighting.isLit({ x: TOWNS.HEARTHMERE.x * TILE_SIZE, y: TOWNS.HEARTHMERE.y * TILE_SIZE })).toBe(true);
+    expect(lighting.getAmbientDarkness({ x: 40 * TILE_SIZE, y: 60 * TILE_SIZE })).toBe(0.35);
+  });
+
+  it('should light a kindled torch, but not through the wall', () => {
+    expect(lighting.isLit(tileCenter(2, 9))).toBe(false);
+
+    gameEvents.emit({ type: 'world.torch.lit', payload: { tileX: 2, tileY: 11, mapId: 'hearthmere_shrine' }, timestamp: Date.now() });
+    world.update(0.016);
+
+    expect(lighting.getLights()).toHaveLength(1);
+    expect(lighting.isLit(tileCenter(2, 9))).toBe(true);
+    expect(lighting.isLit(tileCenter(6, 11))).toBe(true);
+
+    // Same distance, but the wall on row 8 stands between
+    expect(lighting.isLit(tileCenter(2, 7))).toBe(false);
+  });
+
+  it('should carry the Sunflame Lantern light with the player', () => {
+    gameEvents.emit({ type: 'world.light.toggle', payload: { active: true, radius: 64 }, timestamp: Date.now() });
+    world.update(0.016);
+    expect(lighting.isLit(tileCenter(12, 3))).toBe(true);
+
+    world.getComponent<TransformComponent>(playerId, 'transform')!.position = tileCenter(16, 12);
+    world.update(0.016);
+    expect(lighting.isLit(tileCenter(12, 3))).toBe(false);
+    expect(lighting.getLightLevel(tileCenter(16, 12))).toBe(1);
+
+    gameEvents.emit({ type: 'world.light.toggle', payload: { active: false, radius: 64 }, timestamp: Date.now() });
+    world.update(0.016);
+    expect(lighting.isLit(tileCenter(16, 12))).toBe(false);
+  });
+
+  it('should centre the lantern on the player collider and only change the revision when lights move', () => {
+    gameEvents.emit({ type: 'world.light.toggle', payload: { active: true, radius: 64 }, timestamp: Date.now() });
+    world.update(0.016);
+
+    const { x, y } = tileCenter(10, 3);
+    expect(lighting.getLights()[0].position).toEqual({ x: x + 6, y: y + 6 });
+
+    const revision = lighting.getRevision();
+    world.update(0.016);
+    expect(lighting.getRevision()).toBe(revision);
+
+    world.getComponent<TransformComponent>(playerId, 'transform')!.position = tileCenter(11, 3);
+    world.update(0.016);
+    expect(lighting.getRevision()).not.toBe(revision);
+  });
+});
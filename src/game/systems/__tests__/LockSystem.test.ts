@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LockSystem } from '../LockSystem';
+import { LootSystem } from '../LootSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events';
+import { ITEM_HOLD_UP_DURATION } from '@shared/constants';
+import type { ChestComponent, DoorComponent, PlayerComponent } from '@shared/types';
+
+describe('LockSystem', () => {
+  let world: World;
+  let locks: LockSystem;
+  let saveSystem: SaveSystem;
+  let playerId: string;
+  let events: Array<{ type: string; payload: any }>;
+  let unsubscribers: Array<() => void>;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+
+  const enterMap = (mapId: string) => {
+    emitTypedEvent(createEvent.mapLoaded(mapId, 'test.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  const door = (doorId: string) => world.getEntitiesWithComponents('door')
+    .find(entity => world.getComponent<DoorComponent>(entity.id, 'door')!.doorId === doorId)?.id;
+
+  const chest = (chestId: string) => world.getEntitiesWithComponents('chest')
+    .find(entity => world.getComponent<ChestComponent>(entity.id, 'chest')!.chestId === chestId)?.id;
+
+  beforeEach(() => {
+    world = new World();
+    saveSystem = new SaveSystem(new MemorySaveStorage());
+    world.addSystem(saveSystem);
+    world.addSystem(new LootSystem(7));
+    locks = new LockSystem();
+    world.addSystem(locks);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 160, y: 192 }).id;
+
+    events = [];
+    unsubscribers = ['lock.opened', 'lock.denied', 'chest.opened', 'player.item.holdUp']
+      .map(type => gameEvents.on(type, (event: any) => events.push({ type, payload: event.payload })));
+
+    enterMap('hearthmere_shrine');
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should spend a dungeon small key from a chest on its locked door', () => {
+    expect(locks.interact(door('shrine_hall_door')!)).toBe('missing_key');
+    expect(events[0]).toMatchObject({ type: 'lock.denied', payload: { doorId: 'shrine_hall_door', lock: 'small' } });
+
+    expect(locks.interact(chest('shrine_key_chest')!)).toBeNull();
+    expect(player().inventory.keys.rootway).toBe(1);
+    expect(player().itemHoldTimer).toBe(ITEM_HOLD_UP_DURATION);
+    expect(events.map(event => event.type)).toContain('player.item.holdUp');
+
+    world.update(ITEM_HOLD_UP_DURATION / 1000);
+    expect(player().itemHoldTimer).toBe(0);
+
+    expect(locks.interact(door('shrine_hall_door')!)).toBeNull();
+    expect(player().inventory.keys.rootway).toBe(0);
+    expect(door('shrine_hall_door')).toBeUndefined();
+    expect(saveSystem.getFlag('door_open_shrine_hall_door')).toBe(true);
+  });
+
+  it('should gate big chests and big-key doors behind the big key', () => {
+    expect(locks.interact(chest('shrine_big_chest')!)).toBe('missing_key');
+    expect(player().inventory.gale_boots).toBe(false);
+
+    locks.interact(chest('shrine_big_key_chest')!);
+    expect(locks.hasBigKey('rootway')).toBe(true);
+
+    expect(locks.interact(chest('shrine_big_chest')!)).toBeNull();
+    expect(player().inventory.gale_boots).toBe(true);
+
+    // The big key is kept - it opens every big lock in the dungeon
+    expect(locks.interact(door('shrine_altar_door')!)).toBeNull();
+    expect(locks.hasBigKey('rootway')).toBe(true);
+  });
+
+  it('should remember opened chests and doors when the map is re-entered', () => {
+    locks.interact(chest('shrine_key_chest')!);
+    locks.interact(door('shrine_hall_door')!);
+    expect(locks.interact(chest('shrine_offering_chest')!)).toBeNull();
+    expect(world.getEntitiesWithComponents('pickup').length).toBeGreaterThan(0);
+
+    enterMap('rootway_hollow');
+    expect(world.getEntitiesWithComponents('chest')).toHaveLength(0);
+
+    enterMap('hearthmere_shrine');
+    expect(door('shrine_hall_door')).toBeUndefined();
+    expect(door('shrine_altar_door')).toBeDefined();
+    expect(world.getComponent<ChestComponent>(chest('shrine_key_chest')!, 'chest')!.opened).toBe(true);
+    expect(locks.interact(chest('shrine_offering_chest')!)).toBe('already_open');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LootSystem } from '../LootSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { PICKUP_BLINK_TIME, PICKUP_LIFETIME, TILE_SIZE } from '@shared/constants';
+import { TileType, type PickupComponent, type PlayerComponent, type SpriteComponent } from '@shared/types';
+
+describe('LootSystem', () => {
+  let world: World;
+  let loot: LootSystem;
+  let playerId: string;
+
+  const PLAYER_START = { x: 200, y: 200 };
+  const AWAY = { x: 400, y: 400 };
+
+  const pickup = (entityId: string) => world.getComponent<PickupComponent>(entityId, 'pickup');
+
+  beforeEach(() => {
+    world = new World();
+    loot = new LootSystem(1234);
+    world.addSystem(loot);
+    playerId = ECSUtils.createPlayerEntity(world, PLAYER_START).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should replay the same drops from the same seed and follow the GDD weights', () => {
+    const rollKinds = (seed: number, count: number) => {
+      loot.setSeed(seed);
+      const kinds: string[] = [];
+      for (let i = 0; i < count; i++) {
+        for (const id of loot.dropFrom('enemy_elite', AWAY)) {
+          kinds.push(pickup(id)!.kind);
+          world.destroyEntity(id);
+        }
+      }
+      return kinds;
+    };
+
+    expect(rollKinds(42, 20)).toEqual(rollKinds(42, 20));
+
+    const kinds = rollKinds(7, 1000);
+    const share = (kind: string) => kinds.filter(k => k === kind).length / kinds.length;
+    expect(share('gleam')).toBeCloseTo(0.6, 1);
+    expect(share('charge')).toBeCloseTo(0.2, 1);
+    expect(share('heart')).toBeCloseTo(0.15, 1);
+    expect(share('rumor_card')).toBeCloseTo(0.05, 1);
+  });
+
+  it('should drop from the species table when an enemy dies', () => {
+    const drops: any[] = [];
+    const unsubscribe = gameEvents.on(GAME_EVENTS.ITEM_DROPPED, (event: any) => drops.push(event.payload));
+
+    // Elites always drop twice
+    gameEvents.emit({
+      type: GAME_EVENTS.ENEMY_DIED,
+      payload: { entityId: 'sentinel', species: 'stone_sentinel', killerId: playerId, position: AWAY },
+      timestamp: Date.now()
+    });
+    unsubscribe();
+
+    expect(drops).toHaveLength(2);
+    expect(drops.every(drop => drop.source === 'enemy_elite')).toBe(true);
+    expect(world.getEntitiesWithComponents('pickup')).toHaveLength(2);
+  });
+
+  it('should blink before despawning and pay out when walked over', () => {
+    const lateId = loot.spawnPickup('gleam', 5, AWAY);
+    loot.update((PICKUP_LIFETIME - PICKUP_BLINK_TIME / 2) / 1000);
+    const alphas = new Set<number | undefined>();
+    for (let i = 0; i < 4; i++) {
+      loot.update(0.1);
+      alphas.add(world.getComponent<SpriteComponent>(lateId, 'sprite')!.alpha);
+    }
+    expect(alphas).toEqual(new Set([0.25, 1]));
+
+    loot.update(PICKUP_BLINK_TIME / 1000);
+    expect(world.getEntity(lateId)).toBeUndefined();
+
+    loot.spawnPickup('gleam', 5, { x: PLAYER_START.x + 4, y: PLAYER_START.y });
+    loot.update(0);
+    expect(world.getComponent<PlayerComponent>(playerId, 'player')!.gleam).toBe(5);
+    expect(world.getEntitiesWithComponents('pickup')).toHaveLength(0);
+  });
+
+  it('should cut the bush in front of a sword swing', () => {
+    const worldTiles = Array.from({ length: 32 }, () =>
+      Array.from({ length: 32 }, () => ({ tileType: TileType.GRASS as TileType, walkable: true })));
+    const tileX = Math.floor(PLAYER_START.x / TILE_SIZE) + 1;
+    const tileY = Math.floor(PLAYER_START.y / TILE_SIZE);
+    worldTiles[tileY][tileX] = { tileType: TileType.BUSH, walkable: false };
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles, realm: 'dayrealm' }, timestamp: Date.now() });
+
+    emitTypedEvent(createEvent.playerAttackStart(playerId, PLAYER_START, 'left', 'sword', 1));
+    expect(worldTiles[tileY][tileX].tileType).toBe(TileType.BUSH);
+
+    emitTypedEvent(createEvent.playerAttackStart(playerId, PLAYER_START, 'right', 'sword', 1));
+    expect(worldTiles[tileY][tileX]).toEqual({ tileType: TileType.GRASS, walkable: true });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PlayerControllerSystem } from '../PlayerControllerSystem';
+import { CombatSystem } from '../CombatSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents } from '@shared/events';
+import { PLAYER_SPEED, ROLL_DURATION, SPRINT_MULTIPLIER, STAMINA } from '@shared/constants';
+import type { HealthComponent, MovementComponent, PlayerComponent } from '@shared/types';
+
+describe('PlayerControllerSystem', () => {
+  let world: World;
+  let controller: PlayerControllerSystem;
+  let playerId: string;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+  const movement = () => world.getComponent<MovementComponent>(playerId, 'movement')!;
+
+  // InputSystem resets walking velocity every frame before the controller runs
+  const walkRight = () => {
+    movement().velocity = { x: PLAYER_SPEED, y: 0 };
+  };
+
+  beforeEach(() => {
+    world = new World();
+    controller = new PlayerControllerSystem();
+    world.addSystem(controller);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 100, y: 100 }).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should speed up and drain stamina while sprinting', () => {
+    controller.setSprinting(playerId, true);
+    walkRight();
+    controller.update(1);
+
+    expect(movement().velocity.x).toBeCloseTo(PLAYER_SPEED * SPRINT_MULTIPLIER);
+    expect(player().movementState).toBe('sprinting');
+    expect(player().stamina).toBe(100 - STAMINA.SPRINT_DRAIN);
+
+    // Regen waits for the delay after the last spend
+    controller.setSprinting(playerId, false);
+    walkRight();
+    controller.update(STAMINA.REGEN_DELAY / 1000);
+    controller.update(1);
+    expect(player().stamina).toBe(100);
+  });
+
+  it('should charge less for a roll with the Gale Boots', () => {
+    expect(controller.startRoll(playerId)).toBe(true);
+    expect(player().stamina).toBe(100 - STAMINA.ROLL_COST);
+
+    controller.update(ROLL_DURATION / 1000);
+    expect(player().movementState).toBe('walking');
+
+    player().stamina = 100;
+    player().inventory.gale_boots = true;
+    controller.startRoll(playerId);
+    expect(player().stamina).toBe(100 - STAMINA.GALE_ROLL_COST);
+  });
+
+  it('should make the player untouchable only at the roll peak', () => {
+    world.addSystem(new CombatSystem());
+    const combat = world.getSystems().find(system => system instanceof CombatSystem)!;
+    const health = world.getComponent<HealthComponent>(playerId, 'health')!;
+
+    const hit = () => {
+      gameEvents.emit({
+        type: 'combat.damage',
+        payload: { targetId: playerId, damage: 1, source: 'test' },
+        timestamp: Date.now()
+      });
+      combat.update(0);
+    };
+
+    controller.startRoll(playerId);
+    controller.update(ROLL_DURATION / 2000);
+    expect(PlayerControllerSystem.isRollInvulnerable(player())).toBe(true);
+    hit();
+    expect(health.current).toBe(6);
+
+    controller.update(ROLL_DURATION / 2000);
+    hit();
+    expect(health.current).toBe(5);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PortalSystem } from '../PortalSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { OVERWORLD_MAP_ID, OVERWORLD_PORTALS } from '@shared/constants';
+import type { PortalComponent } from '@shared/types';
+
+describe('PortalSystem', () => {
+  let world: World;
+  let portalSystem: PortalSystem;
+  let triggered: any[];
+  let offTriggered: () => void;
+
+  const enterMap = (mapId: string) => {
+    emitTypedEvent(createEvent.mapLoaded(mapId, 'test.tmx', 'day', { x: 0, y: 0, width: 0, height: 0 }));
+  };
+
+  const getPortalEntity = (portalId: string) =>
+    world.getEntitiesWithComponents('portal')
+      .find(entity => world.getComponent<PortalComponent>(entity.id, 'portal')!.portalId === portalId)!;
+
+  const enterTrigger = (triggerId: string) => {
+    gameEvents.emit({
+      type: 'collision.trigger.enter',
+      payload: { triggerId, entityId: 'player' },
+      timestamp: Date.now()
+    });
+  };
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new SaveSystem(new MemorySaveStorage()));
+    portalSystem = new PortalSystem();
+    world.addSystem(portalSystem);
+    ECSUtils.createPlayerEntity(world, { x: 0, y: 0 });
+
+    triggered = [];
+    offTriggered = gameEvents.on(GAME_EVENTS.PORTAL_TRIGGERED, (event: any) => triggered.push(event.payload));
+  });
+
+  afterEach(() => {
+    offTriggered();
+    world.clear();
+  });
+
+  it('should spawn trigger colliders for the loaded map', () => {
+    enterMap(OVERWORLD_MAP_ID);
+
+    const portals = world.getEntitiesWithComponents('portal', 'collider', 'transform');
+    expect(portals).toHaveLength(OVERWORLD_PORTALS.length);
+    expect(world.getComponent<any>(portals[0].id, 'collider').trigger).toBe(true);
+  });
+
+  it('should replace portals when another map loads', () => {
+    enterMap(OVERWORLD_MAP_ID);
+    enterMap('hearthmere_shrine');
+
+    const ids = world.getEntitiesWithComponents('portal')
+      .map(entity => world.getComponent<PortalComponent>(entity.id, 'portal')!.portalId);
+    expect(ids).toEqual(['shrine_exit', 'shrine_altar_passage']);
+  });
+
+  it('should emit PORTAL_TRIGGERED once until the next map loads', () => {
+    enterMap(OVERWORLD_MAP_ID);
+    const door = getPortalEntity('hearthmere_shrine_door');
+
+    enterTrigger(door.id);
+    enterTrigger(door.id);
+
+    expect(triggered).toHaveLength(1);
+    expect(triggered[0]).toMatchObject({
+      portalId: 'hearthmere_shrine_door',
+      sourceMap: OVERWORLD_MAP_ID,
+      targetMap: 'hearthmere_shrine',
+      targetSpawn: 'spawn_entrance',
+      transition: 'fade'
+    });
+    expect(portalSystem.isTransitionPending()).toBe(true);
+  });
+
+  it('should keep portals with unmet conditions sealed', () => {
+    enterMap(OVERWORLD_MAP_ID);
+    const door = getPortalEntity('hearthmere_shrine_door');
+    world.getComponent<PortalComponent>(door.id, 'portal')!.conditions = [
+      { type: 'item', key: 'aether_mirror' }
+    ];
+
+    enterTrigger(door.id);
+
+    expect(triggered).toHaveLength(0);
+  });
+});
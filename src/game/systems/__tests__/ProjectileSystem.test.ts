@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ProjectileSystem } from '../ProjectileSystem';
+import { CombatSystem } from '../CombatSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents } from '@shared/events';
+import { ENEMIES, PROJECTILES, TILE_SIZE } from '@shared/constants';
+import { TileType, type HealthComponent, type ProjectileComponent, type TransformComponent } from '@shared/types';
+
+describe('ProjectileSystem', () => {
+  let world: World;
+  let projectiles: ProjectileSystem;
+  let playerId: string;
+  let unsubscribers: Array<() => void>;
+
+  const PLAYER_START = { x: 200, y: 200 };
+
+  const spawnEnemy = (x: number, y: number) =>
+    ECSUtils.createEnemyEntity(world, ENEMIES.bandit_archer, { x: PLAYER_START.x + x, y: PLAYER_START.y + y }).id;
+
+  const positionOf = (entityId: string) => world.getComponent<TransformComponent>(entityId, 'transform')?.position;
+
+  const fly = (seconds: number, step = 1 / 60) => {
+    for (let elapsed = 0; elapsed < seconds; elapsed += step) {
+      world.getSystems().forEach(system => system.update(step));
+    }
+  };
+
+  const recordDamage = () => {
+    const payloads: any[] = [];
+    unsubscribers.push(gameEvents.on('combat.damage', (event: any) => payloads.push(event.payload)));
+    return payloads;
+  };
+
+  beforeEach(() => {
+    world = new World();
+    projectiles = new ProjectileSystem();
+    world.addSystem(projectiles);
+    playerId = ECSUtils.createPlayerEntity(world, PLAYER_START).id;
+    unsubscribers = [];
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should fly enemy arrows through other enemies and into the player', () => {
+    const archerId = spawnEnemy(64, 0);
+    const bystanderId = spawnEnemy(32, 0);
+    const damage = recordDamage();
+
+    projectiles.spawn('bandit_arrow', archerId, positionOf(archerId)!, { x: -1, y: 0 });
+    fly(0.5);
+
+    expect(damage.map(hit => hit.targetId)).toEqual([playerId]);
+    expect(damage[0]).toMatchObject({ source: archerId, type: 'projectile' });
+    expect(damage.map(hit => hit.targetId)).not.toContain(bystanderId);
+  });
+
+  it('should stop straight shots at walls but let them fly over water', () => {
+    const worldTiles = Array.from({ length: 32 }, () =>
+      Array.from({ length: 32 }, () => ({ tileType: TileType.GRASS as TileType, walkable: true })));
+    const tileX = Math.floor(PLAYER_START.x / TILE_SIZE);
+    const tileY = Math.floor(PLAYER_START.y / TILE_SIZE);
+    worldTiles[tileY][tileX + 2] = { tileType: TileType.WATER, walkable: false };
+    worldTiles[tileY][tileX + 5] = { tileType: TileType.WALL, walkable: false };
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles, realm: 'dayrealm' }, timestamp: Date.now() });
+
+    const arrowId = projectiles.spawn('bandit_arrow', playerId, PLAYER_START, { x: 1, y: 0 })!;
+    fly(0.3);
+    expect(positionOf(arrowId)!.x).toBeGreaterThan((tileX + 3) * TILE_SIZE);
+
+    fly(0.3);
+    expect(world.getEntity(arrowId)).toBeUndefined();
+  });
+
+  it('should lob a boulder over a wall and strike only where it lands', () => {
+    const worldTiles = Array.from({ length: 32 }, () =>
+      Array.from({ length: 32 }, () => ({ tileType: TileType.GRASS as TileType, walkable: true })));
+    worldTiles[Math.floor(PLAYER_START.y / TILE_SIZE)][Math.floor(PLAYER_START.x / TILE_SIZE) + 3] = { tileType: TileType.WALL, walkable: false };
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles, realm: 'dayrealm' }, timestamp: Date.now() });
+
+    const sentinelId = ECSUtils.createEnemyEntity(world, ENEMIES.stone_sentinel, { x: PLAYER_START.x + 96, y: PLAYER_START.y }).id;
+    const bystanderId = spawnEnemy(48, 0);
+    const damage = recordDamage();
+
+    const boulderId = projectiles.spawn('sentinel_boulder', sentinelId, positionOf(sentinelId)!, { x: -1, y: 0 }, { target: PLAYER_START })!;
+    fly(0.45);
+    const boulder = world.getComponent<ProjectileComponent>(boulderId, 'projectile')!;
+    expect(boulder.height).toBeGreaterThan(PROJECTILES.sentinel_boulder.arcHeight! / 2);
+    expect(damage).toHaveLength(0);
+
+    fly(0.5);
+    expect(world.getEntity(boulderId)).toBeUndefined();
+    expect(damage.map(hit => hit.targetId)).toEqual([playerId]);
+    expect(damage.map(hit => hit.targetId)).not.toContain(bystanderId);
+  });
+
+  it('should bring the Storm Disk back to its thrower after striking each enemy once', () => {
+    const enemyId = spawnEnemy(48, 0);
+    const damage = recordDamage();
+
+    const diskId = projectiles.spawn('storm_disk', playerId, PLAYER_START, { x: 1, y: 0 })!;
+    fly(PROJECTILES.storm_disk.range / PROJECTILES.storm_disk.speed);
+    expect(positionOf(diskId)!.x).toBeGreaterThan(PLAYER_START.x + PROJECTILES.storm_disk.range - 8);
+
+    fly(1);
+    expect(world.getEntity(diskId)).toBeUndefined();
+    expect(damage.filter(hit => hit.targetId === enemyId)).toHaveLength(1);
+  });
+
+  it('should send a parried arrow back into the archer', () => {
+    const combat = new CombatSystem();
+    world.addSystem(combat);
+    const archerId = spawnEnemy(24, 0);
+    const health = () => world.getComponent<HealthComponent>(archerId, 'health')!.current;
+    const reflections = recordDamage();
+
+    projectiles.spawn('bandit_arrow', archerId, positionOf(archerId)!, { x: -1, y: 0 });
+    combat.attemptParry(playerId);
+    fly(0.5);
+
+    expect(world.getComponent<HealthComponent>(playerId, 'health')!.current).toBe(6);
+    expect(reflections.map(hit => hit.targetId)).toEqual([playerId, archerId]);
+    expect(health()).toBe(ENEMIES.bandit_archer.health - PROJECTILES.bandit_arrow.damage);
+  });
+});
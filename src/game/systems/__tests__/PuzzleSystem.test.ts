@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PuzzleSystem } from '../PuzzleSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, createEvent, emitTypedEvent } from '@shared/events';
+import { TileType } from '@shared/types';
+import type { MovementComponent, PushBlockComponent, TransformComponent, Vector2 } from '@shared/types';
+import type { WorldTile } from '../../utils/WorldGenerator';
+
+describe('PuzzleSystem', () => {
+  let world: World;
+  let puzzles: PuzzleSystem;
+  let playerId: string;
+  let tiles: WorldTile[][];
+  let events: Array<{ type: string; payload: any }>;
+  let unsubscribers: Array<() => void>;
+
+  const transform = (entityId: string) => world.getComponent<TransformComponent>(entityId, 'transform')!;
+  const movement = () => world.getComponent<MovementComponent>(playerId, 'movement')!;
+  const block = () => world.getEntitiesWithComponents('pushBlock')[0].id;
+
+  // Shrine layout: cobblestone floor with the north hall's water channel on row 6
+  const enterShrine = () => {
+    tiles = Array.from({ length: 15 }, (_, y) => Array.from({ length: 20 }, () => {
+      const tileType = y === 6 ? TileType.WATER : TileType.COBBLESTONE;
+      return { tileType, walkable: tileType === TileType.COBBLESTONE };
+    }));
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: tiles, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('hearthmere_shrine', 'test.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  const placePlayer = (position: Vector2) => {
+    transform(playerId).position = { ...position };
+  };
+
+  // Lean on the top face of the block until it has slid a tile
+  const pushDown = () => {
+    const position = transform(block()).position;
+    placePlayer({ x: position.x + 2, y: position.y - 12 });
+    movement().velocity = { x: 0, y: 80 };
+    for (let i = 0; i < 8; i++) world.update(0.1);
+    movement().velocity = { x: 0, y: 0 };
+  };
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new SaveSystem(new MemorySaveStorage()));
+    puzzles = new PuzzleSystem();
+    world.addSystem(puzzles);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 160, y: 192 }).id;
+
+    events = [];
+    unsubscribers = ['puzzle.block.pushed', 'puzzle.switch.changed', 'puzzle.target.changed', 'puzzle.solved']
+      .map(type => gameEvents.on(type, (event: any) => events.push({ type, payload: event.payload })));
+
+    enterShrine();
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should slide a block a tile at a time onto a heavy plate to open its gate', () => {
+    // The player alone is too light for the plate
+    placePlayer({ x: 98, y: 194 });
+    world.update(0.1);
+    expect(puzzles.isSwitchActive('shrine_block_plate')).toBe(false);
+
+    // A tap is not a push
+    placePlayer({ x: 98, y: 148 });
+    movement().velocity = { x: 0, y: 80 };
+    world.update(0.1);
+    movement().velocity = { x: 0, y: 0 };
+    world.update(0.5);
+    expect(transform(block()).position).toEqual({ x: 96, y: 160 });
+
+    pushDown();
+    expect(transform(block()).position).toEqual({ x: 96, y: 176 });
+    expect(world.getComponent<PushBlockComponent>(block(), 'pushBlock')!.slide).toBeNull();
+    expect(puzzles.isTargetActive('shrine_offering_gate')).toBe(false);
+
+    pushDown();
+    expect(transform(block()).position).toEqual({ x: 96, y: 192 });
+    expect(puzzles.isSwitchActive('shrine_block_plate')).toBe(true);
+    expect(puzzles.isTargetActive('shrine_offering_gate')).toBe(true);
+    expect(world.getEntitiesWithComponents('gate')).toHaveLength(0);
+    expect(events.filter(event => event.type === 'puzzle.block.pushed')).toHaveLength(2);
+    expect(events).toContainEqual({ type: 'puzzle.solved', payload: { mapId: 'hearthmere_shrine', wireId: 'shrine_offering_wire' } });
+  });
+
+  it('should lay the timed bridge only while the switch runs, never from under the player', () => {
+    placePlayer({ x: 258, y: 114 });
+    world.update(0.1);
+    expect(puzzles.isTargetActive('shrine_channel_bridge')).toBe(true);
+    expect(tiles[6][9].tileType).toBe(TileType.BRIDGE);
+    expect(tiles[6][10].walkable).toBe(true);
+
+    // Standing on the bridge holds it in place past the timer
+    placePlayer({ x: 146, y: 98 });
+    world.update(5);
+    expect(puzzles.isSwitchActive('shrine_timed_switch')).toBe(false);
+    expect(tiles[6][9].tileType).toBe(TileType.BRIDGE);
+
+    placePlayer({ x: 146, y: 114 });
+    world.update(0.1);
+    expect(puzzles.isTargetActive('shrine_channel_bridge')).toBe(false);
+    expect(tiles[6][9].tileType).toBe(TileType.WATER);
+    expect(tiles[6][9].walkable).toBe(false);
+  });
+
+  it('should keep a crystal-locked bridge and opened gate when the room is re-entered', () => {
+    placePlayer({ x: 50, y: 66 });
+    emitTypedEvent(createEvent.playerAttackStart(playerId, { x: 50, y: 66 }, 'up', 'sword', 1));
+    world.update(0.1);
+    expect(puzzles.isSwitchActive('shrine_crystal')).toBe(true);
+    expect(events).toContainEqual({ type: 'puzzle.target.changed', payload: { targetId: 'shrine_channel_bridge', kind: 'bridge', active: true } });
+
+    pushDown();
+    pushDown();
+    expect(puzzles.isSolved('hearthmere_shrine', 'shrine_offering_wire')).toBe(true);
+
+    events.length = 0;
+    enterShrine();
+
+    // Blocks and switches reset, solved wires do not - and nothing is announced again
+    expect(transform(block()).position).toEqual({ x: 96, y: 160 });
+    expect(puzzles.isSwitchActive('shrine_crystal')).toBe(false);
+    expect(puzzles.isWireActive('shrine_bridge_lock')).toBe(true);
+    expect(tiles[6][10].tileType).toBe(TileType.BRIDGE);
+    expect(world.getEntitiesWithComponents('gate')).toHaveLength(0);
+
+    world.update(0.1);
+    expect(events).toHaveLength(0);
+    expect(puzzles.isTargetActive('shrine_offering_gate')).toBe(true);
+  });
+
+  it('should not push a block into solid tiles', () => {
+    placePlayer({ x: 98, y: 174 });
+    movement().velocity = { x: 0, y: -80 };
+    tiles[9][6] = { tileType: TileType.WALL, walkable: false };
+    for (let i = 0; i < 8; i++) world.update(0.1);
+
+    expect(transform(block()).position).toEqual({ x: 96, y: 160 });
+    expect(events.some(event => event.type === 'puzzle.block.pushed')).toBe(false);
+  });
+});
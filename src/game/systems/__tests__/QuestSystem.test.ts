@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { QuestSystem } from '../QuestSystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+
+const killEnemy = (species: string) => {
+  gameEvents.emit({
+    type: GAME_EVENTS.ENEMY_DIED,
+    payload: { entityId: 'entity_x', species, killerId: 'player', position: { x: 0, y: 0 } },
+    timestamp: Date.now()
+  });
+};
+
+describe('QuestSystem', () => {
+  let world: World;
+  let questSystem: QuestSystem;
+  let saveSystem: SaveSystem;
+  let completed: string[];
+  let unsubscribe: () => void;
+
+  const finishTutorial = () => {
+    emitTypedEvent(createEvent.interactionEnd('entity_1', 'keeper_elowen', 'Keeper Elowen'));
+    emitTypedEvent(createEvent.itemCollected('shard', 'aether_shards', { x: 0, y: 0 }));
+  };
+
+  beforeEach(() => {
+    world = new World();
+    questSystem = new QuestSystem();
+    saveSystem = new SaveSystem(new MemorySaveStorage());
+    world.addSystem(questSystem);
+    world.addSystem(saveSystem);
+    ECSUtils.createPlayerEntity(world, { x: 0, y: 0 });
+
+    completed = [];
+    unsubscribe = gameEvents.on(GAME_EVENTS.QUEST_COMPLETED, (event: any) => completed.push(event.payload.questId));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    world.clear();
+  });
+
+  it('should complete the active quest and activate the next one', () => {
+    expect(questSystem.getActiveQuest()!.id).toBe('tutorial');
+
+    finishTutorial();
+
+    expect(completed).toEqual(['tutorial']);
+    expect(questSystem.getActiveQuest()!.id).toBe('first_shard');
+  });
+
+  it('should count kills per objective and ignore events for inactive quests', () => {
+    killEnemy('sprig_stalker');
+    finishTutorial();
+    killEnemy('sprig_stalker');
+    killEnemy('mud_whelp');
+
+    expect(questSystem.getObjectiveProgress('first_shard', 'defeat_enemies')).toBe(2);
+  });
+
+  it('should round-trip progress through save data', () => {
+    finishTutorial();
+    killEnemy('sprig_stalker');
+    const saveData = saveSystem.buildSaveData()!;
+
+    expect(saveData.progress.completedQuests).toEqual(['tutorial']);
+    expect(saveData.progress.objectiveProgress['first_shard/defeat_enemies']).toBe(1);
+
+    questSystem.applyProgress([], {});
+    expect(questSystem.getActiveQuest()!.id).toBe('tutorial');
+
+    saveSystem.applySaveData(saveData);
+    expect(questSystem.getActiveQuest()!.id).toBe('first_shard');
+    expect(questSystem.getObjectiveProgress('first_shard', 'defeat_enemies')).toBe(1);
+  });
+
+  it('should reject quest data that fails the schema', () => {
+    expect(() => new QuestSystem({ version: '1.0.0', quests: [{ id: 'broken' }] })).toThrow('Invalid quest data');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { RealmSystem } from '../RealmSystem';
+import { EclipseOverlaySystem } from '../EclipseOverlaySystem';
+import { MovementSystem } from '../MovementSystem';
+import { World, ECSUtils } from '../../ECS';
+import { mapLoader } from '../../utils/MapLoader';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { TileType } from '@shared/types';
+import type { MovementComponent, PlayerComponent, TransformComponent, Vector2 } from '@shared/types';
+import type { WorldTile } from '../../utils/WorldGenerator';
+
+describe('RealmSystem', () => {
+  let world: World;
+  let realms: RealmSystem;
+  let playerId: string;
+  let tiles: WorldTile[][];
+  let events: Array<{ type: string; payload: any }>;
+  let unsubscribers: Array<() => void>;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+
+  // The player collider is 12x12 from the transform position
+  const placePlayer = (position: Vector2) => {
+    world.getComponent<TransformComponent>(playerId, 'transform')!.position = { ...position };
+  };
+
+  const enterShrine = () => {
+    tiles = mapLoader.getLoadedMap('hearthmere_shrine')!.tiles;
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: tiles, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('hearthmere_shrine', 'hearthmere_shrine.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  beforeAll(async () => {
+    await mapLoader.preloadMap('hearthmere_shrine');
+  });
+
+  beforeEach(() => {
+    world = new World();
+    world.addSystem(new EclipseOverlaySystem());
+    realms = new RealmSystem();
+    world.addSystem(realms);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 146, y: 162 }).id;
+
+    events = [];
+    unsubscribers = [GAME_EVENTS.REALM_SWITCH_START, GAME_EVENTS.REALM_SWITCHED, 'world.realm.switchDenied']
+      .map(type => gameEvents.on(type, (event: any) => events.push({ type, payload: event.payload })));
+
+    enterShrine();
+  });
+
+  afterEach(() => {
+    // The shrine's tiles are shared with the map cache - hand them back in the Dayrealm
+    emitTypedEvent(createEvent.realmSwitched(realms.getCurrentRealm(), 'dayrealm', 'restore'));
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should refuse to switch without the Aether Mirror away from an anchor', () => {
+    expect(realms.requestSwitch()).toBe('no_mirror');
+    expect(realms.getCurrentRealm()).toBe('dayrealm');
+    expect(events).toEqual([{ type: 'world.realm.switchDenied', payload: { reason: 'no_mirror', fromRealm: 'dayrealm', toRealm: 'eclipse' } }]);
+  });
+
+  it('should switch at a realm anchor and announce it with typed events', () => {
+    placePlayer({ x: 50, y: 114 });
+    expect(world.getEntitiesWithComponents('sprite').some(entity => entity.id !== playerId)).toBe(true);
+
+    expect(realms.requestSwitch()).toBeNull();
+    expect(realms.getCurrentRealm()).toBe('eclipse');
+    expect(events.map(event => event.type)).toEqual([GAME_EVENTS.REALM_SWITCH_START, GAME_EVENTS.REALM_SWITCHED]);
+    expect(events[0].payload).toMatchObject({ fromRealm: 'dayrealm', toRealm: 'eclipse', anchorId: 'shrine_channel_anchor' });
+    expect(events[1].payload).toMatchObject({ previousRealm: 'dayrealm', currentRealm: 'eclipse', transitionType: 'flash' });
+    expect(tiles[6][1].tileType).toBe(TileType.WATER_SHALLOW);
+  });
+
+  it('should not switch the player into a tile that is solid in the other realm', () => {
+    player().inventory.aether_mirror = true;
+    expect(realms.requestSwitch()).toBeNull();
+
+    // The Eclipse stepping stone at (1, 6) is the shrine's water channel in the Dayrealm
+    placePlayer({ x: 18, y: 98 });
+    expect(realms.requestSwitch()).toBe('blocked');
+    expect(realms.getCurrentRealm()).toBe('eclipse');
+
+    // Swimmers can come back in the water
+    player().inventory.riverfin_vest = true;
+    expect(realms.requestSwitch()).toBeNull();
+    expect(realms.getCurrentRealm()).toBe('dayrealm');
+
+    // Unauthored areas follow the global table - paths grow over into forest
+    const field: WorldTile[][] = [[{ tileType: TileType.PATH, walkable: true }]];
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: field, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('hearthmere', 'hearthmere', 'day', { x: 0, y: 0, width: 16, height: 16 }));
+    placePlayer({ x: 2, y: 2 });
+    expect(realms.requestSwitch()).toBe('blocked');
+    expect(events.filter(event => event.type === 'world.realm.switchDenied').map(event => event.payload.reason))
+      .toEqual(['blocked', 'blocked']);
+  });
+
+  it('should leave the player free to walk on after a switch', () => {
+    const movement = new MovementSystem();
+    world.addSystem(movement);
+    player().inventory.aether_mirror = true;
+
+    const field: WorldTile[][] = [Array.from({ length: 4 }, () => ({ tileType: TileType.GRASS, walkable: true }))];
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: field, realm: 'dayrealm' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('hearthmere', 'hearthmere', 'day', { x: 0, y: 0, width: 64, height: 16 }));
+    placePlayer({ x: 2, y: 2 });
+
+    const walkRight = () => {
+      const transform = world.getComponent<TransformComponent>(playerId, 'transform')!;
+      const startX = transform.position.x;
+      world.getComponent<MovementComponent>(playerId, 'movement')!.velocity = { x: 80, y: 0 };
+      movement.update(0.1);
+      return transform.position.x - startX;
+    };
+
+    // Open grass sinks into Eclipse marsh, which would strand the player - stay in the Dayrealm
+    expect(realms.requestSwitch()).toBe('blocked');
+    expect(realms.getCurrentRealm()).toBe('dayrealm');
+    expect(walkRight()).toBe(8);
+
+    // Dirt is the same in both realms
+    field[0].forEach(tile => { tile.tileType = TileType.DIRT; });
+    expect(realms.requestSwitch()).toBeNull();
+    expect(realms.getCurrentRealm()).toBe('eclipse');
+    expect(walkRight()).toBe(8);
+  });
+
+  it('should keep marsh out of reach in the Dayrealm', () => {
+    player().inventory.aether_mirror = true;
+    expect(realms.requestSwitch()).toBeNull();
+
+    const bog: WorldTile[][] = [[{ tileType: TileType.MARSH, walkable: false }]];
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles: bog, realm: 'eclipse' }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded('moonwell_marsh', 'moonwell_marsh', 'day', { x: 0, y: 0, width: 16, height: 16 }));
+    placePlayer({ x: 2, y: 2 });
+
+    expect(realms.requestSwitch()).toBe('blocked');
+    expect(realms.getCurrentRealm()).toBe('eclipse');
+  });
+
+  it('should restore the saved realm without the mirror', () => {
+    gameEvents.emit({ type: 'system/loadComplete', payload: { saveData: { player: { realm: 'eclipse' } } }, timestamp: Date.now() });
+
+    expect(realms.getCurrentRealm()).toBe('eclipse');
+    expect(events.find(event => event.type === GAME_EVENTS.REALM_SWITCHED)!.payload.transitionType).toBe('restore');
+  });
+});
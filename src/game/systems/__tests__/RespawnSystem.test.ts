@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RespawnSystem } from '../RespawnSystem';
+import { CombatSystem } from '../CombatSystem';
+import { InventorySystem } from '../InventorySystem';
+import { SaveSystem } from '../SaveSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events';
+import { DEATH_ANIMATION_DURATION, OVERWORLD_SPAWNS } from '@shared/constants';
+import type { HealthComponent, PlayerComponent, SaveData, TransformComponent } from '@shared/types';
+
+describe('RespawnSystem', () => {
+  let world: World;
+  let combat: CombatSystem;
+  let respawn: RespawnSystem;
+  let storage: MemorySaveStorage;
+  let playerId: string;
+  let events: Array<{ type: string; payload: any }>;
+  let unsubscribers: Array<() => void>;
+
+  const health = () => world.getComponent<HealthComponent>(playerId, 'health')!;
+  const transform = () => world.getComponent<TransformComponent>(playerId, 'transform')!;
+
+  // Same pair WorldScene sends - SaveSystem tracks the map from the legacy event
+  const enterMap = (mapId: string) => {
+    gameEvents.emit({ type: 'world.map.loaded', payload: { mapId, mapName: mapId }, timestamp: Date.now() });
+    emitTypedEvent(createEvent.mapLoaded(mapId, 'test.tmx', 'day', { x: 0, y: 0, width: 320, height: 240 }));
+  };
+
+  const dieAndWaitForGameOver = () => {
+    combat.forceDamage(playerId, health().current, 'enemy_1');
+    world.update(DEATH_ANIMATION_DURATION / 1000 + 0.1);
+  };
+
+  beforeEach(() => {
+    world = new World();
+    storage = new MemorySaveStorage();
+    world.addSystem(new SaveSystem(storage));
+    combat = new CombatSystem();
+    world.addSystem(combat);
+    respawn = new RespawnSystem();
+    world.addSystem(respawn);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 300, y: 300 }).id;
+
+    events = [];
+    unsubscribers = [
+      GAME_EVENTS.PLAYER_DIED,
+      GAME_EVENTS.PLAYER_RESPAWNED,
+      'game.state.changed'
+    ].map(type => gameEvents.on(type, (event: any) => events.push({ type, payload: event.payload })));
+  });
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    world.clear();
+  });
+
+  it('should play out the death before showing the game-over screen', () => {
+    combat.forceDamage(playerId, 6, 'enemy_1');
+
+    expect(respawn.getState()).toBe('dying');
+    expect(events[0]).toMatchObject({
+      type: GAME_EVENTS.PLAYER_DIED,
+      payload: { entityId: playerId, killerId: 'enemy_1', checkpointMap: 'hearthmere' }
+    });
+
+    world.update(DEATH_ANIMATION_DURATION / 2000);
+    expect(respawn.getState()).toBe('dying');
+
+    world.update(DEATH_ANIMATION_DURATION / 1000);
+    expect(respawn.getState()).toBe('game_over');
+    expect(events.at(-1)).toEqual({ type: 'game.state.changed', payload: { state: 'game_over' } });
+
+    // Further hits while down do not restart the death
+    combat.forceDamage(playerId, 1, 'enemy_2');
+    expect(events.filter(event => event.type === GAME_EVENTS.PLAYER_DIED)).toHaveLength(1);
+  });
+
+  it('should continue at the town entrance with partial hearts', () => {
+    health().maximum = 20;
+    dieAndWaitForGameOver();
+
+    gameEvents.emit({ type: 'player.respawn.request', payload: {}, timestamp: Date.now() });
+
+    expect(health().current).toBe(6);
+    expect(health().invulnerable).toBe(false);
+    expect(transform().position).toEqual(OVERWORLD_SPAWNS.town_entrance);
+    expect(events.find(event => event.type === GAME_EVENTS.PLAYER_RESPAWNED)?.payload).toMatchObject({
+      mapId: 'hearthmere',
+      health: 6,
+      maxHealth: 20
+    });
+    expect(respawn.getState()).toBe('respawning');
+
+    enterMap('hearthmere');
+    expect(respawn.getState()).toBe('alive');
+  });
+
+  it('should return to the dungeon room entrance and save once the map is back', async () => {
+    transform().position = { x: 160, y: 200 };
+    enterMap('rootway_hollow');
+    transform().position = { x: 40, y: 40 };
+
+    dieAndWaitForGameOver();
+    expect(respawn.respawn(2)).toBe(true);
+    expect(transform().position).toEqual({ x: 160, y: 200 });
+    expect(await storage.read(2)).toBeNull();
+
+    enterMap('rootway_hollow');
+    await Promise.resolve();
+
+    const saved = await storage.read(2) as SaveData;
+    expect(saved.world.currentMap).toBe('rootway_hollow');
+    expect(saved.player.health).toBe(6);
+    expect(saved.player.position).toEqual({ x: 160, y: 200 });
+  });
+
+  it('should only quit to the title once the save is written', async () => {
+    const quits: any[] = [];
+    unsubscribers.push(gameEvents.on('game.quit.request', (event: any) => quits.push(event.payload)));
+
+    dieAndWaitForGameOver();
+    gameEvents.emit({ type: 'player.respawn.request', payload: { saveSlot: 0, quit: true }, timestamp: Date.now() });
+    expect(quits).toEqual([]);
+
+    enterMap('hearthmere');
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(quits).toEqual([{ slot: 0 }]);
+    expect((await storage.read(0) as SaveData).player.health).toBe(6);
+  });
+
+  it('should leave only the restarted world answering combat and equip events', () => {
+    const oldInventory = new InventorySystem();
+    world.addSystem(oldInventory);
+    const oldAttack = vi.spyOn(combat as any, 'handleAttack');
+    const oldEquip = vi.spyOn(oldInventory, 'equipItem');
+
+    // Quitting to the title clears the scene's world; Continue builds a fresh one
+    world.clear();
+    world = new World();
+    const restartedCombat = new CombatSystem();
+    const restartedInventory = new InventorySystem();
+    world.addSystem(restartedCombat);
+    world.addSystem(restartedInventory);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 300, y: 300 }).id;
+    world.getComponent<PlayerComponent>(playerId, 'player')!.inventory.gale_boots = true;
+
+    const attacks: any[] = [];
+    const equipment: any[] = [];
+    unsubscribers.push(
+      gameEvents.on(GAME_EVENTS.PLAYER_ATTACK_START, (event: any) => attacks.push(event.payload)),
+      gameEvents.on(GAME_EVENTS.EQUIPMENT_CHANGED, (event: any) => equipment.push(event.payload))
+    );
+
+    gameEvents.emit({ type: 'combat.attack', payload: { attackerId: playerId }, timestamp: Date.now() });
+    gameEvents.emit({ type: 'inventory.equip.item', payload: { playerId, itemType: 'gale_boots' }, timestamp: Date.now() });
+
+    expect(attacks).toHaveLength(1);
+    expect(equipment).toHaveLength(1);
+    expect(oldAttack).not.toHaveBeenCalled();
+    expect(oldEquip).not.toHaveBeenCalled();
+  });
+});
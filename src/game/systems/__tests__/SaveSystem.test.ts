@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SaveSystem } from '../SaveSystem';
+import { ShopSystem } from '../ShopSystem';
+import { World, ECSUtils } from '../../ECS';
+import { MemorySaveStorage } from '../../utils/saveStorage';
+import { migrateSaveData } from '../../utils/saveMigrations';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import { SAVE_VERSION } from '@shared/constants';
+import type { HealthComponent, PlayerComponent, TransformComponent } from '@shared/types';
+
+describe('SaveSystem', () => {
+  let world: World;
+  let storage: MemorySaveStorage;
+  let saveSystem: SaveSystem;
+  let playerId: string;
+
+  beforeEach(() => {
+    world = new World();
+    storage = new MemorySaveStorage();
+    saveSystem = new SaveSystem(storage);
+    world.addSystem(saveSystem);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 100, y: 200 }).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  describe('Snapshot', () => {
+    it('should build save data from the live player entity', () => {
+      const player = world.getComponent<PlayerComponent>(playerId, 'player')!;
+      player.inventory.aether_shards = 3;
+      saveSystem.setFlag('met_elowen');
+
+      const saveData = saveSystem.buildSaveData();
+
+      expect(saveData).not.toBeNull();
+      expect(saveData!.version).toBe(SAVE_VERSION);
+      expect(saveData!.player.position).toEqual({ x: 100, y: 200 });
+      expect(saveData!.player.health).toBe(6);
+      expect(saveData!.player.inventory.aether_shards).toBe(3);
+      expect(saveData!.world.flags).toEqual({ met_elowen: true });
+    });
+
+    it('should return null when there is no player', () => {
+      world.destroyEntity(playerId);
+      expect(saveSystem.buildSaveData()).toBeNull();
+    });
+  });
+
+  describe('Slots', () => {
+    it('should round-trip a save through a slot', async () => {
+      await saveSystem.save(2);
+
+      const transform = world.getComponent<TransformComponent>(playerId, 'transform')!;
+      const health = world.getComponent<HealthComponent>(playerId, 'health')!;
+      transform.position.x = 0;
+      health.current = 1;
+
+      const loaded = await saveSystem.load(2);
+
+      expect(loaded).not.toBeNull();
+      expect(transform.position.x).toBe(100);
+      expect(health.current).toBe(6);
+    });
+
+    it('should keep sold-out goods and stamina upgrades across a reload', async () => {
+      const shops = new ShopSystem();
+      world.addSystem(shops);
+      const player = world.getComponent<PlayerComponent>(playerId, 'player')!;
+      player.gleam = 200;
+      shops.open('hearthmere_smithy');
+      expect(shops.buy('balanced_hilt')).toBeNull();
+      expect(shops.buy('heartsteel_charm')).toBeNull();
+      await saveSystem.save(2);
+
+      // A fresh session starts from the vendors' full shelves
+      shops.applyStockState({});
+      player.maxStamina = 100;
+      await saveSystem.load(2);
+
+      expect(player.maxStamina).toBe(120);
+      expect(player.stamina).toBe(120);
+      expect(shops.buy('heartsteel_charm')).toBe('sold_out');
+      expect(shops.getStock('thornroot_apothecary', 'vigor_flask')).toBe(2);
+    });
+
+    it('should reject slots outside the configured range', async () => {
+      expect(await saveSystem.save(99)).toBe(false);
+      expect(await saveSystem.load(-1)).toBeNull();
+    });
+
+    it('should list only populated slots', async () => {
+      await saveSystem.save(0);
+      await saveSystem.save(3);
+
+      const slots = await saveSystem.listSlots();
+      expect(slots.map(info => info.slot)).toEqual([0, 3]);
+    });
+
+    it('should emit save start and complete events', async () => {
+      const received: string[] = [];
+      const offStart = gameEvents.on(GAME_EVENTS.SAVE_GAME_START, () => received.push('start'));
+      const offComplete = gameEvents.on(GAME_EVENTS.SAVE_GAME_COMPLETE, () => received.push('complete'));
+
+      await saveSystem.save(1);
+
+      offStart();
+      offComplete();
+      expect(received).toEqual(['start', 'complete']);
+    });
+  });
+
+  describe('Migrations', () => {
+    it('should upgrade 1.0.0 saves to the current version', async () => {
+      await storage.write(1, {
+        version: '1.0.0',
+        timestamp: 0,
+        player: {
+          position: { x: 32, y: 48 },
+          realm: 'dayrealm',
+          health: 4,
+          inventory: saveSystem.buildSaveData()!.player.inventory
+        },
+        world: { currentMap: 'hearthmere', flags: {}, discoveredAreas: [] },
+        progress: { aetherShards: 0, completedQuests: [], unlockedAreas: [] }
+      });
+
+      const loaded = await saveSystem.load(1);
+
+      expect(loaded!.version).toBe(SAVE_VERSION);
+      expect(loaded!.player.maxHealth).toBe(6);
+      expect(loaded!.player.gleam).toBe(0);
+    });
+
+    it('should add quest objective counters to 1.1.0 saves', () => {
+      const migrated = migrateSaveData({
+        version: '1.1.0',
+        progress: { aetherShards: 0, completedQuests: ['tutorial'], unlockedAreas: [] }
+      });
+
+      expect(migrated.progress.completedQuests).toEqual(['tutorial']);
+      expect(migrated.progress.objectiveProgress).toEqual({});
+    });
+
+    it('should give 1.2.0 saves an empty equip slot', () => {
+      const migrated = migrateSaveData({
+        version: '1.2.0',
+        player: { position: { x: 0, y: 0 }, realm: 'dayrealm', health: 6, maxHealth: 6, gleam: 0 }
+      });
+
+      expect(migrated.version).toBe(SAVE_VERSION);
+      expect(migrated.player.equipment).toEqual({ equipped: null, quickSwap: null });
+    });
+
+    it('should give 1.3.0 saves base stamina and fully stocked shops', () => {
+      const migrated = migrateSaveData({
+        version: '1.3.0',
+        player: { position: { x: 0, y: 0 }, realm: 'dayrealm', health: 6, maxHealth: 6, gleam: 0 },
+        world: { currentMap: 'hearthmere', flags: {}, discoveredAreas: [] }
+      });
+
+      expect(migrated.version).toBe(SAVE_VERSION);
+      expect(migrated.player.maxStamina).toBe(100);
+      expect(migrated.world.shopStock).toEqual({});
+    });
+
+    it('should refuse saves with an unknown version', () => {
+      expect(() => migrateSaveData({ version: '0.0.1' })).toThrow();
+      expect(() => migrateSaveData(null)).toThrow();
+    });
+  });
+});
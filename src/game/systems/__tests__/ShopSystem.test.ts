@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ShopSystem } from '../ShopSystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents } from '@shared/events';
+import type { HealthComponent, PlayerComponent } from '@shared/types';
+
+describe('ShopSystem', () => {
+  let world: World;
+  let shops: ShopSystem;
+  let playerId: string;
+
+  const player = () => world.getComponent<PlayerComponent>(playerId, 'player')!;
+
+  const openShop = (shopId: string) => {
+    gameEvents.emit({ type: 'ui.shop.open', payload: { shopId, npcId: 'vendor' }, timestamp: Date.now() });
+  };
+
+  beforeEach(() => {
+    world = new World();
+    shops = new ShopSystem();
+    world.addSystem(shops);
+    playerId = ECSUtils.createPlayerEntity(world, { x: 100, y: 100 }).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should open the shop named by a dialogue action', () => {
+    const views: any[] = [];
+    const unsubscribe = gameEvents.on('shop.opened', (event: any) => views.push(event.payload.view));
+    player().gleam = 40;
+    openShop('bramm_keys');
+    unsubscribe();
+
+    expect(shops.getOpenShopId()).toBe('bramm_keys');
+    expect(views[0]).toMatchObject({ shopId: 'bramm_keys', keeper: 'Lockmaster Bramm', gleam: 40 });
+    expect(views[0].goods.map((good: any) => good.remaining)).toEqual([3, 1]);
+  });
+
+  it('should spend Gleam, hand over the goods and run out of stock', () => {
+    const gleamChanges: number[] = [];
+    const unsubscribe = gameEvents.on('player.gleam.changed', (event: any) => gleamChanges.push(event.payload.gleam));
+    player().gleam = 100;
+    openShop('bramm_keys');
+
+    expect(shops.buy('rivergate_pass')).toBeNull();
+    expect(player().gleam).toBe(50);
+    expect(player().inventory.keys.rivergate_pass).toBe(1);
+    expect(shops.getStock('bramm_keys', 'rivergate_pass')).toBe(0);
+
+    expect(shops.buy('rivergate_pass')).toBe('sold_out');
+    expect(player().gleam).toBe(50);
+    unsubscribe();
+
+    expect(gleamChanges).toEqual([50]);
+  });
+
+  it('should refuse trades the player cannot make', () => {
+    player().gleam = 5;
+    openShop('thornroot_apothecary');
+    expect(shops.buy('red_tonic')).toBe('insufficient_gleam');
+
+    // Tonics are not sold to a player who is already at full health
+    player().gleam = 50;
+    expect(shops.buy('red_tonic')).toBe('full_health');
+
+    const health = world.getComponent<HealthComponent>(playerId, 'health')!;
+    health.current = 1;
+    expect(shops.buy('red_tonic')).toBeNull();
+    expect(health.current).toBe(3);
+    expect(player().gleam).toBe(40);
+
+    expect(shops.sell('rumor_cards')).toBe('nothing_to_sell');
+  });
+
+  it('should buy back items the vendor wants', () => {
+    player().inventory.rumor_cards = 2;
+    openShop('elowen_wares');
+
+    expect(shops.sell('rumor_cards')).toBeNull();
+    expect(player().inventory.rumor_cards).toBe(1);
+    expect(player().gleam).toBe(5);
+
+    gameEvents.emit({ type: 'ui.shop.close', payload: {}, timestamp: Date.now() });
+    expect(shops.sell('rumor_cards')).toBe('no_shop');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StatusEffectSystem } from '../StatusEffectSystem';
+import { CombatSystem } from '../CombatSystem';
+import { EnemyAISystem } from '../EnemyAISystem';
+import { World, ECSUtils } from '../../ECS';
+import { gameEvents } from '@shared/events';
+import { ENEMIES, FIRE_BURN_DURATION, STATUS_EFFECTS, TILE_SIZE } from '@shared/constants';
+import { TileType, type DamageElement, type HealthComponent, type TransformComponent } from '@shared/types';
+
+describe('StatusEffectSystem', () => {
+  let world: World;
+  let status: StatusEffectSystem;
+  let combat: CombatSystem;
+  let playerId: string;
+
+  const PLAYER_START = { x: 200, y: 200 };
+
+  const spawnEnemy = (species: string, x: number, y: number) =>
+    ECSUtils.createEnemyEntity(world, ENEMIES[species], { x: PLAYER_START.x + x, y: PLAYER_START.y + y }).id;
+
+  const health = (entityId: string) => world.getComponent<HealthComponent>(entityId, 'health')?.current ?? 0;
+
+  const strike = (targetId: string, element: DamageElement) => {
+    gameEvents.emit({
+      type: 'combat.damage',
+      payload: { targetId, damage: 1, source: playerId, element },
+      timestamp: Date.now()
+    });
+    combat.update(0);
+  };
+
+  const advance = (seconds: number, step = 0.1) => {
+    for (let elapsed = 0; elapsed < seconds - 1e-9; elapsed += step) {
+      world.getSystems().forEach(system => system.update(step));
+    }
+  };
+
+  beforeEach(() => {
+    world = new World();
+    status = new StatusEffectSystem();
+    combat = new CombatSystem();
+    world.addSystem(status);
+    world.addSystem(combat);
+    playerId = ECSUtils.createPlayerEntity(world, PLAYER_START).id;
+  });
+
+  afterEach(() => {
+    world.clear();
+  });
+
+  it('should scale damage by weakness and immunity', () => {
+    const stalkerId = spawnEnemy('sprig_stalker', 64, 0);
+    const wispId = spawnEnemy('wisp_cluster', -64, 0);
+
+    strike(stalkerId, 'fire');
+    expect(health(stalkerId)).toBe(0);
+
+    strike(wispId, 'frost');
+    expect(health(wispId)).toBe(ENEMIES.wisp_cluster.health);
+    expect(status.hasEffect(wispId, 'freeze')).toBe(false);
+  });
+
+  it('should burn over time until the effect expires', () => {
+    const banditId = spawnEnemy('bandit_scrapper', 64, 0);
+
+    strike(banditId, 'fire');
+    expect(health(banditId)).toBe(ENEMIES.bandit_scrapper.health - 1);
+    expect(status.hasEffect(banditId, 'burn')).toBe(true);
+
+    // Burn ticks ignore the i-frames left by the first hit
+    advance(1.05);
+    expect(health(banditId)).toBe(ENEMIES.bandit_scrapper.health - 2);
+
+    advance(STATUS_EFFECTS.burn.duration / 1000);
+    expect(status.hasEffect(banditId, 'burn')).toBe(false);
+  });
+
+  it('should hold a shocked enemy in place while stunned', () => {
+    world.addSystem(new EnemyAISystem());
+    const whelpId = spawnEnemy('mud_whelp', TILE_SIZE * 3, 0);
+    const position = () => ({ ...world.getComponent<TransformComponent>(whelpId, 'transform')!.position });
+
+    strike(whelpId, 'shock');
+    const stunnedAt = position();
+    expect(StatusEffectSystem.isImmobilized(world.getComponent(whelpId, 'status'))).toBe(true);
+
+    advance(0.5);
+    expect(world.getComponent<any>(whelpId, 'movement').velocity).toEqual({ x: 0, y: 0 });
+    expect(position()).toEqual(stunnedAt);
+
+    advance(STATUS_EFFECTS.stun.duration / 1000);
+    expect(status.hasEffect(whelpId, 'stun')).toBe(false);
+  });
+
+  it('should burn away tall grass and set whoever stands in it alight', () => {
+    const worldTiles = Array.from({ length: 32 }, () =>
+      Array.from({ length: 32 }, () => ({ tileType: TileType.GRASS as TileType, walkable: true })));
+    const tileX = Math.floor((PLAYER_START.x + 64) / TILE_SIZE);
+    const tileY = Math.floor(PLAYER_START.y / TILE_SIZE);
+    worldTiles[tileY][tileX] = { tileType: TileType.TALL_GRASS, walkable: true };
+    gameEvents.emit({ type: 'movement.worldData.update', payload: { worldTiles, realm: 'dayrealm' }, timestamp: Date.now() });
+
+    const banditId = spawnEnemy('bandit_scrapper', 64, 0);
+    const changes: unknown[] = [];
+    const unsubscribe = gameEvents.on('world.tile.changed', (event: any) => changes.push(event.payload));
+
+    expect(status.ignite({ x: PLAYER_START.x + 64, y: PLAYER_START.y })).toBe(true);
+    expect(status.ignite({ x: PLAYER_START.x, y: PLAYER_START.y })).toBe(false);
+
+    advance(FIRE_BURN_DURATION / 1000);
+    unsubscribe();
+
+    expect(status.hasEffect(banditId, 'burn')).toBe(true);
+    expect(worldTiles[tileY][tileX].tileType).toBe(TileType.GRASS);
+    expect(changes).toEqual([{ tileX, tileY, tileType: TileType.GRASS, previousTileType: TileType.TALL_GRASS }]);
+  });
+});
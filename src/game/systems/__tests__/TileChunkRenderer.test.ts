@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TileChunkRenderer } from '../TileChunkRenderer';
+import { gameEvents } from '@shared/events';
+import { TILE_CHUNK_SIZE, TILE_SIZE } from '@shared/constants';
+import { TileType } from '@shared/types';
+import type { WorldTile } from '../../utils/WorldGenerator';
+
+// The tileset singleton paints canvases at import; chunks fall back to flat colours without it
+vi.mock('../ALTTPTilesetManager', () => ({
+  altttpTilesetManager: { getCachedTile: () => null }
+}));
+
+interface TextureStub {
+  x: number;
+  y: number;
+  visible: boolean;
+  clear: ReturnType<typeof vi.fn>;
+  destroy: ReturnType<typeof vi.fn>;
+}
+
+describe('TileChunkRenderer', () => {
+  const CHUNK_PIXELS = TILE_CHUNK_SIZE * TILE_SIZE;
+
+  let renderer: TileChunkRenderer;
+  let textures: TextureStub[];
+
+  const field = (chunksWide: number, chunksHigh: number): WorldTile[][] =>
+    Array.from({ length: chunksHigh * TILE_CHUNK_SIZE }, () =>
+      Array.from({ length: chunksWide * TILE_CHUNK_SIZE }, () => ({ tileType: TileType.GRASS, walkable: true })));
+
+  const camera = (x: number, y: number, width = 300, height = 200) => ({ worldView: { x, y, width, height } }) as any;
+
+  const textureAt = (chunkX: number, chunkY: number) =>
+    textures.find(texture => texture.x === chunkX * CHUNK_PIXELS && texture.y === chunkY * CHUNK_PIXELS);
+
+  // One chunk ahead of the camera is baked per frame
+  const settle = (view: ReturnType<typeof camera>) => {
+    for (let frame = 0; frame < 10; frame++) renderer.update(view);
+  };
+
+  beforeEach(() => {
+    textures = [];
+    const renderTexture = (x: number, y: number) => {
+      const texture: any = {
+        x,
+        y,
+        visible: true,
+        clear: vi.fn(),
+        destroy: vi.fn(),
+        draw: vi.fn(),
+        beginDraw: vi.fn(),
+        batchDrawFrame: vi.fn(),
+        endDraw: vi.fn()
+      };
+      texture.setOrigin = () => texture;
+      texture.setDepth = () => texture;
+      texture.setVisible = (visible: boolean) => {
+        texture.visible = visible;
+        return texture;
+      };
+      textures.push(texture);
+      return texture;
+    };
+
+    const graphics = { clear: vi.fn(), fillStyle: vi.fn(), fillRect: vi.fn(), fillCircle: vi.fn(), destroy: vi.fn() };
+    const scene = {
+      make: { graphics: () => graphics },
+      add: { renderTexture },
+      textures: { exists: () => false, addCanvas: vi.fn() }
+    };
+
+    renderer = new TileChunkRenderer(scene as any, { add: vi.fn() } as any);
+  });
+
+  afterEach(() => {
+    renderer.destroy();
+  });
+
+  it('should clamp the chunks it bakes to the map when the camera hangs over an edge', () => {
+    renderer.setTiles(field(3, 3));
+
+    settle(camera(-100, -100));
+    expect(textureAt(0, 0)!.visible).toBe(true);
+
+    settle(camera(700, 700));
+    expect(textureAt(2, 2)!.visible).toBe(true);
+
+    for (const texture of textures) {
+      expect(texture.x).toBeGreaterThanOrEqual(0);
+      expect(texture.y).toBeGreaterThanOrEqual(0);
+      expect(texture.x).toBeLessThanOrEqual(2 * CHUNK_PIXELS);
+      expect(texture.y).toBeLessThanOrEqual(2 * CHUNK_PIXELS);
+    }
+  });
+
+  it('should keep chunks near the camera cached and evict the ones beyond the keep margin', () => {
+    renderer.setTiles(field(10, 1));
+    settle(camera(0, 0));
+    const first = textureAt(0, 0)!;
+    const second = textureAt(1, 0)!;
+
+    // Chunk 4 in view keeps chunks 1-7
+    settle(camera(4 * CHUNK_PIXELS, 0));
+
+    expect(first.destroy).toHaveBeenCalled();
+    expect(second.destroy).not.toHaveBeenCalled();
+    expect(second.visible).toBe(false);
+    expect(textureAt(4, 0)!.visible).toBe(true);
+
+    // Walking back re-bakes the evicted chunk into a fresh texture
+    settle(camera(0, 0));
+    expect(textures.filter(texture => texture.x === 0)).toHaveLength(2);
+    expect(second.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-bake only the chunk holding a changed tile', () => {
+    renderer.setTiles(field(3, 1));
+    settle(camera(0, 0));
+    const changed = textureAt(0, 0)!;
+    const untouched = textureAt(1, 0)!;
+    expect(changed.clear).toHaveBeenCalledTimes(1);
+
+    gameEvents.emit({ type: 'world.tile.changed', payload: { tileX: 3, tileY: 5 }, timestamp: Date.now() });
+    renderer.update(camera(0, 0));
+
+    expect(changed.clear).toHaveBeenCalledTimes(2);
+    expect(untouched.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening for tile changes once destroyed', () => {
+    renderer.setTiles(field(1, 1));
+    settle(camera(0, 0));
+    const texture = textureAt(0, 0)!;
+    renderer.destroy();
+
+    gameEvents.emit({ type: 'world.tile.changed', payload: { tileX: 0, tileY: 0 }, timestamp: Date.now() });
+    renderer.update(camera(0, 0));
+
+    expect(texture.destroy).toHaveBeenCalled();
+    expect(texture.clear).toHaveBeenCalledTimes(1);
+  });
+});
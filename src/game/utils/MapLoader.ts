@@ -0,0 +1,490 @@
+// Map Loader - Loads Tiled (.tmx / .json) maps registered in the world index
+// Following World Builder agent specifications for map data and transitions
+
+import { TileType, type EclipseOverlay, type MapEntry, type MapTransition, type Vector2, type WorldIndex } from '@shared/types.js';
+import { TILE_SIZE } from '@shared/constants.js';
+import { createEvent, emitTypedEvent } from '@shared/events.js';
+import worldIndexSchema from '@schemas/worldIndex.schema.json';
+import defaultWorldIndex from '@world/worldIndex.json';
+import { SchemaValidator } from './SchemaValidator.js';
+import { TileCollision } from './TileCollision.js';
+import type { WorldTile } from './WorldGenerator.js';
+
+// Tiled stores flip flags in the top three bits of each gid
+const TILED_GID_MASK = 0x1fffffff;
+
+// Tile and object layers with this name hold the map's Eclipse overlay
+const ECLIPSE_LAYER = 'eclipse';
+
+export interface MapSpawnPoint {
+  id: string;
+  position: Vector2;
+  properties: Record<string, unknown>;
+}
+
+export interface LoadedMap {
+  id: string;
+  entry: MapEntry;
+  width: number;
+  height: number;
+  tiles: WorldTile[][];
+  spawns: Record<string, MapSpawnPoint>;
+  properties: Record<string, unknown>;
+  eclipse: EclipseOverlay | null;    // null when the map relies on the global realm table
+}
+
+// Raw map file text keyed by file name (e.g. 'hearthmere_shrine.tmx')
+export type MapSourceLoader = (file: string) => Promise<string>;
+
+interface ParsedTileset {
+  firstGid: number;
+  tileTypes: Map<number, TileType>;
+}
+
+interface ParsedMap {
+  width: number;
+  height: number;
+  gids: number[];
+  tilesets: ParsedTileset[];
+  spawns: Record<string, MapSpawnPoint>;
+  properties: Record<string, unknown>;
+  eclipse: EclipseOverlay | null;
+}
+
+interface ParsedObject {
+  name: string | null | undefined;
+  type: string | null | undefined;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, unknown>;
+}
+
+const bundledMapSources = import.meta.glob<string>('/world/maps/*.{tmx,json}', {
+  query: '?raw',
+  import: 'default'
+});
+
+const loadBundledMapSource: MapSourceLoader = async (file) => {
+  const loader = bundledMapSources[`/world/maps/${file}`];
+  if (!loader) {
+    throw new Error(`Map file not found: ${file}`);
+  }
+  return loader();
+};
+
+export class MapLoader {
+  private index: WorldIndex;
+  private loadSource: MapSourceLoader;
+  private loadedMaps: Map<string, LoadedMap> = new Map();
+  private pendingLoads: Map<string, Promise<LoadedMap>> = new Map();
+
+  constructor(index: unknown = defaultWorldIndex, loadSource: MapSourceLoader = loadBundledMapSource) {
+    const validation = SchemaValidator.validate(worldIndexSchema, index);
+    if (!validation.valid) {
+      throw new Error(`Invalid world index:\n${validation.errors.join('\n')}`);
+    }
+
+    this.index = index as WorldIndex;
+    this.loadSource = loadSource;
+  }
+
+  hasMap(mapId: string): boolean {
+    return this.index.maps.some(entry => entry.id === mapId);
+  }
+
+  getMapEntry(mapId: string): MapEntry | undefined {
+    return this.index.maps.find(entry => entry.id === mapId);
+  }
+
+  getWorldIndex(): WorldIndex {
+    return this.index;
+  }
+
+  getLoadedMap(mapId: string): LoadedMap | undefined {
+    return this.loadedMaps.get(mapId);
+  }
+
+  /**
+   * Load a map by id, emitting MAP_LOAD_START and MAP_LOADED
+   */
+  async loadMap(mapId: string): Promise<LoadedMap> {
+    const entry = this.getMapEntry(mapId);
+    if (entry) emitTypedEvent(createEvent.mapLoadStart(entry.id, entry.file));
+
+    const map = await this.preloadMap(mapId);
+    this.emitLoaded(map);
+    return map;
+  }
+
+  /**
+   * Fetch and parse a map into the cache without announcing it - background
+   * preloads emit no load events. Concurrent requests for the same map share one load.
+   */
+  async preloadMap(mapId: string): Promise<LoadedMap> {
+    const cached = this.loadedMaps.get(mapId);
+    if (cached) return cached;
+
+    const pending = this.pendingLoads.get(mapId);
+    if (pending) return pending;
+
+    const load = this.fetchAndParse(mapId)
+      .then(map => {
+        this.loadedMaps.set(mapId, map);
+        return map;
+      })
+      .finally(() => this.pendingLoads.delete(mapId));
+    this.pendingLoads.set(mapId, load);
+
+    return load;
+  }
+
+  unloadMap(mapId: string): void {
+    if (!this.loadedMaps.delete(mapId)) return;
+    emitTypedEvent(createEvent.mapUnloaded(mapId));
+  }
+
+  /**
+   * Warm the cache with maps listed as adjacent to the given map
+   */
+  async preloadAdjacent(mapId: string): Promise<void> {
+    const adjacent = this.getMapEntry(mapId)?.adjacent ?? [];
+
+    await Promise.all(adjacent
+      .filter(id => this.hasMap(id))
+      .map(id => this.preloadMap(id).catch(error => {
+        console.warn(`MapLoader: Failed to preload ${id}:`, error);
+      })));
+  }
+
+  private async fetchAndParse(mapId: string): Promise<LoadedMap> {
+    const entry = this.getMapEntry(mapId);
+    if (!entry) {
+      throw new Error(`Map "${mapId}" is not registered in the world index`);
+    }
+
+    const source = await this.loadSource(entry.file);
+    const parsed = source.trimStart().startsWith('<')
+      ? MapLoader.parseTmx(source)
+      : MapLoader.parseTiledJson(JSON.parse(source));
+
+    console.log(`MapLoader: Loaded ${entry.id} (${parsed.width}x${parsed.height})`);
+
+    return {
+      id: entry.id,
+      entry,
+      width: parsed.width,
+      height: parsed.height,
+      tiles: MapLoader.buildTiles(parsed, entry.id),
+      spawns: parsed.spawns,
+      properties: parsed.properties,
+      eclipse: parsed.eclipse
+    };
+  }
+
+  private emitLoaded(map: LoadedMap): void {
+    emitTypedEvent(createEvent.mapLoaded(map.id, map.entry.file, map.entry.realm, map.entry.bounds));
+  }
+
+  private static buildTiles(parsed: ParsedMap, region: string): WorldTile[][] {
+    const tiles: WorldTile[][] = [];
+
+    for (let y = 0; y < parsed.height; y++) {
+      tiles[y] = [];
+      for (let x = 0; x < parsed.width; x++) {
+        const tileType = this.resolveTileType(parsed.gids[y * parsed.width + x] ?? 0, parsed.tilesets);
+        tiles[y][x] = {
+          tileType,
+          walkable: TileCollision.isTileWalkable(tileType),
+          region,
+          eclipseAuthored: parsed.eclipse !== null
+        };
+      }
+    }
+
+    return tiles;
+  }
+
+  /**
+   * Map a Tiled gid to a TileType. Tiles may name their type with a
+   * `tileType` property; otherwise the local tile id is the TileType value.
+   */
+  private static resolveTileType(rawGid: number, tilesets: ParsedTileset[]): TileType {
+    const gid = rawGid & TILED_GID_MASK;
+    if (gid === 0) return TileType.GRASS;
+
+    let tileset: ParsedTileset | undefined;
+    for (const candidate of tilesets) {
+      if (candidate.firstGid <= gid && (!tileset || candidate.firstGid > tileset.firstGid)) {
+        tileset = candidate;
+      }
+    }
+    if (!tileset) return TileType.GRASS;
+
+    const localId = gid - tileset.firstGid;
+    const named = tileset.tileTypes.get(localId);
+    if (named !== undefined) return named;
+
+    return (Object.values(TileType) as number[]).includes(localId)
+      ? localId as TileType
+      : TileType.GRASS;
+  }
+
+  private static toTileType(name: unknown): TileType | undefined {
+    if (typeof name !== 'string') return undefined;
+    return (TileType as Record<string, TileType>)[name.toUpperCase()];
+  }
+
+  // Tiled JSON format (.json / .tmj)
+  static parseTiledJson(data: any): ParsedMap {
+    const tileLayers = (data.layers ?? []).filter((layer: any) => layer.type === 'tilelayer');
+    const groundLayers = tileLayers.filter((layer: any) => layer.name !== ECLIPSE_LAYER);
+    const eclipseLayer = tileLayers.find((layer: any) => layer.name === ECLIPSE_LAYER);
+    if (groundLayers.length === 0 || groundLayers.some((layer: any) => !Array.isArray(layer.data))) {
+      throw new Error('Tiled map has no uncompressed tile layer');
+    }
+
+    const tilesets: ParsedTileset[] = (data.tilesets ?? []).map((tileset: any) => {
+      const tileTypes = new Map<number, TileType>();
+      for (const tile of tileset.tiles ?? []) {
+        const props = this.readJsonProperties(tile.properties);
+        const tileType = this.toTileType(props.tileType ?? tile.type ?? tile.class);
+        if (tileType !== undefined) tileTypes.set(tile.id, tileType);
+      }
+      return { firstGid: tileset.firstgid ?? 1, tileTypes };
+    });
+
+    const spawns: Record<string, MapSpawnPoint> = {};
+    const eclipseObjects: ParsedObject[] = [];
+    for (const layer of data.layers ?? []) {
+      if (layer.type !== 'objectgroup') continue;
+      for (const object of layer.objects ?? []) {
+        const parsed: ParsedObject = {
+          name: object.name,
+          type: object.type ?? object.class,
+          x: object.x ?? 0,
+          y: object.y ?? 0,
+          width: object.width ?? 0,
+          height: object.height ?? 0,
+          properties: this.readJsonProperties(object.properties)
+        };
+        if (layer.name === ECLIPSE_LAYER) {
+          eclipseObjects.push(parsed);
+        } else {
+          this.addSpawn(spawns, parsed);
+        }
+      }
+    }
+
+    return {
+      width: data.width,
+      height: data.height,
+      gids: this.mergeTileLayers(groundLayers.map((layer: any) => layer.data)),
+      tilesets,
+      spawns,
+      properties: this.readJsonProperties(data.properties),
+      eclipse: this.buildEclipseOverlay(data.width, eclipseLayer?.data ?? null, tilesets, eclipseObjects)
+    };
+  }
+
+  // Tiled XML format (.tmx) - CSV or uncompressed base64 layer data
+  static parseTmx(source: string): ParsedMap {
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    const mapElement = doc.querySelector('map');
+    if (!mapElement || doc.querySelector('parsererror')) {
+      throw new Error('Invalid TMX document');
+    }
+
+    const layers = Array.from(mapElement.querySelectorAll('layer'));
+    const groundData = layers
+      .filter(layer => layer.getAttribute('name') !== ECLIPSE_LAYER)
+      .map(layer => layer.querySelector('data'));
+    const eclipseData = layers.find(layer => layer.getAttribute('name') === ECLIPSE_LAYER)?.querySelector('data');
+    if (groundData.length === 0 || groundData.some(data => !data)) {
+      throw new Error('TMX map has no tile layer');
+    }
+
+    const tilesets: ParsedTileset[] = Array.from(mapElement.querySelectorAll('tileset')).map(tileset => {
+      const tileTypes = new Map<number, TileType>();
+      tileset.querySelectorAll('tile').forEach(tile => {
+        const props = this.readXmlProperties(tile);
+        const tileType = this.toTileType(props.tileType ?? tile.getAttribute('type') ?? tile.getAttribute('class'));
+        if (tileType !== undefined) tileTypes.set(Number(tile.getAttribute('id')), tileType);
+      });
+      return { firstGid: Number(tileset.getAttribute('firstgid') ?? 1), tileTypes };
+    });
+
+    const spawns: Record<string, MapSpawnPoint> = {};
+    const eclipseObjects: ParsedObject[] = [];
+    mapElement.querySelectorAll('objectgroup > object').forEach(object => {
+      const parsed: ParsedObject = {
+        name: object.getAttribute('name'),
+        type: object.getAttribute('type') ?? object.getAttribute('class'),
+        x: Number(object.getAttribute('x') ?? 0),
+        y: Number(object.getAttribute('y') ?? 0),
+        width: Number(object.getAttribute('width') ?? 0),
+        height: Number(object.getAttribute('height') ?? 0),
+        properties: this.readXmlProperties(object)
+      };
+      if (object.parentElement?.getAttribute('name') === ECLIPSE_LAYER) {
+        eclipseObjects.push(parsed);
+      } else {
+        this.addSpawn(spawns, parsed);
+      }
+    });
+
+    const rootProperties = Array.from(mapElement.children).find(child => child.tagName === 'properties');
+    const width = Number(mapElement.getAttribute('width'));
+
+    return {
+      width,
+      height: Number(mapElement.getAttribute('height')),
+      gids: this.mergeTileLayers(groundData.map(data => this.decodeTmxData(data!))),
+      tilesets,
+      spawns,
+      properties: rootProperties ? this.readXmlPropertyList(rootProperties) : {},
+      eclipse: this.buildEclipseOverlay(width, eclipseData ? this.decodeTmxData(eclipseData) : null, tilesets, eclipseObjects)
+    };
+  }
+
+  // Layers stack like Tiled draws them - a later layer's tile wins wherever it is not empty
+  private static mergeTileLayers(layers: number[][]): number[] {
+    const size = layers[0].length;
+    if (layers.some(layer => layer.length !== size)) {
+      throw new Error('Tile layers differ in size - every layer must cover the whole map');
+    }
+
+    return layers.reduce((merged, layer) =>
+      merged.map((gid, index) => (layer[index] & TILED_GID_MASK) === 0 ? gid : layer[index])
+    );
+  }
+
+  private static decodeTmxData(dataElement: Element): number[] {
+    const encoding = dataElement.getAttribute('encoding');
+    const text = (dataElement.textContent ?? '').trim();
+
+    if (encoding === 'csv') {
+      return text.split(/[\s,]+/).filter(Boolean).map(Number);
+    }
+
+    if (encoding === 'base64') {
+      if (dataElement.getAttribute('compression')) {
+        throw new Error('Compressed TMX layers are not supported - export with CSV or uncompressed base64');
+      }
+      const bytes = Uint8Array.from(atob(text), char => char.charCodeAt(0));
+      const view = new DataView(bytes.buffer);
+      const gids: number[] = [];
+      for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+        gids.push(view.getUint32(offset, true));
+      }
+      return gids;
+    }
+
+    // Legacy XML encoding: one <tile gid="..."/> per cell
+    return Array.from(dataElement.querySelectorAll('tile')).map(tile => Number(tile.getAttribute('gid') ?? 0));
+  }
+
+  // Objects of type "spawn" (or named spawn_*) become spawn points; positions snap to tile centers
+  private static addSpawn(spawns: Record<string, MapSpawnPoint>, object: ParsedObject): void {
+    const { name, type } = object;
+    if (!name || (type !== 'spawn' && !name.startsWith('spawn'))) return;
+
+    spawns[name] = {
+      id: name,
+      position: this.snapToTileCenter(object.x, object.y),
+      properties: object.properties
+    };
+  }
+
+  /**
+   * The eclipse tile layer is sparse - empty cells keep the day tile. Objects in
+   * the eclipse group are Eclipse-only enemies (`species`) and portals (`map`, `spawn`).
+   */
+  private static buildEclipseOverlay(
+    width: number,
+    gids: number[] | null,
+    tilesets: ParsedTileset[],
+    objects: ParsedObject[]
+  ): EclipseOverlay | null {
+    if (!gids && objects.length === 0) return null;
+
+    const overlay: EclipseOverlay = { tiles: [], enemies: [], portals: [] };
+
+    gids?.forEach((gid, index) => {
+      if ((gid & TILED_GID_MASK) === 0) return;
+      overlay.tiles.push({
+        x: index % width,
+        y: Math.floor(index / width),
+        tileType: this.resolveTileType(gid, tilesets)
+      });
+    });
+
+    for (const { name, type, x, y, width: objectWidth, height, properties } of objects) {
+      if (!name) continue;
+
+      if (type === 'enemy' && typeof properties.species === 'string') {
+        overlay.enemies.push({ id: name, species: properties.species, position: this.snapToTileCenter(x, y) });
+      } else if (type === 'portal' && typeof properties.map === 'string' && typeof properties.spawn === 'string') {
+        overlay.portals.push({
+          id: name,
+          trigger: { x, y, width: objectWidth, height },
+          target: {
+            map: properties.map,
+            spawn: properties.spawn,
+            transition: (properties.transition as MapTransition | undefined) ?? 'fade'
+          }
+        });
+      } else {
+        console.warn(`MapLoader: Ignoring eclipse object "${name}" - expected an enemy or portal`);
+      }
+    }
+
+    return overlay;
+  }
+
+  private static snapToTileCenter(x: number, y: number): Vector2 {
+    return {
+      x: Math.floor(x / TILE_SIZE) * TILE_SIZE + TILE_SIZE / 2,
+      y: Math.floor(y / TILE_SIZE) * TILE_SIZE + TILE_SIZE / 2
+    };
+  }
+
+  private static readJsonProperties(properties: any): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const property of properties ?? []) {
+      result[property.name] = property.value;
+    }
+    return result;
+  }
+
+  private static readXmlProperties(element: Element): Record<string, unknown> {
+    const list = Array.from(element.children).find(child => child.tagName === 'properties');
+    return list ? this.readXmlPropertyList(list) : {};
+  }
+
+  private static readXmlPropertyList(list: Element): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    Array.from(list.children).forEach(property => {
+      const name = property.getAttribute('name');
+      if (!name) return;
+
+      const raw = property.getAttribute('value') ?? property.textContent ?? '';
+      switch (property.getAttribute('type')) {
+        case 'int':
+        case 'float':
+          result[name] = Number(raw);
+          break;
+        case 'bool':
+          result[name] = raw === 'true';
+          break;
+        default:
+          result[name] = raw;
+      }
+    });
+    return result;
+  }
+}
+
+// Export singleton instance
+export const mapLoader = new MapLoader();
@@ -0,0 +1,122 @@
+// Schema Validator - Minimal JSON Schema (draft-07 subset) validation for data files
+// Following Spec Librarian standards for schema enforcement
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Validates data against the keyword subset used by /schemas:
+ * type, required, properties, additionalProperties, items, enum,
+ * pattern, minimum, maximum and local $ref definitions.
+ */
+export class SchemaValidator {
+  static validate(schema: JsonSchema, data: unknown): SchemaValidationResult {
+    const errors: string[] = [];
+    this.validateNode(schema, schema, data, '$', errors);
+    return { valid: errors.length === 0, errors };
+  }
+
+  private static validateNode(
+    root: JsonSchema,
+    schema: JsonSchema,
+    data: unknown,
+    path: string,
+    errors: string[]
+  ): void {
+    if (schema.$ref) {
+      const resolved = this.resolveRef(root, schema.$ref);
+      if (!resolved) {
+        errors.push(`${path}: unresolvable $ref ${schema.$ref}`);
+        return;
+      }
+      this.validateNode(root, resolved, data, path, errors);
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(data)) {
+      errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+      return;
+    }
+
+    if (schema.type && !this.matchesType(schema.type, data)) {
+      errors.push(`${path}: expected ${schema.type}`);
+      return;
+    }
+
+    if (typeof data === 'string' && schema.pattern && !new RegExp(schema.pattern).test(data)) {
+      errors.push(`${path}: "${data}" does not match ${schema.pattern}`);
+    }
+
+    if (typeof data === 'number') {
+      if (schema.minimum !== undefined && data < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && data > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(data) && schema.items) {
+      data.forEach((item, index) => {
+        this.validateNode(root, schema.items, item, `${path}[${index}]`, errors);
+      });
+    }
+
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      this.validateObject(root, schema, data as Record<string, unknown>, path, errors);
+    }
+  }
+
+  private static validateObject(
+    root: JsonSchema,
+    schema: JsonSchema,
+    data: Record<string, unknown>,
+    path: string,
+    errors: string[]
+  ): void {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in data)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (properties[key]) {
+        this.validateNode(root, properties[key], value, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateNode(root, schema.additionalProperties, value, `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  private static matchesType(type: string, data: unknown): boolean {
+    switch (type) {
+      case 'object': return typeof data === 'object' && data !== null && !Array.isArray(data);
+      case 'array': return Array.isArray(data);
+      case 'string': return typeof data === 'string';
+      case 'number': return typeof data === 'number' && Number.isFinite(data);
+      case 'integer': return Number.isInteger(data);
+      case 'boolean': return typeof data === 'boolean';
+      case 'null': return data === null;
+      default: return true;
+    }
+  }
+
+  private static resolveRef(root: JsonSchema, ref: string): JsonSchema | null {
+    if (!ref.startsWith('#/')) return null;
+
+    let node: any = root;
+    for (const segment of ref.slice(2).split('/')) {
+      node = node?.[segment];
+    }
+    return node ?? null;
+  }
+}
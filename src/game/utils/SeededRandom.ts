@@ -0,0 +1,61 @@
+// Seeded Random - Small deterministic PRNG (mulberry32) for loot rolls and generation
+// Following Spec Librarian standards; the same seed always replays the same sequence
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = Date.now()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Seed the current sequence started from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick one entry with probability proportional to its weight
+   */
+  weighted<T extends { weight: number }>(entries: readonly T[]): T | null {
+    const total = entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+    if (total <= 0) return null;
+
+    let roll = this.next() * total;
+    for (const entry of entries) {
+      roll -= Math.max(0, entry.weight);
+      if (roll < 0) return entry;
+    }
+    return entries[entries.length - 1] ?? null;
+  }
+}
@@ -32,13 +32,15 @@ export class TileCollision {
   }
 
   /**
-   * Get the effective tile type based on current realm
+   * Get the effective tile type based on current realm. Maps with an authored
+   * Eclipse overlay already hold their Eclipse tiles, so the global table is
+   * only a fallback for unauthored areas.
    */
-  static getEffectiveTileType(tileType: TileType, realm: 'dayrealm' | 'eclipse'): TileType {
-    if (realm === 'eclipse') {
-      return REALM_TRANSFORMATIONS[tileType] || tileType;
+  static getEffectiveTileType(tile: WorldTile, realm: 'dayrealm' | 'eclipse'): TileType {
+    if (realm === 'eclipse' && !tile.eclipseAuthored) {
+      return REALM_TRANSFORMATIONS[tile.tileType] || tile.tileType;
     }
-    return tileType;
+    return tile.tileType;
   }
 
   /**
@@ -63,6 +65,7 @@ export class TileCollision {
 
   /**
    * Check if an entity can move to a specific pixel position
+   * (passableTiles lets item abilities such as swimming open up extra tiles)
    */
   static checkMovement(
     currentPos: { x: number; y: number },
@@ -71,7 +74,8 @@ export class TileCollision {
     worldTiles: WorldTile[][],
     realm: 'dayrealm' | 'eclipse',
     worldWidth: number,
-    worldHeight: number
+    worldHeight: number,
+    passableTiles?: ReadonlySet<TileType>
   ): CollisionResult {
     // Calculate entity collision bounds at target position
     const entityLeft = targetPos.x + entityBounds.x;
@@ -97,9 +101,9 @@ export class TileCollision {
     for (let tileY = startTileY; tileY <= endTileY; tileY++) {
       for (let tileX = startTileX; tileX <= endTileX; tileX++) {
         const worldTile = worldTiles[tileY][tileX];
-        const effectiveTileType = this.getEffectiveTileType(worldTile.tileType, realm);
+        const effectiveTileType = this.getEffectiveTileType(worldTile, realm);
         
-        if (!this.isTileWalkable(effectiveTileType)) {
+        if (!this.isTileWalkable(effectiveTileType) && !passableTiles?.has(effectiveTileType)) {
           return {
             canMove: false,
             hitTileType: effectiveTileType
@@ -134,10 +138,11 @@ export class TileCollision {
     worldTiles: WorldTile[][],
     realm: 'dayrealm' | 'eclipse',
     worldWidth: number,
-    worldHeight: number
+    worldHeight: number,
+    passableTiles?: ReadonlySet<TileType>
   ): CollisionResult {
     // First, try the full movement
-    const fullMovement = this.checkMovement(currentPos, targetPos, entityBounds, worldTiles, realm, worldWidth, worldHeight);
+    const fullMovement = this.checkMovement(currentPos, targetPos, entityBounds, worldTiles, realm, worldWidth, worldHeight, passableTiles);
     
     if (fullMovement.canMove) {
       return fullMovement;
@@ -150,7 +155,7 @@ export class TileCollision {
     if (Math.abs(deltaX) > 0 && Math.abs(deltaY) > 0) {
       // Try horizontal movement only
       const horizontalPos = { x: targetPos.x, y: currentPos.y };
-      const horizontalMovement = this.checkMovement(currentPos, horizontalPos, entityBounds, worldTiles, realm, worldWidth, worldHeight);
+      const horizontalMovement = this.checkMovement(currentPos, horizontalPos, entityBounds, worldTiles, realm, worldWidth, worldHeight, passableTiles);
       
       if (horizontalMovement.canMove) {
         return {
@@ -161,7 +166,7 @@ export class TileCollision {
 
       // Try vertical movement only
       const verticalPos = { x: currentPos.x, y: targetPos.y };
-      const verticalMovement = this.checkMovement(currentPos, verticalPos, entityBounds, worldTiles, realm, worldWidth, worldHeight);
+      const verticalMovement = this.checkMovement(currentPos, verticalPos, entityBounds, worldTiles, realm, worldWidth, worldHeight, passableTiles);
       
       if (verticalMovement.canMove) {
         return {
@@ -206,7 +211,7 @@ export class TileCollision {
       for (let tileX = startTileX; tileX <= endTileX; tileX++) {
         if (tileY >= 0 && tileY < worldTiles.length && tileX >= 0 && tileX < worldTiles[0].length) {
           const worldTile = worldTiles[tileY][tileX];
-          const effectiveTileType = this.getEffectiveTileType(worldTile.tileType, realm);
+          const effectiveTileType = this.getEffectiveTileType(worldTile, realm);
           
           occupiedTiles.push({
             tileX,
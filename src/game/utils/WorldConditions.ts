@@ -0,0 +1,67 @@
+// World Conditions - Shared evaluation of item / flag / quest requirements
+// Following Spec Librarian standards; used by portals and dialogue graphs
+
+import type { World } from '../ECS.js';
+import type { PlayerComponent, PortalCondition } from '@shared/types.js';
+import { SaveSystem } from '../systems/SaveSystem.js';
+import { QuestSystem } from '../systems/QuestSystem.js';
+
+export class WorldConditions {
+  /**
+   * True when every condition holds (an empty / missing list always passes)
+   */
+  static checkAll(world: World, conditions: PortalCondition[] | undefined): boolean {
+    return (conditions ?? []).every(condition => this.check(world, condition));
+  }
+
+  static check(world: World, condition: PortalCondition): boolean {
+    if (!condition.key) return false;
+
+    switch (condition.type) {
+      case 'item': {
+        const player = world.getEntitiesWithComponents('player')[0];
+        const inventory = player && world.getComponent<PlayerComponent>(player.id, 'player')?.inventory;
+        if (!inventory) return false;
+        return this.compare((inventory as unknown as Record<string, unknown>)[condition.key], condition);
+      }
+
+      case 'flag':
+        return this.compare(this.hasFlag(world, condition.key), condition);
+
+      // Quest state is 'active', 'completed' or undefined (not started yet)
+      case 'quest': {
+        const questSystem = world.getSystem(QuestSystem);
+        if (!questSystem) return false;
+        const state = questSystem.isQuestComplete(condition.key)
+          ? 'completed'
+          : questSystem.getActiveQuest()?.id === condition.key ? 'active' : undefined;
+        return this.compare(state, condition);
+      }
+
+      default:
+        console.warn(`WorldConditions: Unsupported condition "${condition.type}"`);
+        return false;
+    }
+  }
+
+  /**
+   * Whether a world flag is set in the current save (false without a SaveSystem)
+   */
+  static hasFlag(world: World, flag: string): boolean {
+    return world.getSystem(SaveSystem)?.getFlag(flag) ?? false;
+  }
+
+  private static compare(actual: unknown, condition: PortalCondition): boolean {
+    switch (condition.operator ?? 'equals') {
+      case 'greater':
+        return Number(actual) > Number(condition.value);
+      case 'less':
+        return Number(actual) < Number(condition.value);
+      case 'contains':
+        return typeof actual === 'object' && actual !== null && String(condition.value) in actual;
+      default:
+        // Without an explicit value, any truthy / non-zero amount satisfies the condition
+        return condition.value === undefined ? Boolean(actual) : actual === condition.value;
+    }
+  }
+}
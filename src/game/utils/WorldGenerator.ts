@@ -3,10 +3,11 @@
 // Integrates with ALTTPTilesetManager and ALTTPEnvironmentAssets
 
 import { TileType } from '@shared/types.js';
-import { REGIONS, TOWNS, WORLD_WIDTH, WORLD_HEIGHT, REALM_TRANSFORMATIONS, WALKABLE_TILES, INTERACTIVE_TILES } from '@shared/constants.js';
+import { REGIONS, TOWNS, WORLD_WIDTH, WORLD_HEIGHT, WORLD_SEED, REALM_TRANSFORMATIONS, WALKABLE_TILES, INTERACTIVE_TILES } from '@shared/constants.js';
 import { altttpTilesetManager } from '../systems/ALTTPTilesetManager';
 import { altttpEnvironmentAssets, EnvironmentStructure } from '../systems/ALTTPEnvironmentAssets';
-import { tileRenderer, ALTTPTileMap } from '../systems/TileRenderer';
+import { tileRenderer, ALTTPTileMap, type TileLayer } from '../systems/TileRenderer';
+import { SeededRandom } from './SeededRandom';
 
 export interface WorldTile {
   tileType: TileType;
@@ -17,6 +18,7 @@ export interface WorldTile {
   layerType?: 'ground' | 'decoration' | 'overlay';
   altttpVariantId?: string;
   environmentalStory?: string;
+  eclipseAuthored?: boolean; // the map authors its own Eclipse edits - skip REALM_TRANSFORMATIONS
 }
 
 export interface ALTTPWorldData {
@@ -39,15 +41,52 @@ export interface ALTTPWorldData {
   }>;
 }
 
+/**
+ * JSON-safe snapshot of a generated world - Maps become entry arrays
+ */
+export interface SerializedWorld {
+  seed: number;
+  width: number;
+  height: number;
+  tiles: WorldTile[][];
+  altttp: {
+    tilemap: Omit<ALTTPTileMap, 'layers'> & { layers: Array<[string, TileLayer]> };
+    structures: Array<[string, { structure: EnvironmentStructure; x: number; y: number }]>;
+    narrativeElements: ALTTPWorldData['narrativeElements'];
+    secretAreas: ALTTPWorldData['secretAreas'];
+  } | null;
+}
+
 export class WorldGenerator {
   private world: WorldTile[][];
   private altttpWorldData: ALTTPWorldData | null = null;
   private placedStructures: Set<string> = new Set();
+  private readonly seed: number;
+  private readonly random: SeededRandom;
+
+  /**
+   * Generate from a fresh PRNG - every roll goes through it, so its seed always yields the same world -
+   * or restore a serialized world without regenerating it
+   */
+  constructor(source: SeededRandom | SerializedWorld = new SeededRandom(WORLD_SEED)) {
+    if (source instanceof SeededRandom) {
+      this.seed = source.getSeed();
+      this.random = source;
+      this.world = [];
+      this.initializeWorld();
+      this.createALTTPWorld();
+      return;
+    }
 
-  constructor() {
-    this.world = [];
-    this.initializeWorld();
-    this.createALTTPWorld();
+    this.seed = source.seed;
+    this.random = new SeededRandom(source.seed);
+    this.world = source.tiles;
+    this.altttpWorldData = source.altttp && {
+      tilemap: { ...source.altttp.tilemap, layers: new Map(source.altttp.tilemap.layers) },
+      structures: new Map(source.altttp.structures),
+      narrativeElements: source.altttp.narrativeElements,
+      secretAreas: source.altttp.secretAreas
+    };
   }
 
   private initializeWorld(): void {
@@ -286,7 +325,7 @@ export class WorldGenerator {
   private addPathDecoration(x: number, y: number): void {
     // Add decorative elements along major paths
     const decorations = ['sign_wood', 'torch_lit', 'milestone'];
-    const decoration = decorations[Math.floor(Math.random() * decorations.length)];
+    const decoration = decorations[this.random.int(0, decorations.length - 1)];
     
     // Place decoration adjacent to path if space available
     const adjacent = [
@@ -386,7 +425,7 @@ export class WorldGenerator {
         this.addScatteredNarrativeDecorations(x, y, tile);
         
         // Add chests in remote areas with environmental stories
-        if (tile.walkable && this.isRemoteArea(x, y) && Math.random() > 0.998) {
+        if (tile.walkable && this.isRemoteArea(x, y) && this.random.next() > 0.998) {
           this.world[y][x] = {
             ...tile,
             tileType: TileType.CHEST,
@@ -551,10 +590,10 @@ export class WorldGenerator {
         if (this.isValidTile(nx, ny) && 
             (dx !== 0 || dy !== 0) && // Don't overwrite center
             Math.abs(dx) + Math.abs(dy) <= 2 && 
-            Math.random() > 0.6) {
+            this.random.next() > 0.6) {
           
           this.world[ny][nx] = {
-            tileType: Math.random() > 0.8 ? TileType.SHRINE : TileType.HOUSE,
+            tileType: this.random.next() > 0.8 ? TileType.SHRINE : TileType.HOUSE,
             walkable: false,
             region: this.getRegionAt(nx, ny)
           };
@@ -576,7 +615,7 @@ export class WorldGenerator {
         this.addScatteredDecorations(x, y, tile);
         
         // Add chests in remote areas (rare)
-        if (tile.walkable && this.isRemoteArea(x, y) && Math.random() > 0.998) {
+        if (tile.walkable && this.isRemoteArea(x, y) && this.random.next() > 0.998) {
           this.world[y][x] = {
             ...tile,
             tileType: TileType.CHEST
@@ -592,13 +631,13 @@ export class WorldGenerator {
   }
 
   private addTerrainBasedDecorations(x: number, y: number, tile: WorldTile): void {
-    const rand = Math.random();
+    const rand = this.random.next();
     
     switch (tile.tileType) {
       case TileType.GRASS:
         // Add variety of grass decorations
         if (rand > 0.95) {
-          const decorationType = Math.random();
+          const decorationType = this.random.next();
           if (decorationType > 0.7) {
             this.world[y][x] = { ...tile, tileType: TileType.FLOWER };
           } else if (decorationType > 0.4) {
@@ -612,7 +651,7 @@ export class WorldGenerator {
       case TileType.FOREST:
         // Add forest floor elements
         if (rand > 0.9) {
-          const forestDecor = Math.random();
+          const forestDecor = this.random.next();
           if (forestDecor > 0.6) {
             this.world[y][x] = { ...tile, tileType: TileType.MUSHROOM };
           } else if (forestDecor > 0.3) {
@@ -640,7 +679,7 @@ export class WorldGenerator {
   private addScatteredDecorations(x: number, y: number, tile: WorldTile): void {
     if (!tile.walkable) return;
     
-    const rand = Math.random();
+    const rand = this.random.next();
     
     // Add scattered rocks
     if (rand > 0.992) {
@@ -657,7 +696,7 @@ export class WorldGenerator {
       // Add decorative elements around towns
       this.addAroundPosition(town.x, town.y, 5, (x, y, distance) => {
         if (distance > 2 && distance < 5 && this.world[y][x].walkable) {
-          const rand = Math.random();
+          const rand = this.random.next();
           if (rand > 0.7) {
             if (rand > 0.9) {
               this.world[y][x] = { ...this.world[y][x], tileType: TileType.LANTERN };
@@ -673,8 +712,8 @@ export class WorldGenerator {
   private addWaterFeatures(): void {
     // Add small ponds in grass areas
     for (let attempts = 0; attempts < 20; attempts++) {
-      const x = Math.floor(Math.random() * WORLD_WIDTH);
-      const y = Math.floor(Math.random() * WORLD_HEIGHT);
+      const x = this.random.int(0, WORLD_WIDTH - 1);
+      const y = this.random.int(0, WORLD_HEIGHT - 1);
       
       if (this.world[y][x].tileType === TileType.GRASS && this.hasOpenSpace(x, y, 2)) {
         // Create small pond
@@ -682,7 +721,7 @@ export class WorldGenerator {
         
         // Add shallow water around it
         this.addAroundPosition(x, y, 2, (px, py, distance) => {
-          if (distance === 1 && this.world[py][px].tileType === TileType.GRASS && Math.random() > 0.5) {
+          if (distance === 1 && this.world[py][px].tileType === TileType.GRASS && this.random.next() > 0.5) {
             this.world[py][px] = { ...this.world[py][px], tileType: TileType.WATER_SHALLOW };
           }
         });
@@ -693,13 +732,13 @@ export class WorldGenerator {
   private addForestClumps(): void {
     // Add small tree clumps in grass areas
     for (let attempts = 0; attempts < 15; attempts++) {
-      const x = Math.floor(Math.random() * WORLD_WIDTH);
-      const y = Math.floor(Math.random() * WORLD_HEIGHT);
+      const x = this.random.int(0, WORLD_WIDTH - 1);
+      const y = this.random.int(0, WORLD_HEIGHT - 1);
       
       if (this.world[y][x].tileType === TileType.GRASS && this.hasOpenSpace(x, y, 3)) {
         // Create small forest clump
         this.addAroundPosition(x, y, 2, (px, py, distance) => {
-          if (this.world[py][px].tileType === TileType.GRASS && Math.random() > 0.3) {
+          if (this.world[py][px].tileType === TileType.GRASS && this.random.next() > 0.3) {
             this.world[py][px] = { ...this.world[py][px], tileType: TileType.TREE };
           }
         });
@@ -930,8 +969,8 @@ export class WorldGenerator {
     const { x, y, width, height } = region.bounds;
     
     for (let attempts = 0; attempts < width * height * featureDensity; attempts++) {
-      const fx = x + Math.floor(Math.random() * width);
-      const fy = y + Math.floor(Math.random() * height);
+      const fx = x + this.random.int(0, width - 1);
+      const fy = y + this.random.int(0, height - 1);
       
       if (this.isValidTile(fx, fy) && this.world[fy][fx].walkable) {
         const feature = this.selectRegionalFeature(region.name);
@@ -958,7 +997,7 @@ export class WorldGenerator {
     };
     
     const features = regionFeatures[regionName] || [];
-    return features.length > 0 ? features[Math.floor(Math.random() * features.length)] : null;
+    return features.length > 0 ? features[this.random.int(0, features.length - 1)] : null;
   }
 
   private addEnvironmentalStorytelling(): void {
@@ -1027,7 +1066,8 @@ export class WorldGenerator {
       tileRenderer.addEnvironmentalDetails(
         this.altttpWorldData!.tilemap,
         region.name,
-        0.05 // 5% density
+        0.05, // 5% density
+        () => this.random.next()
       );
     });
   }
@@ -1035,17 +1075,17 @@ export class WorldGenerator {
   // Enhanced decoration methods with ALTTP quality
 
   private addALTTPTerrainBasedDecorations(x: number, y: number, tile: WorldTile): void {
-    const rand = Math.random();
+    const rand = this.random.next();
     
     switch (tile.tileType) {
       case TileType.GRASS:
         if (rand > 0.92) {
-          const decorationType = Math.random();
+          const decorationType = this.random.next();
           if (decorationType > 0.7) {
             this.world[y][x] = { 
               ...tile, 
               tileType: TileType.FLOWER,
-              altttpVariantId: Math.random() > 0.5 ? 'flower_red' : 'flower_blue',
+              altttpVariantId: this.random.chance(0.5) ? 'flower_red' : 'flower_blue',
               layerType: 'decoration',
               environmentalStory: 'Wildflowers bloom here, touched by gentle morning light'
             };
@@ -1063,7 +1103,7 @@ export class WorldGenerator {
         
       case TileType.FOREST:
         if (rand > 0.85) {
-          const forestDecor = Math.random();
+          const forestDecor = this.random.next();
           if (forestDecor > 0.6) {
             this.world[y][x] = { 
               ...tile, 
@@ -1081,7 +1121,7 @@ export class WorldGenerator {
   private addScatteredNarrativeDecorations(x: number, y: number, tile: WorldTile): void {
     if (!tile.walkable) return;
     
-    const rand = Math.random();
+    const rand = this.random.next();
     
     if (rand > 0.995) {
       this.world[y][x] = { 
@@ -1107,7 +1147,7 @@ export class WorldGenerator {
     Object.values(TOWNS).forEach(town => {
       this.addAroundPosition(town.x, town.y, 6, (x, y, distance) => {
         if (distance > 3 && distance < 6 && this.world[y][x].walkable) {
-          const rand = Math.random();
+          const rand = this.random.next();
           if (rand > 0.8) {
             if (rand > 0.95) {
               this.world[y][x] = { 
@@ -1135,8 +1175,8 @@ export class WorldGenerator {
   private addALTTPWaterFeatures(): void {
     // Enhanced water features with ALTTP quality
     for (let attempts = 0; attempts < 25; attempts++) {
-      const x = Math.floor(Math.random() * WORLD_WIDTH);
-      const y = Math.floor(Math.random() * WORLD_HEIGHT);
+      const x = this.random.int(0, WORLD_WIDTH - 1);
+      const y = this.random.int(0, WORLD_HEIGHT - 1);
       
       if (this.world[y][x].tileType === TileType.GRASS && this.hasOpenSpace(x, y, 2)) {
         this.world[y][x] = { 
@@ -1149,7 +1189,7 @@ export class WorldGenerator {
         
         // Add shallow water around pond
         this.addAroundPosition(x, y, 2, (px, py, distance) => {
-          if (distance === 1 && this.world[py][px].tileType === TileType.GRASS && Math.random() > 0.5) {
+          if (distance === 1 && this.world[py][px].tileType === TileType.GRASS && this.random.next() > 0.5) {
             this.world[py][px] = { 
               ...this.world[py][px], 
               tileType: TileType.WATER_SHALLOW,
@@ -1165,12 +1205,12 @@ export class WorldGenerator {
   private addALTTPForestClumps(): void {
     // Enhanced forest clumps with environmental stories
     for (let attempts = 0; attempts < 20; attempts++) {
-      const x = Math.floor(Math.random() * WORLD_WIDTH);
-      const y = Math.floor(Math.random() * WORLD_HEIGHT);
+      const x = this.random.int(0, WORLD_WIDTH - 1);
+      const y = this.random.int(0, WORLD_HEIGHT - 1);
       
       if (this.world[y][x].tileType === TileType.GRASS && this.hasOpenSpace(x, y, 3)) {
         this.addAroundPosition(x, y, 2, (px, py, distance) => {
-          if (this.world[py][px].tileType === TileType.GRASS && Math.random() > 0.4) {
+          if (this.world[py][px].tileType === TileType.GRASS && this.random.next() > 0.4) {
             this.world[py][px] = { 
               ...this.world[py][px], 
               tileType: TileType.TREE,
@@ -1185,6 +1225,10 @@ export class WorldGenerator {
   }
 
   // Public API
+  getSeed(): number {
+    return this.seed;
+  }
+
   getWorld(): WorldTile[][] {
     return this.world;
   }
@@ -1203,10 +1247,41 @@ export class WorldGenerator {
     return tile ? tile.walkable : false;
   }
 
+  /**
+   * Snapshot the generated tiles and ALTTP data so a seed's output can be cached and diffed
+   */
+  serialize(): SerializedWorld {
+    const data = this.altttpWorldData;
+
+    return {
+      seed: this.seed,
+      width: WORLD_WIDTH,
+      height: WORLD_HEIGHT,
+      tiles: this.world,
+      altttp: data && {
+        tilemap: { ...data.tilemap, layers: Array.from(data.tilemap.layers.entries()) },
+        structures: Array.from(data.structures.entries()),
+        narrativeElements: data.narrativeElements,
+        secretAreas: data.secretAreas
+      }
+    };
+  }
+
+  // Lets JSON.stringify(generator) produce the snapshot directly
+  toJSON(): SerializedWorld {
+    return this.serialize();
+  }
+
+  /**
+   * Rebuild a cached world without regenerating it
+   */
+  static fromSerialized(json: string | SerializedWorld): WorldGenerator {
+    return new WorldGenerator(typeof json === 'string' ? JSON.parse(json) : json);
+  }
 
   // Eclipse/Dayrealm transformation
   getEclipseTile(tileType: TileType): TileType {
-    // Use transformations from constants for consistency
+    // The procedural overworld has no authored Eclipse overlay, so it always uses the global table
     return REALM_TRANSFORMATIONS[tileType] || tileType;
   }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { MapLoader } from '../MapLoader';
+import { SchemaValidator } from '../SchemaValidator';
+import worldIndexSchema from '@schemas/worldIndex.schema.json';
+import worldIndex from '@world/worldIndex.json';
+import { gameEvents, GAME_EVENTS } from '@shared/events';
+import { TileType } from '@shared/types';
+
+const testIndex = {
+  version: '1.0.0',
+  maps: [
+    { id: 'test_cave', file: 'test_cave.tmx', realm: 'day', bounds: { x: 0, y: 0, width: 48, height: 32 } },
+    { id: 'test_room', file: 'test_room.tmx', realm: 'eclipse', bounds: { x: 0, y: 0, width: 32, height: 16 } }
+  ],
+  realms: {
+    day: { tint: '#ffffff', ambientVolume: 0.5 }
+  }
+};
+
+// 3x2 map: walls on top, cobblestone floor and a door below
+const caveTmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map width="3" height="2" tilewidth="16" tileheight="16">
+ <tileset firstgid="1" name="tiles">
+  <tile id="0"><properties><property name="tileType" value="COBBLESTONE"/></properties></tile>
+ </tileset>
+ <layer id="1" name="ground" width="3" height="2">
+  <data encoding="csv">
+${TileType.WALL + 1},${TileType.WALL + 1},${TileType.WALL + 1},
+1,1,${TileType.DOOR + 1}
+</data>
+ </layer>
+ <objectgroup id="2" name="spawns">
+  <object id="1" name="spawn_entry" type="spawn" x="20" y="20"/>
+ </objectgroup>
+</map>`;
+
+const roomJson = JSON.stringify({
+  width: 2,
+  height: 1,
+  layers: [
+    { type: 'tilelayer', data: [TileType.WATER + 1, TileType.PATH + 1 + 0x80000000] },
+    { type: 'tilelayer', name: 'eclipse', data: [TileType.WATER_SHALLOW + 1, 0] },
+    { type: 'objectgroup', objects: [{ name: 'spawn_start', type: 'spawn', x: 0, y: 0 }] },
+    {
+      type: 'objectgroup',
+      name: 'eclipse',
+      objects: [
+        { name: 'mote', type: 'enemy', x: 20, y: 4, properties: [{ name: 'species', type: 'string', value: 'rift_mote' }] },
+        {
+          name: 'rift', type: 'portal', x: 16, y: 0, width: 16, height: 16,
+          properties: [{ name: 'map', type: 'string', value: 'test_cave' }, { name: 'spawn', type: 'string', value: 'spawn_entry' }]
+        }
+      ]
+    }
+  ],
+  tilesets: [{ firstgid: 1 }],
+  properties: [{ name: 'dark', type: 'bool', value: true }]
+});
+
+const sources: Record<string, string> = {
+  'test_cave.tmx': caveTmx,
+  'test_room.tmx': roomJson
+};
+
+const createLoader = () => new MapLoader(testIndex, async file => sources[file]);
+
+describe('MapLoader', () => {
+  describe('World index validation', () => {
+    it('should accept the bundled world index', () => {
+      const result = SchemaValidator.validate(worldIndexSchema, worldIndex);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should reject indexes that break the schema', () => {
+      const broken = {
+        ...testIndex,
+        maps: [{ id: 'Bad-Id', file: 'cave.png', realm: 'dusk', bounds: { x: 0, y: 0 } }]
+      };
+
+      expect(() => new MapLoader(broken, async () => '')).toThrow(/Invalid world index/);
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should load a CSV TMX map into world tiles', async () => {
+      const map = await createLoader().loadMap('test_cave');
+
+      expect(map.width).toBe(3);
+      expect(map.height).toBe(2);
+      expect(map.tiles[0][0]).toMatchObject({ tileType: TileType.WALL, walkable: false });
+      expect(map.tiles[1][0]).toMatchObject({ tileType: TileType.COBBLESTONE, walkable: true });
+      expect(map.tiles[1][2].tileType).toBe(TileType.DOOR);
+      expect(map.spawns.spawn_entry.position).toEqual({ x: 24, y: 24 });
+    });
+
+    it('should load Tiled JSON maps and strip flip flags', async () => {
+      const map = await createLoader().loadMap('test_room');
+
+      expect(map.tiles[0].map(tile => tile.tileType)).toEqual([TileType.WATER, TileType.PATH]);
+      expect(map.spawns.spawn_start).toBeDefined();
+      expect(map.properties.dark).toBe(true);
+    });
+
+    it('should read the eclipse layers as a sparse overlay', async () => {
+      const room = await createLoader().loadMap('test_room');
+      const cave = await createLoader().loadMap('test_cave');
+
+      expect(room.eclipse).toEqual({
+        tiles: [{ x: 0, y: 0, tileType: TileType.WATER_SHALLOW }],
+        enemies: [{ id: 'mote', species: 'rift_mote', position: { x: 24, y: 8 } }],
+        portals: [{
+          id: 'rift',
+          trigger: { x: 16, y: 0, width: 16, height: 16 },
+          target: { map: 'test_cave', spawn: 'spawn_entry', transition: 'fade' }
+        }]
+      });
+      expect(room.tiles[0][1].eclipseAuthored).toBe(true);
+      expect(room.spawns.mote).toBeUndefined();
+
+      // Maps without eclipse layers keep using the global realm table
+      expect(cave.eclipse).toBeNull();
+      expect(cave.tiles[0][0].eclipseAuthored).toBe(false);
+    });
+
+    it('should stack extra tile layers over the ground and reject mismatched ones', () => {
+      const layered = (detail: number[]) => MapLoader.parseTiledJson({
+        width: 2,
+        height: 1,
+        layers: [
+          { type: 'tilelayer', name: 'ground', data: [TileType.GRASS + 1, TileType.GRASS + 1] },
+          { type: 'tilelayer', name: 'details', data: detail }
+        ],
+        tilesets: [{ firstgid: 1 }]
+      });
+
+      expect(layered([0, TileType.TORCH + 1]).gids).toEqual([TileType.GRASS + 1, TileType.TORCH + 1]);
+      expect(() => layered([0])).toThrow(/differ in size/);
+    });
+
+    it('should reject maps missing from the index', async () => {
+      await expect(createLoader().loadMap('nowhere')).rejects.toThrow(/not registered/);
+    });
+  });
+
+  describe('Events', () => {
+    it('should emit load start, loaded and unloaded events', async () => {
+      const received: string[] = [];
+      const offs = [GAME_EVENTS.MAP_LOAD_START, GAME_EVENTS.MAP_LOADED, GAME_EVENTS.MAP_UNLOADED]
+        .map(type => gameEvents.on(type, (event: any) => received.push(`${type}:${event.payload.mapId}`)));
+
+      const loader = createLoader();
+      await loader.loadMap('test_cave');
+      loader.unloadMap('test_cave');
+
+      offs.forEach(off => off());
+      expect(received).toEqual([
+        `${GAME_EVENTS.MAP_LOAD_START}:test_cave`,
+        `${GAME_EVENTS.MAP_LOADED}:test_cave`,
+        `${GAME_EVENTS.MAP_UNLOADED}:test_cave`
+      ]);
+    });
+
+    it('should keep background preloads silent', async () => {
+      const received: string[] = [];
+      const offs = [GAME_EVENTS.MAP_LOAD_START, GAME_EVENTS.MAP_LOADED]
+        .map(type => gameEvents.on(type, () => received.push(type)));
+
+      const loader = createLoader();
+      await loader.preloadMap('test_room');
+      expect(received).toEqual([]);
+
+      // Entering the cached map still announces a full start/loaded pair
+      await loader.loadMap('test_room');
+      offs.forEach(off => off());
+      expect(received).toEqual([GAME_EVENTS.MAP_LOAD_START, GAME_EVENTS.MAP_LOADED]);
+    });
+  });
+});
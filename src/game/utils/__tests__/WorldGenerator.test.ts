@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WorldGenerator } from '../WorldGenerator';
+import { SeededRandom } from '../SeededRandom';
+
+// The tileset singletons paint canvases at import; generation only needs variant ids
+vi.hoisted(() => {
+  const context = new Proxy({}, { get: (target: any, key) => target[key] ?? (() => undefined), set: () => true });
+  HTMLCanvasElement.prototype.getContext = (() => context) as any;
+});
+
+vi.mock('../../systems/SpriteManager', () => ({
+  spriteManager: { generateTile: vi.fn(() => document.createElement('canvas')) }
+}));
+
+vi.mock('../../systems/ALTTPTilesetManager', () => ({
+  altttpTilesetManager: {
+    getLayers: () => [],
+    getCachedTile: () => null,
+    getOptimalTileVariant: (tileType: number) => `tile_${tileType}`,
+    getTileVariant: (id: string) => ({ id, tileType: 0, variant: 0, layerType: 'decoration' })
+  }
+}));
+
+describe('WorldGenerator', () => {
+  it('should generate the same world for the same seed without touching Math.random', () => {
+    const mathRandom = vi.spyOn(Math, 'random');
+
+    const first = JSON.stringify(new WorldGenerator(new SeededRandom(1234)));
+    const second = JSON.stringify(new WorldGenerator(new SeededRandom(1234)));
+
+    expect(second).toBe(first);
+    expect(mathRandom).not.toHaveBeenCalled();
+    mathRandom.mockRestore();
+  });
+
+  it('should vary the world with the seed', () => {
+    expect(JSON.stringify(new WorldGenerator(new SeededRandom(1)))).not.toBe(JSON.stringify(new WorldGenerator(new SeededRandom(2))));
+  });
+
+  it('should take its seed from the PRNG it rolls with', () => {
+    expect(new WorldGenerator(new SeededRandom(77)).getSeed()).toBe(77);
+  });
+
+  it('should round-trip a serialized world back to a generator', () => {
+    const generator = new WorldGenerator(new SeededRandom(99));
+    const restored = WorldGenerator.fromSerialized(JSON.stringify(generator));
+    const original = generator.getALTTPWorldData()!;
+
+    expect(restored).toBeInstanceOf(WorldGenerator);
+    expect(restored.getSeed()).toBe(99);
+    expect(restored.getWorld()).toEqual(generator.getWorld());
+    expect(restored.getTileAt(10, 10)).toEqual(generator.getTileAt(10, 10));
+    expect(restored.getALTTPWorldData()!.tilemap.layers).toBeInstanceOf(Map);
+    expect(restored.getALTTPWorldData()!.tilemap.layers.get('decoration')).toEqual(original.tilemap.layers.get('decoration'));
+    expect(restored.getALTTPWorldData()!.structures).toEqual(original.structures);
+    expect(JSON.stringify(restored)).toBe(JSON.stringify(generator));
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CombatAudio, UIAudio, WorldAudio, RegionAudio, applyAudioPreset, PITCH_VARIATIONS, AUDIO_TIMING } from '../audioUtils';
 import { audioManager } from '../../systems/AudioManager';
+import { ALL_AUDIO_ASSETS } from '../../../assets/audioManifest';
 
 // Mock the AudioManager
 vi.mock('../../systems/AudioManager', () => ({
@@ -135,6 +136,16 @@ describe('Audio Utilities', () => {
         volume: 0.9
       });
     });
+
+    it('should play the heart container fanfare from a manifest asset', () => {
+      WorldAudio.playHeartContainerFanfare();
+
+      expect(audioManager.duckMusic).toHaveBeenCalledWith(0.2, AUDIO_TIMING.SLOW_FADE);
+      expect(audioManager.playSfx).toHaveBeenCalledWith('sfx_heart_container', {
+        volume: 0.9
+      });
+      expect(ALL_AUDIO_ASSETS.map(asset => asset.id)).toContain('sfx_heart_container');
+    });
   });
 
   describe('RegionAudio', () => {
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IndexedDBSaveStorage, MemorySaveStorage } from '../saveStorage';
+
+describe('IndexedDBSaveStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should fall back when the database cannot be opened', async () => {
+    const open = vi.fn(() => {
+      const request: Record<string, any> = { error: new Error('denied') };
+      setTimeout(() => request.onerror());
+      return request;
+    });
+    vi.stubGlobal('indexedDB', { open });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const fallback = new MemorySaveStorage();
+    const storage = new IndexedDBSaveStorage(() => fallback);
+
+    await storage.write(2, { version: 1 });
+    expect(await storage.read(2)).toEqual({ version: 1 });
+    expect(await fallback.read(2)).toEqual({ version: 1 });
+
+    // The failed open is not retried on every call
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+});
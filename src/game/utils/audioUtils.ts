@@ -59,6 +59,17 @@ export class CombatAudio {
     });
   }
   
+  /**
+   * Play the death jingle - music cuts out underneath it
+   */
+  static playPlayerDeath(): void {
+    audioManager.stopMusic(AUDIO_TIMING.NORMAL_FADE);
+    
+    audioManager.playSfx('sfx_player_death', {
+      volume: 1.0
+    });
+  }
+  
   /**
    * Play boss hit with heavy impact
    */
@@ -132,6 +143,39 @@ export class WorldAudio {
     });
   }
   
+  static playDoorLocked(): void {
+    audioManager.playSfx('sfx_door_locked', {
+      volume: 0.6
+    });
+  }
+  
+  static playChestOpen(): void {
+    audioManager.playSfx('sfx_chest_open', {
+      volume: 0.8
+    });
+  }
+  
+  static playItemFanfare(): void {
+    // Plays while the found item is held overhead
+    audioManager.duckMusic(0.3, AUDIO_TIMING.SLOW_FADE);
+    audioManager.playSfx('sfx_item_special', {
+      volume: 0.9
+    });
+  }
+  
+  static playBlockPush(): void {
+    audioManager.playSfx('sfx_block_push', {
+      volume: 0.6
+    });
+  }
+  
+  static playSwitch(): void {
+    audioManager.playSfx('sfx_switch', {
+      pitchVariation: PITCH_VARIATIONS.SUBTLE,
+      volume: 0.7
+    });
+  }
+  
   static playSecretReveal(): void {
     audioManager.duckMusic(0.3, AUDIO_TIMING.SLOW_FADE);
     audioManager.playSfx('sfx_secret_reveal', {
@@ -139,6 +183,14 @@ export class WorldAudio {
     });
   }
   
+  static playHeartContainerFanfare(): void {
+    // The fanfare rides over the music like ALTTP's item-get jingle
+    audioManager.duckMusic(0.2, AUDIO_TIMING.SLOW_FADE);
+    audioManager.playSfx('sfx_heart_container', {
+      volume: 0.9
+    });
+  }
+  
   static playRealmTransition(): void {
     // Special effect for Eclipse/Dayrealm switching
     audioManager.duckMusic(0.1, AUDIO_TIMING.SLOW_FADE);
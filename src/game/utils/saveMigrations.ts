@@ -0,0 +1,89 @@
+// Save Migrations - Upgrade old SaveData payloads to the current SAVE_VERSION
+// Following Spec Librarian standards for data migration strategy
+
+import { SAVE_VERSION } from '@shared/constants.js';
+import type { SaveData } from '@shared/types.js';
+
+export interface SaveMigration {
+  to: string;
+  migrate: (data: any) => any;
+}
+
+// Keyed by the version a save is migrated FROM. Each step must bump `version`
+// to `to` so chains like 1.0.0 -> 1.1.0 -> 1.2.0 run in order.
+export const SAVE_MIGRATIONS: Record<string, SaveMigration> = {
+  // 1.1.0 persists max health and gleam alongside current health
+  '1.0.0': {
+    to: '1.1.0',
+    migrate: data => ({
+      ...data,
+      player: {
+        ...data.player,
+        maxHealth: data.player?.maxHealth ?? Math.max(6, data.player?.health ?? 6),
+        gleam: data.player?.gleam ?? 0
+      }
+    })
+  },
+
+  // 1.2.0 tracks per-objective quest counters next to completed quests
+  '1.1.0': {
+    to: '1.2.0',
+    migrate: data => ({
+      ...data,
+      progress: {
+        ...data.progress,
+        completedQuests: data.progress?.completedQuests ?? [],
+        objectiveProgress: data.progress?.objectiveProgress ?? {}
+      }
+    })
+  },
+
+  // 1.3.0 remembers the equipped item and the quick-swap item
+  '1.2.0': {
+    to: '1.3.0',
+    migrate: data => ({
+      ...data,
+      player: {
+        ...data.player,
+        equipment: data.player?.equipment ?? { equipped: null, quickSwap: null }
+      }
+    })
+  },
+
+  // 1.4.0 keeps stamina upgrades and what the shops have left to sell
+  '1.3.0': {
+    to: '1.4.0',
+    migrate: data => ({
+      ...data,
+      player: {
+        ...data.player,
+        maxStamina: data.player?.maxStamina ?? 100
+      },
+      world: {
+        ...data.world,
+        shopStock: data.world?.shopStock ?? {}
+      }
+    })
+  }
+};
+
+export function migrateSaveData(raw: unknown): SaveData {
+  if (!raw || typeof raw !== 'object' || typeof (raw as any).version !== 'string') {
+    throw new Error('Save data is missing a version');
+  }
+
+  let data: any = raw;
+  const visited = new Set<string>();
+
+  while (data.version !== SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[data.version];
+    if (!migration || visited.has(data.version)) {
+      throw new Error(`No migration path from save version ${data.version} to ${SAVE_VERSION}`);
+    }
+
+    visited.add(data.version);
+    data = { ...migration.migrate(data), version: migration.to };
+  }
+
+  return data as SaveData;
+}
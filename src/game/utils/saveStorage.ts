@@ -0,0 +1,154 @@
+// Save Storage - Slot-based persistence backends for SaveSystem
+// Following Spec Librarian standards for save data handling
+
+import { SAVE_STORAGE_KEY } from '@shared/constants.js';
+
+export interface SaveStorage {
+  read(slot: number): Promise<unknown | null>;
+  write(slot: number, data: unknown): Promise<void>;
+  remove(slot: number): Promise<void>;
+}
+
+/**
+ * IndexedDB backend - preferred, survives quota pressure better than localStorage.
+ * If the database cannot be opened (private mode, blocked upgrade) every call goes to the fallback.
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'saves';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private createFallback: () => SaveStorage;
+  private fallback: SaveStorage | null = null;
+
+  constructor(createFallback: () => SaveStorage = createFallbackStorage) {
+    this.createFallback = createFallback;
+  }
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async read(slot: number): Promise<unknown | null> {
+    const fallback = await this.getFallback();
+    if (fallback) return fallback.read(slot);
+
+    const result = await this.request(store => store.get(slot), 'readonly');
+    return result ?? null;
+  }
+
+  async write(slot: number, data: unknown): Promise<void> {
+    const fallback = await this.getFallback();
+    if (fallback) return fallback.write(slot, data);
+
+    await this.request(store => store.put(data, slot), 'readwrite');
+  }
+
+  async remove(slot: number): Promise<void> {
+    const fallback = await this.getFallback();
+    if (fallback) return fallback.remove(slot);
+
+    await this.request(store => store.delete(slot), 'readwrite');
+  }
+
+  private async getFallback(): Promise<SaveStorage | null> {
+    if (this.fallback) return this.fallback;
+
+    try {
+      await this.openDatabase();
+      return null;
+    } catch (error) {
+      console.warn('SaveStorage: IndexedDB unavailable, falling back', error);
+      this.fallback = this.createFallback();
+      return this.fallback;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(SAVE_STORAGE_KEY, IndexedDBSaveStorage.DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(IndexedDBSaveStorage.STORE_NAME);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+        openRequest.onblocked = () => reject(new Error('IndexedDB open blocked by another connection'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request(
+    operation: (store: IDBObjectStore) => IDBRequest,
+    mode: IDBTransactionMode
+  ): Promise<unknown> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBSaveStorage.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IndexedDBSaveStorage.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * localStorage backend - fallback for browsers without IndexedDB
+ */
+export class LocalStorageSaveStorage implements SaveStorage {
+  static isAvailable(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  async read(slot: number): Promise<unknown | null> {
+    const raw = localStorage.getItem(this.getKey(slot));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async write(slot: number, data: unknown): Promise<void> {
+    localStorage.setItem(this.getKey(slot), JSON.stringify(data));
+  }
+
+  async remove(slot: number): Promise<void> {
+    localStorage.removeItem(this.getKey(slot));
+  }
+
+  private getKey(slot: number): string {
+    return `${SAVE_STORAGE_KEY}.${slot}`;
+  }
+}
+
+/**
+ * In-memory backend - used when no persistent storage exists (tests, private mode)
+ */
+export class MemorySaveStorage implements SaveStorage {
+  private slots: Map<number, string> = new Map();
+
+  async read(slot: number): Promise<unknown | null> {
+    const raw = this.slots.get(slot);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async write(slot: number, data: unknown): Promise<void> {
+    this.slots.set(slot, JSON.stringify(data));
+  }
+
+  async remove(slot: number): Promise<void> {
+    this.slots.delete(slot);
+  }
+}
+
+export function createSaveStorage(): SaveStorage {
+  if (IndexedDBSaveStorage.isAvailable()) {
+    return new IndexedDBSaveStorage();
+  }
+  return createFallbackStorage();
+}
+
+function createFallbackStorage(): SaveStorage {
+  if (LocalStorageSaveStorage.isAvailable()) {
+    return new LocalStorageSaveStorage();
+  }
+  console.warn('SaveStorage: No persistent storage available - saves will not survive reload');
+  return new MemorySaveStorage();
+}
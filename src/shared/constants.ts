@@ -2,10 +2,12 @@
 
 // === DISPLAY CONSTANTS ===
 export const TILE_SIZE = 16; // 16x16 tiles as specified in GDD
+export const TILE_CHUNK_SIZE = 16; // tiles per side of a cached world render chunk
 export const VIEWPORT_WIDTH = 50;  // tiles visible horizontally
 export const VIEWPORT_HEIGHT = 37; // tiles visible vertically
 export const WORLD_WIDTH = 256;    // total world width in tiles
 export const WORLD_HEIGHT = 192;   // total world height in tiles
+export const WORLD_SEED = 0xAE12A; // default overworld generation seed - same seed, same world
 
 export const CANVAS_WIDTH = VIEWPORT_WIDTH * TILE_SIZE;
 export const CANVAS_HEIGHT = VIEWPORT_HEIGHT * TILE_SIZE;
@@ -14,9 +16,31 @@ export const CANVAS_HEIGHT = VIEWPORT_HEIGHT * TILE_SIZE;
 export const PLAYER_SPEED = 80; // pixels per second
 export const ATTACK_DURATION = 300; // milliseconds (300-350ms per Combat Engineer spec)
 export const ROLL_DURATION = 450; // milliseconds
+export const ROLL_IFRAME_DURATION = 250; // i-frames centred on the roll peak (GDD: 0.25s)
+export const ROLL_SPEED = 160; // pixels per second
+export const SPRINT_MULTIPLIER = 1.6;
 export const INVULNERABILITY_DURATION = 1000; // 1 second i-frames
 export const INTERACTION_DISTANCE = 24; // pixels
 
+// Stamina costs are per action, drain and regen are per second
+export const STAMINA = {
+  SPRINT_DRAIN: 25,
+  ROLL_COST: 30,
+  GALE_ROLL_COST: 18,      // Gale Boots make the dodge roll cheaper
+  REGEN_RATE: 35,
+  REGEN_DELAY: 600         // ms after spending before regen kicks in
+} as const;
+
+// Health progression (GDD: start with 3 hearts, 4 pieces make a container, cap of 20)
+export const HEALTH_PER_HEART = 2;         // half-heart damage granularity
+export const STARTING_HEARTS = 3;
+export const MAX_HEARTS = 20;
+export const HEART_PIECES_PER_CONTAINER = 4;
+
+// Death and respawn - Continue brings the player back with three hearts, as in ALTTP
+export const RESPAWN_HEARTS = 3;
+export const DEATH_ANIMATION_DURATION = 1600; // ms of spin and fade before the game-over screen
+
 // === PERFORMANCE TARGETS ===
 export const TARGET_FPS = 60;
 export const MAX_MEMORY_MB = 512;
@@ -28,7 +52,7 @@ export const MAX_CONCURRENT_SOUNDS = 8; // prevent audio chaos
 export const PITCH_VARIATION_CENTS = 30; // ±30 cents for organic feel
 
 // === WORLD REGIONS (from Game Design Document) ===
-import type { Region } from './types.js';
+import type { BossArena, BossDefinition, DamageElement, Dungeon, EnemyDefinition, EquippableItem, LootTable, Portal, ProjectileDefinition, PuzzleRoom, RealmAnchor, Region, StatusEffectType, Vector2 } from './types.js';
 import { TileType } from './types.js';
 
 export const REGIONS: Region[] = [
@@ -37,6 +61,7 @@ export const REGIONS: Region[] = [
     bounds: { x: 60, y: 90, width: 60, height: 50 },
     primaryTile: TileType.GRASS,
     enemies: ['sprig_stalker'],
+    maxEnemies: 6,
     music: 'verdant_lowlands'
   },
   {
@@ -44,6 +69,7 @@ export const REGIONS: Region[] = [
     bounds: { x: 120, y: 80, width: 80, height: 50 },
     primaryTile: TileType.WATER,
     enemies: ['mud_whelp', 'bog_serpent'],
+    maxEnemies: 6,
     music: 'riverlands'
   },
   {
@@ -51,13 +77,15 @@ export const REGIONS: Region[] = [
     bounds: { x: 100, y: 130, width: 60, height: 50 },
     primaryTile: TileType.MARSH,
     enemies: ['bog_serpent', 'wisp_cluster'],
+    maxEnemies: 5,
     music: 'moonwell_marsh'
   },
   {
     name: "Amber Dunes & Canyon",
     bounds: { x: 30, y: 140, width: 70, height: 52 },
     primaryTile: TileType.DESERT,
-    enemies: ['sand_wraith', 'bandit_scrapper'],
+    enemies: ['sand_wraith', 'bandit_scrapper', 'bandit_archer'],
+    maxEnemies: 6,
     music: 'amber_dunes'
   },
   {
@@ -65,13 +93,16 @@ export const REGIONS: Region[] = [
     bounds: { x: 20, y: 40, width: 60, height: 60 },
     primaryTile: TileType.FOREST,
     enemies: ['thorn_wolf', 'sprig_stalker'],
-    music: 'whisperwood'
+    maxEnemies: 7,
+    music: 'whisperwood',
+    darkness: 0.35
   },
   {
     name: "Frostpeak Tundra",
     bounds: { x: 140, y: 20, width: 80, height: 60 },
     primaryTile: TileType.SNOW,
     enemies: ['wisp_cluster', 'stone_sentinel'],
+    maxEnemies: 5,
     music: 'frostpeak_tundra'
   },
   {
@@ -79,6 +110,7 @@ export const REGIONS: Region[] = [
     bounds: { x: 200, y: 120, width: 56, height: 60 },
     primaryTile: TileType.VOLCANIC,
     enemies: ['rift_mote', 'stone_sentinel'],
+    maxEnemies: 5,
     music: 'obsidian_crater'
   },
   {
@@ -86,10 +118,277 @@ export const REGIONS: Region[] = [
     bounds: { x: 110, y: 30, width: 40, height: 40 },
     primaryTile: TileType.WALL,
     enemies: ['stone_sentinel'],
+    maxEnemies: 4,
     music: 'eldercrown_keep'
   }
 ];
 
+// === ENEMIES (GDD "Regional Enemies" - field trash 2-4 HP, elites 8-12 HP) ===
+export const ENEMIES: Record<string, EnemyDefinition> = {
+  // Walking thistles - lunge in straight lines
+  sprig_stalker: {
+    id: 'sprig_stalker', name: 'Sprig Stalker', health: 2, damage: 1, speed: 36,
+    attackStyle: 'lunge', aggroRadius: 96, attackRange: 48, leashRadius: 192, patrolRadius: 48,
+    windup: 400, attackDuration: 350, attackSpeed: 170, attackCooldown: 1200,
+    staggerDuration: 300, fleeBelow: 0, knockbackResistance: 0, tint: 0x8BC34A,
+    elements: { fire: 2 }
+  },
+  // Amphibians - hop at the player from mid range
+  mud_whelp: {
+    id: 'mud_whelp', name: 'Mud Whelp', health: 3, damage: 1, speed: 30,
+    attackStyle: 'leap', aggroRadius: 80, attackRange: 56, leashRadius: 160, patrolRadius: 32,
+    windup: 300, attackDuration: 450, attackSpeed: 130, attackCooldown: 1500,
+    staggerDuration: 350, fleeBelow: 0, knockbackResistance: 0, tint: 0x8D6E63,
+    elements: { shock: 2 }
+  },
+  // Ragged hoods - flank to the side before striking, run when hurt
+  bandit_scrapper: {
+    id: 'bandit_scrapper', name: 'Bandit Scrapper', health: 4, damage: 1, speed: 48,
+    attackStyle: 'flank', aggroRadius: 112, attackRange: 28, leashRadius: 224, patrolRadius: 64,
+    windup: 250, attackDuration: 250, attackSpeed: 140, attackCooldown: 900,
+    staggerDuration: 250, fleeBelow: 0.3, knockbackResistance: 0, tint: 0xA1887F
+  },
+  // Hooded marksmen - hang back at range and loose arrows
+  bandit_archer: {
+    id: 'bandit_archer', name: 'Bandit Archer', health: 3, damage: 1, speed: 40,
+    attackStyle: 'shoot', aggroRadius: 144, attackRange: 112, leashRadius: 224, patrolRadius: 48,
+    windup: 500, attackDuration: 200, attackSpeed: 0, attackCooldown: 1800,
+    staggerDuration: 250, fleeBelow: 0.3, knockbackResistance: 0, tint: 0x795548, projectile: 'bandit_arrow'
+  },
+  // Shimmering silhouettes - hide in the sand and rise when the player is close
+  sand_wraith: {
+    id: 'sand_wraith', name: 'Sand Wraith', health: 3, damage: 1, speed: 40,
+    attackStyle: 'burrow', aggroRadius: 64, attackRange: 40, leashRadius: 160, patrolRadius: 0,
+    windup: 500, attackDuration: 300, attackSpeed: 150, attackCooldown: 1600,
+    staggerDuration: 300, fleeBelow: 0, knockbackResistance: 0, tint: 0xE6C679,
+    elements: { water: 2, fire: 0.5 }
+  },
+  // Vine-snared canines - circle the player, then pounce
+  thorn_wolf: {
+    id: 'thorn_wolf', name: 'Thorn Wolf', health: 4, damage: 1, speed: 56,
+    attackStyle: 'pounce', aggroRadius: 128, attackRange: 64, leashRadius: 256, patrolRadius: 64,
+    windup: 350, attackDuration: 400, attackSpeed: 190, attackCooldown: 1400,
+    staggerDuration: 300, fleeBelow: 0.25, knockbackResistance: 0, tint: 0x5D7A3A,
+    elements: { fire: 1.5 }
+  },
+  // Frost sparks - orbit the player and detonate if not dispersed
+  wisp_cluster: {
+    id: 'wisp_cluster', name: 'Wisp Cluster', health: 2, damage: 2, speed: 44,
+    attackStyle: 'orbit', aggroRadius: 112, attackRange: 24, leashRadius: 224, patrolRadius: 32,
+    windup: 2500, attackDuration: 100, attackSpeed: 0, attackCooldown: 0,
+    staggerDuration: 200, fleeBelow: 0, knockbackResistance: 0, tint: 0xB3E5FC,
+    elements: { fire: 2, frost: 0 }
+  },
+  // Runic golems - heavy, slow, wake up near ancient doors and slam the ground, lobbing boulders at anyone out of reach
+  stone_sentinel: {
+    id: 'stone_sentinel', name: 'Stone Sentinel', health: 10, damage: 2, speed: 20,
+    attackStyle: 'slam', aggroRadius: 72, attackRange: 72, leashRadius: 128, patrolRadius: 0,
+    windup: 800, attackDuration: 200, attackSpeed: 0, attackCooldown: 1800,
+    staggerDuration: 0, fleeBelow: 0, knockbackResistance: 1, tint: 0x90A4AE,
+    elements: { physical: 0.5, shock: 0.5 }, lootTable: 'enemy_elite', projectile: 'sentinel_boulder'
+  },
+  // Serpents - burst out in a long charge and are left exposed afterwards
+  bog_serpent: {
+    id: 'bog_serpent', name: 'Bog Serpent', health: 6, damage: 2, speed: 32,
+    attackStyle: 'charge', aggroRadius: 112, attackRange: 96, leashRadius: 192, patrolRadius: 32,
+    windup: 600, attackDuration: 700, attackSpeed: 200, attackCooldown: 2000,
+    staggerDuration: 1200, fleeBelow: 0, knockbackResistance: 0.5, tint: 0x2E5D3A,
+    elements: { shock: 2, water: 0 }
+  },
+  // Drifting violet orbs - only exist in the Eclipse, keep their distance and fire seeking bolts
+  rift_mote: {
+    id: 'rift_mote', name: 'Rift Mote', health: 3, damage: 1, speed: 50,
+    attackStyle: 'shoot', aggroRadius: 128, attackRange: 96, leashRadius: 224, patrolRadius: 48,
+    windup: 450, attackDuration: 200, attackSpeed: 0, attackCooldown: 2200,
+    staggerDuration: 250, fleeBelow: 0, knockbackResistance: 0, tint: 0x9C27B0, realm: 'eclipse',
+    projectile: 'rift_bolt'
+  }
+};
+
+// === ENEMY SPAWNING ===
+export const ENEMY_SPAWN = {
+  ZONE_SIZE: 16,              // tiles per spawn zone side (about one screen)
+  POINTS_PER_ZONE: 3,
+  ACTIVATION_MARGIN: 64,      // px beyond the camera view that wakes a zone
+  DEACTIVATION_MARGIN: 192,   // px beyond the view before a zone is reset
+  DEFAULT_REGION_CAP: 6,
+  MAX_ACTIVE: 16,             // hard cap across all regions
+  CHECK_INTERVAL: 250         // ms between zone activation checks
+} as const;
+
+// === BOSSES (GDD section 10 "Boss Designs") ===
+// Attack patterns are CombatSystem ids; phases start when health drops to their threshold
+export const BOSSES: Record<string, BossDefinition> = {
+  thorn_king_garruk: {
+    id: 'thorn_king_garruk', name: 'Thorn-King Garruk', title: 'Lord of the Rootway',
+    health: 36, contactDamage: 1, tint: 0x6B8E23, elements: { fire: 1.5 },
+    reward: { aetherShard: true, heartContainer: true },
+    phases: [
+      {
+        name: 'Thorn Pounce', healthThreshold: 1, speed: 40,
+        sequence: [
+          { pattern: 'boss_claw', windup: 700, recovery: 900, movement: 'dash' },
+          { pattern: 'boss_slam', windup: 900, recovery: 700, movement: 'hold', shake: 4 }
+        ]
+      },
+      {
+        name: 'Call of the Pack', healthThreshold: 0.66, speed: 48,
+        sequence: [
+          { pattern: 'boss_roar', windup: 800, recovery: 600, movement: 'hold', summon: { species: 'thorn_wolf', count: 2 } },
+          { pattern: 'boss_claw', windup: 600, recovery: 800, movement: 'dash' },
+          { pattern: 'boss_claw', windup: 400, recovery: 600, movement: 'chase' }
+        ]
+      },
+      {
+        name: 'Bramble Fury', healthThreshold: 0.33, speed: 56, tint: 0xC0392B,
+        sequence: [
+          { pattern: 'boss_spin', windup: 500, recovery: 400, movement: 'circle', shake: 2 },
+          { pattern: 'boss_claw', windup: 450, recovery: 500, movement: 'dash' },
+          { pattern: 'boss_slam', windup: 600, recovery: 500, movement: 'hold', shake: 5 }
+        ]
+      }
+    ]
+  },
+  pump_warden_nautilus: {
+    id: 'pump_warden_nautilus', name: 'Pump-Warden Nautilus', title: 'Keeper of the Old Waterworks',
+    health: 40, contactDamage: 1, tint: 0x4A90A4, elements: { shock: 1.5, water: 0 },
+    reward: { aetherShard: true, heartContainer: true },
+    phases: [
+      {
+        name: 'Valve Arms', healthThreshold: 1, speed: 32,
+        sequence: [
+          { pattern: 'boss_sweep', windup: 800, recovery: 700, movement: 'hold' },
+          { pattern: 'boss_claw', windup: 500, recovery: 700, movement: 'chase' }
+        ]
+      },
+      {
+        name: 'Floodgate', healthThreshold: 0.5, speed: 40,
+        sequence: [
+          { pattern: 'boss_slam', windup: 1000, recovery: 900, movement: 'hold', shake: 6, summon: { species: 'mud_whelp', count: 2 } },
+          { pattern: 'boss_claw', windup: 600, recovery: 700, movement: 'dash' }
+        ]
+      }
+    ]
+  },
+  sable_matron: {
+    id: 'sable_matron', name: 'Sable Matron', title: 'Mother of Mirrors',
+    health: 44, contactDamage: 1, tint: 0x4B0082,
+    reward: { aetherShard: true, heartContainer: true },
+    phases: [
+      {
+        name: 'Veiled Dance', healthThreshold: 1, speed: 44,
+        sequence: [
+          { pattern: 'boss_claw', windup: 600, recovery: 700, movement: 'circle' },
+          { pattern: 'boss_sweep', windup: 700, recovery: 800, movement: 'hold' }
+        ]
+      },
+      {
+        name: 'Mirror Brood', healthThreshold: 0.5, speed: 52,
+        sequence: [
+          { pattern: 'boss_roar', windup: 700, recovery: 500, movement: 'hold', summon: { species: 'wisp_cluster', count: 2 } },
+          { pattern: 'boss_claw', windup: 500, recovery: 600, movement: 'dash' }
+        ]
+      }
+    ]
+  },
+  maelgrith: {
+    id: 'maelgrith', name: 'Maelgrith', title: 'The Eclipse Regent',
+    health: 60, contactDamage: 2, tint: 0x2C003E,
+    reward: {},
+    phases: [
+      {
+        name: 'Sword Geometry', healthThreshold: 1, speed: 48,
+        sequence: [
+          { pattern: 'boss_sweep', windup: 600, recovery: 600, movement: 'chase' },
+          { pattern: 'boss_claw', windup: 500, recovery: 600, movement: 'dash' }
+        ]
+      },
+      {
+        name: 'Eclipse Clone Dance', healthThreshold: 0.66, speed: 56,
+        sequence: [
+          { pattern: 'boss_roar', windup: 700, recovery: 500, movement: 'hold', summon: { species: 'rift_mote', count: 2 } },
+          { pattern: 'boss_spin', windup: 500, recovery: 500, movement: 'circle', shake: 2 }
+        ]
+      },
+      {
+        name: 'Sundered Crown', healthThreshold: 0.33, speed: 64, tint: 0x8E24AA,
+        sequence: [
+          { pattern: 'boss_slam', windup: 700, recovery: 500, movement: 'hold', shake: 6 },
+          { pattern: 'boss_claw', windup: 400, recovery: 500, movement: 'dash' },
+          { pattern: 'boss_spin', windup: 400, recovery: 400, movement: 'circle', shake: 3 }
+        ]
+      }
+    ]
+  }
+};
+
+export const BOSS_ARENAS: BossArena[] = [
+  {
+    // Rootway Hollow: the doorway row stays outside the arena so the doors seal behind the player
+    id: 'rootway_hollow_arena',
+    map: 'rootway_hollow',
+    bossId: 'thorn_king_garruk',
+    bounds: { x: 32, y: 32, width: 256, height: 160 },
+    bossSpawn: { x: 160, y: 88 },
+    doors: [{ x: 144, y: 208, width: 32, height: 16 }]
+  }
+];
+
+export const BOSS_INTRO_DURATION = 1500;       // ms the boss waits after the doors seal
+export const BOSS_PHASE_TRANSITION_DURATION = 1200; // ms of invulnerability between phases
+export const BOSS_MUSIC_TRACK = 'bgm_boss_battle';
+
+// === DUNGEONS ===
+// The Hearthmere Shrine's north hall is walled off by a small-key door; the big key opens the altar passage down to the boss
+export const DUNGEONS: Dungeon[] = [
+  {
+    id: 'rootway',
+    name: 'Rootway',
+    maps: ['hearthmere_shrine', 'rootway_hollow'],
+    doors: [
+      { id: 'shrine_hall_door', map: 'hearthmere_shrine', lock: 'small', bounds: { x: 144, y: 128, width: 32, height: 16 } },
+      { id: 'shrine_altar_door', map: 'hearthmere_shrine', lock: 'big', bounds: { x: 144, y: 64, width: 32, height: 16 } }
+    ],
+    chests: [
+      { id: 'shrine_key_chest', map: 'hearthmere_shrine', position: { x: 64, y: 192 }, big: false, contents: { type: 'small_key' } },
+      { id: 'shrine_offering_chest', map: 'hearthmere_shrine', position: { x: 240, y: 192 }, big: false, contents: { type: 'loot', table: 'chest_dungeon' } },
+      { id: 'shrine_big_key_chest', map: 'hearthmere_shrine', position: { x: 48, y: 80 }, big: false, contents: { type: 'big_key' } },
+      { id: 'shrine_big_chest', map: 'hearthmere_shrine', position: { x: 248, y: 80 }, big: true, contents: { type: 'item', item: 'gale_boots' } }
+    ]
+  }
+];
+
+export const ITEM_HOLD_UP_DURATION = 1200; // ms the player holds a found key or item overhead
+
+// === PUZZLES ===
+// South hall: shove the block onto the heavy plate to open the offering alcove.
+// North hall: the timed switch lays the channel bridge briefly; striking the crystal beyond fixes it in place.
+export const PUZZLE_ROOMS: PuzzleRoom[] = [
+  {
+    map: 'hearthmere_shrine',
+    blocks: [
+      { id: 'shrine_south_block', position: { x: 96, y: 160 } }
+    ],
+    switches: [
+      { id: 'shrine_block_plate', kind: 'plate', position: { x: 96, y: 192 }, heavy: true },
+      { id: 'shrine_timed_switch', kind: 'timed', position: { x: 256, y: 112 }, duration: 5000 },
+      { id: 'shrine_crystal', kind: 'crystal', position: { x: 48, y: 48 } }
+    ],
+    targets: [
+      { type: 'gate', id: 'shrine_offering_gate', bounds: { x: 240, y: 176, width: 16, height: 16 } },
+      { type: 'bridge', id: 'shrine_channel_bridge', tiles: [{ x: 9, y: 6 }, { x: 10, y: 6 }] }
+    ],
+    wires: [
+      { id: 'shrine_offering_wire', triggers: ['shrine_block_plate'], mode: 'all', targets: ['shrine_offering_gate'], latch: true },
+      { id: 'shrine_bridge_timer', triggers: ['shrine_timed_switch'], mode: 'any', targets: ['shrine_channel_bridge'], latch: false },
+      { id: 'shrine_bridge_lock', triggers: ['shrine_crystal'], mode: 'any', targets: ['shrine_channel_bridge'], latch: true }
+    ]
+  }
+];
+
+export const BLOCK_PUSH_DELAY = 400;      // ms of sustained pushing before a block gives way
+export const BLOCK_SLIDE_DURATION = 250;  // ms for a block to slide one tile
+
 // === TOWNS ===
 export const TOWNS = {
   HEARTHMERE: { x: 80, y: 110, name: "Hearthmere" },
@@ -98,6 +397,59 @@ export const TOWNS = {
   STARFALL_MONASTERY: { x: 50, y: 70, name: "Starfall Monastery" }
 } as const;
 
+// === OVERWORLD MAP ===
+// The procedural overworld has no Tiled file, so its spawns and portals live here
+export const OVERWORLD_MAP_ID = 'hearthmere';
+export const OVERWORLD_MUSIC_TRACK = 'bgm_hearthmere';
+
+export const OVERWORLD_SPAWNS: Record<string, Vector2> = {
+  // Centre of Hearthmere, where a new game starts and overworld deaths respawn
+  town_entrance: {
+    x: TOWNS.HEARTHMERE.x * TILE_SIZE + TILE_SIZE / 2,
+    y: TOWNS.HEARTHMERE.y * TILE_SIZE + TILE_SIZE / 2
+  },
+  // In front of the Hearthmere shrine door (shrine sits at town +2, -1)
+  shrine_door: {
+    x: (TOWNS.HEARTHMERE.x + 2) * TILE_SIZE + TILE_SIZE / 2,
+    y: TOWNS.HEARTHMERE.y * TILE_SIZE + TILE_SIZE / 2
+  }
+};
+
+export const OVERWORLD_PORTALS: Portal[] = [
+  {
+    // Thin strip along the shrine's bottom edge - entered by walking into the door
+    id: 'hearthmere_shrine_door',
+    trigger: {
+      x: (TOWNS.HEARTHMERE.x + 2) * TILE_SIZE,
+      y: TOWNS.HEARTHMERE.y * TILE_SIZE - 4,
+      width: TILE_SIZE,
+      height: 6
+    },
+    target: { map: 'hearthmere_shrine', spawn: 'spawn_entrance', transition: 'fade' }
+  }
+];
+
+export const PORTAL_TRANSITION_DURATION = 300; // ms for each half of a map transition
+
+// === REALM SWITCHING ===
+// Without the Aether Mirror the realms can only be flipped at an anchor node (GDD "world anchors")
+export const REALM_ANCHORS: RealmAnchor[] = [
+  {
+    // Hearthmere town square, just south of where a new game starts
+    id: 'hearthmere_square_anchor',
+    map: OVERWORLD_MAP_ID,
+    position: { x: TOWNS.HEARTHMERE.x * TILE_SIZE + TILE_SIZE / 2, y: (TOWNS.HEARTHMERE.y + 2) * TILE_SIZE + TILE_SIZE / 2 }
+  },
+  {
+    // Ledge below the shrine's water channel - the Eclipse stepping stones lie either side
+    id: 'shrine_channel_anchor',
+    map: 'hearthmere_shrine',
+    position: { x: 56, y: 120 }
+  }
+];
+
+export const REALM_ANCHOR_RADIUS = 24; // px from an anchor's centre that it can be used
+
 // === TUTORIAL SETTINGS ===
 export const TUTORIAL = {
   WELCOME_MESSAGE_DELAY: 2000, // Show welcome message after 2 seconds
@@ -107,6 +459,7 @@ export const TUTORIAL = {
 } as const;
 
 // === ECLIPSE/DAYREALM TRANSFORMATIONS ===
+// Fallback for areas without an authored Eclipse overlay (see the "eclipse" layers in world/maps)
 export const REALM_TRANSFORMATIONS: Record<TileType, TileType> = {
   [TileType.GRASS]: TileType.MARSH,     // Grass → Marsh areas
   [TileType.WATER]: TileType.BRIDGE,    // Water → Mystical bridges  
@@ -311,7 +664,11 @@ export const TILE_COLORS: Record<TileType, string> = {
 };
 
 // === SAVE DATA VERSION ===
-export const SAVE_VERSION = '1.0.0';
+export const SAVE_VERSION = '1.4.0';
+export const SAVE_SLOT_COUNT = 3;          // manual slots 1..3
+export const AUTOSAVE_SLOT = 0;            // reserved for autosave
+export const AUTOSAVE_INTERVAL = 60000;    // milliseconds
+export const SAVE_STORAGE_KEY = 'echoes-of-aeria.save';
 
 // === TILE WALKABILITY DEFINITIONS ===
 export const WALKABLE_TILES = new Set([
@@ -375,6 +732,188 @@ export const INTERACTIVE_TILES = new Set([
   TileType.SIGN
 ]);
 
+// === ITEM ABILITIES (GDD progression kit) ===
+export const ITEM_ABILITIES = {
+  gale_boots: { cooldown: 1200, distance: 80, duration: 180 },          // dash - clears GAP_TILES
+  riverfin_vest: { cooldown: 4000, duration: 1500 },                    // dive - i-frames while swimming
+  storm_disk: { cooldown: 900, range: 96, speed: 240, damage: 1 },      // returning throw
+  quake_maul: { cooldown: 1500, radius: 28, damage: 2, shake: 6 },      // ground slam - breaks ROCK
+  tide_hook: { cooldown: 800, range: 112, speed: 320, damage: 1, pullSpeed: 240 },
+  sunflame_lantern: { cooldown: 300, radius: 64 },                      // toggled light, kindles torches and brush
+  sunflame_prism: { cooldown: 1000, range: 160, damage: 2 }             // piercing fire beam
+} as const;
+
+// === PROJECTILES (arrows, thrown items, bolts) - ProjectileSystem flight data ===
+export const PROJECTILES: Record<string, ProjectileDefinition> = {
+  bandit_arrow: {
+    id: 'bandit_arrow', trajectory: 'straight', speed: 150, range: 160, lifetime: 1500,
+    damage: 1, radius: 6, knockback: 60, pierce: false
+  },
+  // Seeks the player but turns slowly enough to be sidestepped
+  rift_bolt: {
+    id: 'rift_bolt', trajectory: 'homing', speed: 90, range: 240, lifetime: 3000,
+    damage: 1, radius: 6, knockback: 40, pierce: false, turnRate: 2.5
+  },
+  // Stone Sentinels lob these over walls at players out of slam reach - only lands where it was aimed
+  sentinel_boulder: {
+    id: 'sentinel_boulder', trajectory: 'arc', speed: 110, range: 128, lifetime: 2000,
+    damage: 2, radius: 12, knockback: 90, pierce: false, arcHeight: 24
+  },
+  storm_disk: {
+    id: 'storm_disk', trajectory: 'returning', speed: ITEM_ABILITIES.storm_disk.speed,
+    range: ITEM_ABILITIES.storm_disk.range, lifetime: 3000, damage: ITEM_ABILITIES.storm_disk.damage,
+    radius: 10, knockback: 100, pierce: true, element: 'shock', conducts: true
+  }
+};
+
+// === ELEMENTS & STATUS EFFECTS ===
+// Status each element inflicts when its hit lands (physical inflicts none)
+export const ELEMENT_STATUS: Partial<Record<DamageElement, StatusEffectType>> = {
+  fire: 'burn',
+  shock: 'stun',
+  frost: 'freeze',
+  water: 'slow'
+};
+
+export const STATUS_EFFECTS: Record<StatusEffectType, {
+  duration: number;           // ms
+  tint: number;
+  tickInterval?: number;      // ms between damage ticks
+  tickDamage?: number;
+  speedMultiplier?: number;   // 0 = cannot move or act
+}> = {
+  burn: { duration: 3000, tint: 0xFF7043, tickInterval: 1000, tickDamage: 1 },
+  stun: { duration: 1200, tint: 0xFFF176, speedMultiplier: 0 },
+  freeze: { duration: 2000, tint: 0x81D4FA, speedMultiplier: 0 },
+  slow: { duration: 2500, tint: 0x78909C, speedMultiplier: 0.5 }
+};
+
+// === LOOT (GDD: 60% currency, 20% charges, 15% hearts, 5% rumor cards) ===
+export const LOOT_TABLES: Record<string, LootTable> = {
+  enemy_field: {
+    dropChance: 0.6, rolls: 1,
+    entries: [
+      { kind: 'gleam', weight: 60, min: 1, max: 5 },
+      { kind: 'charge', weight: 20, min: 10, max: 20 },
+      { kind: 'heart', weight: 15, min: 2, max: 2 },
+      { kind: 'rumor_card', weight: 5, min: 1, max: 1 }
+    ]
+  },
+  enemy_elite: {
+    dropChance: 1, rolls: 2,
+    entries: [
+      { kind: 'gleam', weight: 60, min: 5, max: 20 },
+      { kind: 'charge', weight: 20, min: 20, max: 40 },
+      { kind: 'heart', weight: 15, min: 2, max: 4 },
+      { kind: 'rumor_card', weight: 5, min: 1, max: 1 }
+    ]
+  },
+  bush: {
+    dropChance: 0.25, rolls: 1,
+    entries: [
+      { kind: 'gleam', weight: 60, min: 1, max: 1 },
+      { kind: 'charge', weight: 20, min: 10, max: 10 },
+      { kind: 'heart', weight: 20, min: 2, max: 2 }
+    ]
+  },
+  tall_grass: {
+    dropChance: 0.1, rolls: 1,
+    entries: [
+      { kind: 'gleam', weight: 70, min: 1, max: 1 },
+      { kind: 'heart', weight: 30, min: 2, max: 2 }
+    ]
+  },
+  chest_dungeon: {
+    dropChance: 1, rolls: 3,
+    entries: [
+      { kind: 'gleam', weight: 70, min: 5, max: 20 },
+      { kind: 'heart', weight: 20, min: 2, max: 2 },
+      { kind: 'rumor_card', weight: 10, min: 1, max: 1 }
+    ]
+  }
+};
+
+export const DEFAULT_ENEMY_LOOT_TABLE = 'enemy_field';
+export const PICKUP_LIFETIME = 10000;     // ms before an uncollected drop vanishes
+export const PICKUP_BLINK_TIME = 3000;    // ms of blinking before it does
+
+// Brush the sword can cut, what it leaves behind and the table it drops from
+export const CUTTABLE_TILES: Partial<Record<TileType, { replacement: TileType; lootTable: string }>> = {
+  [TileType.BUSH]: { replacement: TileType.GRASS, lootTable: 'bush' },
+  [TileType.TALL_GRASS]: { replacement: TileType.GRASS, lootTable: 'tall_grass' }
+};
+
+export const FIRE_BURN_DURATION = 1500;   // ms a burnable tile burns before it is cleared
+
+// What each burnable tile turns into once the fire dies down
+export const BURNABLE_TILES: Partial<Record<TileType, TileType>> = {
+  [TileType.TALL_GRASS]: TileType.GRASS,
+  [TileType.BUSH]: TileType.DIRT
+};
+
+// Low tiles that dashes, hooks and thrown items pass over
+export const GAP_TILES = new Set<TileType>([
+  TileType.WATER,
+  TileType.WATER_DEEP,
+  TileType.POND
+]);
+
+// Passable for the player while wearing the Riverfin Vest
+export const SWIM_TILES = new Set<TileType>([
+  TileType.WATER,
+  TileType.WATER_DEEP
+]);
+
+// What each breakable tile turns into after a Quake Maul slam
+export const BREAKABLE_TILES: Partial<Record<TileType, TileType>> = {
+  [TileType.ROCK]: TileType.DIRT
+};
+
+// Anchors the Tide Hook can latch onto
+export const GRAPPLE_TILES = new Set<TileType>([
+  TileType.TREE,
+  TileType.STATUE,
+  TileType.SIGN,
+  TileType.TORCH,
+  TileType.WELL
+]);
+
+// === LIGHTING ===
+// Ambient darkness comes from the map (worldIndex.json) or, on the overworld, the region
+export const LIGHTING = {
+  LIT_THRESHOLD: 0.5,         // light level at which a position counts as lit
+  FULL_BRIGHT_RATIO: 0.5,     // inner share of a light's radius at full strength
+  OCCLUSION_STEP: 4,          // px between samples when tracing a light through walls
+  CELL_SIZE: 8,               // px - darkness is drawn in cells this size
+  DARKNESS_COLOR: 0x05030A,
+  TORCH: { radius: 72, intensity: 1, color: 0xFFB74D },
+  LANTERN: { radius: 48, intensity: 0.9, color: 0xFFE082 },
+  PROJECTILE: { radius: 32, intensity: 0.8, color: 0xFF8A50 },
+  PLAYER_LANTERN: { intensity: 1, color: 0xFFF3C4 } // radius comes with the 'world.light.toggle' event
+} as const;
+
+// Tiles that cast light shadows - walls, cliffs and dense trees
+export const LIGHT_OCCLUDING_TILES = new Set<TileType>([
+  TileType.WALL,
+  TileType.STONE_WALL,
+  TileType.MOUNTAIN,
+  TileType.HOUSE,
+  TileType.FOREST,
+  TileType.TREE
+]);
+
+// Inventory grid order for the equip slot
+export const EQUIPPABLE_ITEMS: readonly EquippableItem[] = [
+  'sunflame_lantern',
+  'gale_boots',
+  'riverfin_vest',
+  'aether_mirror',
+  'storm_disk',
+  'quake_maul',
+  'tide_hook',
+  'sunflame_prism'
+];
+
 // === DEBUG FLAGS ===
 export const DEBUG = {
   SHOW_COLLISION_BOXES: false,
@@ -13,6 +13,8 @@ export const GAME_EVENTS = {
   PLAYER_DIED: 'player/died',
   PLAYER_RESPAWNED: 'player/respawned',
   PLAYER_STATE_CHANGED: 'player/stateChanged',
+  PLAYER_HEALTH_CHANGED: 'player/healthChanged',
+  HEART_CONTAINER_GAINED: 'player/heartContainerGained',
 
   // Combat Events
   COMBAT_HIT_DETECTED: 'combat/hitDetected',
@@ -29,11 +31,20 @@ export const GAME_EVENTS = {
   ENEMY_AGGRO_START: 'enemy/aggroStart',
   ENEMY_AGGRO_END: 'enemy/aggroEnd',
 
+  // Boss Events
+  BOSS_ENCOUNTER_START: 'boss/encounterStart',
+  BOSS_HEALTH_CHANGED: 'boss/healthChanged',
+  BOSS_PHASE_CHANGED: 'boss/phaseChanged',
+  BOSS_DEFEATED: 'boss/defeated',
+  BOSS_REWARD_GRANTED: 'boss/rewardGranted',
+
   // World Events
   MAP_LOAD_START: 'world/mapLoadStart',
   MAP_LOADED: 'world/mapLoaded',
   MAP_UNLOADED: 'world/mapUnloaded',
   PORTAL_TRIGGERED: 'world/portalTriggered',
+  ARENA_SEALED: 'world/arenaSealed',
+  ARENA_UNSEALED: 'world/arenaUnsealed',
   REALM_SWITCH_START: 'world/realmSwitchStart',
   REALM_SWITCHED: 'world/realmSwitched',
 
@@ -48,6 +59,11 @@ export const GAME_EVENTS = {
   INTERACTION_START: 'interaction/start',
   INTERACTION_END: 'interaction/end',
 
+  // Quest Events
+  QUEST_STARTED: 'quest/started',
+  QUEST_OBJECTIVE_UPDATED: 'quest/objectiveUpdated',
+  QUEST_COMPLETED: 'quest/completed',
+
   // Audio Events
   AUDIO_CONTEXT_CHANGED: 'audio/contextChanged',
   MUSIC_TRACK_CHANGED: 'audio/musicTrackChanged',
@@ -89,11 +105,52 @@ export interface PlayerMovedEvent extends BaseGameEvent {
   direction: Direction8;
 }
 
+export interface PlayerStateChangedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.PLAYER_STATE_CHANGED;
+  entityId: EntityId;
+  state: PlayerMovementState;
+  previousState: PlayerMovementState;
+}
+
+export interface PlayerHealthChangedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.PLAYER_HEALTH_CHANGED;
+  entityId: EntityId;
+  health: number;
+  maxHealth: number;
+}
+
+export interface PlayerDiedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.PLAYER_DIED;
+  entityId: EntityId;
+  killerId: string;
+  position: Vector2;
+  checkpointMap: string;      // where Continue will put the player back
+}
+
+export interface PlayerRespawnedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.PLAYER_RESPAWNED;
+  entityId: EntityId;
+  mapId: string;
+  position: Vector2;
+  health: number;
+  maxHealth: number;
+}
+
+export interface HeartContainerGainedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.HEART_CONTAINER_GAINED;
+  entityId: EntityId;
+  hearts: number;             // total after the container
+  maxHealth: number;
+  source: 'heart_pieces' | 'boss';
+}
+
 export interface PlayerAttackStartEvent extends BaseGameEvent {
   type: typeof GAME_EVENTS.PLAYER_ATTACK_START;
+  entityId: EntityId;
   position: Vector2;
   direction: Direction8;
-  attackType: 'sword' | 'bow' | 'magic';
+  attackType: 'sword' | 'spin' | 'parry' | 'bow' | 'magic';
+  comboStep: number;          // 1-3 within the shortblade chain, 0 for spins and parries
 }
 
 export interface CombatHitDetectedEvent extends BaseGameEvent {
@@ -104,6 +161,13 @@ export interface CombatHitDetectedEvent extends BaseGameEvent {
   damage: number;
   knockback?: Vector2 | undefined;
   attackType: string;
+  element?: DamageElement | undefined;
+}
+
+export interface MapLoadStartEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.MAP_LOAD_START;
+  mapId: string;
+  mapFile: string;
 }
 
 export interface MapLoadedEvent extends BaseGameEvent {
@@ -114,6 +178,11 @@ export interface MapLoadedEvent extends BaseGameEvent {
   bounds: Rectangle;
 }
 
+export interface MapUnloadedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.MAP_UNLOADED;
+  mapId: string;
+}
+
 export interface PortalTriggeredEvent extends BaseGameEvent {
   type: typeof GAME_EVENTS.PORTAL_TRIGGERED;
   portalId: string;
@@ -123,6 +192,67 @@ export interface PortalTriggeredEvent extends BaseGameEvent {
   transition: 'fade' | 'slide' | 'instant' | 'realm_switch';
 }
 
+export interface RealmSwitchStartEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.REALM_SWITCH_START;
+  fromRealm: Realm;
+  toRealm: Realm;
+  anchorId: string | null;    // anchor node used instead of the Aether Mirror
+}
+
+export interface RealmSwitchedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.REALM_SWITCHED;
+  previousRealm: Realm;
+  currentRealm: Realm;
+  transitionType: 'flash' | 'restore';
+}
+
+export interface BossEncounterStartEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.BOSS_ENCOUNTER_START;
+  entityId: EntityId;
+  bossId: string;
+  name: string;
+  title: string;
+  health: number;
+  maxHealth: number;
+}
+
+export interface BossHealthChangedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.BOSS_HEALTH_CHANGED;
+  entityId: EntityId;
+  bossId: string;
+  health: number;
+  maxHealth: number;
+}
+
+export interface BossPhaseChangedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.BOSS_PHASE_CHANGED;
+  entityId: EntityId;
+  bossId: string;
+  phase: number;
+  phaseName: string;
+}
+
+export interface BossDefeatedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.BOSS_DEFEATED;
+  entityId: EntityId;
+  bossId: string;
+  arenaId: string;
+  position: Vector2;
+}
+
+export interface BossRewardGrantedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.BOSS_REWARD_GRANTED;
+  bossId: string;
+  aetherShards: number;
+  heartContainers: number;
+}
+
+export interface ArenaSealedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.ARENA_SEALED | typeof GAME_EVENTS.ARENA_UNSEALED;
+  arenaId: string;
+  bossId: string;
+}
+
 export interface ItemCollectedEvent extends BaseGameEvent {
   type: typeof GAME_EVENTS.ITEM_COLLECTED;
   itemId: string;
@@ -132,6 +262,80 @@ export interface ItemCollectedEvent extends BaseGameEvent {
   rarity: 'common' | 'rare' | 'epic' | 'legendary';
 }
 
+export interface ItemDroppedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.ITEM_DROPPED;
+  itemId: string;
+  itemType: string;
+  position: Vector2;
+  quantity: number;
+  source: string;             // loot table that produced the drop
+}
+
+export interface EquipmentChangedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.EQUIPMENT_CHANGED;
+  entityId: EntityId;
+  equipped: EquippableItem | null;
+  quickSwap: EquippableItem | null;
+}
+
+export interface InteractionStartEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.INTERACTION_START;
+  entityId: EntityId;
+  npcId: string;
+  npcName: string;
+}
+
+export interface InteractionEndEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.INTERACTION_END;
+  entityId: EntityId;
+  npcId: string;
+  npcName: string;
+}
+
+export interface DialogueStartEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.DIALOGUE_START;
+  entityId: EntityId;
+  nodeId: string;
+  speaker: string;
+  text: string;
+  choices: string[];          // already filtered by their conditions
+  isComplete: boolean;        // last node of the conversation
+}
+
+export interface DialogueEndEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.DIALOGUE_END;
+  entityId: EntityId;
+  npcId: string;
+}
+
+export interface DialogueChoiceEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.DIALOGUE_CHOICE;
+  choiceIndex: number;        // index into DialogueStartEvent.choices
+}
+
+export interface QuestStartedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.QUEST_STARTED;
+  questId: string;
+  title: string;
+  description: string;
+}
+
+export interface QuestObjectiveUpdatedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.QUEST_OBJECTIVE_UPDATED;
+  questId: string;
+  objectiveId: string;
+  description: string;
+  progress: number;
+  amount: number;
+  completed: boolean;
+}
+
+export interface QuestCompletedEvent extends BaseGameEvent {
+  type: typeof GAME_EVENTS.QUEST_COMPLETED;
+  questId: string;
+  title: string;
+}
+
 export interface AudioContextChangedEvent extends BaseGameEvent {
   type: typeof GAME_EVENTS.AUDIO_CONTEXT_CHANGED;
   previousContext: AudioContextType;
@@ -148,11 +352,36 @@ export interface MenuOpenedEvent extends BaseGameEvent {
 // Union type of all possible events
 export type GameEvent =
   | PlayerMovedEvent
+  | PlayerStateChangedEvent
+  | PlayerHealthChangedEvent
+  | PlayerDiedEvent
+  | PlayerRespawnedEvent
+  | HeartContainerGainedEvent
   | PlayerAttackStartEvent
   | CombatHitDetectedEvent
+  | MapLoadStartEvent
   | MapLoadedEvent
+  | MapUnloadedEvent
   | PortalTriggeredEvent
+  | RealmSwitchStartEvent
+  | RealmSwitchedEvent
+  | BossEncounterStartEvent
+  | BossHealthChangedEvent
+  | BossPhaseChangedEvent
+  | BossDefeatedEvent
+  | BossRewardGrantedEvent
+  | ArenaSealedEvent
   | ItemCollectedEvent
+  | ItemDroppedEvent
+  | EquipmentChangedEvent
+  | InteractionStartEvent
+  | InteractionEndEvent
+  | DialogueStartEvent
+  | DialogueEndEvent
+  | DialogueChoiceEvent
+  | QuestStartedEvent
+  | QuestObjectiveUpdatedEvent
+  | QuestCompletedEvent
   | AudioContextChangedEvent
   | MenuOpenedEvent
   | BaseGameEvent; // Fallback for events without specific payload
@@ -169,7 +398,7 @@ export interface EventBus {
 }
 
 // Import shared types instead of redefining
-import type { Vector2, Rectangle, Direction } from './types.js';
+import type { Vector2, Rectangle, Direction, DamageElement, EquippableItem, PlayerMovementState, Realm } from './types.js';
 
 // Simple event emitter implementation
 class SimpleEventEmitter {
@@ -225,6 +454,16 @@ class SimpleEventEmitter {
 // Global event emitter instance
 export const gameEvents = new SimpleEventEmitter();
 
+// Helper for emitting typed events through the payload-based emitter.
+// Listeners receive the typed event as `event.payload`.
+export const emitTypedEvent = <T extends BaseGameEvent>(event: T): void => {
+  gameEvents.emit({
+    type: event.type,
+    payload: event,
+    timestamp: event.timestamp
+  });
+};
+
 // Helper function for emitting player moved events
 export const emitPlayerMoved = (position: Vector2, direction: string) => {
   gameEvents.emit({
@@ -270,6 +509,81 @@ export const createEvent = {
     direction,
   }),
 
+  playerStateChanged: (
+    entityId: EntityId,
+    state: PlayerMovementState,
+    previousState: PlayerMovementState
+  ): PlayerStateChangedEvent => ({
+    type: GAME_EVENTS.PLAYER_STATE_CHANGED,
+    timestamp: performance.now(),
+    entityId,
+    state,
+    previousState,
+  }),
+
+  playerHealthChanged: (entityId: EntityId, health: number, maxHealth: number): PlayerHealthChangedEvent => ({
+    type: GAME_EVENTS.PLAYER_HEALTH_CHANGED,
+    timestamp: performance.now(),
+    entityId,
+    health,
+    maxHealth,
+  }),
+
+  playerDied: (entityId: EntityId, killerId: string, position: Vector2, checkpointMap: string): PlayerDiedEvent => ({
+    type: GAME_EVENTS.PLAYER_DIED,
+    timestamp: performance.now(),
+    entityId,
+    killerId,
+    position,
+    checkpointMap,
+  }),
+
+  playerRespawned: (
+    entityId: EntityId,
+    mapId: string,
+    position: Vector2,
+    health: number,
+    maxHealth: number
+  ): PlayerRespawnedEvent => ({
+    type: GAME_EVENTS.PLAYER_RESPAWNED,
+    timestamp: performance.now(),
+    entityId,
+    mapId,
+    position,
+    health,
+    maxHealth,
+  }),
+
+  heartContainerGained: (
+    entityId: EntityId,
+    hearts: number,
+    maxHealth: number,
+    source: HeartContainerGainedEvent['source']
+  ): HeartContainerGainedEvent => ({
+    type: GAME_EVENTS.HEART_CONTAINER_GAINED,
+    timestamp: performance.now(),
+    entityId,
+    hearts,
+    maxHealth,
+    source,
+  }),
+
+  playerAttackStart: (
+    entityId: EntityId,
+    position: Vector2,
+    direction: Direction8,
+    attackType: PlayerAttackStartEvent['attackType'],
+    comboStep: number
+  ): PlayerAttackStartEvent => ({
+    type: GAME_EVENTS.PLAYER_ATTACK_START,
+    timestamp: performance.now(),
+    entityId,
+    position,
+    direction,
+    attackType,
+    comboStep,
+  }),
+
   combatHit: (
     attacker: EntityId,
     target: EntityId,
@@ -277,6 +591,7 @@ export const createEvent = {
     damage: number,
     attackType: string,
     knockback?: Vector2,
+    element?: DamageElement,
   ): CombatHitDetectedEvent => {
     const event: CombatHitDetectedEvent = {
       type: GAME_EVENTS.COMBAT_HIT_DETECTED,
@@ -290,9 +605,19 @@ export const createEvent = {
     if (knockback !== undefined) {
       event.knockback = knockback;
     }
+    if (element !== undefined) {
+      event.element = element;
+    }
     return event;
   },
 
+  mapLoadStart: (mapId: string, mapFile: string): MapLoadStartEvent => ({
+    type: GAME_EVENTS.MAP_LOAD_START,
+    timestamp: performance.now(),
+    mapId,
+    mapFile,
+  }),
+
   mapLoaded: (
     mapId: string,
     mapFile: string,
@@ -307,6 +632,108 @@ export const createEvent = {
     bounds,
   }),
 
+  mapUnloaded: (mapId: string): MapUnloadedEvent => ({
+    type: GAME_EVENTS.MAP_UNLOADED,
+    timestamp: performance.now(),
+    mapId,
+  }),
+
+  portalTriggered: (
+    portalId: string,
+    sourceMap: string,
+    targetMap: string,
+    targetSpawn: string,
+    transition: PortalTriggeredEvent['transition']
+  ): PortalTriggeredEvent => ({
+    type: GAME_EVENTS.PORTAL_TRIGGERED,
+    timestamp: performance.now(),
+    portalId,
+    sourceMap,
+    targetMap,
+    targetSpawn,
+    transition,
+  }),
+
+  realmSwitchStart: (fromRealm: Realm, toRealm: Realm, anchorId: string | null): RealmSwitchStartEvent => ({
+    type: GAME_EVENTS.REALM_SWITCH_START,
+    timestamp: performance.now(),
+    fromRealm,
+    toRealm,
+    anchorId,
+  }),
+
+  realmSwitched: (
+    previousRealm: Realm,
+    currentRealm: Realm,
+    transitionType: RealmSwitchedEvent['transitionType']
+  ): RealmSwitchedEvent => ({
+    type: GAME_EVENTS.REALM_SWITCHED,
+    timestamp: performance.now(),
+    previousRealm,
+    currentRealm,
+    transitionType,
+  }),
+
+  bossEncounterStart: (
+    entityId: EntityId,
+    bossId: string,
+    name: string,
+    title: string,
+    health: number,
+    maxHealth: number
+  ): BossEncounterStartEvent => ({
+    type: GAME_EVENTS.BOSS_ENCOUNTER_START,
+    timestamp: performance.now(),
+    entityId,
+    bossId,
+    name,
+    title,
+    health,
+    maxHealth,
+  }),
+
+  bossHealthChanged: (entityId: EntityId, bossId: string, health: number, maxHealth: number): BossHealthChangedEvent => ({
+    type: GAME_EVENTS.BOSS_HEALTH_CHANGED,
+    timestamp: performance.now(),
+    entityId,
+    bossId,
+    health,
+    maxHealth,
+  }),
+
+  bossPhaseChanged: (entityId: EntityId, bossId: string, phase: number, phaseName: string): BossPhaseChangedEvent => ({
+    type: GAME_EVENTS.BOSS_PHASE_CHANGED,
+    timestamp: performance.now(),
+    entityId,
+    bossId,
+    phase,
+    phaseName,
+  }),
+
+  bossDefeated: (entityId: EntityId, bossId: string, arenaId: string, position: Vector2): BossDefeatedEvent => ({
+    type: GAME_EVENTS.BOSS_DEFEATED,
+    timestamp: performance.now(),
+    entityId,
+    bossId,
+    arenaId,
+    position,
+  }),
+
+  bossRewardGranted: (bossId: string, aetherShards: number, heartContainers: number): BossRewardGrantedEvent => ({
+    type: GAME_EVENTS.BOSS_REWARD_GRANTED,
+    timestamp: performance.now(),
+    bossId,
+    aetherShards,
+    heartContainers,
+  }),
+
+  arenaSealed: (arenaId: string, bossId: string, sealed: boolean): ArenaSealedEvent => ({
+    type: sealed ? GAME_EVENTS.ARENA_SEALED : GAME_EVENTS.ARENA_UNSEALED,
+    timestamp: performance.now(),
+    arenaId,
+    bossId,
+  }),
+
   itemCollected: (
     itemId: string,
     itemType: string,
@@ -322,6 +749,103 @@ export const createEvent = {
     quantity,
     rarity,
   }),
+
+  itemDropped: (itemId: string, itemType: string, position: Vector2, quantity: number, source: string): ItemDroppedEvent => ({
+    type: GAME_EVENTS.ITEM_DROPPED,
+    timestamp: performance.now(),
+    itemId,
+    itemType,
+    position,
+    quantity,
+    source,
+  }),
+
+  equipmentChanged: (entityId: EntityId, equipped: EquippableItem | null, quickSwap: EquippableItem | null): EquipmentChangedEvent => ({
+    type: GAME_EVENTS.EQUIPMENT_CHANGED,
+    timestamp: performance.now(),
+    entityId,
+    equipped,
+    quickSwap,
+  }),
+
+  interactionStart: (entityId: EntityId, npcId: string, npcName: string): InteractionStartEvent => ({
+    type: GAME_EVENTS.INTERACTION_START,
+    timestamp: performance.now(),
+    entityId,
+    npcId,
+    npcName,
+  }),
+
+  interactionEnd: (entityId: EntityId, npcId: string, npcName: string): InteractionEndEvent => ({
+    type: GAME_EVENTS.INTERACTION_END,
+    timestamp: performance.now(),
+    entityId,
+    npcId,
+    npcName,
+  }),
+
+  dialogueStart: (
+    entityId: EntityId,
+    nodeId: string,
+    speaker: string,
+    text: string,
+    choices: string[],
+    isComplete: boolean,
+  ): DialogueStartEvent => ({
+    type: GAME_EVENTS.DIALOGUE_START,
+    timestamp: performance.now(),
+    entityId,
+    nodeId,
+    speaker,
+    text,
+    choices,
+    isComplete,
+  }),
+
+  dialogueEnd: (entityId: EntityId, npcId: string): DialogueEndEvent => ({
+    type: GAME_EVENTS.DIALOGUE_END,
+    timestamp: performance.now(),
+    entityId,
+    npcId,
+  }),
+
+  dialogueChoice: (choiceIndex: number): DialogueChoiceEvent => ({
+    type: GAME_EVENTS.DIALOGUE_CHOICE,
+    timestamp: performance.now(),
+    choiceIndex,
+  }),
+
+  questStarted: (questId: string, title: string, description: string): QuestStartedEvent => ({
+    type: GAME_EVENTS.QUEST_STARTED,
+    timestamp: performance.now(),
+    questId,
+    title,
+    description,
+  }),
+
+  questObjectiveUpdated: (
+    questId: string,
+    objectiveId: string,
+    description: string,
+    progress: number,
+    amount: number,
+  ): QuestObjectiveUpdatedEvent => ({
+    type: GAME_EVENTS.QUEST_OBJECTIVE_UPDATED,
+    timestamp: performance.now(),
+    questId,
+    objectiveId,
+    description,
+    progress,
+    amount,
+    completed: progress >= amount,
+  }),
+
+  questCompleted: (questId: string, title: string): QuestCompletedEvent => ({
+    type: GAME_EVENTS.QUEST_COMPLETED,
+    timestamp: performance.now(),
+    questId,
+    title,
+  }),
 };
 
 // Event validation helpers
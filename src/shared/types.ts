@@ -2,7 +2,7 @@
 // Following Spec Librarian standards for type definitions
 
 export type Direction = 'up' | 'down' | 'left' | 'right';
-export type GameState = 'playing' | 'paused' | 'dialogue' | 'inventory' | 'menu';
+export type GameState = 'playing' | 'paused' | 'dialogue' | 'inventory' | 'menu' | 'game_over';
 export type Realm = 'dayrealm' | 'eclipse';
 
 // Vector and Math Types
@@ -67,25 +67,385 @@ export interface HealthComponent extends Component {
   invulnerabilityTimer: number;
 }
 
+// Elemental Types - status tuning lives in STATUS_EFFECTS (constants.ts)
+export type DamageElement = 'physical' | 'fire' | 'shock' | 'frost' | 'water';
+export type StatusEffectType = 'burn' | 'stun' | 'freeze' | 'slow';
+
+// Damage multipliers per element - 2 = weak, 0.5 = resists, 0 = immune (missing = 1)
+export type ElementalProfile = Partial<Record<DamageElement, number>>;
+
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  remaining: number;          // ms
+  tickTimer: number;          // ms until the next damage tick
+  sourceId: string;
+}
+
+export interface StatusComponent extends Component {
+  type: 'status';
+  effects: ActiveStatusEffect[];
+}
+
+export type PlayerMovementState = 'walking' | 'sprinting' | 'rolling';
+
 export interface PlayerComponent extends Component {
   type: 'player';
   stamina: number;
   maxStamina: number;
+  movementState: PlayerMovementState;
+  rollTimer: number;          // ms into the current roll
+  itemHoldTimer?: number;     // ms left holding a found item overhead - input is ignored meanwhile
   gleam: number;
   hearts: number;
   inventory: PlayerInventory;
+  equipment: PlayerEquipment;
 }
 
 export interface NPCComponent extends Component {
   type: 'npc';
   name: string;
-  dialogue: string[];
+  npcId?: string;             // stable id for quests and dialogue scripts
+  dialogue: string[];         // plain lines, played in order when there is no dialogueTree
+  dialogueTree?: string;      // id of a conversation graph in world/dialogue.json
   currentDialogue: number;
   questGiver: boolean;
   shopkeeper: boolean;
   interactable: boolean;
 }
 
+// Dialogue Types - conversation graphs live in world/dialogue.json
+export type DialogueActionType = 'setFlag' | 'giveItem' | 'startQuest' | 'openShop';
+
+export interface DialogueAction {
+  type: DialogueActionType;
+  key: string;                // flag, inventory item, quest or shop id
+  value?: boolean | number;   // flag value / item amount
+}
+
+export interface DialogueBranch {
+  next: string;               // node id
+  conditions?: PortalCondition[];
+}
+
+export interface DialogueChoice {
+  text: string;
+  next?: string;              // node id - omitted ends the conversation
+  conditions?: PortalCondition[]; // hidden unless every condition holds
+  actions?: DialogueAction[];
+}
+
+export interface DialogueNode {
+  speaker?: string;           // defaults to the NPC's name
+  text: string;
+  actions?: DialogueAction[]; // run when the node is shown
+  choices?: DialogueChoice[];
+  branches?: DialogueBranch[]; // first passing branch wins over `next`
+  next?: string;
+}
+
+export interface DialogueTree {
+  start: string;
+  entries?: DialogueBranch[]; // conditional alternatives to `start`
+  nodes: Record<string, DialogueNode>;
+}
+
+export interface DialogueData {
+  version: string;
+  trees: Record<string, DialogueTree>;
+}
+
+// Enemy AI Types - behaviour data lives in ENEMIES (constants.ts)
+export type EnemyState = 'idle' | 'patrol' | 'aggro' | 'attack' | 'stagger' | 'flee';
+export type EnemyAttackStyle = 'lunge' | 'leap' | 'pounce' | 'flank' | 'orbit' | 'burrow' | 'slam' | 'charge' | 'shoot';
+
+export interface EnemyDefinition {
+  id: string;
+  name: string;
+  health: number;
+  damage: number;
+  speed: number;              // px/s while chasing
+  attackStyle: EnemyAttackStyle;
+  aggroRadius: number;        // px - notice the player
+  attackRange: number;        // px - start an attack
+  leashRadius: number;        // px from home before giving up the chase
+  patrolRadius: number;       // px - 0 means the enemy stands guard
+  windup: number;             // ms telegraph before the strike
+  attackDuration: number;     // ms the strike lasts
+  attackSpeed: number;        // px/s during dashing strikes
+  attackCooldown: number;     // ms between attacks
+  staggerDuration: number;    // ms stunned after being hit
+  fleeBelow: number;          // health ratio that triggers fleeing (0 = never)
+  knockbackResistance: number; // 0..1, 1 ignores knockback and stagger
+  tint: number;
+  realm?: Realm;              // only spawns in this realm (e.g. eclipse-only Rift Motes)
+  projectile?: string;        // PROJECTILES id loosed by 'shoot' attackers, and by 'slam' ones out of reach
+  elements?: ElementalProfile;
+  lootTable?: string;         // LOOT_TABLES id rolled on death (defaults to the field table)
+}
+
+export interface EnemyComponent extends Component {
+  type: 'enemy';
+  species: string;
+  state: EnemyState;
+  stateTimer: number;         // ms spent in the current state
+  home: Vector2;
+  patrolTarget: Vector2 | null;
+  targetId: string | null;
+  attackCooldown: number;     // ms until the next attack is allowed
+  attackVector: Vector2;      // locked direction for dashing strikes
+  orbitAngle: number;
+  burrowed: boolean;
+  struck: boolean;            // strike already landed this attack
+}
+
+// Boss Types - encounter scripts live in BOSSES / BOSS_ARENAS (constants.ts)
+export type BossState = 'dormant' | 'intro' | 'fighting' | 'transition' | 'defeated';
+export type BossStage = 'windup' | 'strike' | 'recovery';
+export type BossMovement = 'hold' | 'chase' | 'dash' | 'circle';
+
+export interface BossAttackStep {
+  pattern: string;            // CombatSystem attack pattern id
+  windup: number;             // ms telegraph before the strike
+  recovery: number;           // ms of vulnerability afterwards
+  movement?: BossMovement;    // how the boss moves until the strike lands
+  summon?: { species: string; count: number };
+  shake?: number;             // screen shake intensity when the strike lands
+}
+
+export interface BossPhase {
+  name: string;
+  healthThreshold: number;    // phase begins once health ratio drops to this (first phase = 1)
+  speed: number;              // px/s
+  tint?: number;
+  sequence: BossAttackStep[]; // looped while the phase is active
+}
+
+export interface BossReward {
+  aetherShard?: boolean;
+  heartContainer?: boolean;
+}
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  title: string;
+  health: number;
+  contactDamage: number;
+  tint: number;
+  phases: BossPhase[];
+  reward: BossReward;
+  elements?: ElementalProfile;
+}
+
+export interface BossArena {
+  id: string;
+  map: string;
+  bossId: string;
+  bounds: Rectangle;          // px - entering seals the doors
+  bossSpawn: Vector2;
+  doors: Rectangle[];         // px - blocked while the fight is on
+}
+
+export interface BossComponent extends Component {
+  type: 'boss';
+  bossId: string;
+  arenaId: string;
+  state: BossState;
+  phase: number;
+  step: number;
+  stage: BossStage;
+  stateTimer: number;         // ms in the current state / stage
+  attackVector: Vector2;
+  summoned: string[];
+}
+
+// Item Ability Types - tuning lives in ITEM_ABILITIES (constants.ts)
+export type ItemEffectKind = 'tide_hook';
+
+export interface ItemEffectComponent extends Component {
+  type: 'itemEffect';
+  kind: ItemEffectKind;
+  ownerId: string;
+  direction: Vector2;
+  distance: number;           // px travelled on the way out
+  returning: boolean;
+  anchor: Vector2 | null;     // tide hook latch point - the owner is pulled here
+  hitIds: string[];           // entities already struck by this throw
+}
+
+// Loot Types - drop tables live in LOOT_TABLES (constants.ts)
+export type DropKind = 'gleam' | 'charge' | 'heart' | 'rumor_card';
+
+export interface LootEntry {
+  kind: DropKind;
+  weight: number;
+  min: number;                // amount range rolled for the pickup
+  max: number;
+}
+
+export interface LootTable {
+  dropChance: number;         // 0..1 chance that anything drops at all
+  rolls: number;              // pickups rolled when something drops
+  entries: LootEntry[];
+}
+
+export interface PickupComponent extends Component {
+  type: 'pickup';
+  kind: DropKind;
+  amount: number;
+  lifetime: number;           // ms left before the pickup vanishes
+}
+
+// Projectile Types - flight data lives in PROJECTILES (constants.ts)
+export type ProjectileTrajectory = 'straight' | 'arc' | 'homing' | 'returning';
+export type ProjectileFaction = 'player' | 'hostile';
+
+export interface ProjectileDefinition {
+  id: string;
+  trajectory: ProjectileTrajectory;
+  speed: number;              // px/s
+  range: number;              // px before a straight shot drops / a returning one turns back
+  lifetime: number;           // ms hard cap on flight time
+  damage: number;
+  radius: number;             // px - strikes entities this close
+  knockback: number;
+  pierce: boolean;            // keeps flying after a hit
+  element?: DamageElement;
+  conducts?: boolean;         // picks up fire from torches and burning targets
+  turnRate?: number;          // rad/s - homing only
+  arcHeight?: number;         // px peak - arcs only land at their target and fly over walls
+}
+
+export interface ProjectileComponent extends Component {
+  type: 'projectile';
+  kind: string;
+  ownerId: string;
+  faction: ProjectileFaction;
+  element: DamageElement;
+  velocity: Vector2;          // px/s
+  origin: Vector2;
+  target: Vector2 | null;     // arc landing point
+  targetId: string | null;    // homing target
+  age: number;                // ms
+  distance: number;           // px travelled on the way out
+  height: number;             // px above the ground (arcs)
+  returning: boolean;
+  spent: boolean;             // struck something - removed next frame unless reflected
+  reflected: boolean;
+  hitIds: string[];
+}
+
+// Dungeon locks - doors and chests live in DUNGEONS (constants.ts), open state in world flags
+export type LockType = 'small' | 'big';
+
+export type ChestContents =
+  | { type: 'small_key' }
+  | { type: 'big_key' }
+  | { type: 'item'; item: string; amount?: number }
+  | { type: 'loot'; table: string };
+
+export interface LockedDoor {
+  id: string;
+  map: string;
+  lock: LockType;
+  bounds: Rectangle;          // px - solid until unlocked
+}
+
+export interface Chest {
+  id: string;
+  map: string;
+  position: Vector2;          // px, top-left
+  big: boolean;               // big chests need the dungeon's big key
+  contents: ChestContents;
+}
+
+export interface Dungeon {
+  id: string;                 // small keys are counted under this id in inventory.keys
+  name: string;
+  maps: string[];
+  doors: LockedDoor[];
+  chests: Chest[];
+}
+
+export interface DoorComponent extends Component {
+  type: 'door';
+  doorId: string;
+  dungeonId: string;
+  lock: LockType;
+}
+
+export interface ChestComponent extends Component {
+  type: 'chest';
+  chestId: string;
+  dungeonId: string;
+  big: boolean;
+  opened: boolean;
+}
+
+// Puzzle Types - rooms live in PUZZLE_ROOMS (constants.ts), solved wires in world flags
+export type PuzzleSwitchKind = 'plate' | 'crystal' | 'timed';
+
+export interface PuzzleSwitch {
+  id: string;
+  kind: PuzzleSwitchKind;
+  position: Vector2;          // px, top-left of a one-tile switch
+  heavy?: boolean;            // plates only - the player is too light, a block is needed
+  duration?: number;          // timed switches only - ms the switch stays on once stepped on
+}
+
+export interface PushBlock {
+  id: string;
+  position: Vector2;          // px, top-left - blocks snap to the tile grid
+}
+
+export type PuzzleTarget =
+  | { type: 'gate'; id: string; bounds: Rectangle }       // solid while closed
+  | { type: 'bridge'; id: string; tiles: Vector2[] };     // tile coords laid as BRIDGE while extended
+
+export interface PuzzleWire {
+  id: string;
+  triggers: string[];         // switch ids
+  mode: 'all' | 'any';
+  targets: string[];          // gate / bridge ids
+  latch: boolean;             // stays on (and is saved as solved) once its triggers are met
+}
+
+export interface PuzzleRoom {
+  map: string;
+  blocks: PushBlock[];
+  switches: PuzzleSwitch[];
+  targets: PuzzleTarget[];
+  wires: PuzzleWire[];
+}
+
+export interface PushBlockComponent extends Component {
+  type: 'pushBlock';
+  blockId: string;
+  pushTimer: number;          // ms the player has been pushing against it
+  slide: { from: Vector2; to: Vector2; elapsed: number } | null;
+}
+
+export interface PuzzleSwitchComponent extends Component {
+  type: 'puzzleSwitch';
+  switchId: string;
+  kind: PuzzleSwitchKind;
+  active: boolean;
+  timer: number;              // ms left on a timed switch, cooldown after a crystal strike
+}
+
+export interface GateComponent extends Component {
+  type: 'gate';
+  gateId: string;
+}
+
+export interface PortalComponent extends Component {
+  type: 'portal';
+  portalId: string;
+  sourceMap: string;
+  target: PortalTarget;
+  conditions?: PortalCondition[];
+}
+
 // Player Inventory following Game Design Document
 export interface PlayerInventory {
   // Core progression items
@@ -106,6 +466,22 @@ export interface PlayerInventory {
   rumor_cards: number;
 }
 
+// Items that can be assigned to the equip slot (the ALTTP "Y-button" item)
+export type EquippableItem =
+  | 'sunflame_lantern'
+  | 'gale_boots'
+  | 'riverfin_vest'
+  | 'aether_mirror'
+  | 'storm_disk'
+  | 'quake_maul'
+  | 'tide_hook'
+  | 'sunflame_prism';
+
+export interface PlayerEquipment {
+  equipped: EquippableItem | null;   // used by the "use item" action
+  quickSwap: EquippableItem | null;  // exchanged with equipped on quick-swap
+}
+
 // Tile and World Types - Enhanced for 16-bit visual fidelity
 export const TileType = {
   // Base terrain
@@ -170,7 +546,9 @@ export interface Region {
   bounds: Rectangle;
   primaryTile: TileType;
   enemies: string[];
+  maxEnemies?: number;        // live enemy budget for the whole region
   music?: string;
+  darkness?: number;          // ambient darkness 0..1 - canopy shade, caves (default 0)
   eclipseTransform?: Partial<Record<TileType, TileType>>;
 }
 
@@ -184,6 +562,94 @@ export interface WorldState {
   }>;
 }
 
+// World Index Types (mirrors schemas/worldIndex.schema.json)
+export type MapRealm = 'day' | 'eclipse';
+export type MapTransition = 'fade' | 'slide' | 'instant' | 'realm_switch';
+
+export interface PortalCondition {
+  type: 'item' | 'flag' | 'quest' | 'level';
+  key?: string;
+  value?: unknown;
+  operator?: 'equals' | 'greater' | 'less' | 'contains';
+}
+
+export interface PortalTarget {
+  map: string;
+  spawn: string;
+  transition?: MapTransition;
+}
+
+export interface Portal {
+  id: string;
+  trigger: Rectangle;
+  target: PortalTarget;
+  conditions?: PortalCondition[];
+  bidirectional?: boolean;
+}
+
+// Eclipse overlay - a map's sparse Eclipse-only edits, merged in when the realm switches
+export interface EclipseTileEdit {
+  x: number;                  // tile coordinates
+  y: number;
+  tileType: TileType;
+}
+
+export interface EclipseEnemy {
+  id: string;
+  species: string;            // ENEMIES id
+  position: Vector2;
+}
+
+export interface EclipseOverlay {
+  tiles: EclipseTileEdit[];
+  enemies: EclipseEnemy[];
+  portals: Portal[];          // triggers that only exist during the Eclipse
+}
+
+// Realm anchor - a node where the realms can be flipped without the Aether Mirror
+export interface RealmAnchor {
+  id: string;
+  map: string;
+  position: Vector2;
+}
+
+export interface MapEntry {
+  id: string;
+  file: string;
+  realm: MapRealm;
+  bounds: Rectangle;
+  portals?: Portal[];
+  adjacent?: string[];
+  preloadRadius?: number;
+  musicTrack?: string;
+  ambientTrack?: string;
+  darkness?: number;          // ambient darkness 0..1 - dark rooms need torches or the lantern
+}
+
+// Lighting Types - tuning lives in LIGHTING (constants.ts)
+export type LightKind = 'torch' | 'lantern' | 'projectile' | 'player';
+
+export interface LightSource {
+  kind: LightKind;
+  position: Vector2;          // px, centre of the light
+  radius: number;             // px
+  intensity: number;          // 0..1 at the centre
+  color: number;
+}
+
+export interface RealmConfig {
+  tint: string;
+  ambientVolume: number;
+  musicVolume?: number;
+  particleEffects?: string[];
+}
+
+export interface WorldIndex {
+  version: string;
+  maps: MapEntry[];
+  realms: Partial<Record<MapRealm, RealmConfig>>;
+}
+
 // Audio Types
 export interface AudioConfig {
   volume: number;
@@ -215,20 +681,104 @@ export interface SaveData {
     position: Vector2;
     realm: Realm;
     health: number;
+    maxHealth: number;
+    maxStamina: number;
+    gleam: number;
     inventory: PlayerInventory;
+    equipment: PlayerEquipment;
   };
   world: {
     currentMap: string;
     flags: Record<string, boolean>;
     discoveredAreas: string[];
+    shopStock: Record<string, number>; // "shopId:goodId" -> remaining, limited goods only
   };
   progress: {
     aetherShards: number;
     completedQuests: string[];
+    objectiveProgress: Record<string, number>; // "questId/objectiveId" -> counter
     unlockedAreas: string[];
   };
 }
 
+// Quest Types - quest data lives in world/quests.json
+export type QuestObjectiveType = 'collect' | 'reach' | 'defeat' | 'talk' | 'enter' | 'solve';
+
+export interface QuestObjective {
+  id: string;
+  description: string;
+  type: QuestObjectiveType;
+  target: string;
+  amount?: number;            // defaults to 1
+}
+
+export interface Quest {
+  id: string;
+  title: string;
+  description: string;
+  objectives: QuestObjective[];
+}
+
+export interface QuestData {
+  version: string;
+  quests: Quest[];            // main storyline, activated in order
+}
+
+// Shop Types - vendor inventories live in world/shops.json
+export type ShopGrantType = 'item' | 'key' | 'heal' | 'stamina';
+
+export interface ShopGrant {
+  type: ShopGrantType;
+  key?: string;               // inventory field ('item') or key type ('key')
+  amount: number;
+}
+
+export interface ShopGood {
+  id: string;
+  name: string;
+  description: string;
+  price: number;              // Gleam
+  stock?: number;             // omitted = never sells out
+  grant: ShopGrant;
+}
+
+export interface ShopBuyOffer {
+  item: string;               // numeric PlayerInventory field
+  name: string;
+  price: number;              // Gleam paid per item
+}
+
+export interface Shop {
+  name: string;
+  keeper: string;
+  greeting?: string;
+  goods: ShopGood[];
+  buys?: ShopBuyOffer[];
+}
+
+export interface ShopData {
+  version: string;
+  shops: Record<string, Shop>;
+}
+
+// What the purchase window shows - rebuilt by the ShopSystem after every trade
+export interface ShopView {
+  shopId: string;
+  name: string;
+  keeper: string;
+  greeting?: string;
+  gleam: number;
+  goods: Array<ShopGood & { remaining: number | null }>;
+  buys: Array<ShopBuyOffer & { owned: number }>;
+}
+
+export interface SaveSlotInfo {
+  slot: number;
+  version: string;
+  timestamp: number;
+  currentMap: string;
+}
+
 // Input Types
 export interface InputState {
   movement: {
@@ -242,6 +792,11 @@ export interface InputState {
     interact: boolean;
     inventory: boolean;
     pause: boolean;
+    useItem: boolean;
+    swapItem: boolean;
+    sprint: boolean;          // held
+    roll: boolean;
+    parry: boolean;
   };
 }
 
@@ -1,24 +1,41 @@
 // Main React App - Root component with UI overlays
 // Following UI/UX Designer specifications for React integration
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { GameCanvas } from './GameCanvas.js';
 import { HUD } from './components/HUD.js';
 import { InventoryModal } from './components/InventoryModal.js';
 import { DialogueBox } from './components/DialogueBox.js';
 import { PauseMenu } from './components/PauseMenu.js';
-import { gameEvents } from '@shared/events.js';
-import type { GameState, PlayerInventory } from '@shared/types.js';
+import { BossHealthBar } from './components/BossHealthBar.js';
+import { ShopModal } from './components/ShopModal.js';
+import { GameOverScreen } from './components/GameOverScreen.js';
+import { TitleScreen } from './components/TitleScreen.js';
+import { gameEvents, GAME_EVENTS, createEvent, emitTypedEvent } from '@shared/events.js';
+import { AUTOSAVE_SLOT, HEALTH_PER_HEART, STARTING_HEARTS } from '@shared/constants.js';
+import type { EquippableItem, GameState, PlayerEquipment, PlayerInventory, ShopView } from '@shared/types.js';
 import './styles.css';
 
+// What the shopkeeper says when ShopSystem refuses a trade
+const SHOP_REFUSALS: Record<string, string> = {
+  sold_out: "That's all I had, I'm afraid.",
+  insufficient_gleam: "You'll need more Gleam for that.",
+  full_health: "You look hale enough already.",
+  nothing_to_sell: "You don't have any of those."
+};
+
 export const App: React.FC = () => {
   // Game state
   const [gameState, setGameState] = useState<GameState>('playing');
   const [isPaused, setIsPaused] = useState(false);
   
   // Player state
-  const [playerHealth, setPlayerHealth] = useState(6);
-  const [playerMaxHealth, setPlayerMaxHealth] = useState(6);
+  const [playerHealth, setPlayerHealth] = useState(STARTING_HEARTS * HEALTH_PER_HEART);
+  const [playerMaxHealth, setPlayerMaxHealth] = useState(STARTING_HEARTS * HEALTH_PER_HEART);
+  const [heartContainerPulse, setHeartContainerPulse] = useState(0);
+  const [playerStamina, setPlayerStamina] = useState(100);
+  const [playerMaxStamina, setPlayerMaxStamina] = useState(100);
+  const [playerGleam, setPlayerGleam] = useState(0);
   const [playerInventory, setPlayerInventory] = useState<PlayerInventory>({
     sunflame_lantern: true,
     gale_boots: false,
@@ -34,14 +51,30 @@ export const App: React.FC = () => {
     heart_pieces: 0,
     rumor_cards: 0
   });
+  const [playerEquipment, setPlayerEquipment] = useState<PlayerEquipment>({
+    equipped: 'sunflame_lantern',
+    quickSwap: null
+  });
   
   // UI state
   const [showInventory, setShowInventory] = useState(false);
   const [dialogueData, setDialogueData] = useState<{
     text: string;
     speaker?: string;
+    choices: string[];
     visible: boolean;
-  }>({ text: '', visible: false });
+  }>({ text: '', choices: [], visible: false });
+  const [shopView, setShopView] = useState<ShopView | null>(null);
+  const [shopMessage, setShopMessage] = useState<string | null>(null);
+
+  // Boss encounter state (null when no fight is in progress)
+  const [bossData, setBossData] = useState<{
+    name: string;
+    title: string;
+    health: number;
+    maxHealth: number;
+    phaseName?: string;
+  } | null>(null);
   
   // Performance metrics
   const [fps, setFps] = useState(60);
@@ -52,6 +85,8 @@ export const App: React.FC = () => {
     // Game state events
     const unsubscribeGameState = gameEvents.on('game.state.changed', (event: any) => {
       setGameState(event.payload.state);
+      // A fight left behind when quitting to the title is over
+      if (event.payload.state === 'menu') setBossData(null);
     });
 
     const unsubscribePause = gameEvents.on('game.paused', (event: any) => {
@@ -59,32 +94,86 @@ export const App: React.FC = () => {
     });
 
     // Player events
-    const unsubscribeHealth = gameEvents.on('player.health.changed', (event: any) => {
+    const unsubscribeHealth = gameEvents.on(GAME_EVENTS.PLAYER_HEALTH_CHANGED, (event: any) => {
       setPlayerHealth(event.payload.health);
       setPlayerMaxHealth(event.payload.maxHealth);
     });
 
+    // Bumping the counter replays the HUD's new-heart animation
+    const unsubscribeHeartContainer = gameEvents.on(GAME_EVENTS.HEART_CONTAINER_GAINED, () => {
+      setHeartContainerPulse(prev => prev + 1);
+    });
+
+    const unsubscribeStamina = gameEvents.on('player.stamina.changed', (event: any) => {
+      setPlayerStamina(event.payload.stamina);
+      setPlayerMaxStamina(event.payload.maxStamina);
+    });
+
+    const unsubscribeGleam = gameEvents.on('player.gleam.changed', (event: any) => {
+      setPlayerGleam(event.payload.gleam);
+    });
+
     const unsubscribeInventory = gameEvents.on('player.inventory.changed', (event: any) => {
       setPlayerInventory(event.payload.inventory);
     });
 
+    const unsubscribeEquipment = gameEvents.on(GAME_EVENTS.EQUIPMENT_CHANGED, (event: any) => {
+      setPlayerEquipment({ equipped: event.payload.equipped, quickSwap: event.payload.quickSwap });
+    });
+
     // UI events
     const unsubscribeInventoryToggle = gameEvents.on('ui.inventory.toggle', (event: any) => {
       setShowInventory(event.payload.open);
     });
 
-    const unsubscribeDialogueStart = gameEvents.on('ui.dialogue.started', (event: any) => {
+    const unsubscribeDialogueStart = gameEvents.on(GAME_EVENTS.DIALOGUE_START, (event: any) => {
       setDialogueData({
         text: event.payload.text,
         speaker: event.payload.speaker,
+        choices: event.payload.choices,
         visible: true
       });
     });
 
-    const unsubscribeDialogueEnd = gameEvents.on('ui.dialogue.ended', () => {
+    const unsubscribeDialogueEnd = gameEvents.on(GAME_EVENTS.DIALOGUE_END, () => {
       setDialogueData(prev => ({ ...prev, visible: false }));
     });
 
+    // Shop events - ShopSystem sends a fresh view after every trade
+    const showShop = (event: any) => {
+      setShopView(event.payload.view);
+      setShopMessage(null);
+    };
+    const unsubscribeShopOpened = gameEvents.on('shop.opened', showShop);
+    const unsubscribeShopUpdated = gameEvents.on('shop.updated', showShop);
+
+    const unsubscribeShopClosed = gameEvents.on('shop.closed', () => {
+      setShopView(null);
+    });
+
+    const unsubscribeShopFailed = gameEvents.on('shop.trade.failed', (event: any) => {
+      setShopMessage(SHOP_REFUSALS[event.payload.reason] ?? null);
+    });
+
+    // Boss events
+    const unsubscribeBossStart = gameEvents.on(GAME_EVENTS.BOSS_ENCOUNTER_START, (event: any) => {
+      const { name, title, health, maxHealth } = event.payload;
+      setBossData({ name, title, health, maxHealth });
+    });
+
+    const unsubscribeBossHealth = gameEvents.on(GAME_EVENTS.BOSS_HEALTH_CHANGED, (event: any) => {
+      setBossData(prev => prev && { ...prev, health: event.payload.health, maxHealth: event.payload.maxHealth });
+    });
+
+    const unsubscribeBossPhase = gameEvents.on(GAME_EVENTS.BOSS_PHASE_CHANGED, (event: any) => {
+      setBossData(prev => prev && { ...prev, phaseName: event.payload.phaseName });
+    });
+
+    // The bar also goes away if the player leaves the map mid-fight
+    const clearBoss = () => setBossData(null);
+    const unsubscribeBossDefeated = gameEvents.on(GAME_EVENTS.BOSS_DEFEATED, clearBoss);
+    const unsubscribeMapLoaded = gameEvents.on(GAME_EVENTS.MAP_LOADED, clearBoss);
+
     // Performance events
     const unsubscribePerformance = gameEvents.on('system.performance.update', (event: any) => {
       setFps(event.payload.fps);
@@ -96,10 +185,23 @@ export const App: React.FC = () => {
       unsubscribeGameState();
       unsubscribePause();
       unsubscribeHealth();
+      unsubscribeHeartContainer();
+      unsubscribeStamina();
+      unsubscribeGleam();
       unsubscribeInventory();
+      unsubscribeEquipment();
       unsubscribeInventoryToggle();
       unsubscribeDialogueStart();
       unsubscribeDialogueEnd();
+      unsubscribeShopOpened();
+      unsubscribeShopUpdated();
+      unsubscribeShopClosed();
+      unsubscribeShopFailed();
+      unsubscribeBossStart();
+      unsubscribeBossHealth();
+      unsubscribeBossPhase();
+      unsubscribeBossDefeated();
+      unsubscribeMapLoaded();
       unsubscribePerformance();
     };
   }, []);
@@ -107,18 +209,25 @@ export const App: React.FC = () => {
   // Handle keyboard shortcuts at app level
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // The game-over and title screens own the keyboard until the player picks an option
+      if (gameState === 'game_over' || gameState === 'menu') return;
+
       switch (event.code) {
         case 'Escape':
           if (showInventory) {
             setShowInventory(false);
           } else if (dialogueData.visible) {
-            setDialogueData(prev => ({ ...prev, visible: false }));
+            gameEvents.emit({
+              type: 'ui.dialogue.cancel',
+              payload: {},
+              timestamp: Date.now()
+            });
           } else {
             setIsPaused(!isPaused);
           }
           break;
         case 'KeyI':
-          if (!dialogueData.visible && !isPaused) {
+          if (!dialogueData.visible && !shopView && !isPaused) {
             setShowInventory(!showInventory);
           }
           break;
@@ -127,7 +236,7 @@ export const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showInventory, dialogueData.visible, isPaused]);
+  }, [gameState, showInventory, dialogueData.visible, shopView, isPaused]);
 
   const handleCloseInventory = () => {
     setShowInventory(false);
@@ -138,6 +247,40 @@ export const App: React.FC = () => {
     });
   };
 
+  const handleEquip = useCallback((itemType: EquippableItem, slot: keyof PlayerEquipment) => {
+    // InventorySystem answers with EQUIPMENT_CHANGED
+    gameEvents.emit({
+      type: 'inventory.equip.item',
+      payload: { itemType, slot },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  // ShopSystem answers with shop.updated or shop.trade.failed
+  const handleShopBuy = useCallback((goodId: string) => {
+    gameEvents.emit({
+      type: 'shop.buy.request',
+      payload: { goodId },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  const handleShopSell = useCallback((item: string) => {
+    gameEvents.emit({
+      type: 'shop.sell.request',
+      payload: { item },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  const handleCloseShop = useCallback(() => {
+    gameEvents.emit({
+      type: 'ui.shop.close',
+      payload: {},
+      timestamp: Date.now()
+    });
+  }, []);
+
   const handleResume = () => {
     setIsPaused(false);
     gameEvents.emit({
@@ -147,18 +290,54 @@ export const App: React.FC = () => {
     });
   };
 
-  const handleMainMenu = () => {
-    // This would navigate to main menu
-    console.log('Navigate to main menu');
-  };
+  // EchoesGame stops the world scene and answers with the 'menu' game state
+  const handleMainMenu = useCallback(() => {
+    setIsPaused(false);
+    gameEvents.emit({
+      type: 'game.quit.request',
+      payload: {},
+      timestamp: Date.now()
+    });
+  }, []);
 
-  const handleDialogueAdvance = () => {
-    // This would advance dialogue or end it
+  // RespawnSystem answers with PLAYER_RESPAWNED and flips the game state back to playing
+  const handleContinue = useCallback(() => {
     gameEvents.emit({
-      type: 'ui.dialogue.ended',
+      type: 'player.respawn.request',
       payload: {},
       timestamp: Date.now()
     });
+  }, []);
+
+  // Written to the autosave slot so the pause menu's manual save is never overwritten;
+  // RespawnSystem quits to the title once the save has landed
+  const handleSaveAndQuit = useCallback(() => {
+    gameEvents.emit({
+      type: 'player.respawn.request',
+      payload: { saveSlot: AUTOSAVE_SLOT, quit: true },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  const handleTitleContinue = useCallback(() => {
+    gameEvents.emit({
+      type: 'game.start.request',
+      payload: { loadSlot: AUTOSAVE_SLOT },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  const handleNewGame = useCallback(() => {
+    gameEvents.emit({
+      type: 'game.start.request',
+      payload: { loadSlot: null },
+      timestamp: Date.now()
+    });
+  }, []);
+
+  const handleDialogueAdvance = (choiceIndex: number) => {
+    // DialogueSystem answers with the next DIALOGUE_START or a DIALOGUE_END
+    emitTypedEvent(createEvent.dialogueChoice(choiceIndex));
   };
 
   return (
@@ -171,27 +350,55 @@ export const App: React.FC = () => {
         <HUD 
           health={playerHealth}
           maxHealth={playerMaxHealth}
-          hearts={Math.ceil(playerMaxHealth / 2)}
-          gleam={0} // Will be connected to player state
+          hearts={Math.ceil(playerMaxHealth / HEALTH_PER_HEART)}
+          heartContainerPulse={heartContainerPulse}
+          stamina={playerStamina}
+          maxStamina={playerMaxStamina}
+          gleam={playerGleam}
           aetherShards={playerInventory.aether_shards}
           fps={fps}
           memoryUsage={memoryUsage}
         />
       )}
       
+      {/* Boss Health Bar */}
+      {gameState === 'playing' && !isPaused && bossData && (
+        <BossHealthBar
+          name={bossData.name}
+          title={bossData.title}
+          health={bossData.health}
+          maxHealth={bossData.maxHealth}
+          phaseName={bossData.phaseName}
+        />
+      )}
+      
       {/* Inventory Modal */}
       {showInventory && (
         <InventoryModal 
           inventory={playerInventory}
+          equipment={playerEquipment}
+          onEquip={handleEquip}
           onClose={handleCloseInventory}
         />
       )}
       
+      {/* Shop Modal */}
+      {shopView && (
+        <ShopModal
+          view={shopView}
+          message={shopMessage}
+          onBuy={handleShopBuy}
+          onSell={handleShopSell}
+          onClose={handleCloseShop}
+        />
+      )}
+      
       {/* Dialogue Box */}
       {dialogueData.visible && (
         <DialogueBox 
           text={dialogueData.text}
           speaker={dialogueData.speaker || undefined}
+          choices={dialogueData.choices}
           onAdvance={handleDialogueAdvance}
         />
       )}
@@ -204,6 +411,22 @@ export const App: React.FC = () => {
         />
       )}
       
+      {/* Game Over Screen */}
+      {gameState === 'game_over' && (
+        <GameOverScreen
+          onContinue={handleContinue}
+          onSaveAndQuit={handleSaveAndQuit}
+        />
+      )}
+      
+      {/* Title Screen */}
+      {gameState === 'menu' && (
+        <TitleScreen
+          onContinue={handleTitleContinue}
+          onNewGame={handleNewGame}
+        />
+      )}
+      
       {/* Error Boundary could go here */}
     </div>
   );
@@ -0,0 +1,100 @@
+// Boss Health Bar Component - ALTTP-style boss name plate and segmented health gauge
+// Following UI/UX Designer specifications with ALTTP aesthetics
+
+import React from 'react';
+
+interface BossHealthBarProps {
+  name: string;
+  title: string;
+  health: number;
+  maxHealth: number;
+  phaseName?: string | undefined;
+}
+
+export const BossHealthBar: React.FC<BossHealthBarProps> = ({
+  name,
+  title,
+  health,
+  maxHealth,
+  phaseName
+}) => {
+  const ratio = maxHealth > 0 ? Math.max(0, Math.min(1, health / maxHealth)) : 0;
+  const lowHealth = ratio <= 0.25;
+
+  return (
+    <div className="alttp-boss-bar" role="status" aria-label={`${name} health`}>
+      <div className="alttp-boss-nameplate">
+        <span className="alttp-boss-name">{name}</span>
+        <span className="alttp-boss-title">{phaseName ?? title}</span>
+      </div>
+
+      <div className="alttp-boss-gauge">
+        <div
+          className={`alttp-boss-gauge-fill ${lowHealth ? 'low' : ''}`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+
+      <style>{`
+        .alttp-boss-bar {
+          position: fixed;
+          bottom: 64px;
+          left: 50%;
+          transform: translateX(-50%);
+          width: 360px;
+          pointer-events: none;
+          z-index: 110;
+          font-family: 'Courier New', 'Monaco', monospace;
+          image-rendering: pixelated;
+        }
+
+        .alttp-boss-nameplate {
+          display: flex;
+          justify-content: space-between;
+          align-items: baseline;
+          margin-bottom: 4px;
+          text-shadow: 1px 1px 0 #000000;
+        }
+
+        .alttp-boss-name {
+          color: #f8d878;
+          font-size: 14px;
+          font-weight: bold;
+          letter-spacing: 1px;
+          text-transform: uppercase;
+        }
+
+        .alttp-boss-title {
+          color: #d8d8d8;
+          font-size: 11px;
+        }
+
+        .alttp-boss-gauge {
+          height: 10px;
+          padding: 2px;
+          background: #1c1c1c;
+          border: 2px solid;
+          border-top-color: #9c9c9c;
+          border-left-color: #9c9c9c;
+          border-right-color: #3c3c3c;
+          border-bottom-color: #3c3c3c;
+        }
+
+        .alttp-boss-gauge-fill {
+          height: 100%;
+          background: linear-gradient(180deg, #f85858 0%, #c82828 60%, #881818 100%);
+          transition: width 0.25s steps(8);
+        }
+
+        .alttp-boss-gauge-fill.low {
+          animation: alttp-boss-pulse 0.5s steps(2) infinite;
+        }
+
+        @keyframes alttp-boss-pulse {
+          0% { opacity: 1; }
+          100% { opacity: 0.6; }
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -3,27 +3,38 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import { ALTTPGraphics } from '../utils/ALTTPGraphics.js';
+import { useGamepadButtons } from '../hooks/useGamepadButtons.js';
 
 interface DialogueBoxProps {
   text: string;
   speaker?: string | undefined;
-  onAdvance: () => void;
+  choices?: string[];
+  onAdvance: (choiceIndex: number) => void;
 }
 
+// Standard gamepad mapping: A confirms, d-pad moves the choice cursor
+const GAMEPAD_CONFIRM = 0;
+const GAMEPAD_UP = 12;
+const GAMEPAD_DOWN = 13;
+
 export const DialogueBox: React.FC<DialogueBoxProps> = ({
   text,
   speaker,
+  choices = [],
   onAdvance
 }) => {
   const [displayedText, setDisplayedText] = useState('');
   const [isComplete, setIsComplete] = useState(false);
   const [, setCurrentIndex] = useState(0);
+  const [selectedChoice, setSelectedChoice] = useState(0);
+  const hasChoices = choices.length > 0;
 
   // Text typewriter effect
   useEffect(() => {
     setDisplayedText('');
     setCurrentIndex(0);
     setIsComplete(false);
+    setSelectedChoice(0);
     
     if (!text) return;
 
@@ -50,29 +61,47 @@ export const DialogueBox: React.FC<DialogueBoxProps> = ({
     };
   }, [text]);
 
-  // Handle input for advancing dialogue
+  // Handle input for advancing dialogue and picking choices
+  const moveCursor = (step: number) => {
+    if (!hasChoices || !isComplete) return;
+    setSelectedChoice(prev => (prev + step + choices.length) % choices.length);
+  };
+
+  const confirm = () => {
+    if (!isComplete) {
+      // Skip typewriter effect and show full text
+      setDisplayedText(text);
+      setIsComplete(true);
+    } else {
+      // Advance to next dialogue, answer with the highlighted choice, or close
+      onAdvance(hasChoices ? selectedChoice : 0);
+    }
+  };
+
+  useGamepadButtons({
+    [GAMEPAD_CONFIRM]: confirm,
+    [GAMEPAD_UP]: () => moveCursor(-1),
+    [GAMEPAD_DOWN]: () => moveCursor(1)
+  });
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.code === 'Space' || event.code === 'Enter') {
         event.preventDefault();
-        
-        if (!isComplete) {
-          // Skip typewriter effect and show full text
-          setDisplayedText(text);
-          setIsComplete(true);
-        } else {
-          // Advance to next dialogue or close
-          onAdvance();
-        }
+        confirm();
+      } else if (hasChoices && isComplete && (event.code === 'ArrowUp' || event.code === 'KeyW')) {
+        event.preventDefault();
+        moveCursor(-1);
+      } else if (hasChoices && isComplete && (event.code === 'ArrowDown' || event.code === 'KeyS')) {
+        event.preventDefault();
+        moveCursor(1);
       }
     };
 
     const handleClick = () => {
-      if (!isComplete) {
-        setDisplayedText(text);
-        setIsComplete(true);
-      } else {
-        onAdvance();
+      // Choices are picked by clicking them directly
+      if (!hasChoices || !isComplete) {
+        confirm();
       }
     };
 
@@ -83,7 +112,7 @@ export const DialogueBox: React.FC<DialogueBoxProps> = ({
       document.removeEventListener('keydown', handleKeyDown);
       document.removeEventListener('click', handleClick);
     };
-  }, [isComplete, text, onAdvance]);
+  }, [isComplete, text, onAdvance, choices.length, hasChoices, selectedChoice]);
 
   if (!text) return null;
 
@@ -105,9 +134,27 @@ export const DialogueBox: React.FC<DialogueBoxProps> = ({
               <span className="alttp-cursor">_</span>
             )}
           </div>
+
+          {hasChoices && isComplete && (
+            <ul className="alttp-dialogue-choices" role="listbox">
+              {choices.map((choice, index) => (
+                <li
+                  key={choice}
+                  role="option"
+                  aria-selected={index === selectedChoice}
+                  className={`alttp-dialogue-choice ${index === selectedChoice ? 'selected' : ''}`}
+                  onMouseEnter={() => setSelectedChoice(index)}
+                  onClick={() => onAdvance(index)}
+                >
+                  <span className="alttp-choice-cursor">{index === selectedChoice ? '▶' : ''}</span>
+                  {choice}
+                </li>
+              ))}
+            </ul>
+          )}
           
           <div className="alttp-dialogue-controls">
-            {isComplete ? (
+            {hasChoices && isComplete ? null : isComplete ? (
               <div className="alttp-continue-arrow">▼</div>
             ) : (
               <div className="alttp-skip-text">SPACE TO SKIP</div>
@@ -196,6 +243,30 @@ export const DialogueBox: React.FC<DialogueBoxProps> = ({
           word-wrap: break-word;
         }
         
+        .alttp-dialogue-choices {
+          list-style: none;
+          margin: 0 0 12px 0;
+          padding: 0;
+        }
+        
+        .alttp-dialogue-choice {
+          color: #d8d8d8;
+          font-size: 13px;
+          line-height: 1.6;
+          cursor: pointer;
+          text-shadow: 1px 1px 0 #000000;
+        }
+        
+        .alttp-dialogue-choice.selected {
+          color: #f8d878;
+        }
+        
+        .alttp-choice-cursor {
+          display: inline-block;
+          width: 16px;
+          font-size: 10px;
+        }
+        
         .alttp-cursor {
           display: inline-block;
           animation: alttp-blink 1s infinite;
@@ -0,0 +1,199 @@
+// Game Over Screen - ALTTP-style Continue / Save & Quit choice after the player falls
+// Following UI/UX Designer specifications with ALTTP aesthetics
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useGamepadButtons } from '../hooks/useGamepadButtons.js';
+
+// Standard gamepad mapping: A confirms, d-pad moves - InputSystem ignores a downed player
+const GAMEPAD_CONFIRM = 0;
+const GAMEPAD_UP = 12;
+const GAMEPAD_DOWN = 13;
+
+interface GameOverScreenProps {
+  onContinue: () => void;
+  onSaveAndQuit: () => void;
+}
+
+export const GameOverScreen: React.FC<GameOverScreenProps> = ({
+  onContinue,
+  onSaveAndQuit
+}) => {
+  const [selectedOption, setSelectedOption] = useState(0);
+
+  const menuOptions = useMemo(() => [
+    { label: 'Continue', action: onContinue },
+    { label: 'Save & Quit', action: onSaveAndQuit }
+  ], [onContinue, onSaveAndQuit]);
+
+  // Handle keyboard and gamepad navigation
+  const moveSelection = () => {
+    setSelectedOption(prev => (prev + 1) % menuOptions.length);
+  };
+
+  useGamepadButtons({
+    [GAMEPAD_CONFIRM]: () => menuOptions[selectedOption].action(),
+    [GAMEPAD_UP]: moveSelection,
+    [GAMEPAD_DOWN]: moveSelection
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case 'ArrowUp':
+        case 'KeyW':
+        case 'ArrowDown':
+        case 'KeyS':
+          event.preventDefault();
+          moveSelection();
+          break;
+
+        case 'Enter':
+        case 'Space':
+          event.preventDefault();
+          menuOptions[selectedOption].action();
+          break;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedOption, menuOptions]);
+
+  return (
+    <div className="alttp-game-over">
+      <div className="alttp-game-over-backdrop" />
+
+      <div className="alttp-game-over-content">
+        <h1 className="alttp-game-over-title">GAME OVER</h1>
+
+        <div className="alttp-game-over-options">
+          {menuOptions.map((option, index) => (
+            <div
+              key={option.label}
+              className={`alttp-game-over-option ${index === selectedOption ? 'selected' : ''}`}
+              onClick={option.action}
+              onMouseEnter={() => setSelectedOption(index)}
+            >
+              <div className="alttp-game-over-cursor">
+                {index === selectedOption && <div className="alttp-game-over-arrow" />}
+              </div>
+              <div className="alttp-game-over-text">
+                {option.label.toUpperCase()}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <style>{`
+        .alttp-game-over {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 350;
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          font-family: 'Courier New', 'Monaco', monospace;
+          image-rendering: pixelated;
+          -webkit-font-smoothing: none;
+        }
+
+        .alttp-game-over-backdrop {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: radial-gradient(circle, rgba(96, 0, 0, 0.75) 0%, rgba(0, 0, 0, 0.95) 70%);
+          animation: alttp-game-over-fade 800ms ease-out;
+        }
+
+        .alttp-game-over-content {
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 32px;
+          animation: alttp-game-over-fade 800ms ease-out;
+        }
+
+        .alttp-game-over-title {
+          margin: 0;
+          color: #f8f8f8;
+          font-family: 'Courier New', monospace;
+          font-size: 32px;
+          letter-spacing: 6px;
+          text-shadow: 3px 3px 0 #880000, 4px 4px 0 #000000;
+        }
+
+        .alttp-game-over-options {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          min-width: 240px;
+        }
+
+        .alttp-game-over-option {
+          display: flex;
+          align-items: center;
+          padding: 10px 16px;
+          background: #3c3c3c;
+          border: 2px solid;
+          border-top-color: #6c6c6c;
+          border-left-color: #6c6c6c;
+          border-right-color: #1c1c1c;
+          border-bottom-color: #1c1c1c;
+          color: #ffffff;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        .alttp-game-over-option:hover,
+        .alttp-game-over-option.selected {
+          background: #f8f800;
+          color: #000000;
+        }
+
+        .alttp-game-over-cursor {
+          width: 20px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        }
+
+        .alttp-game-over-arrow {
+          width: 0;
+          height: 0;
+          border: 6px solid transparent;
+          border-left: 8px solid currentColor;
+        }
+
+        .alttp-game-over-text {
+          flex: 1;
+          letter-spacing: 1px;
+          text-shadow: 1px 1px 0 #000000;
+        }
+
+        .alttp-game-over-option.selected .alttp-game-over-text {
+          text-shadow: none;
+        }
+
+        @keyframes alttp-game-over-fade {
+          0% { opacity: 0; }
+          100% { opacity: 1; }
+        }
+
+        /* ALTTP Reduced motion */
+        @media (prefers-reduced-motion: reduce) {
+          .alttp-game-over-backdrop,
+          .alttp-game-over-content {
+            animation: none;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
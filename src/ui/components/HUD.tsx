@@ -1,15 +1,20 @@
 // HUD Component - Authentic ALTTP-style health, currency, and game status display
 // Following UI/UX Designer specifications with ALTTP aesthetics
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ALTTPGraphics } from '../utils/ALTTPGraphics.js';
+import { ALTTPCurrencyDisplay } from './ALTTPComponents.js';
 
 interface HUDProps {
   health: number;
   maxHealth: number;
   hearts: number;
+  stamina: number;
+  maxStamina: number;
   gleam: number;
   aetherShards: number;
+  heartContainerPulse?: number;   // bumped whenever a heart container is gained
+
   fps?: number;
   memoryUsage?: number;
 }
@@ -17,13 +22,18 @@ interface HUDProps {
 export const HUD: React.FC<HUDProps> = ({
   health,
   hearts,
+  stamina,
+  maxStamina,
   gleam,
   aetherShards,
+  heartContainerPulse = 0,
   fps,
   memoryUsage
 }) => {
   const heartsContainerRef = useRef<HTMLDivElement>(null);
-  const rupeeIconRef = useRef<HTMLDivElement>(null);
+  const previousGleamRef = useRef(gleam);
+  const [gleamPulse, setGleamPulse] = useState(false);
+  const [heartGained, setHeartGained] = useState(false);
 
   // ALTTP Heart Component
   const ALTTPHeart: React.FC<{ type: 'full' | 'half' | 'empty' }> = ({ type }) => {
@@ -63,13 +73,24 @@ export const HUD: React.FC<HUDProps> = ({
     );
   };
   
-  // Generate ALTTP-style graphics on mount
+  // Pulse the counter whenever Gleam is earned or spent
   useEffect(() => {
-    if (rupeeIconRef.current) {
-      const rupeeCanvas = ALTTPGraphics.generateRupee('green');
-      rupeeIconRef.current.appendChild(rupeeCanvas);
-    }
-  }, []);
+    if (gleam === previousGleamRef.current) return;
+    previousGleamRef.current = gleam;
+
+    setGleamPulse(true);
+    const timeoutId = setTimeout(() => setGleamPulse(false), 600);
+    return () => clearTimeout(timeoutId);
+  }, [gleam]);
+
+  // Flash the heart row and pop in the new heart when a container is gained
+  useEffect(() => {
+    if (heartContainerPulse === 0) return;
+
+    setHeartGained(true);
+    const timeoutId = setTimeout(() => setHeartGained(false), 1200);
+    return () => clearTimeout(timeoutId);
+  }, [heartContainerPulse]);
 
   const renderHearts = () => {
     const heartElements = [];
@@ -87,7 +108,9 @@ export const HUD: React.FC<HUDProps> = ({
       }
       
       heartElements.push(
-        <ALTTPHeart key={i} type={heartState} />
+        <div key={i} className={`alttp-heart-slot ${heartGained && i === hearts - 1 ? 'new' : ''}`}>
+          <ALTTPHeart type={heartState} />
+        </div>
       );
     }
     
@@ -98,9 +121,22 @@ export const HUD: React.FC<HUDProps> = ({
     <div className="alttp-hud">
       {/* Top Left - Health (ALTTP Style) */}
       <div className="alttp-hud-section alttp-hud-top-left">
-        <div className="alttp-hearts-container" ref={heartsContainerRef}>
+        <div className={`alttp-hearts-container ${heartGained ? 'gained' : ''}`} ref={heartsContainerRef}>
           {renderHearts()}
         </div>
+        <div
+          className={`alttp-stamina-meter ${stamina < maxStamina * 0.25 ? 'low' : ''}`}
+          role="meter"
+          aria-label="Stamina"
+          aria-valuenow={stamina}
+          aria-valuemin={0}
+          aria-valuemax={maxStamina}
+        >
+          <div
+            className="alttp-stamina-fill"
+            style={{ width: `${maxStamina > 0 ? (stamina / maxStamina) * 100 : 0}%` }}
+          />
+        </div>
       </div>
       
       {/* Top Center - Item Display */}
@@ -115,12 +151,7 @@ export const HUD: React.FC<HUDProps> = ({
       {/* Top Right - Currency Counter (ALTTP Style) */}
       <div className="alttp-hud-section alttp-hud-top-right">
         <div className="alttp-currency-panel">
-          <div className="alttp-rupee-counter">
-            <div className="alttp-rupee-icon" ref={rupeeIconRef}></div>
-            <div className="alttp-counter-display">
-              <span className="alttp-currency-text">{gleam.toString().padStart(3, '0')}</span>
-            </div>
-          </div>
+          <ALTTPCurrencyDisplay amount={gleam} animate={gleamPulse} />
         </div>
       </div>
       
@@ -208,6 +239,8 @@ export const HUD: React.FC<HUDProps> = ({
         /* ALTTP Hearts Display */
         .alttp-hearts-container {
           display: flex;
+          flex-wrap: wrap;
+          max-width: 170px; /* ten hearts per row, as in ALTTP */
           gap: 1px;
           align-items: center;
           padding: 8px;
@@ -230,6 +263,28 @@ export const HUD: React.FC<HUDProps> = ({
           pointer-events: none;
         }
         
+        /* Stamina meter - drains with sprint and dodge rolls */
+        .alttp-stamina-meter {
+          margin-top: 4px;
+          height: 6px;
+          background: #1c1c1c;
+          border: 2px solid;
+          border-top-color: #1c1c1c;
+          border-left-color: #1c1c1c;
+          border-right-color: #5c5c5c;
+          border-bottom-color: #5c5c5c;
+        }
+        
+        .alttp-stamina-fill {
+          height: 100%;
+          background: #38d838;
+          transition: width 0.1s linear;
+        }
+        
+        .alttp-stamina-meter.low .alttp-stamina-fill {
+          background: #f8b800;
+        }
+        
         .alttp-heart {
           width: 16px;
           height: 16px;
@@ -267,31 +322,9 @@ export const HUD: React.FC<HUDProps> = ({
           pointer-events: none;
         }
         
-        .alttp-rupee-counter {
-          display: flex;
-          align-items: center;
-          gap: 4px;
-        }
-        
-        .alttp-rupee-icon {
-          width: 16px;
-          height: 16px;
-          position: relative;
-        }
-        
-        .alttp-rupee-icon canvas {
-          width: 100%;
-          height: 100%;
-          image-rendering: pixelated;
-        }
-        
-        .alttp-currency-text {
+        .alttp-currency-panel .alttp-currency-amount {
           color: #F8F800;
           text-shadow: 1px 1px 0 #000000;
-          font-family: 'Courier New', monospace;
-          font-size: 12px;
-          min-width: 36px;
-          text-align: right;
           font-weight: bold;
         }
         
@@ -398,23 +431,28 @@ export const HUD: React.FC<HUDProps> = ({
           animation: alttp-heart-beat 2s ease-in-out infinite;
         }
         
-        @keyframes alttp-rupee-collect {
-          0% { 
-            transform: scale(1) rotate(0deg);
-            filter: brightness(1);
-          }
-          50% { 
-            transform: scale(1.2) rotate(180deg);
-            filter: brightness(1.4);
-          }
-          100% { 
-            transform: scale(1) rotate(360deg);
-            filter: brightness(1);
-          }
+        /* New heart container - the row flashes and the new heart pops in */
+        @keyframes alttp-heart-container-flash {
+          0%, 100% { filter: brightness(1); }
+          25%, 75% { filter: brightness(1.6); }
+        }
+        
+        @keyframes alttp-heart-container-pop {
+          0% { transform: scale(0); }
+          60% { transform: scale(1.5); }
+          100% { transform: scale(1); }
         }
         
-        .alttp-rupee-counter.animate {
-          animation: alttp-rupee-collect 0.6s ease-out;
+        .alttp-hearts-container.gained {
+          animation: alttp-heart-container-flash 0.6s ease-in-out 2;
+        }
+        
+        .alttp-heart-slot {
+          display: inline-flex;
+        }
+        
+        .alttp-heart-slot.new {
+          animation: alttp-heart-container-pop 0.5s ease-out;
         }
         
         @keyframes alttp-progress-pulse {
@@ -450,7 +488,7 @@ export const HUD: React.FC<HUDProps> = ({
             height: 14px;
           }
           
-          .alttp-rupee-icon {
+          .alttp-currency-icon {
             width: 14px;
             height: 14px;
           }
@@ -465,7 +503,7 @@ export const HUD: React.FC<HUDProps> = ({
             height: 96px;
           }
           
-          .alttp-currency-text,
+          .alttp-currency-amount,
           .alttp-progress-text {
             font-size: 10px;
           }
@@ -473,8 +511,14 @@ export const HUD: React.FC<HUDProps> = ({
         
         /* ALTTP Accessibility */
         @media (prefers-reduced-motion: reduce) {
+          .alttp-stamina-fill {
+            transition: none;
+          }
+          
           .alttp-heart.full,
-          .alttp-rupee-counter.animate,
+          .alttp-hearts-container.gained,
+          .alttp-heart-slot.new,
+          .alttp-currency-display.animate,
           .alttp-progress-icon {
             animation: none;
           }
@@ -488,7 +532,7 @@ export const HUD: React.FC<HUDProps> = ({
             border-width: 3px;
           }
           
-          .alttp-currency-text,
+          .alttp-currency-panel .alttp-currency-amount,
           .alttp-progress-text,
           .alttp-debug-text {
             color: #ffffff;
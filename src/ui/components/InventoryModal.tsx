@@ -1,44 +1,71 @@
 // Inventory Modal Component - Authentic ALTTP-style item management interface
 // Following UI/UX Designer specifications with ALTTP aesthetics
 
-import React, { useEffect, useRef } from 'react';
-import type { PlayerInventory } from '@shared/types.js';
+import React, { useEffect, useRef, useState } from 'react';
+import type { EquippableItem, PlayerEquipment, PlayerInventory } from '@shared/types.js';
+import { EQUIPPABLE_ITEMS } from '@shared/constants.js';
 import { ALTTPGraphics } from '../utils/ALTTPGraphics.js';
+import { useGamepadButtons } from '../hooks/useGamepadButtons.js';
 
 interface InventoryModalProps {
   inventory: PlayerInventory;
+  equipment: PlayerEquipment;
+  onEquip: (itemType: EquippableItem, slot: keyof PlayerEquipment) => void;
   onClose: () => void;
 }
 
+// The item grid is navigated like ALTTP's item box
+const GRID_COLUMNS = 5;
+
+// Standard gamepad mapping: A equips, Y sets the quick-swap item, d-pad moves the cursor
+const GAMEPAD_EQUIP = 0;
+const GAMEPAD_QUICK_SWAP = 3;
+const GAMEPAD_UP = 12;
+const GAMEPAD_DOWN = 13;
+const GAMEPAD_LEFT = 14;
+const GAMEPAD_RIGHT = 15;
+
 export const InventoryModal: React.FC<InventoryModalProps> = ({
   inventory,
+  equipment,
+  onEquip,
   onClose
 }) => {
+  const [cursor, setCursor] = useState(0);
+
   // ALTTP Item Slot Component
   const ALTTPItemSlot: React.FC<{
     hasItem: boolean;
     itemName: string;
     description: string;
-    index: number;
-  }> = ({ hasItem, itemName, description, index }) => {
+    selected: boolean;
+    badge: string | null;
+    onSelect: () => void;
+  }> = ({ hasItem, itemName, description, selected, badge, onSelect }) => {
     const slotRef = useRef<HTMLDivElement>(null);
     
     useEffect(() => {
       if (slotRef.current) {
-        const slotCanvas = ALTTPGraphics.generateItemSlot(40, hasItem, false);
+        const slotCanvas = ALTTPGraphics.generateItemSlot(40, hasItem, selected);
         slotRef.current.style.backgroundImage = `url(${ALTTPGraphics.canvasToDataURL(slotCanvas)})`;
       }
-    }, [hasItem]);
+    }, [hasItem, selected]);
 
     return (
       <div 
-        className={`alttp-item-slot ${hasItem ? 'obtained' : 'missing'}`}
+        className={`alttp-item-slot ${hasItem ? 'obtained' : 'missing'} ${selected ? 'selected' : ''}`}
         ref={slotRef}
         title={description}
+        role="gridcell"
+        aria-selected={selected}
+        onClick={onSelect}
       >
         <div className="alttp-item-icon">
           {hasItem ? '✓' : '?'}
         </div>
+        {badge && (
+          <div className="alttp-item-badge">{badge}</div>
+        )}
         <div className="alttp-item-tooltip">
           {itemName}
         </div>
@@ -93,6 +120,9 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
     { key: 'kingsbane_sigil', name: 'Kingsbane Sigil', description: 'The final key to victory' }
   ] as const;
 
+  const isEquippable = (key: string): key is EquippableItem =>
+    (EQUIPPABLE_ITEMS as readonly string[]).includes(key);
+
   const handleKeyDown = (event: React.KeyboardEvent) => {
     if (event.key === 'Escape' || event.key === 'i' || event.key === 'I') {
       event.preventDefault();
@@ -100,6 +130,70 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
     }
   };
 
+  // Keyboard and gamepad navigation of the item grid
+  const moveCursor = (dx: number, dy: number) => {
+    setCursor(prev => {
+      const next = prev + dx + dy * GRID_COLUMNS;
+      return next >= 0 && next < progressionItems.length ? next : prev;
+    });
+  };
+
+  // Only items the player owns can be assigned
+  const assign = (slot: keyof PlayerEquipment) => {
+    const item = progressionItems[cursor];
+    if (item && isEquippable(item.key) && inventory[item.key]) {
+      onEquip(item.key, slot);
+    }
+  };
+
+  useGamepadButtons({
+    [GAMEPAD_EQUIP]: () => assign('equipped'),
+    [GAMEPAD_QUICK_SWAP]: () => assign('quickSwap'),
+    [GAMEPAD_UP]: () => moveCursor(0, -1),
+    [GAMEPAD_DOWN]: () => moveCursor(0, 1),
+    [GAMEPAD_LEFT]: () => moveCursor(-1, 0),
+    [GAMEPAD_RIGHT]: () => moveCursor(1, 0)
+  });
+
+  useEffect(() => {
+    const handleNavigation = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case 'ArrowUp':
+        case 'KeyW':
+          moveCursor(0, -1);
+          break;
+        case 'ArrowDown':
+        case 'KeyS':
+          moveCursor(0, 1);
+          break;
+        case 'ArrowLeft':
+        case 'KeyA':
+          moveCursor(-1, 0);
+          break;
+        case 'ArrowRight':
+        case 'KeyD':
+          moveCursor(1, 0);
+          break;
+        case 'Space':
+        case 'Enter':
+          assign('equipped');
+          break;
+        case 'KeyR':
+          assign('quickSwap');
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    document.addEventListener('keydown', handleNavigation);
+    return () => document.removeEventListener('keydown', handleNavigation);
+  }, [cursor, inventory, onEquip]);
+
+  const itemName = (key: EquippableItem | null) =>
+    progressionItems.find(item => item.key === key)?.name.toUpperCase() ?? '---';
+
   return (
     <div 
       className="alttp-inventory-modal"
@@ -120,20 +214,36 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
           {/* Progression Items */}
           <div className="alttp-inventory-section">
             <h3 className="alttp-section-title">EQUIPMENT</h3>
-            <div className="alttp-items-grid">
+            <div className="alttp-items-grid" role="grid">
               {progressionItems.map((item, index) => {
                 const hasItem = inventory[item.key as keyof PlayerInventory] as boolean;
+                const badge = equipment.equipped === item.key ? 'Y' : equipment.quickSwap === item.key ? 'S' : null;
                 return (
                   <ALTTPItemSlot
                     key={item.key}
                     hasItem={hasItem}
                     itemName={hasItem ? item.name : '???'}
                     description={item.description}
-                    index={index}
+                    selected={index === cursor}
+                    badge={badge}
+                    onSelect={() => {
+                      setCursor(index);
+                      if (hasItem && isEquippable(item.key)) onEquip(item.key, 'equipped');
+                    }}
                   />
                 );
               })}
             </div>
+            <div className="alttp-equip-slots">
+              <div className="alttp-equip-slot">
+                <span className="alttp-equip-label">ITEM</span>
+                <span className="alttp-equip-name">{itemName(equipment.equipped)}</span>
+              </div>
+              <div className="alttp-equip-slot">
+                <span className="alttp-equip-label">SWAP</span>
+                <span className="alttp-equip-name">{itemName(equipment.quickSwap)}</span>
+              </div>
+            </div>
           </div>
           
           {/* Collectibles */}
@@ -188,7 +298,7 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
         
         <div className="alttp-inventory-footer">
           <div className="alttp-controls-text">
-            ESC OR I TO CLOSE
+            ARROWS TO SELECT · SPACE TO EQUIP · R TO SET SWAP · ESC OR I TO CLOSE
           </div>
         </div>
       </div>
@@ -333,7 +443,7 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
         
         .alttp-items-grid {
           display: grid;
-          grid-template-columns: repeat(auto-fill, minmax(40px, 1fr));
+          grid-template-columns: repeat(5, 40px);
           gap: 8px;
           padding: 12px;
           background: #2c2c2c;
@@ -371,10 +481,45 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
           border: 1px solid #6c6c6c;
         }
         
-        .alttp-item-slot:hover {
+        .alttp-item-slot:hover,
+        .alttp-item-slot.selected {
           background: #f8f800;
         }
         
+        .alttp-item-badge {
+          position: absolute;
+          top: -2px;
+          right: -2px;
+          background: #f83800;
+          color: #ffffff;
+          font-size: 9px;
+          font-weight: bold;
+          padding: 1px 3px;
+          text-shadow: 1px 1px 0 #000000;
+        }
+        
+        .alttp-equip-slots {
+          display: flex;
+          gap: 8px;
+          margin-top: 8px;
+        }
+        
+        .alttp-equip-slot {
+          flex: 1;
+          display: flex;
+          justify-content: space-between;
+          padding: 6px 8px;
+          background: #2c2c2c;
+          border: 1px solid #4c4c4c;
+          font-size: 11px;
+          color: #ffffff;
+          text-shadow: 1px 1px 0 #000000;
+        }
+        
+        .alttp-equip-label {
+          color: #f8d800;
+        }
+        
         .alttp-item-icon {
           position: absolute;
           top: 50%;
@@ -545,7 +690,7 @@ export const InventoryModal: React.FC<InventoryModalProps> = ({
           }
           
           .alttp-items-grid {
-            grid-template-columns: repeat(auto-fill, minmax(36px, 1fr));
+            grid-template-columns: repeat(5, 36px);
             gap: 6px;
           }
           
@@ -3,6 +3,17 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { ALTTPGraphics } from '../utils/ALTTPGraphics.js';
+import { gameEvents } from '@shared/events.js';
+
+const MANUAL_SAVE_SLOT = 1;
+
+const requestSaveAction = (type: 'save.game.request' | 'load.game.request') => {
+  gameEvents.emit({
+    type,
+    payload: { slot: MANUAL_SAVE_SLOT },
+    timestamp: Date.now()
+  });
+};
 
 interface PauseMenuProps {
   onResume: () => void;
@@ -17,7 +28,8 @@ export const PauseMenu: React.FC<PauseMenuProps> = ({
   
   const menuOptions = [
     { label: 'Resume', action: onResume },
-    { label: 'Save Game', action: () => console.log('Save game') },
+    { label: 'Save Game', action: () => requestSaveAction('save.game.request') },
+    { label: 'Load Game', action: () => requestSaveAction('load.game.request') },
     { label: 'Settings', action: () => console.log('Settings') },
     { label: 'Main Menu', action: onMainMenu }
   ];
@@ -0,0 +1,421 @@
+// Shop Modal Component - ALTTP-style vendor window for buying and selling with Gleam
+// Following UI/UX Designer specifications with ALTTP aesthetics
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ShopView } from '@shared/types.js';
+import { ALTTPCurrencyDisplay } from './ALTTPComponents.js';
+import { useGamepadButtons } from '../hooks/useGamepadButtons.js';
+
+interface ShopModalProps {
+  view: ShopView;
+  message?: string | null;
+  onBuy: (goodId: string) => void;
+  onSell: (item: string) => void;
+  onClose: () => void;
+}
+
+type ShopTab = 'buy' | 'sell';
+
+interface ShopRow {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  detail: string;             // stock left or number owned
+  available: boolean;
+}
+
+// Standard gamepad mapping: A confirms, B backs out, d-pad moves and switches tabs
+const GAMEPAD_CONFIRM = 0;
+const GAMEPAD_BACK = 1;
+const GAMEPAD_UP = 12;
+const GAMEPAD_DOWN = 13;
+const GAMEPAD_LEFT = 14;
+const GAMEPAD_RIGHT = 15;
+
+export const ShopModal: React.FC<ShopModalProps> = ({
+  view,
+  message,
+  onBuy,
+  onSell,
+  onClose
+}) => {
+  const [tab, setTab] = useState<ShopTab>('buy');
+  const [cursor, setCursor] = useState(0);
+  const [confirming, setConfirming] = useState<ShopRow | null>(null);
+
+  const canSell = view.buys.length > 0;
+
+  // Memoized so the keyboard effect below only re-binds when the list - and with it the selected row - changes
+  const rows = useMemo<ShopRow[]>(() => tab === 'buy'
+    ? view.goods.map(good => ({
+        id: good.id,
+        name: good.name,
+        description: good.description,
+        price: good.price,
+        detail: good.remaining === null ? '' : good.remaining > 0 ? `×${good.remaining}` : 'SOLD OUT',
+        available: good.remaining !== 0 && view.gleam >= good.price
+      }))
+    : view.buys.map(offer => ({
+        id: offer.item,
+        name: offer.name,
+        description: `You have ${offer.owned}`,
+        price: offer.price,
+        detail: `×${offer.owned}`,
+        available: offer.owned > 0
+      })), [tab, view]);
+
+  const selected = rows[Math.min(cursor, rows.length - 1)];
+
+  // Keyboard and gamepad navigation, with a yes/no step before any trade
+  const moveCursor = (step: number) => {
+    if (confirming || rows.length === 0) return;
+    setCursor(prev => (prev + step + rows.length) % rows.length);
+  };
+
+  const switchTab = () => {
+    if (confirming || !canSell) return;
+    setTab(prev => (prev === 'buy' ? 'sell' : 'buy'));
+    setCursor(0);
+  };
+
+  const confirm = () => {
+    if (confirming) {
+      if (tab === 'buy') onBuy(confirming.id);
+      else onSell(confirming.id);
+      setConfirming(null);
+    } else if (selected?.available) {
+      setConfirming(selected);
+    }
+  };
+
+  const back = () => {
+    if (confirming) setConfirming(null);
+    else onClose();
+  };
+
+  useGamepadButtons({
+    [GAMEPAD_CONFIRM]: confirm,
+    [GAMEPAD_BACK]: back,
+    [GAMEPAD_UP]: () => moveCursor(-1),
+    [GAMEPAD_DOWN]: () => moveCursor(1),
+    [GAMEPAD_LEFT]: switchTab,
+    [GAMEPAD_RIGHT]: switchTab
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case 'ArrowUp':
+        case 'KeyW':
+          moveCursor(-1);
+          break;
+        case 'ArrowDown':
+        case 'KeyS':
+          moveCursor(1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'KeyA':
+        case 'KeyD':
+        case 'Tab':
+          switchTab();
+          break;
+        case 'Space':
+        case 'Enter':
+          confirm();
+          break;
+        case 'Escape':
+          back();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    // Capture phase so App's Escape handling never sees keys meant for the shop
+    document.addEventListener('keydown', handleKeyDown, true);
+
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [tab, rows, selected, confirming, canSell, onBuy, onSell, onClose]);
+
+  return (
+    <div className="alttp-shop-modal">
+      <div className="alttp-modal-backdrop" onClick={onClose} />
+
+      <div className="alttp-shop-content" role="dialog" aria-label={view.name}>
+        <div className="alttp-shop-header">
+          <div>
+            <h2 className="alttp-shop-title">{view.name.toUpperCase()}</h2>
+            <div className="alttp-shop-keeper">{view.keeper}</div>
+          </div>
+          <ALTTPCurrencyDisplay amount={view.gleam} />
+        </div>
+
+        {view.greeting && <div className="alttp-shop-greeting">{view.greeting}</div>}
+
+        {canSell && (
+          <div className="alttp-shop-tabs" role="tablist">
+            {(['buy', 'sell'] as const).map(candidate => (
+              <button
+                key={candidate}
+                role="tab"
+                aria-selected={tab === candidate}
+                className={`alttp-shop-tab ${tab === candidate ? 'selected' : ''}`}
+                onClick={() => {
+                  setTab(candidate);
+                  setCursor(0);
+                  setConfirming(null);
+                }}
+              >
+                {candidate.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <ul className="alttp-shop-list" role="listbox">
+          {rows.map((row, index) => (
+            <li
+              key={row.id}
+              role="option"
+              aria-selected={row === selected}
+              aria-disabled={!row.available}
+              className={`alttp-shop-row ${row === selected ? 'selected' : ''} ${row.available ? '' : 'unavailable'}`}
+              onMouseEnter={() => !confirming && setCursor(index)}
+              onClick={() => row.available && setConfirming(row)}
+            >
+              <span className="alttp-choice-cursor">{row === selected ? '▶' : ''}</span>
+              <span className="alttp-shop-name">{row.name}</span>
+              <span className="alttp-shop-detail">{row.detail}</span>
+              <span className="alttp-shop-price">{row.price}</span>
+            </li>
+          ))}
+          {rows.length === 0 && <li className="alttp-shop-empty">Nothing to trade.</li>}
+        </ul>
+
+        <div className="alttp-shop-description">
+          {confirming ? (
+            <div className="alttp-shop-confirm">
+              <span>
+                {tab === 'buy' ? 'Buy' : 'Sell'} {confirming.name} for {confirming.price} Gleam?
+              </span>
+              <button
+                className="alttp-shop-confirm-button"
+                onClick={() => {
+                  if (tab === 'buy') onBuy(confirming.id);
+                  else onSell(confirming.id);
+                  setConfirming(null);
+                }}
+              >
+                YES
+              </button>
+              <button className="alttp-shop-confirm-button" onClick={() => setConfirming(null)}>
+                NO
+              </button>
+            </div>
+          ) : (
+            message ?? selected?.description ?? ''
+          )}
+        </div>
+
+        <div className="alttp-shop-footer">
+          ARROWS TO SELECT · SPACE TO {tab === 'buy' ? 'BUY' : 'SELL'}{canSell ? ' · ←→ BUY/SELL' : ''} · ESC TO LEAVE
+        </div>
+      </div>
+
+      <style>{`
+        .alttp-shop-modal {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 200;
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          font-family: 'Courier New', 'Monaco', monospace;
+          image-rendering: pixelated;
+          -webkit-font-smoothing: none;
+        }
+
+        .alttp-shop-modal .alttp-modal-backdrop {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: rgba(0, 0, 0, 0.85);
+          cursor: pointer;
+        }
+
+        .alttp-shop-content {
+          position: relative;
+          width: 90%;
+          max-width: 520px;
+          background: #3c3c3c;
+          border: 4px solid;
+          border-top-color: #9c9c9c;
+          border-left-color: #9c9c9c;
+          border-right-color: #1c1c1c;
+          border-bottom-color: #1c1c1c;
+          box-shadow:
+            0 0 0 2px #4c4c4c,
+            4px 4px 12px rgba(0, 0, 0, 0.8);
+          color: #ffffff;
+          text-shadow: 1px 1px 0 #000000;
+        }
+
+        .alttp-shop-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 12px 20px;
+          background: linear-gradient(135deg, #6c6c6c 0%, #4c4c4c 100%);
+          border-bottom: 2px solid #1c1c1c;
+        }
+
+        .alttp-shop-title {
+          margin: 0;
+          font-size: 16px;
+          letter-spacing: 2px;
+          text-shadow: 2px 2px 0 #000000;
+        }
+
+        .alttp-shop-keeper {
+          font-size: 11px;
+          color: #f8d800;
+        }
+
+        .alttp-shop-header .alttp-currency-amount {
+          color: #f8f800;
+          font-weight: bold;
+        }
+
+        .alttp-shop-greeting {
+          padding: 10px 20px 0;
+          font-size: 12px;
+          font-style: italic;
+        }
+
+        .alttp-shop-tabs {
+          display: flex;
+          gap: 8px;
+          padding: 10px 20px 0;
+        }
+
+        .alttp-shop-tab {
+          flex: 1;
+          padding: 4px 0;
+          background: #2c2c2c;
+          border: 2px solid #4c4c4c;
+          color: #9c9c9c;
+          font-family: inherit;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .alttp-shop-tab.selected {
+          color: #ffffff;
+          border-color: #f8d800;
+        }
+
+        .alttp-shop-list {
+          list-style: none;
+          margin: 10px 20px;
+          padding: 8px;
+          background: #2c2c2c;
+          border: 2px solid;
+          border-top-color: #1c1c1c;
+          border-left-color: #1c1c1c;
+          border-right-color: #4c4c4c;
+          border-bottom-color: #4c4c4c;
+        }
+
+        .alttp-shop-row {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 4px;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .alttp-shop-row.selected {
+          background: #4c4c4c;
+        }
+
+        .alttp-shop-row.unavailable {
+          color: #7c7c7c;
+        }
+
+        .alttp-shop-name {
+          flex: 1;
+        }
+
+        .alttp-shop-detail {
+          font-size: 10px;
+          color: #c8c8c8;
+        }
+
+        .alttp-shop-price {
+          min-width: 36px;
+          text-align: right;
+          color: #f8f800;
+          font-weight: bold;
+        }
+
+        .alttp-shop-row.unavailable .alttp-shop-price {
+          color: #7c7c7c;
+        }
+
+        .alttp-shop-empty {
+          font-size: 12px;
+          color: #9c9c9c;
+        }
+
+        .alttp-shop-description {
+          min-height: 32px;
+          margin: 0 20px 10px;
+          font-size: 12px;
+        }
+
+        .alttp-shop-confirm {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .alttp-shop-confirm span {
+          flex: 1;
+        }
+
+        .alttp-shop-confirm-button {
+          padding: 2px 10px;
+          background: linear-gradient(135deg, #8c8c8c 0%, #5c5c5c 100%);
+          border: 2px solid;
+          border-top-color: #9c9c9c;
+          border-left-color: #9c9c9c;
+          border-right-color: #1c1c1c;
+          border-bottom-color: #1c1c1c;
+          color: #ffffff;
+          font-family: inherit;
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .alttp-shop-footer {
+          padding: 10px 20px;
+          background: linear-gradient(135deg, #6c6c6c 0%, #4c4c4c 100%);
+          border-top: 2px solid #1c1c1c;
+          text-align: center;
+          font-size: 11px;
+          letter-spacing: 1px;
+        }
+      `}</style>
+    </div>
+  );
+};
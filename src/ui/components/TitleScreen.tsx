@@ -0,0 +1,201 @@
+// Title Screen - ALTTP-style Continue / New Game choice shown after quitting the world
+// Following UI/UX Designer specifications with ALTTP aesthetics
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useGamepadButtons } from '../hooks/useGamepadButtons.js';
+
+// Standard gamepad mapping: A or Start confirms, d-pad moves
+const GAMEPAD_CONFIRM = 0;
+const GAMEPAD_START = 9;
+const GAMEPAD_UP = 12;
+const GAMEPAD_DOWN = 13;
+
+interface TitleScreenProps {
+  onContinue: () => void;
+  onNewGame: () => void;
+}
+
+export const TitleScreen: React.FC<TitleScreenProps> = ({
+  onContinue,
+  onNewGame
+}) => {
+  const [selectedOption, setSelectedOption] = useState(0);
+
+  const menuOptions = useMemo(() => [
+    { label: 'Continue', action: onContinue },
+    { label: 'New Game', action: onNewGame }
+  ], [onContinue, onNewGame]);
+
+  // Handle keyboard and gamepad navigation
+  const moveSelection = () => {
+    setSelectedOption(prev => (prev + 1) % menuOptions.length);
+  };
+
+  useGamepadButtons({
+    [GAMEPAD_CONFIRM]: () => menuOptions[selectedOption].action(),
+    [GAMEPAD_START]: () => menuOptions[selectedOption].action(),
+    [GAMEPAD_UP]: moveSelection,
+    [GAMEPAD_DOWN]: moveSelection
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      switch (event.code) {
+        case 'ArrowUp':
+        case 'KeyW':
+        case 'ArrowDown':
+        case 'KeyS':
+          event.preventDefault();
+          moveSelection();
+          break;
+
+        case 'Enter':
+        case 'Space':
+          event.preventDefault();
+          menuOptions[selectedOption].action();
+          break;
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedOption, menuOptions]);
+
+  return (
+    <div className="alttp-title-screen">
+      <div className="alttp-title-backdrop" />
+
+      <div className="alttp-title-content">
+        <h1 className="alttp-title-logo">ECHOES OF AERIA</h1>
+
+        <div className="alttp-title-options">
+          {menuOptions.map((option, index) => (
+            <div
+              key={option.label}
+              className={`alttp-title-option ${index === selectedOption ? 'selected' : ''}`}
+              onClick={option.action}
+              onMouseEnter={() => setSelectedOption(index)}
+            >
+              <div className="alttp-title-cursor">
+                {index === selectedOption && <div className="alttp-title-arrow" />}
+              </div>
+              <div className="alttp-title-text">
+                {option.label.toUpperCase()}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <style>{`
+        .alttp-title-screen {
+          position: fixed;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          z-index: 400;
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          font-family: 'Courier New', 'Monaco', monospace;
+          image-rendering: pixelated;
+          -webkit-font-smoothing: none;
+        }
+
+        .alttp-title-backdrop {
+          position: absolute;
+          top: 0;
+          left: 0;
+          width: 100%;
+          height: 100%;
+          background: radial-gradient(circle, rgba(24, 40, 96, 0.9) 0%, rgba(0, 0, 0, 1) 75%);
+          animation: alttp-title-fade 800ms ease-out;
+        }
+
+        .alttp-title-content {
+          position: relative;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 40px;
+          animation: alttp-title-fade 800ms ease-out;
+        }
+
+        .alttp-title-logo {
+          margin: 0;
+          color: #f8d800;
+          font-family: 'Courier New', monospace;
+          font-size: 32px;
+          letter-spacing: 6px;
+          text-shadow: 3px 3px 0 #884400, 4px 4px 0 #000000;
+        }
+
+        .alttp-title-options {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          min-width: 240px;
+        }
+
+        .alttp-title-option {
+          display: flex;
+          align-items: center;
+          padding: 10px 16px;
+          background: #3c3c3c;
+          border: 2px solid;
+          border-top-color: #6c6c6c;
+          border-left-color: #6c6c6c;
+          border-right-color: #1c1c1c;
+          border-bottom-color: #1c1c1c;
+          color: #ffffff;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        .alttp-title-option:hover,
+        .alttp-title-option.selected {
+          background: #f8f800;
+          color: #000000;
+        }
+
+        .alttp-title-cursor {
+          width: 20px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        }
+
+        .alttp-title-arrow {
+          width: 0;
+          height: 0;
+          border: 6px solid transparent;
+          border-left: 8px solid currentColor;
+        }
+
+        .alttp-title-text {
+          flex: 1;
+          letter-spacing: 1px;
+          text-shadow: 1px 1px 0 #000000;
+        }
+
+        .alttp-title-option.selected .alttp-title-text {
+          text-shadow: none;
+        }
+
+        @keyframes alttp-title-fade {
+          0% { opacity: 0; }
+          100% { opacity: 1; }
+        }
+
+        /* ALTTP Reduced motion */
+        @media (prefers-reduced-motion: reduce) {
+          .alttp-title-backdrop,
+          .alttp-title-content {
+            animation: none;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+// Gamepad Buttons Hook - Fresh-press polling for React menus and modals
+// Following UI/UX Designer specifications; keyboard input stays with each component's keydown handler
+
+import { useEffect, useRef } from 'react';
+
+// Standard gamepad mapping button index -> action
+export type GamepadButtonHandlers = Partial<Record<number, () => void>>;
+
+/**
+ * Call a handler once per press of a gamepad button while the component is mounted.
+ * Gamepads have no DOM events, so the first connected pad is polled every animation frame;
+ * buttons already held on mount (the A that opened the window) must be released first.
+ */
+export function useGamepadButtons(handlers: GamepadButtonHandlers): void {
+  // Handlers close over the latest render, the polling loop runs once per mount
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const readPad = () => navigator.getGamepads?.().find(candidate => candidate !== null) ?? null;
+    const pressed = new Set<number>();
+
+    readPad()?.buttons.forEach((button, index) => {
+      if (button.pressed) pressed.add(index);
+    });
+
+    let frameId = 0;
+    const poll = () => {
+      readPad()?.buttons.forEach((button, index) => {
+        if (button.pressed && !pressed.has(index)) handlersRef.current[index]?.();
+        if (button.pressed) pressed.add(index);
+        else pressed.delete(index);
+      });
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+}